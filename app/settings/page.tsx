@@ -0,0 +1,32 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { ChevronLeft } from "lucide-react"
+import ParentSettings from "@/components/parent-settings"
+
+export default function SettingsPage() {
+  const router = useRouter()
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md min-h-screen bg-gradient-to-b from-yellow-50 to-blue-50">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          className="flex items-center text-purple-600 hover:text-purple-800 hover:bg-purple-100 -ml-2"
+          onClick={() => router.push("/")}
+        >
+          <ChevronLeft className="mr-1" size={20} />
+          Back to My Sounds
+        </Button>
+      </div>
+
+      <div className="text-center mb-8">
+        <h1 className="text-4xl font-bold text-purple-600 mb-2">Audiology</h1>
+        <p className="text-blue-500">Parent Settings</p>
+      </div>
+
+      <ParentSettings />
+    </div>
+  )
+}
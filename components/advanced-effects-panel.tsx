@@ -1,51 +1,332 @@
 "use client"
 
-import { useState } from "react"
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { type DragEvent, useState } from "react"
 import { Slider } from "@/components/ui/slider"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
-  Repeat,
-  Zap,
-  Users,
-  Wind,
-  Waves,
-  Music,
-  NetworkIcon as VoiceNetwork,
-  Timer,
-  Gauge,
-  Sparkles,
   RotateCcw,
+  Plus,
+  GripVertical,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Trash2,
+  HelpCircle,
 } from "lucide-react"
-import { type AdvancedAudioEffects, defaultAdvancedEffects } from "@/lib/advanced-audio-effects"
+import {
+  type AdvancedAudioEffects,
+  type AdvancedEffect,
+  createAdvancedEffect,
+  defaultAdvancedEffects,
+  duplicateAdvancedEffect,
+} from "@/lib/advanced-audio-effects"
+import type { InsertPoint } from "@/lib/audio-effects"
+import { hasLane } from "@/lib/automation"
+import NoiseProfileControl from "./noise-profile-control"
+import {
+  type EffectParamDescriptor,
+  type EffectParamValue,
+  type NumberParamDescriptor,
+  getEffectDefinition,
+  getEffectDefinitions,
+} from "@/lib/effects"
+
+const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
+
+const insertPointOptions: Array<{ value: InsertPoint; label: string }> = [
+  { value: "preEq", label: "Before EQ" },
+  { value: "postEq", label: "After EQ" },
+  { value: "postReverb", label: "After reverb" },
+]
+
+// Slider positions for logarithmic parameters
+const LOG_SLIDER_STEPS = 1000
+
+// Show a number with the precision of its step, e.g. 0.01 -> "0.30"
+const formatNumberParam = (descriptor: NumberParamDescriptor, value: number): string => {
+  if (descriptor.format) return descriptor.format(value)
+  const decimals = (descriptor.step.toString().split(".")[1] ?? "").length
+  return `${value.toFixed(decimals)}${descriptor.unit ?? ""}`
+}
+
+// Map between a parameter value and its slider position
+const toSliderPosition = (descriptor: NumberParamDescriptor, value: number): number =>
+  descriptor.scale === "log"
+    ? (Math.log(value / descriptor.min) / Math.log(descriptor.max / descriptor.min)) * LOG_SLIDER_STEPS
+    : value
+
+const fromSliderPosition = (descriptor: NumberParamDescriptor, position: number): number => {
+  if (descriptor.scale !== "log") return position
+  const value = descriptor.min * Math.pow(descriptor.max / descriptor.min, position / LOG_SLIDER_STEPS)
+  return Math.round(value / descriptor.step) * descriptor.step
+}
+
+interface EffectParamControlProps {
+  effect: AdvancedEffect
+  name: string
+  descriptor: EffectParamDescriptor
+  audioBlob?: Blob
+  onChange: (value: EffectParamValue) => void
+}
+
+// Control for one parameter, chosen by the descriptor's kind
+function EffectParamControl({ effect, name, descriptor, audioBlob, onChange }: EffectParamControlProps) {
+  const id = `${effect.id}-${name}`
+  const value = effect.params[name]
+
+  switch (descriptor.kind) {
+    case "number": {
+      const logScale = descriptor.scale === "log"
+      // An automation lane drives the parameter instead of the slider
+      const automated = hasLane(effect.automation, name)
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">{descriptor.label}</Label>
+            <span className="text-xs text-gray-500">
+              {automated ? "Automated" : formatNumberParam(descriptor, value as number)}
+            </span>
+          </div>
+          <Slider
+            disabled={!effect.enabled || automated}
+            value={[toSliderPosition(descriptor, value as number)]}
+            min={logScale ? 0 : descriptor.min}
+            max={logScale ? LOG_SLIDER_STEPS : descriptor.max}
+            step={logScale ? 1 : descriptor.step}
+            onValueChange={(position) => onChange(fromSliderPosition(descriptor, position[0]))}
+          />
+          {descriptor.marks && (
+            <div className="flex justify-between text-xs text-gray-500 px-1">
+              {descriptor.marks.map((mark) => (
+                <span key={mark}>{mark}</span>
+              ))}
+            </div>
+          )}
+        </div>
+      )
+    }
+
+    case "boolean":
+      return (
+        <div className="flex items-center justify-between">
+          <Label htmlFor={id} className="text-sm">
+            {descriptor.label}
+          </Label>
+          <Switch
+            id={id}
+            disabled={!effect.enabled}
+            checked={value as boolean}
+            onCheckedChange={(checked) => onChange(checked)}
+          />
+        </div>
+      )
+
+    case "choice": {
+      // Options are matched by their string form, so numeric values survive the round trip
+      const selectOption = (selected: string) => {
+        const option = descriptor.options.find((candidate) => String(candidate.value) === selected)
+        if (option) onChange(option.value)
+      }
+
+      if (descriptor.control === "select") {
+        return (
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">{descriptor.label}</Label>
+            <Select disabled={!effect.enabled} value={String(value)} onValueChange={selectOption}>
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {descriptor.options.map((option) => (
+                  <SelectItem key={String(option.value)} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )
+      }
+
+      return (
+        <div className="space-y-2">
+          <Label className="text-sm">{descriptor.label}</Label>
+          <RadioGroup
+            disabled={!effect.enabled}
+            value={String(value)}
+            onValueChange={selectOption}
+            className="flex flex-wrap gap-x-4 gap-y-2"
+          >
+            {descriptor.options.map((option) => (
+              <div key={String(option.value)} className="flex items-center space-x-2">
+                <RadioGroupItem value={String(option.value)} id={`${id}-${option.value}`} />
+                <Label htmlFor={`${id}-${option.value}`} className="cursor-pointer">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )
+    }
+
+    case "notes": {
+      const notes = value as number[]
+      const root = descriptor.rootParam ? Number(effect.params[descriptor.rootParam]) : 0
+
+      // Add or remove a note (semitone offset from the root)
+      const toggleNote = (offset: number) => {
+        onChange(
+          notes.includes(offset) ? notes.filter((note) => note !== offset) : [...notes, offset].sort((a, b) => a - b),
+        )
+      }
+
+      return (
+        <div className="space-y-2">
+          <Label className="text-sm">{descriptor.label}</Label>
+          <div className="grid grid-cols-6 gap-1">
+            {noteNames.map((_, offset) => {
+              const selected = notes.includes(offset)
+              return (
+                <Button
+                  key={offset}
+                  variant="outline"
+                  size="sm"
+                  disabled={!effect.enabled}
+                  className={`h-7 px-0 text-xs ${
+                    selected ? "bg-purple-200 border-purple-300" : "bg-white hover:bg-gray-100 border-purple-200"
+                  }`}
+                  onClick={() => toggleNote(offset)}
+                >
+                  {noteNames[(root + offset) % 12]}
+                </Button>
+              )
+            })}
+          </div>
+        </div>
+      )
+    }
+
+    case "noiseProfile":
+      return (
+        <NoiseProfileControl
+          label={descriptor.label}
+          audioBlob={audioBlob}
+          profile={value as number[]}
+          disabled={!effect.enabled}
+          onChange={onChange}
+        />
+      )
+  }
+}
 
 interface AdvancedEffectsPanelProps {
   effects: AdvancedAudioEffects
   onChange: (effects: AdvancedAudioEffects) => void
+  // Where the chain sits in the basic effects (pitch -> EQ -> reverb)
+  insertPoint: InsertPoint
+  onInsertPointChange: (insertPoint: InsertPoint) => void
+  // Recording the effects are heard on, for effects that learn from it
+  audioBlob?: Blob
 }
 
-export default function AdvancedEffectsPanel({ effects, onChange }: AdvancedEffectsPanelProps) {
-  const [activeTab, setActiveTab] = useState<string>("echo")
+export default function AdvancedEffectsPanel({
+  effects,
+  onChange,
+  insertPoint,
+  onInsertPointChange,
+  audioBlob,
+}: AdvancedEffectsPanelProps) {
+  const effectDefinitions = getEffectDefinitions()
+  const [newEffectType, setNewEffectType] = useState<string>(effectDefinitions[0]?.type ?? "")
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
 
   const handleReset = () => {
-    onChange({ ...defaultAdvancedEffects })
+    onChange([...defaultAdvancedEffects])
+    setExpandedId(null)
+  }
+
+  const addEffect = () => {
+    const effect = createAdvancedEffect(newEffectType)
+    onChange([...effects, effect])
+    setExpandedId(effect.id)
+  }
+
+  const updateEffect = (id: string, changes: Partial<Pick<AdvancedEffect, "enabled" | "bypass">>) => {
+    onChange(effects.map((effect) => (effect.id === id ? { ...effect, ...changes } : effect)))
   }
 
-  const updateEffect = <K extends keyof AdvancedAudioEffects, P extends keyof AdvancedAudioEffects[K]>(
-    effect: K,
-    param: P,
-    value: AdvancedAudioEffects[K][P],
-  ) => {
-    onChange({
-      ...effects,
-      [effect]: {
-        ...effects[effect],
-        [param]: value,
-      },
-    })
+  const updateParam = (effect: AdvancedEffect, name: string, value: EffectParamValue) => {
+    const params = { ...effect.params, [name]: value }
+    onChange(effects.map((current) => (current.id === effect.id ? { ...effect, params } : current)))
+  }
+
+  // Insert a copy right after the original
+  const duplicateEffect = (index: number) => {
+    const copy = duplicateAdvancedEffect(effects[index])
+    onChange([...effects.slice(0, index + 1), copy, ...effects.slice(index + 1)])
+  }
+
+  const removeEffect = (id: string) => {
+    onChange(effects.filter((effect) => effect.id !== id))
+  }
+
+  const moveEffect = (fromIndex: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= effects.length || fromIndex === toIndex) return
+    const reordered = [...effects]
+    const [moved] = reordered.splice(fromIndex, 1)
+    reordered.splice(toIndex, 0, moved)
+    onChange(reordered)
+  }
+
+  // Drag to reorder: effects are picked up by their handle and dropped on another effect
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, id: string) => {
+    setDraggedId(id)
+    event.dataTransfer.effectAllowed = "move"
+    const card = event.currentTarget.closest("[data-effect-card]")
+    if (card) {
+      event.dataTransfer.setDragImage(card, 16, 16)
+    }
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, index: number) => {
+    event.preventDefault()
+    const fromIndex = effects.findIndex((effect) => effect.id === draggedId)
+    if (fromIndex >= 0) {
+      moveEffect(fromIndex, index)
+    }
+    setDraggedId(null)
+  }
+
+  // Controls generated from the effect's parameter descriptors
+  const renderEffectParams = (effect: AdvancedEffect) => {
+    const definition = getEffectDefinition(effect.type)
+    if (!definition) {
+      return <p className="text-xs text-gray-500">This effect is not available.</p>
+    }
+
+    return (
+      <div className="space-y-4">
+        {Object.entries(definition.params)
+          .filter(([, descriptor]) => !descriptor.visible || descriptor.visible(effect.params))
+          .map(([name, descriptor]) => (
+            <EffectParamControl
+              key={name}
+              effect={effect}
+              name={name}
+              descriptor={descriptor}
+              audioBlob={audioBlob}
+              onChange={(value) => updateParam(effect, name, value)}
+            />
+          ))}
+      </div>
+    )
   }
 
   return (
@@ -63,690 +344,147 @@ export default function AdvancedEffectsPanel({ effects, onChange }: AdvancedEffe
         </Button>
       </div>
 
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid grid-cols-5 mb-4 rounded-xl bg-white h-auto p-1">
-          <TabsTrigger
-            value="echo"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Repeat className="w-4 h-4" />
-            <span className="text-[10px]">Echo</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="distortion"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Zap className="w-4 h-4" />
-            <span className="text-[10px]">Distort</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="chorus"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Users className="w-4 h-4" />
-            <span className="text-[10px]">Chorus</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="flanger"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Wind className="w-4 h-4" />
-            <span className="text-[10px]">Flanger</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="phaser"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Waves className="w-4 h-4" />
-            <span className="text-[10px]">Phaser</span>
-          </TabsTrigger>
-        </TabsList>
-
-        <TabsList className="grid grid-cols-5 mb-4 rounded-xl bg-white h-auto p-1">
-          <TabsTrigger
-            value="autotune"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Music className="w-4 h-4" />
-            <span className="text-[10px]">AutoTune</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="formant"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <VoiceNetwork className="w-4 h-4" />
-            <span className="text-[10px]">Formant</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="timestretch"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Timer className="w-4 h-4" />
-            <span className="text-[10px]">Time</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="compression"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Gauge className="w-4 h-4" />
-            <span className="text-[10px]">Compress</span>
-          </TabsTrigger>
-          <TabsTrigger
-            value="granular"
-            className="rounded-lg data-[state=active]:bg-purple-500 data-[state=active]:text-white py-1 px-2 h-auto flex flex-col items-center gap-1"
-          >
-            <Sparkles className="w-4 h-4" />
-            <span className="text-[10px]">Granular</span>
-          </TabsTrigger>
-        </TabsList>
-
-        {/* Echo Effect */}
-        <TabsContent value="echo" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="echo-enabled" className="font-medium">
-              Echo Effect
-            </Label>
-            <Switch
-              id="echo-enabled"
-              checked={effects.echo.enabled}
-              onCheckedChange={(checked) => updateEffect("echo", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Delay Time</Label>
-                <span className="text-xs text-gray-500">{effects.echo.delayTime.toFixed(2)}s</span>
-              </div>
-              <Slider
-                disabled={!effects.echo.enabled}
-                value={[effects.echo.delayTime]}
-                min={0.1}
-                max={1.0}
-                step={0.01}
-                onValueChange={(value) => updateEffect("echo", "delayTime", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Feedback</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.echo.feedback * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.echo.enabled}
-                value={[effects.echo.feedback]}
-                min={0}
-                max={0.9}
-                step={0.01}
-                onValueChange={(value) => updateEffect("echo", "feedback", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Mix</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.echo.mix * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.echo.enabled}
-                value={[effects.echo.mix]}
-                min={0}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("echo", "mix", value[0])}
-              />
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Distortion Effect */}
-        <TabsContent value="distortion" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="distortion-enabled" className="font-medium">
-              Distortion Effect
-            </Label>
-            <Switch
-              id="distortion-enabled"
-              checked={effects.distortion.enabled}
-              onCheckedChange={(checked) => updateEffect("distortion", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Amount</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.distortion.amount)}</span>
-              </div>
-              <Slider
-                disabled={!effects.distortion.enabled}
-                value={[effects.distortion.amount]}
-                min={0}
-                max={100}
-                step={1}
-                onValueChange={(value) => updateEffect("distortion", "amount", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label className="text-sm">Oversample</Label>
-              <RadioGroup
-                disabled={!effects.distortion.enabled}
-                value={effects.distortion.oversample}
-                onValueChange={(value) => updateEffect("distortion", "oversample", value as "2x" | "4x" | "none")}
-                className="flex gap-4"
-              >
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="none" id="none" />
-                  <Label htmlFor="none" className="cursor-pointer">
-                    None
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="2x" id="2x" />
-                  <Label htmlFor="2x" className="cursor-pointer">
-                    2x
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="4x" id="4x" />
-                  <Label htmlFor="4x" className="cursor-pointer">
-                    4x
-                  </Label>
-                </div>
-              </RadioGroup>
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Chorus Effect */}
-        <TabsContent value="chorus" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="chorus-enabled" className="font-medium">
-              Chorus Effect
-            </Label>
-            <Switch
-              id="chorus-enabled"
-              checked={effects.chorus.enabled}
-              onCheckedChange={(checked) => updateEffect("chorus", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Rate</Label>
-                <span className="text-xs text-gray-500">{effects.chorus.rate.toFixed(1)} Hz</span>
-              </div>
-              <Slider
-                disabled={!effects.chorus.enabled}
-                value={[effects.chorus.rate]}
-                min={0.1}
-                max={8}
-                step={0.1}
-                onValueChange={(value) => updateEffect("chorus", "rate", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Depth</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.chorus.depth * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.chorus.enabled}
-                value={[effects.chorus.depth]}
-                min={0}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("chorus", "depth", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Mix</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.chorus.mix * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.chorus.enabled}
-                value={[effects.chorus.mix]}
-                min={0}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("chorus", "mix", value[0])}
-              />
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Flanger Effect */}
-        <TabsContent value="flanger" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="flanger-enabled" className="font-medium">
-              Flanger Effect
-            </Label>
-            <Switch
-              id="flanger-enabled"
-              checked={effects.flanger.enabled}
-              onCheckedChange={(checked) => updateEffect("flanger", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Delay</Label>
-                <span className="text-xs text-gray-500">{effects.flanger.delay.toFixed(3)}s</span>
-              </div>
-              <Slider
-                disabled={!effects.flanger.enabled}
-                value={[effects.flanger.delay]}
-                min={0.001}
-                max={0.02}
-                step={0.001}
-                onValueChange={(value) => updateEffect("flanger", "delay", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Depth</Label>
-                <span className="text-xs text-gray-500">{effects.flanger.depth.toFixed(3)}s</span>
-              </div>
-              <Slider
-                disabled={!effects.flanger.enabled}
-                value={[effects.flanger.depth]}
-                min={0.001}
-                max={0.01}
-                step={0.001}
-                onValueChange={(value) => updateEffect("flanger", "depth", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Rate</Label>
-                <span className="text-xs text-gray-500">{effects.flanger.rate.toFixed(1)} Hz</span>
-              </div>
-              <Slider
-                disabled={!effects.flanger.enabled}
-                value={[effects.flanger.rate]}
-                min={0.1}
-                max={5}
-                step={0.1}
-                onValueChange={(value) => updateEffect("flanger", "rate", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Feedback</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.flanger.feedback * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.flanger.enabled}
-                value={[effects.flanger.feedback]}
-                min={0}
-                max={0.9}
-                step={0.01}
-                onValueChange={(value) => updateEffect("flanger", "feedback", value[0])}
-              />
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Phaser Effect */}
-        <TabsContent value="phaser" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="phaser-enabled" className="font-medium">
-              Phaser Effect
-            </Label>
-            <Switch
-              id="phaser-enabled"
-              checked={effects.phaser.enabled}
-              onCheckedChange={(checked) => updateEffect("phaser", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Rate</Label>
-                <span className="text-xs text-gray-500">{effects.phaser.rate.toFixed(1)} Hz</span>
-              </div>
-              <Slider
-                disabled={!effects.phaser.enabled}
-                value={[effects.phaser.rate]}
-                min={0.1}
-                max={8}
-                step={0.1}
-                onValueChange={(value) => updateEffect("phaser", "rate", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Depth</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.phaser.depth * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.phaser.enabled}
-                value={[effects.phaser.depth]}
-                min={0}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("phaser", "depth", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Feedback</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.phaser.feedback * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.phaser.enabled}
-                value={[effects.phaser.feedback]}
-                min={0}
-                max={0.9}
-                step={0.01}
-                onValueChange={(value) => updateEffect("phaser", "feedback", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Stages</Label>
-                <span className="text-xs text-gray-500">{effects.phaser.stages}</span>
-              </div>
-              <Slider
-                disabled={!effects.phaser.enabled}
-                value={[effects.phaser.stages]}
-                min={2}
-                max={12}
-                step={2}
-                onValueChange={(value) => updateEffect("phaser", "stages", value[0])}
-              />
-            </div>
-          </div>
-        </TabsContent>
+      <div className="flex items-center justify-between mb-3">
+        <Label className="text-sm">Insert chain</Label>
+        <Select value={insertPoint} onValueChange={(value) => onInsertPointChange(value as InsertPoint)}>
+          <SelectTrigger className="w-36 h-8 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {insertPointOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
 
-        {/* Auto-Tune Effect */}
-        <TabsContent value="autotune" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="autotune-enabled" className="font-medium">
-              Auto-Tune Effect
-            </Label>
-            <Switch
-              id="autotune-enabled"
-              checked={effects.autoTune.enabled}
-              onCheckedChange={(checked) => updateEffect("autoTune", "enabled", checked)}
-            />
-          </div>
+      <div className="flex items-center gap-2 mb-4">
+        <Select value={newEffectType} onValueChange={setNewEffectType}>
+          <SelectTrigger className="flex-1 h-9 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {effectDefinitions.map((definition) => (
+              <SelectItem key={definition.type} value={definition.type}>
+                {definition.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={addEffect} className="bg-purple-500 hover:bg-purple-600 flex items-center gap-1">
+          <Plus size={14} />
+          Add
+        </Button>
+      </div>
 
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label className="text-sm">Scale</Label>
-              <RadioGroup
-                disabled={!effects.autoTune.enabled}
-                value={effects.autoTune.scale}
-                onValueChange={(value) => updateEffect("autoTune", "scale", value as "major" | "minor" | "chromatic")}
-                className="flex gap-4"
+      {effects.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No effects yet. Add one to start the chain.</p>
+      ) : (
+        <div className="space-y-2">
+          {effects.map((effect, index) => {
+            const definition = getEffectDefinition(effect.type)
+            const label = definition?.name ?? effect.type
+            const Icon = definition?.icon ?? HelpCircle
+            const expanded = expandedId === effect.id
+            return (
+              <div
+                key={effect.id}
+                data-effect-card
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => handleDrop(event, index)}
+                className={`bg-white rounded-xl p-2 border ${
+                  draggedId === effect.id ? "border-purple-400 opacity-60" : "border-purple-100"
+                }`}
               >
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="major" id="major" />
-                  <Label htmlFor="major" className="cursor-pointer">
-                    Major
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="minor" id="minor" />
-                  <Label htmlFor="minor" className="cursor-pointer">
-                    Minor
-                  </Label>
+                <div className="flex items-center gap-1">
+                  <div
+                    draggable
+                    onDragStart={(event) => handleDragStart(event, effect.id)}
+                    onDragEnd={() => setDraggedId(null)}
+                    className="cursor-grab text-gray-400 hover:text-purple-500"
+                    title="Drag to reorder"
+                  >
+                    <GripVertical size={16} />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : effect.id)}
+                    className="flex flex-1 items-center gap-2 text-left min-w-0"
+                  >
+                    <ChevronRight
+                      size={14}
+                      className={`shrink-0 transition-transform ${expanded ? "rotate-90" : ""}`}
+                    />
+                    <Icon className="w-4 h-4 shrink-0 text-purple-600" />
+                    <span className={`text-sm font-medium truncate ${effect.enabled ? "" : "text-gray-400"}`}>
+                      {label}
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => moveEffect(index, index - 1)}
+                    title="Move up"
+                  >
+                    <ChevronUp size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === effects.length - 1}
+                    onClick={() => moveEffect(index, index + 1)}
+                    title="Move down"
+                  >
+                    <ChevronDown size={14} />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`h-7 px-2 text-xs ${
+                      effect.bypass ? "bg-purple-200 border-purple-300" : "bg-white hover:bg-gray-100 border-purple-200"
+                    }`}
+                    disabled={!effect.enabled}
+                    onClick={() => updateEffect(effect.id, { bypass: !effect.bypass })}
+                    title="Pass the signal through unchanged"
+                  >
+                    Bypass
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => duplicateEffect(index)}
+                    title="Duplicate"
+                  >
+                    <Copy size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 hover:text-red-500"
+                    onClick={() => removeEffect(effect.id)}
+                    title="Remove"
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                  <Switch
+                    checked={effect.enabled}
+                    onCheckedChange={(checked) => updateEffect(effect.id, { enabled: checked })}
+                    aria-label={`Enable ${label}`}
+                  />
                 </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="chromatic" id="chromatic" />
-                  <Label htmlFor="chromatic" className="cursor-pointer">
-                    Chromatic
-                  </Label>
-                </div>
-              </RadioGroup>
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Amount</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.autoTune.amount * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.autoTune.enabled}
-                value={[effects.autoTune.amount]}
-                min={0}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("autoTune", "amount", value[0])}
-              />
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Formant Shift Effect */}
-        <TabsContent value="formant" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="formant-enabled" className="font-medium">
-              Formant Shift Effect
-            </Label>
-            <Switch
-              id="formant-enabled"
-              checked={effects.formantShift.enabled}
-              onCheckedChange={(checked) => updateEffect("formantShift", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Shift</Label>
-                <span className="text-xs text-gray-500">
-                  {effects.formantShift.shift > 0 ? "+" : ""}
-                  {effects.formantShift.shift.toFixed(1)}
-                </span>
-              </div>
-              <Slider
-                disabled={!effects.formantShift.enabled}
-                value={[effects.formantShift.shift]}
-                min={-2}
-                max={2}
-                step={0.1}
-                onValueChange={(value) => updateEffect("formantShift", "shift", value[0])}
-              />
-              <div className="flex justify-between text-xs text-gray-500 px-1">
-                <span>Deeper</span>
-                <span>Normal</span>
-                <span>Higher</span>
-              </div>
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Time Stretch Effect */}
-        <TabsContent value="timestretch" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="timestretch-enabled" className="font-medium">
-              Time Stretch Effect
-            </Label>
-            <Switch
-              id="timestretch-enabled"
-              checked={effects.timeStretch.enabled}
-              onCheckedChange={(checked) => updateEffect("timeStretch", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Rate</Label>
-                <span className="text-xs text-gray-500">{effects.timeStretch.rate.toFixed(1)}x</span>
-              </div>
-              <Slider
-                disabled={!effects.timeStretch.enabled}
-                value={[effects.timeStretch.rate]}
-                min={0.5}
-                max={2.0}
-                step={0.1}
-                onValueChange={(value) => updateEffect("timeStretch", "rate", value[0])}
-              />
-              <div className="flex justify-between text-xs text-gray-500 px-1">
-                <span>Slower</span>
-                <span>Normal</span>
-                <span>Faster</span>
-              </div>
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Compression Effect */}
-        <TabsContent value="compression" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="compression-enabled" className="font-medium">
-              Compression Effect
-            </Label>
-            <Switch
-              id="compression-enabled"
-              checked={effects.compression.enabled}
-              onCheckedChange={(checked) => updateEffect("compression", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Threshold</Label>
-                <span className="text-xs text-gray-500">{effects.compression.threshold} dB</span>
-              </div>
-              <Slider
-                disabled={!effects.compression.enabled}
-                value={[effects.compression.threshold]}
-                min={-60}
-                max={0}
-                step={1}
-                onValueChange={(value) => updateEffect("compression", "threshold", value[0])}
-              />
-            </div>
 
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Ratio</Label>
-                <span className="text-xs text-gray-500">{effects.compression.ratio}:1</span>
+                {expanded && <div className="mt-3 px-1">{renderEffectParams(effect)}</div>}
               </div>
-              <Slider
-                disabled={!effects.compression.enabled}
-                value={[effects.compression.ratio]}
-                min={1}
-                max={20}
-                step={0.5}
-                onValueChange={(value) => updateEffect("compression", "ratio", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Attack</Label>
-                <span className="text-xs text-gray-500">{effects.compression.attack.toFixed(3)}s</span>
-              </div>
-              <Slider
-                disabled={!effects.compression.enabled}
-                value={[effects.compression.attack]}
-                min={0}
-                max={1}
-                step={0.001}
-                onValueChange={(value) => updateEffect("compression", "attack", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Release</Label>
-                <span className="text-xs text-gray-500">{effects.compression.release.toFixed(2)}s</span>
-              </div>
-              <Slider
-                disabled={!effects.compression.enabled}
-                value={[effects.compression.release]}
-                min={0.01}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("compression", "release", value[0])}
-              />
-            </div>
-          </div>
-        </TabsContent>
-
-        {/* Granular Synthesis Effect */}
-        <TabsContent value="granular" className="space-y-4">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="granular-enabled" className="font-medium">
-              Granular Synthesis Effect
-            </Label>
-            <Switch
-              id="granular-enabled"
-              checked={effects.granular.enabled}
-              onCheckedChange={(checked) => updateEffect("granular", "enabled", checked)}
-            />
-          </div>
-
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Grain Size</Label>
-                <span className="text-xs text-gray-500">{effects.granular.grainSize.toFixed(2)}s</span>
-              </div>
-              <Slider
-                disabled={!effects.granular.enabled}
-                value={[effects.granular.grainSize]}
-                min={0.01}
-                max={0.5}
-                step={0.01}
-                onValueChange={(value) => updateEffect("granular", "grainSize", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Scatter</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.granular.scatter * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.granular.enabled}
-                value={[effects.granular.scatter]}
-                min={0}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("granular", "scatter", value[0])}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm">Density</Label>
-                <span className="text-xs text-gray-500">{Math.round(effects.granular.density * 100)}%</span>
-              </div>
-              <Slider
-                disabled={!effects.granular.enabled}
-                value={[effects.granular.density]}
-                min={0}
-                max={1}
-                step={0.01}
-                onValueChange={(value) => updateEffect("granular", "density", value[0])}
-              />
-            </div>
-          </div>
-        </TabsContent>
-      </Tabs>
+            )
+          })}
+        </div>
+      )}
     </div>
   )
 }
-
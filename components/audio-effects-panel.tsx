@@ -1,23 +1,104 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { type AudioEffects, defaultEffects, applyCharacterPreset } from "@/lib/audio-effects"
-import { Music, Wand2, Volume, FastForward, Waves } from "lucide-react"
+import {
+  type AudioEffects,
+  type PitchShiftQuality,
+  type VoiceCharacter,
+  defaultEffects,
+  applyCharacterPreset,
+  formatPan,
+} from "@/lib/audio-effects"
+import {
+  Music,
+  Wand2,
+  Volume,
+  FastForward,
+  Waves,
+  MoveHorizontal,
+  Shuffle,
+  SlidersHorizontal,
+} from "lucide-react"
+import { setEqShelfGains } from "@/lib/eq"
+import { type ReverbEngine, type ReverbRoom, type ReverbSettings, applyReverbRoom, reverbRooms } from "@/lib/reverb"
+import { getAllAudios } from "@/lib/db"
+import ParametricEq from "./parametric-eq"
+
+const pitchQualityOptions: Array<{ value: PitchShiftQuality; label: string }> = [
+  { value: "low", label: "Fast" },
+  { value: "medium", label: "Balanced" },
+  { value: "high", label: "Best" },
+]
+
+const reverbEngineOptions: Array<{ value: ReverbEngine; label: string }> = [
+  { value: "convolution", label: "Convolution" },
+  { value: "algorithmic", label: "Algorithmic" },
+]
+
+interface ReverbSliderProps {
+  label: string
+  display: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+// Smaller slider for the reverb's shape, under the reverb amount
+function ReverbSlider({ label, display, value, min, max, step, onChange }: ReverbSliderProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">{label}</span>
+        <span className="text-xs text-gray-500">{display}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={(position) => onChange(position[0])} />
+    </div>
+  )
+}
 
 interface AudioEffectsPanelProps {
   effects: AudioEffects
   onChange: (effects: AudioEffects) => void
+  // Called with a picked character, for the effects it adds beyond these (see applyCharacterEffects)
+  onCharacterChange?: (character: VoiceCharacter) => void
+  // Spectrum of the playing sound, drawn under the EQ curve
+  getAnalyser?: () => AnalyserNode | null
 }
 
-export default function AudioEffectsPanel({ effects, onChange }: AudioEffectsPanelProps) {
+export default function AudioEffectsPanel({
+  effects,
+  onChange,
+  onCharacterChange,
+  getAnalyser,
+}: AudioEffectsPanelProps) {
   const [activeTab, setActiveTab] = useState<string>("characters")
+  // Library recordings that can serve as a reverb impulse response
+  const [impulses, setImpulses] = useState<Array<{ id: number; name: string }>>([])
+
+  useEffect(() => {
+    getAllAudios().then((audios) => setImpulses(audios.map(({ id, name }) => ({ id, name }))))
+  }, [])
 
-  const handleCharacterChange = (character: "normal" | "chipmunk" | "robot" | "deep") => {
+  // Bass and treble are the gains of the EQ's first and last bands
+  const bass = effects.eq[0].gain
+  const treble = effects.eq[effects.eq.length - 1].gain
+
+  const reverbSettings = effects.reverbSettings
+  const algorithmicReverb = reverbSettings.engine === "algorithmic"
+  const setReverbSettings = (changes: Partial<ReverbSettings>) => {
+    onChange({ ...effects, reverbSettings: { ...reverbSettings, ...changes } })
+  }
+
+  const handleCharacterChange = (character: VoiceCharacter) => {
     const newEffects = applyCharacterPreset(effects, character)
     onChange(newEffects)
+    onCharacterChange?.(character)
   }
 
   const handleReset = () => {
@@ -57,7 +138,7 @@ export default function AudioEffectsPanel({ effects, onChange }: AudioEffectsPan
         </TabsList>
 
         <TabsContent value="characters" className="space-y-4">
-          <div className="grid grid-cols-2 gap-3">
+          <div className="grid grid-cols-3 gap-3">
             <Button
               variant="outline"
               className={`h-16 rounded-xl flex flex-col items-center justify-center gap-1 ${
@@ -91,6 +172,17 @@ export default function AudioEffectsPanel({ effects, onChange }: AudioEffectsPan
               <span className="text-xs">Robot</span>
             </Button>
 
+            <Button
+              variant="outline"
+              className={`h-16 rounded-xl flex flex-col items-center justify-center gap-1 ${
+                effects.character === "alien" ? "bg-green-100 border-green-300" : "bg-white hover:bg-green-50"
+              }`}
+              onClick={() => handleCharacterChange("alien")}
+            >
+              <span className="text-lg">👽</span>
+              <span className="text-xs">Alien</span>
+            </Button>
+
             <Button
               variant="outline"
               className={`h-16 rounded-xl flex flex-col items-center justify-center gap-1 ${
@@ -124,6 +216,41 @@ export default function AudioEffectsPanel({ effects, onChange }: AudioEffectsPan
                 step={1}
                 onValueChange={(value) => onChange({ ...effects, pitch: value[0], character: "normal" })}
               />
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">Quality</span>
+                <div className="flex gap-1">
+                  {pitchQualityOptions.map((option) => (
+                    <Button
+                      key={option.value}
+                      variant="outline"
+                      size="sm"
+                      className={`h-6 px-2 text-[10px] ${
+                        effects.pitchQuality === option.value
+                          ? "bg-purple-200 border-purple-300"
+                          : "bg-white hover:bg-gray-100 border-purple-200"
+                      }`}
+                      onClick={() => onChange({ ...effects, pitchQuality: option.value })}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">Stereo link</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={`h-6 px-2 text-[10px] ${
+                    effects.stereoLink
+                      ? "bg-purple-200 border-purple-300"
+                      : "bg-white hover:bg-gray-100 border-purple-200"
+                  }`}
+                  onClick={() => onChange({ ...effects, stereoLink: !effects.stereoLink })}
+                >
+                  {effects.stereoLink ? "On" : "Off"}
+                </Button>
+              </div>
             </div>
 
             <div className="space-y-2">
@@ -133,16 +260,18 @@ export default function AudioEffectsPanel({ effects, onChange }: AudioEffectsPan
                   Bass
                 </label>
                 <span className="text-xs text-gray-500">
-                  {effects.bass > 0 ? "+" : ""}
-                  {effects.bass}
+                  {bass > 0 ? "+" : ""}
+                  {bass}
                 </span>
               </div>
               <Slider
-                value={[effects.bass]}
+                value={[bass]}
                 min={-10}
                 max={10}
                 step={1}
-                onValueChange={(value) => onChange({ ...effects, bass: value[0], character: "normal" })}
+                onValueChange={(value) =>
+                  onChange({ ...effects, eq: setEqShelfGains(effects.eq, { bass: value[0] }), character: "normal" })
+                }
               />
             </div>
 
@@ -153,16 +282,30 @@ export default function AudioEffectsPanel({ effects, onChange }: AudioEffectsPan
                   Treble
                 </label>
                 <span className="text-xs text-gray-500">
-                  {effects.treble > 0 ? "+" : ""}
-                  {effects.treble}
+                  {treble > 0 ? "+" : ""}
+                  {treble}
                 </span>
               </div>
               <Slider
-                value={[effects.treble]}
+                value={[treble]}
                 min={-10}
                 max={10}
                 step={1}
-                onValueChange={(value) => onChange({ ...effects, treble: value[0], character: "normal" })}
+                onValueChange={(value) =>
+                  onChange({ ...effects, eq: setEqShelfGains(effects.eq, { treble: value[0] }), character: "normal" })
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium flex items-center gap-1.5">
+                <SlidersHorizontal className="w-4 h-4" />
+                Equalizer
+              </label>
+              <ParametricEq
+                eq={effects.eq}
+                onChange={(eq) => onChange({ ...effects, eq, character: "normal" })}
+                getAnalyser={getAnalyser}
               />
             </div>
 
@@ -181,6 +324,176 @@ export default function AudioEffectsPanel({ effects, onChange }: AudioEffectsPan
                 step={0.01}
                 onValueChange={(value) => onChange({ ...effects, reverb: value[0], character: "normal" })}
               />
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">Engine</span>
+                <div className="flex gap-1">
+                  {reverbEngineOptions.map((option) => (
+                    <Button
+                      key={option.value}
+                      variant="outline"
+                      size="sm"
+                      className={`h-6 px-2 text-[10px] ${
+                        reverbSettings.engine === option.value
+                          ? "bg-purple-200 border-purple-300"
+                          : "bg-white hover:bg-gray-100 border-purple-200"
+                      }`}
+                      onClick={() => setReverbSettings({ engine: option.value })}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {!algorithmicReverb && (
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-500">Impulse</span>
+                  <Select
+                    value={reverbSettings.impulseId === null ? "generated" : String(reverbSettings.impulseId)}
+                    onValueChange={(value) =>
+                      setReverbSettings({ impulseId: value === "generated" ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger className="w-32 h-6 text-[10px] bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="generated">Generated room</SelectItem>
+                      {impulses.map((impulse) => (
+                        <SelectItem key={impulse.id} value={String(impulse.id)}>
+                          {impulse.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {(algorithmicReverb || reverbSettings.impulseId === null) && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-500">Room</span>
+                    <div className="flex items-center gap-1">
+                      <Select
+                        value={reverbSettings.room}
+                        onValueChange={(room) =>
+                          onChange({ ...effects, reverbSettings: applyReverbRoom(reverbSettings, room as ReverbRoom) })
+                        }
+                      >
+                        <SelectTrigger className="w-32 h-6 text-[10px] bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(reverbRooms).map(([room, preset]) => (
+                            <SelectItem key={room} value={room}>
+                              {preset.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!algorithmicReverb && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-6 w-6 bg-white hover:bg-gray-100 border-purple-200"
+                          onClick={() => setReverbSettings({ seed: Math.floor(Math.random() * 2 ** 31) })}
+                          title="Another variation of the room"
+                        >
+                          <Shuffle size={12} />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <ReverbSlider
+                    label="Decay"
+                    display={`${reverbSettings.decay.toFixed(1)} s`}
+                    value={reverbSettings.decay}
+                    min={0.2}
+                    max={8}
+                    step={0.1}
+                    onChange={(decay) => setReverbSettings({ decay })}
+                  />
+                  <ReverbSlider
+                    label="Damping"
+                    display={`${Math.round(reverbSettings.damping * 100)}%`}
+                    value={reverbSettings.damping}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    onChange={(damping) => setReverbSettings({ damping })}
+                  />
+                  <ReverbSlider
+                    label="Width"
+                    display={`${Math.round(reverbSettings.width * 100)}%`}
+                    value={reverbSettings.width}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    onChange={(width) => setReverbSettings({ width })}
+                  />
+                </>
+              )}
+              {algorithmicReverb && (
+                <>
+                  <ReverbSlider
+                    label="Size"
+                    display={`${Math.round(reverbSettings.size * 100)}%`}
+                    value={reverbSettings.size}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    onChange={(size) => setReverbSettings({ size })}
+                  />
+                  <ReverbSlider
+                    label="Modulation"
+                    display={`${Math.round(reverbSettings.modulation * 100)}%`}
+                    value={reverbSettings.modulation}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    onChange={(modulation) => setReverbSettings({ modulation })}
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-500">Freeze</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className={`h-6 px-2 text-[10px] ${
+                        reverbSettings.freeze
+                          ? "bg-purple-200 border-purple-300"
+                          : "bg-white hover:bg-gray-100 border-purple-200"
+                      }`}
+                      onClick={() => setReverbSettings({ freeze: !reverbSettings.freeze })}
+                    >
+                      {reverbSettings.freeze ? "On" : "Off"}
+                    </Button>
+                  </div>
+                </>
+              )}
+              <ReverbSlider
+                label="Pre-delay"
+                display={`${Math.round(reverbSettings.preDelay * 1000)} ms`}
+                value={reverbSettings.preDelay}
+                min={0}
+                max={0.2}
+                step={0.001}
+                onChange={(preDelay) => setReverbSettings({ preDelay })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium flex items-center gap-1.5">
+                  <MoveHorizontal className="w-4 h-4" />
+                  Pan
+                </label>
+                <span className="text-xs text-gray-500">{formatPan(effects.pan)}</span>
+              </div>
+              <Slider
+                value={[effects.pan]}
+                min={-1}
+                max={1}
+                step={0.01}
+                onValueChange={(value) => onChange({ ...effects, pan: value[0] })}
+              />
             </div>
 
             <div className="space-y-2">
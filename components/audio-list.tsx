@@ -3,16 +3,17 @@
 import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
-import { Trash2, Download } from "lucide-react"
+import { Trash2, Download, Eraser } from "lucide-react"
 import MiniPlayer from "./mini-player"
 
 interface AudioListProps {
   audioList: Array<{ id: number; name: string; blob: Blob }>
   onDelete: (id: number) => void
   onDownload: (audio: { id: number; name: string; blob: Blob }) => void
+  onCleanUp: (audio: { id: number; name: string; blob: Blob }) => void
 }
 
-export default function AudioList({ audioList, onDelete, onDownload }: AudioListProps) {
+export default function AudioList({ audioList, onDelete, onDownload, onCleanUp }: AudioListProps) {
   const router = useRouter()
   const [currentlyPlaying, setCurrentlyPlaying] = useState<number | null>(null)
 
@@ -60,6 +61,19 @@ export default function AudioList({ audioList, onDelete, onDownload }: AudioList
                 <Download size={18} />
               </Button>
 
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-purple-600 hover:text-purple-800 hover:bg-purple-100"
+                title="Clean up noise"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onCleanUp(audio)
+                }}
+              >
+                <Eraser size={18} />
+              </Button>
+
               <Button
                 variant="ghost"
                 size="icon"
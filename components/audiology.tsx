@@ -6,14 +6,17 @@ import { useState, useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Mic, Upload, StopCircle } from "lucide-react"
+import { Mic, Upload, StopCircle, Shield } from "lucide-react"
+import Link from "next/link"
 import { initDB, saveAudio, getAllAudios, deleteAudio } from "@/lib/db"
 import AudioList from "@/components/audio-list"
+import NoiseReductionModal from "@/components/noise-reduction-modal"
 import { useToast } from "@/hooks/use-toast"
 
 export default function Audiology() {
   const [isRecording, setIsRecording] = useState(false)
   const [audioList, setAudioList] = useState<Array<{ id: number; name: string; blob: Blob }>>([])
+  const [cleaningAudio, setCleaningAudio] = useState<{ id: number; name: string; blob: Blob } | null>(null)
   const [recordingTime, setRecordingTime] = useState(0)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const chunksRef = useRef<BlobPart[]>([])
@@ -168,6 +171,15 @@ export default function Audiology() {
     })
   }
 
+  const handleCleanedCopySaved = (name: string) => {
+    loadAudios()
+
+    toast({
+      title: "Noise cleaned up!",
+      description: `${name} has been added to your collection.`,
+    })
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -179,6 +191,13 @@ export default function Audiology() {
       <div className="text-center mb-8">
         <h1 className="text-4xl font-bold text-purple-600 mb-2">Audiology</h1>
         <p className="text-blue-500">Record, upload, and play your favorite sounds!</p>
+        <Link
+          href="/settings"
+          className="inline-flex items-center gap-1 mt-2 text-xs text-purple-400 hover:text-purple-600"
+        >
+          <Shield size={12} />
+          For parents
+        </Link>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
@@ -263,7 +282,12 @@ export default function Audiology() {
           <Card className="border-4 border-yellow-300 rounded-3xl shadow-lg bg-white">
             <CardContent className="p-6">
               {audioList.length > 0 ? (
-                <AudioList audioList={audioList} onDelete={handleDelete} onDownload={handleDownload} />
+                <AudioList
+                  audioList={audioList}
+                  onDelete={handleDelete}
+                  onDownload={handleDownload}
+                  onCleanUp={setCleaningAudio}
+                />
               ) : (
                 <div className="text-center py-10">
                   <div className="text-5xl mb-4">🎵</div>
@@ -275,6 +299,13 @@ export default function Audiology() {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <NoiseReductionModal
+        isOpen={!!cleaningAudio}
+        onClose={() => setCleaningAudio(null)}
+        audio={cleaningAudio}
+        onSaved={handleCleanedCopySaved}
+      />
     </div>
   )
 }
@@ -0,0 +1,282 @@
+"use client"
+
+import { type PointerEvent, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { X } from "lucide-react"
+import type { AudioEffects } from "@/lib/audio-effects"
+import type { AdvancedAudioEffects } from "@/lib/advanced-audio-effects"
+import {
+  type AutomatableParam,
+  type AutomatableParamInfo,
+  type AutomationLanes,
+  type AutomationPoint,
+  type ParamRef,
+  getAutomationValue,
+  listAutomatableParams,
+  sortAutomationPoints,
+} from "@/lib/automation"
+
+interface LaneInfo extends AutomatableParamInfo {
+  points: AutomationPoint[]
+}
+
+// Samples drawn per lane
+const CURVE_RESOLUTION = 200
+
+const formatValue = (range: AutomatableParam, value: number): string => {
+  if (range.format) return range.format(value)
+  const decimals = (range.step.toString().split(".")[1] ?? "").length
+  return `${value.toFixed(decimals)}${range.unit ?? ""}`
+}
+
+const snapValue = (range: AutomatableParam, value: number): number => {
+  const snapped = Math.round((value - range.min) / range.step) * range.step + range.min
+  return Math.min(range.max, Math.max(range.min, Number(snapped.toFixed(6))))
+}
+
+// Every parameter that can be automated, split by whether it has a lane
+const getLaneInfos = (basicEffects: AudioEffects, advancedEffects: AdvancedAudioEffects) => {
+  const lanes: LaneInfo[] = []
+  const available: LaneInfo[] = []
+
+  for (const param of listAutomatableParams(basicEffects, advancedEffects)) {
+    if (param.lane) {
+      lanes.push({ ...param, points: param.lane })
+    } else {
+      available.push({ ...param, points: [] })
+    }
+  }
+
+  return { lanes, available }
+}
+
+interface AutomationLaneProps {
+  lane: LaneInfo
+  duration: number
+  currentTime: number
+  onChange: (points: AutomationPoint[]) => void
+  onRemove: () => void
+}
+
+function AutomationLane({ lane, duration, currentTime, onChange, onRemove }: AutomationLaneProps) {
+  const [selected, setSelected] = useState<number | null>(null)
+  const [dragging, setDragging] = useState<number | null>(null)
+  const areaRef = useRef<HTMLDivElement | null>(null)
+  const { range, points } = lane
+
+  const toX = (time: number) => (time / duration) * 100
+  const toY = (value: number) => (1 - (value - range.min) / (range.max - range.min)) * 100
+
+  // Time and value under the pointer
+  const fromPointer = (event: PointerEvent) => {
+    const rect = areaRef.current!.getBoundingClientRect()
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width))
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    return { time: x * duration, value: snapValue(range, range.max - y * (range.max - range.min)) }
+  }
+
+  const addPoint = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget) return
+    const { time, value } = fromPointer(event)
+    const newPoints = sortAutomationPoints([...points, { time, value, curve: "linear" }])
+    setSelected(newPoints.findIndex((point) => point.time === time))
+    onChange(newPoints)
+  }
+
+  // Points move between their neighbours, so the order (and the indexes) stay the same
+  const movePoint = (event: PointerEvent, index: number) => {
+    const { time, value } = fromPointer(event)
+    const minTime = index > 0 ? points[index - 1].time : 0
+    const maxTime = index < points.length - 1 ? points[index + 1].time : duration
+    const newPoints = [...points]
+    newPoints[index] = { ...points[index], time: Math.min(maxTime, Math.max(minTime, time)), value }
+    onChange(newPoints)
+  }
+
+  const removePoint = (index: number) => {
+    setSelected(null)
+    onChange(points.filter((_, i) => i !== index))
+  }
+
+  const toggleCurve = (index: number) => {
+    const newPoints = [...points]
+    const point = points[index]
+    newPoints[index] = { ...point, curve: point.curve === "linear" ? "exponential" : "linear" }
+    onChange(newPoints)
+  }
+
+  const curve =
+    points.length > 0
+      ? Array.from({ length: CURVE_RESOLUTION + 1 }, (_, i) => {
+          const time = (i / CURVE_RESOLUTION) * duration
+          return `${toX(time)},${toY(getAutomationValue(points, time))}`
+        }).join(" ")
+      : ""
+
+  const selectedPoint = selected !== null ? points[selected] : undefined
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-purple-800 truncate">{lane.label}</span>
+        <div className="flex items-center gap-1">
+          {selectedPoint && selected !== null && (
+            <>
+              <span className="text-gray-500">{formatValue(range, selectedPoint.value)}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-[10px] bg-white border-purple-200"
+                onClick={() => toggleCurve(selected)}
+                title="Shape of the segment leading to this point"
+              >
+                {selectedPoint.curve === "linear" ? "Linear" : "Exp"}
+              </Button>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-purple-700"
+            onClick={onRemove}
+            aria-label={`Remove ${lane.label} automation`}
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={areaRef}
+        className="relative h-12 rounded-md bg-white border border-purple-200 cursor-crosshair touch-none"
+        onPointerDown={addPoint}
+      >
+        <svg
+          className="absolute inset-0 h-full w-full pointer-events-none"
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+        >
+          {curve && (
+            <polyline
+              points={curve}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              className="text-purple-500"
+            />
+          )}
+          <line
+            x1={toX(currentTime)}
+            x2={toX(currentTime)}
+            y1={0}
+            y2={100}
+            stroke="currentColor"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+            className="text-blue-400"
+          />
+        </svg>
+
+        {points.map((point, index) => (
+          <div
+            key={index}
+            className={`absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white cursor-grab ${
+              selected === index ? "bg-purple-700" : "bg-purple-500"
+            }`}
+            style={{ left: `${toX(point.time)}%`, top: `${toY(point.value)}%` }}
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId)
+              setSelected(index)
+              setDragging(index)
+            }}
+            onPointerMove={(event) => {
+              if (dragging === index) movePoint(event, index)
+            }}
+            onPointerUp={() => setDragging(null)}
+            onDoubleClick={() => removePoint(index)}
+            title="Drag to move, double-click to remove"
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface AutomationTimelineProps {
+  duration: number
+  currentTime: number
+  basicEffects: AudioEffects
+  advancedEffects: AdvancedAudioEffects
+  onBasicEffectsChange: (effects: AudioEffects) => void
+  onAdvancedEffectsChange: (effects: AdvancedAudioEffects) => void
+}
+
+// Automation lanes on the recording's timeline. Click a lane to add a breakpoint.
+export default function AutomationTimeline({
+  duration,
+  currentTime,
+  basicEffects,
+  advancedEffects,
+  onBasicEffectsChange,
+  onAdvancedEffectsChange,
+}: AutomationTimelineProps) {
+  const { lanes, available } = getLaneInfos(basicEffects, advancedEffects)
+
+  // Set (or with undefined, remove) the lane of a parameter
+  const setLane = (ref: ParamRef, points: AutomationPoint[] | undefined) => {
+    const update = (automation: AutomationLanes): AutomationLanes => {
+      const rest = { ...automation }
+      delete rest[ref.param]
+      return points ? { ...rest, [ref.param]: points } : rest
+    }
+
+    if (ref.effectId === null) {
+      onBasicEffectsChange({ ...basicEffects, automation: update(basicEffects.automation) })
+    } else {
+      onAdvancedEffectsChange(
+        advancedEffects.map((effect) =>
+          effect.id === ref.effectId ? { ...effect, automation: update(effect.automation) } : effect,
+        ),
+      )
+    }
+  }
+
+  const addLane = (key: string) => {
+    const lane = available.find((candidate) => candidate.key === key)
+    if (lane) setLane(lane, [])
+  }
+
+  if (!isFinite(duration) || duration <= 0) return null
+
+  return (
+    <div className="space-y-2">
+      {lanes.map((lane) => (
+        <AutomationLane
+          key={lane.key}
+          lane={lane}
+          duration={duration}
+          currentTime={currentTime}
+          onChange={(points) => setLane(lane, points)}
+          onRemove={() => setLane(lane, undefined)}
+        />
+      ))}
+
+      {available.length > 0 && (
+        <Select value="" onValueChange={addLane}>
+          <SelectTrigger className="h-8 bg-white text-xs">
+            <SelectValue placeholder="Automate a parameter..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((lane) => (
+              <SelectItem key={lane.key} value={lane.key}>
+                {lane.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -10,13 +10,32 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { Progress } from "@/components/ui/progress"
+import { Slider } from "@/components/ui/slider"
 import { Download, Loader2 } from "lucide-react"
 import type { AudioEffects } from "@/lib/audio-effects"
 import type { AdvancedAudioEffects } from "@/lib/advanced-audio-effects"
 import { processAudioWithEffects } from "@/lib/audio-processor"
+import { hasEnabledAdvancedEffects } from "@/lib/audio-graph"
+import {
+  type ExportEncoder,
+  type ExportOptions,
+  type ExportTag,
+  getAvailableEncoders,
+  getDefaultExportOptions,
+  getEncoders,
+} from "@/lib/encoders"
+import { isFlatEq } from "@/lib/eq"
+import {
+  type LoudnessReport,
+  type LoudnessSettings,
+  defaultLoudnessSettings,
+  formatLoudness,
+  loudnessTargets,
+} from "@/lib/loudness"
 
 interface DownloadAudioModalProps {
   isOpen: boolean
@@ -33,10 +52,56 @@ export default function DownloadAudioModal({
   basicEffects,
   advancedEffects,
 }: DownloadAudioModalProps) {
-  const [format, setFormat] = useState<"mp3" | "wav">("mp3")
+  // Every format is offered; those needing WebCodecs stay disabled until checked, and after if unsupported
+  const [encoders] = useState<ExportEncoder[]>(getEncoders)
+  const [unsupported, setUnsupported] = useState<ExportEncoder[] | null>(null)
+  const [format, setFormat] = useState("mp3")
+  // Options changed from the format's defaults
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({})
   const [isProcessing, setIsProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  const [loudnessSettings, setLoudnessSettings] = useState<LoudnessSettings>(defaultLoudnessSettings)
+  // Loudness of the last download, before and after normalization and limiting
+  const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null)
+  // Tags for formats that have them; the title is the recording's name
+  const [artist, setArtist] = useState("")
+  const [cover, setCover] = useState<File | null>(null)
+
+  useEffect(() => {
+    getAvailableEncoders().then((available) =>
+      setUnsupported(encoders.filter((candidate) => !available.includes(candidate))),
+    )
+  }, [encoders])
+
+  const isFormatDisabled = (candidate: ExportEncoder) =>
+    !!candidate.isSupported && (unsupported?.includes(candidate) ?? true)
+
+  const encoder = encoders.find((candidate) => candidate.format === format)
+  const options = encoder ? { ...getDefaultExportOptions(encoder), ...exportOptions } : exportOptions
+  const visibleOptions = encoder
+    ? Object.entries(encoder.options).filter(([, descriptor]) => descriptor.visible?.(options) ?? true)
+    : []
+  const hasTag = (tag: ExportTag) => encoder?.tags.includes(tag) ?? false
+
+  // Each opening starts without the previous download's numbers
+  useEffect(() => {
+    if (isOpen) setLoudnessReport(null)
+  }, [isOpen])
+
+  const setLoudness = (changes: Partial<LoudnessSettings>) => {
+    setLoudnessSettings({ ...loudnessSettings, ...changes })
+  }
+
+  const selectFormat = (value: string) => {
+    setFormat(value)
+    setExportOptions({})
+  }
+
+  const toggleClass = (selected: boolean) =>
+    `h-6 px-2 text-[10px] ${
+      selected ? "bg-purple-200 border-purple-300" : "bg-white hover:bg-gray-100 border-purple-200"
+    }`
 
   const handleDownload = async () => {
     if (!audio) return
@@ -44,54 +109,57 @@ export default function DownloadAudioModal({
     setIsProcessing(true)
     setProgress(0)
     setError(null)
+    setLoudnessReport(null)
 
     try {
+      // Name without its extension, for the tag's title and the filename
+      let filename = audio.name
+      if (filename.includes(".")) {
+        filename = filename.substring(0, filename.lastIndexOf("."))
+      }
+
       // Process audio with effects
-      const processedBlob = await processAudioWithEffects(
+      const { blob: processedBlob, loudness } = await processAudioWithEffects(
         audio.blob,
         basicEffects,
         advancedEffects,
         format,
         (progress) => setProgress(progress * 100),
+        loudnessSettings,
+        options,
+        {
+          title: filename,
+          artist: artist.trim() || undefined,
+          cover: cover ? { mimeType: cover.type, data: new Uint8Array(await cover.arrayBuffer()) } : undefined,
+        },
       )
 
       // Create download link
       const url = URL.createObjectURL(processedBlob)
       const a = document.createElement("a")
 
-      // Set filename with effect indicator
-      let filename = audio.name
-
-      // Remove extension if present
-      if (filename.includes(".")) {
-        filename = filename.substring(0, filename.lastIndexOf("."))
-      }
-
       // Add effect indicator
       const hasBasicEffects =
         basicEffects.character !== "normal" ||
         basicEffects.pitch !== 0 ||
-        basicEffects.bass !== 0 ||
-        basicEffects.treble !== 0
+        !isFlatEq(basicEffects.eq)
 
-      const hasAdvancedEffects = Object.values(advancedEffects).some((effect) => (effect as any).enabled)
+      const hasAdvancedEffects = hasEnabledAdvancedEffects(advancedEffects)
 
       if (hasBasicEffects || hasAdvancedEffects) {
         filename += "_effects"
       }
 
       a.href = url
-      a.download = `${filename}.${format}`
+      a.download = `${filename}.${encoder?.extension ?? format}`
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
 
-      // Close modal after successful download
-      setTimeout(() => {
-        onClose()
-        setIsProcessing(false)
-      }, 1000)
+      // Stay open to show how the loudness changed
+      setLoudnessReport(loudness)
+      setIsProcessing(false)
     } catch (err) {
       console.error("Error processing audio:", err)
       setError("There was an error processing your audio. Please try again.")
@@ -110,26 +178,161 @@ export default function DownloadAudioModal({
         <div className="py-4">
           <div className="mb-4">
             <h3 className="text-sm font-medium mb-2">Choose format:</h3>
-            <RadioGroup
-              value={format}
-              onValueChange={(value) => setFormat(value as "mp3" | "wav")}
-              className="flex gap-4"
-            >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="mp3" id="mp3" />
-                <Label htmlFor="mp3" className="cursor-pointer">
-                  MP3
-                </Label>
+            <RadioGroup value={format} onValueChange={selectFormat} className="flex flex-wrap gap-4">
+              {encoders.map((candidate) => (
+                <div key={candidate.format} className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value={candidate.format}
+                    id={`format-${candidate.format}`}
+                    disabled={isFormatDisabled(candidate)}
+                  />
+                  <Label
+                    htmlFor={`format-${candidate.format}`}
+                    className={isFormatDisabled(candidate) ? "text-gray-400" : "cursor-pointer"}
+                  >
+                    {candidate.name}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            {unsupported && unsupported.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                {unsupported.map((candidate) => candidate.name).join(" and ")}{" "}
+                {unsupported.length === 1 ? "needs" : "need"} a WebCodecs encoder, which this browser doesn&apos;t
+                have.
+              </p>
+            )}
+          </div>
+
+          {encoder && (visibleOptions.length > 0 || hasTag("artist") || hasTag("cover")) && (
+            <div className="mb-4 space-y-2">
+              <h3 className="text-sm font-medium">{encoder.name}:</h3>
+              {visibleOptions.map(([name, descriptor]) => (
+                <div key={name} className="flex items-center justify-between">
+                  <span className="text-xs text-gray-500">{descriptor.label}</span>
+                  <div className="flex gap-1">
+                    {descriptor.options.map((option) => (
+                      <Button
+                        key={option.value}
+                        variant="outline"
+                        size="sm"
+                        className={toggleClass(options[name] === option.value)}
+                        onClick={() => setExportOptions({ ...exportOptions, [name]: option.value })}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {hasTag("artist") && (
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="export-artist" className="text-xs text-gray-500 font-normal">
+                    Artist
+                  </Label>
+                  <Input
+                    id="export-artist"
+                    value={artist}
+                    onChange={(event) => setArtist(event.target.value)}
+                    placeholder="Optional"
+                    className="h-7 w-48 text-xs"
+                  />
+                </div>
+              )}
+              {hasTag("cover") && (
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="export-cover" className="text-xs text-gray-500 font-normal">
+                    Cover art
+                  </Label>
+                  {cover ? (
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs truncate max-w-32">{cover.name}</span>
+                      <Button variant="outline" size="sm" className={toggleClass(false)} onClick={() => setCover(null)}>
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <Input
+                      id="export-cover"
+                      type="file"
+                      accept="image/jpeg,image/png"
+                      onChange={(event) => setCover(event.target.files?.[0] ?? null)}
+                      className="h-7 w-48 text-xs"
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="mb-4 space-y-2">
+            <h3 className="text-sm font-medium">Loudness:</h3>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500">Normalize</span>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={toggleClass(!loudnessSettings.normalize)}
+                  onClick={() => setLoudness({ normalize: false })}
+                >
+                  Off
+                </Button>
+                {loudnessTargets.map((target) => (
+                  <Button
+                    key={target.value}
+                    variant="outline"
+                    size="sm"
+                    className={toggleClass(loudnessSettings.normalize && loudnessSettings.target === target.value)}
+                    onClick={() => setLoudness({ normalize: true, target: target.value })}
+                  >
+                    {target.label} ({target.value} LUFS)
+                  </Button>
+                ))}
               </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="wav" id="wav" />
-                <Label htmlFor="wav" className="cursor-pointer">
-                  WAV
-                </Label>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500">Peak limiter</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className={toggleClass(loudnessSettings.limit)}
+                onClick={() => setLoudness({ limit: !loudnessSettings.limit })}
+              >
+                {loudnessSettings.limit ? "On" : "Off"}
+              </Button>
+            </div>
+            {loudnessSettings.limit && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-500">Ceiling</span>
+                  <span className="text-xs text-gray-500">{formatLoudness(loudnessSettings.ceiling, "dBTP")}</span>
+                </div>
+                <Slider
+                  value={[loudnessSettings.ceiling]}
+                  min={-6}
+                  max={0}
+                  step={0.1}
+                  onValueChange={(value) => setLoudness({ ceiling: value[0] })}
+                />
               </div>
-            </RadioGroup>
+            )}
           </div>
 
+          {loudnessReport && (
+            <div className="mb-4 grid grid-cols-3 gap-x-2 gap-y-1 text-xs bg-purple-50 rounded-lg p-2">
+              <span />
+              <span className="text-gray-500">Before</span>
+              <span className="text-gray-500">After</span>
+              <span className="text-gray-500">Loudness</span>
+              <span>{formatLoudness(loudnessReport.before.integrated, "LUFS")}</span>
+              <span>{formatLoudness(loudnessReport.after.integrated, "LUFS")}</span>
+              <span className="text-gray-500">True peak</span>
+              <span>{formatLoudness(loudnessReport.before.truePeak, "dBTP")}</span>
+              <span>{formatLoudness(loudnessReport.after.truePeak, "dBTP")}</span>
+            </div>
+          )}
+
           {isProcessing && (
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
@@ -145,7 +348,7 @@ export default function DownloadAudioModal({
 
         <DialogFooter>
           <Button variant="outline" onClick={onClose} disabled={isProcessing}>
-            Cancel
+            {loudnessReport ? "Close" : "Cancel"}
           </Button>
           <Button
             onClick={handleDownload}
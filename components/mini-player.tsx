@@ -2,9 +2,10 @@
 
 import type React from "react"
 
-import { useState, useEffect, useRef } from "react"
+import { useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Play, Pause } from "lucide-react"
+import { useAudioEngine } from "@/hooks/use-audio-engine"
 
 interface MiniPlayerProps {
   audio: { id: number; name: string; blob: Blob }
@@ -12,58 +13,28 @@ interface MiniPlayerProps {
 }
 
 export default function MiniPlayer({ audio, onPlayStateChange }: MiniPlayerProps) {
-  const [isPlaying, setIsPlaying] = useState(false)
-  const audioRef = useRef<HTMLAudioElement | null>(null)
-  const audioUrl = useRef<string | null>(null)
+  // Plain playback without effects; starting one mini player pauses the others
+  const { engine, state } = useAudioEngine(audio.blob, { effects: false, exclusive: true })
+  const isPlaying = state === "playing"
 
+  // Report changes of the play state, not the initial one
+  const wasPlaying = useRef(false)
   useEffect(() => {
-    // Create audio element and URL for the blob
-    const url = URL.createObjectURL(audio.blob)
-    audioUrl.current = url
-
-    const audioElement = new Audio(url)
-    audioRef.current = audioElement
-
-    // Set up event listeners
-    const handleEnded = () => {
-      setIsPlaying(false)
-      if (onPlayStateChange) onPlayStateChange(false)
-    }
-
-    audioElement.addEventListener("ended", handleEnded)
-
-    // Clean up on unmount or when audio changes
-    return () => {
-      audioElement.removeEventListener("ended", handleEnded)
-      audioElement.pause()
-      audioElement.src = ""
-      if (audioUrl.current) {
-        URL.revokeObjectURL(audioUrl.current)
-      }
-      setIsPlaying(false)
-    }
-  }, [audio, onPlayStateChange])
+    if (isPlaying === wasPlaying.current) return
+    wasPlaying.current = isPlaying
+    if (onPlayStateChange) onPlayStateChange(isPlaying)
+  }, [isPlaying, onPlayStateChange])
 
   const togglePlayPause = (e: React.MouseEvent) => {
     e.stopPropagation() // Prevent triggering parent click events
 
-    if (!audioRef.current) return
+    if (!engine) return
 
     if (isPlaying) {
-      audioRef.current.pause()
+      engine.pause()
     } else {
-      // Stop any other playing audio first
-      document.querySelectorAll("audio").forEach((audio) => {
-        audio.pause()
-      })
-
-      audioRef.current.play().catch((error) => {
-        console.error("Error playing audio:", error)
-      })
+      engine.play()
     }
-
-    setIsPlaying(!isPlaying)
-    if (onPlayStateChange) onPlayStateChange(!isPlaying)
   }
 
   return (
@@ -0,0 +1,377 @@
+"use client"
+
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, RotateCcw, Trash2, X } from "lucide-react"
+import type { AudioEffects } from "@/lib/audio-effects"
+import type { AdvancedAudioEffects } from "@/lib/advanced-audio-effects"
+import { type ParamRef, getParamKey, listAutomatableParams } from "@/lib/automation"
+import {
+  type LfoShape,
+  type ModulationRoute,
+  type ModulationSettings,
+  type ModulationSource,
+  createEnvelopeFollower,
+  createLfo,
+  createModulationRoute,
+  defaultModulation,
+  lfoDivisions,
+  lfoShapes,
+} from "@/lib/modulation"
+
+// LFO rate slider, spaced logarithmically from 0.05 to 20 Hz
+const MIN_RATE = 0.05
+const MAX_RATE = 20
+const RATE_SLIDER_STEPS = 1000
+
+const toRatePosition = (rate: number): number =>
+  (Math.log(rate / MIN_RATE) / Math.log(MAX_RATE / MIN_RATE)) * RATE_SLIDER_STEPS
+
+const fromRatePosition = (position: number): number =>
+  Number((MIN_RATE * Math.pow(MAX_RATE / MIN_RATE, position / RATE_SLIDER_STEPS)).toPrecision(2))
+
+// "LFO 2", "Envelope 1": numbered per kind in list order
+const getSourceLabel = (sources: ModulationSource[], source: ModulationSource): string => {
+  const number = sources.filter((candidate) => candidate.kind === source.kind).indexOf(source) + 1
+  return `${source.kind === "lfo" ? "LFO" : "Envelope"} ${number}`
+}
+
+interface SourceSliderProps {
+  label: string
+  display: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+function SourceSlider({ label, display, value, min, max, step, onChange }: SourceSliderProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{label}</Label>
+        <span className="text-xs text-gray-500">{display}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={(position) => onChange(position[0])} />
+    </div>
+  )
+}
+
+interface SourceControlsProps {
+  source: ModulationSource
+  onChange: (source: ModulationSource) => void
+}
+
+function SourceControls({ source, onChange }: SourceControlsProps) {
+  if (source.kind === "envelope") {
+    return (
+      <div className="space-y-4">
+        <SourceSlider
+          label="Attack"
+          display={`${Math.round(source.attack * 1000)} ms`}
+          value={source.attack}
+          min={0.001}
+          max={0.5}
+          step={0.001}
+          onChange={(attack) => onChange({ ...source, attack })}
+        />
+        <SourceSlider
+          label="Release"
+          display={`${Math.round(source.release * 1000)} ms`}
+          value={source.release}
+          min={0.01}
+          max={2}
+          step={0.01}
+          onChange={(release) => onChange({ ...source, release })}
+        />
+        <SourceSlider
+          label="Depth"
+          display={`${Math.round(source.depth * 100)}%`}
+          value={source.depth}
+          min={0}
+          max={1}
+          step={0.01}
+          onChange={(depth) => onChange({ ...source, depth })}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">Shape</Label>
+        <Select value={source.shape} onValueChange={(shape) => onChange({ ...source, shape: shape as LfoShape })}>
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {lfoShapes.map((shape) => (
+              <SelectItem key={shape.value} value={shape.value}>
+                {shape.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${source.id}-sync`} className="text-sm">
+          Sync to tempo
+        </Label>
+        <Switch
+          id={`${source.id}-sync`}
+          checked={source.sync}
+          onCheckedChange={(sync) => onChange({ ...source, sync })}
+        />
+      </div>
+
+      {source.sync ? (
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Cycle</Label>
+          <Select
+            value={String(source.division)}
+            onValueChange={(division) => onChange({ ...source, division: Number(division) })}
+          >
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {lfoDivisions.map((division) => (
+                <SelectItem key={division.value} value={String(division.value)}>
+                  {division.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <SourceSlider
+          label="Rate"
+          display={`${source.rate} Hz`}
+          value={toRatePosition(source.rate)}
+          min={0}
+          max={RATE_SLIDER_STEPS}
+          step={1}
+          onChange={(position) => onChange({ ...source, rate: fromRatePosition(position) })}
+        />
+      )}
+
+      <SourceSlider
+        label="Depth"
+        display={`${Math.round(source.depth * 100)}%`}
+        value={source.depth}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(depth) => onChange({ ...source, depth })}
+      />
+    </div>
+  )
+}
+
+interface ModulationPanelProps {
+  effects: AudioEffects
+  advancedEffects: AdvancedAudioEffects
+  onChange: (effects: AudioEffects) => void
+}
+
+// Global LFOs and envelope followers, and the matrix routing them to parameters.
+// Each cell is the amount a source moves a destination, from -100% to 100%.
+export default function ModulationPanel({ effects, advancedEffects, onChange }: ModulationPanelProps) {
+  const modulation = effects.modulation
+  const { sources, routes } = modulation
+  const params = listAutomatableParams(effects, advancedEffects)
+
+  const setModulation = (changes: Partial<ModulationSettings>) => {
+    onChange({ ...effects, modulation: { ...modulation, ...changes } })
+  }
+
+  const updateSource = (source: ModulationSource) => {
+    setModulation({ sources: sources.map((current) => (current.id === source.id ? source : current)) })
+  }
+
+  // Removing a source also clears its column of the matrix
+  const removeSource = (id: string) => {
+    setModulation({
+      sources: sources.filter((source) => source.id !== id),
+      routes: routes.filter((route) => route.sourceId !== id),
+    })
+  }
+
+  // Destinations with at least one route, in the order of the parameter list.
+  // Routes to parameters that are gone (e.g. of a removed effect) aren't shown.
+  const rows = params.filter((param) => routes.some((route) => getParamKey(route.target) === param.key))
+  const available = params.filter((param) => !rows.includes(param))
+
+  const findRoute = (sourceId: string, key: string): ModulationRoute | undefined =>
+    routes.find((route) => route.sourceId === sourceId && getParamKey(route.target) === key)
+
+  const setAmount = (sourceId: string, target: ParamRef, amount: number) => {
+    const existing = findRoute(sourceId, getParamKey(target))
+    setModulation({
+      routes: existing
+        ? routes.map((route) => (route === existing ? { ...route, amount } : route))
+        : [...routes, createModulationRoute(sourceId, target, amount)],
+    })
+  }
+
+  // A new row starts with an empty route from the first source
+  const addDestination = (key: string) => {
+    const param = params.find((candidate) => candidate.key === key)
+    if (!param || sources.length === 0) return
+    const target = { effectId: param.effectId, param: param.param }
+    setModulation({ routes: [...routes, createModulationRoute(sources[0].id, target, 0)] })
+  }
+
+  const removeDestination = (key: string) => {
+    setModulation({ routes: routes.filter((route) => getParamKey(route.target) !== key) })
+  }
+
+  return (
+    <div className="bg-gradient-to-r from-pink-100 to-purple-100 p-4 rounded-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-purple-700">Modulation</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...effects, modulation: defaultModulation })}
+          className="text-xs bg-white hover:bg-gray-100 border-purple-200 flex items-center gap-1"
+        >
+          <RotateCcw size={12} />
+          Reset All
+        </Button>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Tempo</Label>
+          <span className="text-xs text-gray-500">{modulation.tempo} BPM</span>
+        </div>
+        <Slider
+          value={[modulation.tempo]}
+          min={40}
+          max={240}
+          step={1}
+          onValueChange={(value) => setModulation({ tempo: value[0] })}
+        />
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {sources.map((source) => (
+          <div key={source.id} className="bg-white rounded-xl p-3 border border-purple-100 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-purple-800">{getSourceLabel(sources, source)}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => removeSource(source.id)}
+                title="Remove"
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+            <SourceControls source={source} onChange={updateSource} />
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => setModulation({ sources: [...sources, createLfo()] })}
+            className="bg-purple-500 hover:bg-purple-600 flex items-center gap-1"
+          >
+            <Plus size={14} />
+            LFO
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setModulation({ sources: [...sources, createEnvelopeFollower()] })}
+            className="bg-purple-500 hover:bg-purple-600 flex items-center gap-1"
+          >
+            <Plus size={14} />
+            Envelope
+          </Button>
+        </div>
+      </div>
+
+      {sources.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-2">Add an LFO or envelope to route it to a parameter.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="overflow-x-auto bg-white rounded-xl border border-purple-100">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-purple-800">
+                  <th className="p-2 text-left font-medium">Destination</th>
+                  {sources.map((source) => (
+                    <th key={source.id} className="p-2 font-medium whitespace-nowrap">
+                      {getSourceLabel(sources, source)}
+                    </th>
+                  ))}
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((param) => (
+                  <tr key={param.key} className="border-t border-purple-50">
+                    <td className="p-2 truncate max-w-[10rem]">{param.label}</td>
+                    {sources.map((source) => (
+                      <td key={source.id} className="p-1 text-center">
+                        <Input
+                          type="number"
+                          min={-100}
+                          max={100}
+                          step={5}
+                          value={Math.round((findRoute(source.id, param.key)?.amount ?? 0) * 100)}
+                          onChange={(event) => {
+                            const percent = Math.min(100, Math.max(-100, Number(event.target.value) || 0))
+                            setAmount(source.id, { effectId: param.effectId, param: param.param }, percent / 100)
+                          }}
+                          className="h-7 w-16 mx-auto px-1 text-xs text-center"
+                          aria-label={`${getSourceLabel(sources, source)} to ${param.label}`}
+                        />
+                      </td>
+                    ))}
+                    <td className="p-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-purple-700"
+                        onClick={() => removeDestination(param.key)}
+                        aria-label={`Remove ${param.label} modulation`}
+                      >
+                        <X size={14} />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {available.length > 0 && (
+            <Select value="" onValueChange={addDestination}>
+              <SelectTrigger className="h-8 bg-white text-xs">
+                <SelectValue placeholder="Modulate a parameter..." />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((param) => (
+                  <SelectItem key={param.key} value={param.key}>
+                    {param.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Slider } from "@/components/ui/slider"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Loader2 } from "lucide-react"
+import { type NoiseRegion, decodeRecording, learnNoiseProfile } from "@/lib/noise-reduction"
+
+interface NoiseProfileControlProps {
+  label?: string
+  // Recording the profile is learned from
+  audioBlob?: Blob
+  profile: number[]
+  disabled?: boolean
+  onChange: (profile: number[]) => void
+}
+
+type LearnSource = "auto" | "region"
+
+// Learn a noise profile from a noise-only stretch of the recording, or from its quietest parts
+export default function NoiseProfileControl({
+  label = "Noise Profile",
+  audioBlob,
+  profile,
+  disabled,
+  onChange,
+}: NoiseProfileControlProps) {
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null)
+  const [source, setSource] = useState<LearnSource>("auto")
+  const [region, setRegion] = useState<NoiseRegion>({ start: 0, end: 0.5 })
+  const [isLearning, setIsLearning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!audioBlob) return
+    let cancelled = false
+    setAudioBuffer(null)
+    decodeRecording(audioBlob)
+      .then((decoded) => {
+        if (cancelled) return
+        setAudioBuffer(decoded)
+        setRegion({ start: 0, end: Math.min(0.5, decoded.duration) })
+      })
+      .catch((err) => {
+        console.error("Error decoding audio:", err)
+        if (!cancelled) setError("This recording could not be read.")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [audioBlob])
+
+  if (!audioBlob) {
+    return (
+      <div className="space-y-1">
+        <Label className="text-sm">{label}</Label>
+        <p className="text-xs text-gray-500">Open a recording to learn its noise.</p>
+      </div>
+    )
+  }
+
+  const duration = audioBuffer?.duration ?? 0
+
+  const handleLearn = () => {
+    if (!audioBuffer) return
+    setIsLearning(true)
+    setError(null)
+    // Let the spinner show before the analysis blocks the page
+    setTimeout(() => {
+      const learned = learnNoiseProfile(audioBuffer, source === "region" ? region : undefined)
+      setIsLearning(false)
+      if (learned.length === 0) {
+        setError("There is no noise to learn from there.")
+        return
+      }
+      onChange(learned)
+    }, 0)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{label}</Label>
+        <span className="text-xs text-gray-500">{profile.length > 0 ? "Learned" : "Not learned yet"}</span>
+      </div>
+
+      <div className="flex gap-1">
+        {(["auto", "region"] as const).map((value) => (
+          <Button
+            key={value}
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            className={`h-6 px-2 text-[10px] ${
+              source === value ? "bg-purple-200 border-purple-300" : "bg-white hover:bg-gray-100 border-purple-200"
+            }`}
+            onClick={() => setSource(value)}
+          >
+            {value === "auto" ? "Quietest parts" : "Selection"}
+          </Button>
+        ))}
+      </div>
+
+      {source === "region" && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>Noise only from {region.start.toFixed(2)}s</span>
+            <span>to {region.end.toFixed(2)}s</span>
+          </div>
+          <Slider
+            min={0}
+            max={duration}
+            step={0.01}
+            value={[region.start]}
+            disabled={disabled || !audioBuffer}
+            onValueChange={(value) => setRegion({ start: Math.min(value[0], region.end), end: region.end })}
+          />
+          <Slider
+            min={0}
+            max={duration}
+            step={0.01}
+            value={[region.end]}
+            disabled={disabled || !audioBuffer}
+            onValueChange={(value) => setRegion({ start: region.start, end: Math.max(value[0], region.start) })}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-1">
+        <Button
+          size="sm"
+          disabled={disabled || !audioBuffer || isLearning}
+          onClick={handleLearn}
+          className="h-7 text-xs bg-purple-500 hover:bg-purple-600"
+        >
+          {isLearning || !audioBuffer ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : null}
+          Learn Noise
+        </Button>
+        {profile.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onChange([])}
+            className="h-7 text-xs bg-white hover:bg-gray-100 border-purple-200"
+          >
+            Forget
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
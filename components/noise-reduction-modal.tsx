@@ -0,0 +1,150 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Slider } from "@/components/ui/slider"
+import { Label } from "@/components/ui/label"
+import { Eraser, Loader2 } from "lucide-react"
+import { encodeWAV } from "@/lib/encoders/wav"
+import { saveAudio } from "@/lib/db"
+import {
+  type NoiseReductionSettings,
+  decodeRecording,
+  defaultNoiseReductionSettings,
+  reduceNoiseInBuffer,
+} from "@/lib/noise-reduction"
+import NoiseProfileControl from "./noise-profile-control"
+
+interface NoiseReductionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  audio: { id: number; name: string; blob: Blob } | null
+  // Called with the name of the cleaned copy once it is in the library
+  onSaved: (name: string) => void
+}
+
+const settingControls: Array<{
+  key: keyof NoiseReductionSettings
+  label: string
+  max: number
+  step: number
+  format: (value: number) => string
+}> = [
+  { key: "reduction", label: "Reduction", max: 40, step: 1, format: (value) => `${value} dB` },
+  { key: "sensitivity", label: "Sensitivity", max: 1, step: 0.01, format: (value) => `${Math.round(value * 100)}%` },
+  { key: "smoothing", label: "Smoothing", max: 0.95, step: 0.01, format: (value) => `${Math.round(value * 100)}%` },
+]
+
+export default function NoiseReductionModal({ isOpen, onClose, audio, onSaved }: NoiseReductionModalProps) {
+  const [profile, setProfile] = useState<number[]>([])
+  const [settings, setSettings] = useState<NoiseReductionSettings>(defaultNoiseReductionSettings)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClose = () => {
+    setProfile([])
+    setError(null)
+    onClose()
+  }
+
+  const handleSave = async () => {
+    if (!audio || profile.length === 0) return
+
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const audioBuffer = await decodeRecording(audio.blob)
+      const cleaned = await reduceNoiseInBuffer(audioBuffer, profile, settings)
+
+      // Keep the original; the cleaned copy is saved next to it
+      let name = audio.name
+      if (name.includes(".")) {
+        name = name.substring(0, name.lastIndexOf("."))
+      }
+      name += " (cleaned)"
+      await saveAudio(name, encodeWAV(cleaned))
+
+      setIsProcessing(false)
+      onSaved(name)
+      handleClose()
+    } catch (err) {
+      console.error("Error reducing noise:", err)
+      setError("There was an error cleaning up your audio. Please try again.")
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl text-purple-600">Clean Up Noise</DialogTitle>
+          <DialogDescription>Learn the background noise, then save a copy with it turned down.</DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <NoiseProfileControl
+            audioBlob={audio?.blob}
+            profile={profile}
+            disabled={isProcessing}
+            onChange={setProfile}
+          />
+
+          {settingControls.map((control) => (
+            <div key={control.key} className="space-y-2">
+              <div className="flex justify-between">
+                <Label htmlFor={`noise-${control.key}`} className="text-sm">
+                  {control.label}
+                </Label>
+                <span className="text-xs text-gray-500">{control.format(settings[control.key])}</span>
+              </div>
+              <Slider
+                id={`noise-${control.key}`}
+                min={0}
+                max={control.max}
+                step={control.step}
+                value={[settings[control.key]]}
+                disabled={isProcessing}
+                onValueChange={(value) => setSettings({ ...settings, [control.key]: value[0] })}
+              />
+            </div>
+          ))}
+
+          {error && <div className="text-red-500 text-sm mt-2">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isProcessing || !audio || profile.length === 0}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            {isProcessing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Processing
+              </>
+            ) : (
+              <>
+                <Eraser className="mr-2 h-4 w-4" />
+                Save Cleaned Copy
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,323 @@
+"use client"
+
+import { type PointerEvent, useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Plus, Trash2 } from "lucide-react"
+import {
+  type EqBand,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_GAIN,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  MAX_EQ_BANDS,
+  addEqBand,
+  eqBandTypes,
+  getEqResponse,
+  hasEqGain,
+  removeEqBand,
+  updateEqBand,
+} from "@/lib/eq"
+
+const WIDTH = 320
+const HEIGHT = 160
+// The curve is drawn a little beyond the bands' gain range, so deep cuts show
+const DISPLAY_GAIN = EQ_MAX_GAIN + 6
+// Analyser levels shown from the bottom to the top of the graph
+const SPECTRUM_MIN_DB = -100
+const SPECTRUM_MAX_DB = -20
+
+const CURVE_POINTS = 200
+const LOG_SLIDER_STEPS = 1000
+
+const bandColors = ["#ec4899", "#f97316", "#eab308", "#22c55e", "#06b6d4", "#3b82f6", "#8b5cf6", "#d946ef"]
+
+const frequencyToX = (frequency: number): number =>
+  (Math.log(frequency / EQ_MIN_FREQUENCY) / Math.log(EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY)) * WIDTH
+
+const xToFrequency = (x: number): number =>
+  EQ_MIN_FREQUENCY * Math.pow(EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY, Math.min(1, Math.max(0, x / WIDTH)))
+
+const gainToY = (gain: number): number =>
+  HEIGHT / 2 - (Math.max(-DISPLAY_GAIN, Math.min(DISPLAY_GAIN, gain)) / DISPLAY_GAIN) * (HEIGHT / 2)
+
+const yToGain = (y: number): number => ((HEIGHT / 2 - y) / (HEIGHT / 2)) * DISPLAY_GAIN
+
+// Frequencies the curve and spectrum are drawn at, evenly spaced on the graph
+const curveFrequencies = Float32Array.from({ length: CURVE_POINTS }, (_, i) =>
+  xToFrequency((i / (CURVE_POINTS - 1)) * WIDTH),
+)
+
+const formatFrequency = (frequency: number): string =>
+  frequency >= 1000 ? `${(frequency / 1000).toFixed(frequency >= 10000 ? 0 : 1)} kHz` : `${Math.round(frequency)} Hz`
+
+// Map between a value and a slider position on a log scale
+const toLogPosition = (value: number, min: number, max: number): number =>
+  (Math.log(value / min) / Math.log(max / min)) * LOG_SLIDER_STEPS
+
+const fromLogPosition = (position: number, min: number, max: number): number =>
+  min * Math.pow(max / min, position / LOG_SLIDER_STEPS)
+
+interface ParametricEqProps {
+  eq: EqBand[]
+  onChange: (eq: EqBand[]) => void
+  // Analyser after the EQ, drawn under the curve while there is one
+  getAnalyser?: () => AnalyserNode | null
+}
+
+// Response curve with a draggable handle per band, and the selected band's controls
+export default function ParametricEq({ eq, onChange, getAnalyser }: ParametricEqProps) {
+  const [selected, setSelected] = useState(0)
+  const [dragging, setDragging] = useState<number | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const spectrumRef = useRef<SVGPathElement>(null)
+  const getAnalyserRef = useRef(getAnalyser)
+  getAnalyserRef.current = getAnalyser
+
+  const selectedIndex = Math.min(selected, eq.length - 1)
+  const band = eq[selectedIndex]
+
+  const curvePath = useMemo(() => {
+    const response = getEqResponse(eq, curveFrequencies)
+    const points = Array.from(response, (gain, i) => `${frequencyToX(curveFrequencies[i])},${gainToY(gain)}`)
+    return `M${points.join(" L")}`
+  }, [eq])
+
+  // Redraw the spectrum every frame, straight into the path
+  useEffect(() => {
+    let frame = 0
+    let data = new Float32Array(0)
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw)
+      const analyser = getAnalyserRef.current?.()
+      const path = spectrumRef.current
+      if (!path) return
+      if (!analyser) {
+        path.setAttribute("d", "")
+        return
+      }
+
+      if (data.length !== analyser.frequencyBinCount) {
+        data = new Float32Array(analyser.frequencyBinCount)
+      }
+      analyser.getFloatFrequencyData(data)
+
+      const binWidth = analyser.context.sampleRate / analyser.fftSize
+      const points = Array.from(curveFrequencies, (frequency) => {
+        const level = data[Math.min(data.length - 1, Math.round(frequency / binWidth))]
+        const fraction = (level - SPECTRUM_MIN_DB) / (SPECTRUM_MAX_DB - SPECTRUM_MIN_DB)
+        const y = HEIGHT * (1 - Math.min(1, Math.max(0, fraction)))
+        return `L${frequencyToX(frequency)},${y}`
+      })
+      path.setAttribute("d", `M0,${HEIGHT} ${points.join(" ")} L${WIDTH},${HEIGHT} Z`)
+    }
+
+    frame = requestAnimationFrame(draw)
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  // Pointer position in graph units
+  const getPointerPosition = (event: PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * HEIGHT,
+    }
+  }
+
+  const handlePointerDown = (event: PointerEvent<SVGCircleElement>, index: number) => {
+    event.preventDefault()
+    svgRef.current?.setPointerCapture(event.pointerId)
+    setSelected(index)
+    setDragging(index)
+  }
+
+  // Dragging moves a band's frequency, and its gain if it has one
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (dragging === null) return
+    const { x, y } = getPointerPosition(event)
+    const changes: Partial<EqBand> = { frequency: Math.round(xToFrequency(x)) }
+    if (hasEqGain(eq[dragging].type)) {
+      changes.gain = Math.round(Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, yToGain(y))) * 2) / 2
+    }
+    onChange(updateEqBand(eq, dragging, changes))
+  }
+
+  const handlePointerUp = (event: PointerEvent<SVGSVGElement>) => {
+    svgRef.current?.releasePointerCapture(event.pointerId)
+    setDragging(null)
+  }
+
+  const handleAddBand = () => {
+    const added = addEqBand(eq)
+    onChange(added.eq)
+    setSelected(added.index)
+  }
+
+  const handleRemoveBand = () => {
+    onChange(removeEqBand(eq, selectedIndex))
+    setSelected(Math.max(0, selectedIndex - 1))
+  }
+
+  const setBand = (changes: Partial<EqBand>) => onChange(updateEqBand(eq, selectedIndex, changes))
+
+  return (
+    <div className="space-y-2">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full rounded-lg bg-white border border-purple-100 touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {[100, 1000, 10000].map((frequency) => (
+          <line
+            key={frequency}
+            x1={frequencyToX(frequency)}
+            x2={frequencyToX(frequency)}
+            y1={0}
+            y2={HEIGHT}
+            stroke="#ede9fe"
+          />
+        ))}
+        {[-12, -6, 0, 6, 12].map((gain) => (
+          <line key={gain} x1={0} x2={WIDTH} y1={gainToY(gain)} y2={gainToY(gain)} stroke="#ede9fe" />
+        ))}
+
+        <path ref={spectrumRef} fill="#c4b5fd" fillOpacity={0.35} />
+        <path d={curvePath} fill="none" stroke="#7c3aed" strokeWidth={2} />
+
+        {eq.map((current, index) => (
+          <circle
+            key={index}
+            cx={frequencyToX(current.frequency)}
+            cy={gainToY(hasEqGain(current.type) ? current.gain : 0)}
+            r={index === selectedIndex ? 7 : 5}
+            fill={bandColors[index % bandColors.length]}
+            stroke="white"
+            strokeWidth={2}
+            className="cursor-grab"
+            onPointerDown={(event) => handlePointerDown(event, index)}
+          />
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          {eq.map((_, index) => (
+            <Button
+              key={index}
+              variant="outline"
+              size="sm"
+              className={`h-6 w-6 px-0 text-[10px] ${
+                index === selectedIndex
+                  ? "bg-purple-200 border-purple-300"
+                  : "bg-white hover:bg-gray-100 border-purple-200"
+              }`}
+              style={{ color: bandColors[index % bandColors.length] }}
+              onClick={() => setSelected(index)}
+            >
+              {index + 1}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-6 w-6 bg-white hover:bg-gray-100 border-purple-200"
+            disabled={eq.length >= MAX_EQ_BANDS}
+            onClick={handleAddBand}
+            title="Add band"
+          >
+            <Plus size={12} />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-6 w-6 bg-white hover:bg-gray-100 border-purple-200"
+            disabled={selectedIndex === 0 || selectedIndex === eq.length - 1}
+            onClick={handleRemoveBand}
+            title="Remove band (the first and last stay, for bass and treble)"
+          >
+            <Trash2 size={12} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {eqBandTypes.map((option) => (
+          <Button
+            key={option.value}
+            variant="outline"
+            size="sm"
+            className={`h-6 px-2 text-[10px] ${
+              band.type === option.value
+                ? "bg-purple-200 border-purple-300"
+                : "bg-white hover:bg-gray-100 border-purple-200"
+            }`}
+            onClick={() => setBand({ type: option.value })}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">Frequency</span>
+          <span className="text-xs text-gray-500">{formatFrequency(band.frequency)}</span>
+        </div>
+        <Slider
+          value={[toLogPosition(band.frequency, EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY)]}
+          min={0}
+          max={LOG_SLIDER_STEPS}
+          step={1}
+          onValueChange={(position) =>
+            setBand({ frequency: Math.round(fromLogPosition(position[0], EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY)) })
+          }
+        />
+      </div>
+
+      {hasEqGain(band.type) && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">Gain</span>
+            <span className="text-xs text-gray-500">
+              {band.gain > 0 ? "+" : ""}
+              {band.gain} dB
+            </span>
+          </div>
+          <Slider
+            value={[band.gain]}
+            min={-EQ_MAX_GAIN}
+            max={EQ_MAX_GAIN}
+            step={0.5}
+            onValueChange={(value) => setBand({ gain: value[0] })}
+          />
+        </div>
+      )}
+
+      {band.type !== "lowshelf" && band.type !== "highshelf" && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">Q</span>
+            <span className="text-xs text-gray-500">{band.q.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={[toLogPosition(band.q, EQ_MIN_Q, EQ_MAX_Q)]}
+            min={0}
+            max={LOG_SLIDER_STEPS}
+            step={1}
+            onValueChange={(position) =>
+              setBand({ q: Math.round(fromLogPosition(position[0], EQ_MIN_Q, EQ_MAX_Q) * 100) / 100 })
+            }
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Lock, ShieldCheck, ShieldOff } from "lucide-react"
+import {
+  MIN_PIN_LENGTH,
+  type SafetySettings,
+  defaultSafetySettings,
+  getSafetySettings,
+  hasSafetyPin,
+  safetyRanges,
+  setSafetyEnabled,
+  setSafetyPin,
+  updateSafetySettings,
+  verifySafetyPin,
+} from "@/lib/safety"
+
+// Hearing-safety settings for parents. Once a PIN is set, it unlocks this page and
+// is needed to switch the limiter off.
+export default function ParentSettings() {
+  const [settings, setSettings] = useState<SafetySettings>(defaultSafetySettings)
+  const [pinSet, setPinSet] = useState(false)
+  // The PIN this page was unlocked with; empty while no PIN is set
+  const [unlockedPin, setUnlockedPin] = useState<string | null>(null)
+  const [pinInput, setPinInput] = useState("")
+  const [newPin, setNewPin] = useState("")
+  const [confirmPin, setConfirmPin] = useState("")
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  // localStorage is only there in the browser
+  useEffect(() => {
+    setSettings(getSafetySettings())
+    const hasPin = hasSafetyPin()
+    setPinSet(hasPin)
+    if (!hasPin) setUnlockedPin("")
+  }, [])
+
+  const unlocked = unlockedPin !== null
+
+  const handleUnlock = async () => {
+    if (await verifySafetyPin(pinInput)) {
+      setUnlockedPin(pinInput)
+      setPinInput("")
+      setMessage(null)
+    } else {
+      setMessage({ text: "That PIN doesn't match.", error: true })
+    }
+  }
+
+  const handleChange = (changes: Partial<Omit<SafetySettings, "enabled">>) => {
+    setSettings(updateSafetySettings(changes))
+  }
+
+  const handleToggleEnabled = async () => {
+    const enabled = !settings.enabled
+    if (await setSafetyEnabled(enabled, unlockedPin ?? "")) {
+      setSettings(getSafetySettings())
+      setMessage(null)
+    } else {
+      setMessage({ text: "Set a parent PIN before switching the limiter off.", error: true })
+    }
+  }
+
+  const handleSavePin = async () => {
+    if (newPin.length < MIN_PIN_LENGTH || newPin !== confirmPin) {
+      setMessage({ text: `Enter the same PIN of at least ${MIN_PIN_LENGTH} digits twice.`, error: true })
+      return
+    }
+
+    if (await setSafetyPin(newPin, unlockedPin ?? "")) {
+      setPinSet(true)
+      setUnlockedPin(newPin)
+      setNewPin("")
+      setConfirmPin("")
+      setMessage({ text: "PIN saved. You'll need it to change these settings.", error: false })
+    }
+  }
+
+  const status = message && (
+    <p className={`text-xs text-center ${message.error ? "text-red-500" : "text-green-600"}`}>{message.text}</p>
+  )
+
+  if (!unlocked) {
+    return (
+      <Card className="border-4 border-yellow-300 rounded-3xl shadow-lg bg-white">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-col items-center gap-2 text-center">
+            <Lock size={40} className="text-purple-600" />
+            <h3 className="text-xl font-semibold text-gray-700">Parents only</h3>
+            <p className="text-sm text-gray-500">Enter the parent PIN to change the volume safety settings.</p>
+          </div>
+          <Input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            placeholder="PIN"
+            value={pinInput}
+            onChange={(event) => setPinInput(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && handleUnlock()}
+          />
+          <Button onClick={handleUnlock} className="w-full bg-purple-500 hover:bg-purple-600">
+            Unlock
+          </Button>
+          {status}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="border-4 border-yellow-300 rounded-3xl shadow-lg bg-white">
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {settings.enabled ? (
+              <ShieldCheck size={24} className="text-green-600" />
+            ) : (
+              <ShieldOff size={24} className="text-red-500" />
+            )}
+            <div>
+              <h3 className="font-semibold text-purple-700">Volume safety</h3>
+              <p className="text-xs text-gray-500">
+                {settings.enabled ? "On for every player" : "Off: effects can get painfully loud"}
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={settings.enabled && !pinSet}
+            onClick={handleToggleEnabled}
+            className="text-xs bg-white hover:bg-gray-100 border-purple-200"
+          >
+            {settings.enabled ? "Switch off" : "Switch on"}
+          </Button>
+        </div>
+        {settings.enabled && !pinSet && (
+          <p className="text-xs text-gray-500 -mt-4">Set a PIN below to be able to switch it off.</p>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Loudest peak</Label>
+            <span className="text-xs text-gray-500">{settings.ceiling} dBFS</span>
+          </div>
+          <Slider
+            value={[settings.ceiling]}
+            min={safetyRanges.ceiling.min}
+            max={safetyRanges.ceiling.max}
+            step={1}
+            disabled={!settings.enabled}
+            onValueChange={(value) => handleChange({ ceiling: value[0] })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Maximum loudness</Label>
+            <span className="text-xs text-gray-500">{settings.maxLoudness} dBFS</span>
+          </div>
+          <Slider
+            value={[settings.maxLoudness]}
+            min={safetyRanges.maxLoudness.min}
+            max={safetyRanges.maxLoudness.max}
+            step={1}
+            disabled={!settings.enabled}
+            onValueChange={(value) => handleChange({ maxLoudness: value[0] })}
+          />
+          <p className="text-xs text-gray-500">Sound that stays louder than this is slowly turned down.</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-sm">Feedback protection</Label>
+            <p className="text-xs text-gray-500">Turns down runaway echoes and feedback right away.</p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!settings.enabled}
+            className={`h-6 px-2 text-[10px] ${
+              settings.feedbackProtection
+                ? "bg-purple-200 border-purple-300"
+                : "bg-white hover:bg-gray-100 border-purple-200"
+            }`}
+            onClick={() => handleChange({ feedbackProtection: !settings.feedbackProtection })}
+          >
+            {settings.feedbackProtection ? "On" : "Off"}
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t border-purple-100 pt-4">
+          <Label className="text-sm">{pinSet ? "Change parent PIN" : "Set a parent PIN"}</Label>
+          <Input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            placeholder="New PIN"
+            value={newPin}
+            onChange={(event) => setNewPin(event.target.value)}
+          />
+          <Input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            placeholder="New PIN again"
+            value={confirmPin}
+            onChange={(event) => setConfirmPin(event.target.value)}
+          />
+          <Button onClick={handleSavePin} className="w-full bg-purple-500 hover:bg-purple-600">
+            Save PIN
+          </Button>
+          {status}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,40 @@
+import * as React from "react"
+
+import { AudioEngine, type AudioEngineOptions, type AudioEngineState } from "@/lib/audio-engine"
+
+// Bind an AudioEngine to a component: one engine per blob, disposed when the
+// blob changes or the component unmounts. Options are read when the engine is created.
+export function useAudioEngine(blob: Blob, options: AudioEngineOptions = {}) {
+  const [engine, setEngine] = React.useState<AudioEngine | null>(null)
+  const [state, setState] = React.useState<AudioEngineState>("idle")
+  const [currentTime, setCurrentTime] = React.useState(0)
+  const [duration, setDuration] = React.useState(0)
+  // Whether the safety limiter is turning down runaway output
+  const [safetyDucking, setSafetyDucking] = React.useState(false)
+  const optionsRef = React.useRef(options)
+  optionsRef.current = options
+
+  React.useEffect(() => {
+    const audioEngine = new AudioEngine(optionsRef.current)
+    const unsubscribers = [
+      audioEngine.on("statechange", setState),
+      audioEngine.on("timeupdate", setCurrentTime),
+      audioEngine.on("durationchange", setDuration),
+      audioEngine.on("ended", () => setCurrentTime(0)),
+      audioEngine.on("safetyduck", setSafetyDucking),
+    ]
+
+    setCurrentTime(0)
+    setDuration(0)
+    setSafetyDucking(false)
+    audioEngine.load(blob)
+    setEngine(audioEngine)
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      audioEngine.dispose()
+    }
+  }, [blob])
+
+  return { engine, state, currentTime, duration, safetyDucking }
+}
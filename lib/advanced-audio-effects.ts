@@ -1,842 +1,293 @@
 // Advanced audio processing utilities using Web Audio API
 
-import type { AudioEffects } from "./audio-effects"
-
-// Define OversampleType
-type OversampleType = "2x" | "4x" | "none"
-
-// Advanced effects interface
-export interface AdvancedAudioEffects {
-  echo: {
-    enabled: boolean
-    delayTime: number // 0.1 to 1.0 seconds
-    feedback: number // 0 to 0.9
-    mix: number // 0 to 1.0
-  }
-  distortion: {
-    enabled: boolean
-    amount: number // 0 to 100
-    oversample: "2x" | "4x" | "none"
-  }
-  chorus: {
-    enabled: boolean
-    rate: number // 0.1 to 8 Hz
-    depth: number // 0 to 1.0
-    mix: number // 0 to 1.0
-  }
-  flanger: {
-    enabled: boolean
-    delay: number // 0.001 to 0.02 seconds
-    depth: number // 0.001 to 0.01 seconds
-    rate: number // 0.1 to 5 Hz
-    feedback: number // 0 to 0.9
-  }
-  phaser: {
-    enabled: boolean
-    rate: number // 0.1 to 8 Hz
-    depth: number // 0 to 1.0
-    feedback: number // 0 to 0.9
-    stages: number // 2 to 12
-  }
-  autoTune: {
-    enabled: boolean
-    scale: "major" | "minor" | "chromatic"
-    amount: number // 0 to 1.0 (subtle to strong)
-  }
-  formantShift: {
-    enabled: boolean
-    shift: number // -2 to 2 (lower to higher formants)
-  }
-  timeStretch: {
-    enabled: boolean
-    rate: number // 0.5 to 2.0
-  }
-  compression: {
-    enabled: boolean
-    threshold: number // -60 to 0 dB
-    ratio: number // 1 to 20
-    attack: number // 0 to 1.0 seconds
-    release: number // 0 to 1.0 seconds
-  }
-  granular: {
-    enabled: boolean
-    grainSize: number // 0.01 to 0.5 seconds
-    scatter: number // 0 to 1.0
-    density: number // 0 to 1.0
-  }
-}
-
-// Default advanced effects settings
-export const defaultAdvancedEffects: AdvancedAudioEffects = {
-  echo: {
-    enabled: false,
-    delayTime: 0.3,
-    feedback: 0.4,
-    mix: 0.3,
-  },
-  distortion: {
-    enabled: false,
-    amount: 20,
-    oversample: "4x",
-  },
-  chorus: {
-    enabled: false,
-    rate: 1.5,
-    depth: 0.7,
-    mix: 0.5,
-  },
-  flanger: {
-    enabled: false,
-    delay: 0.005,
-    depth: 0.002,
-    rate: 0.5,
-    feedback: 0.5,
-  },
-  phaser: {
-    enabled: false,
-    rate: 0.5,
-    depth: 0.5,
-    feedback: 0.5,
-    stages: 6,
-  },
-  autoTune: {
-    enabled: false,
-    scale: "major",
-    amount: 0.5,
-  },
-  formantShift: {
-    enabled: false,
-    shift: 0,
-  },
-  timeStretch: {
-    enabled: false,
-    rate: 1.0,
-  },
-  compression: {
-    enabled: false,
-    threshold: -24,
-    ratio: 4,
-    attack: 0.003,
-    release: 0.25,
-  },
-  granular: {
-    enabled: false,
-    grainSize: 0.1,
-    scatter: 0.2,
-    density: 0.8,
-  },
-}
-
-// Combined effects interface
-export interface CombinedAudioEffects {
-  basic: AudioEffects
-  advanced: AdvancedAudioEffects
+import { type AudioEffects, type VoiceCharacter, fadeGain } from "./audio-effects"
+import type { AutomationLanes } from "./automation"
+import { type EffectNodes, type EffectParams, getDefaultEffectParams, getEffectDefinition } from "./effects"
+
+// One effect in the chain. `type` names a registered effect (see lib/effects).
+// Disabled effects are left out of the graph; bypassed ones stay in it but pass
+// the signal through unchanged.
+export interface AdvancedEffect {
+  id: string
+  type: string
+  enabled: boolean
+  bypass: boolean
+  params: EffectParams
+  automation: AutomationLanes // lanes for the parameters the definition can automate
+  fromCharacter?: boolean // added by a character preset, and replaced when another one is picked
 }
 
-// Create a delay node for echo effect
-export const createDelayNode = (
-  audioContext: AudioContext,
-  delayTime: number,
-  feedback: number,
-): { delayNode: DelayNode; feedbackGain: GainNode } => {
-  const delayNode = audioContext.createDelay(2.0) // Max 2 seconds delay
-  delayNode.delayTime.value = delayTime
+// Advanced effects chain, processed in array order. The same type may appear more than once.
+export type AdvancedAudioEffects = AdvancedEffect[]
 
-  const feedbackGain = audioContext.createGain()
-  feedbackGain.gain.value = feedback
+// Default advanced effects settings: an empty chain
+export const defaultAdvancedEffects: AdvancedAudioEffects = []
 
-  // Connect delay to feedback loop
-  delayNode.connect(feedbackGain)
-  feedbackGain.connect(delayNode)
+// Unique id for an effect in the chain
+const createEffectId = (type: string): string => `${type}-${Math.random().toString(36).slice(2, 10)}`
 
-  return { delayNode, feedbackGain }
-}
-
-// Create a waveshaper node for distortion effect
-export const createDistortionNode = (
-  audioContext: AudioContext,
-  amount: number,
-  oversample: OversampleType = "4x",
-): WaveShaperNode => {
-  const distortion = audioContext.createWaveShaper()
-  distortion.oversample = oversample
-
-  // Create distortion curve
-  const k = amount >= 100 ? 99.9 : amount // Prevent infinity
-  const deg = Math.PI / 180
-  const samples = 44100
-  const curve = new Float32Array(samples)
-
-  for (let i = 0; i < samples; ++i) {
-    const x = (i * 2) / samples - 1
-    curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
+// Create a new, enabled effect with default parameters
+export const createAdvancedEffect = (type: string): AdvancedEffect => {
+  const definition = getEffectDefinition(type)
+  if (!definition) {
+    throw new Error(`Unknown effect type: ${type}`)
   }
 
-  distortion.curve = curve
-  return distortion
+  return {
+    id: createEffectId(type),
+    type,
+    enabled: true,
+    bypass: false,
+    params: getDefaultEffectParams(definition),
+    automation: {},
+  }
 }
 
-// Create oscillator and gain nodes for chorus/flanger effects
-export const createModulationNodes = (
-  audioContext: AudioContext,
-  rate: number,
-  depth: number,
-): { oscillator: OscillatorNode; modulationGain: GainNode } => {
-  const oscillator = audioContext.createOscillator()
-  oscillator.type = "sine"
-  oscillator.frequency.value = rate
-
-  const modulationGain = audioContext.createGain()
-  modulationGain.gain.value = depth
-
-  oscillator.connect(modulationGain)
-  oscillator.start()
-
-  return { oscillator, modulationGain }
+// Copy an effect (with a new id), e.g. to run two echoes
+export const duplicateAdvancedEffect = (effect: AdvancedEffect): AdvancedEffect => ({
+  ...effect,
+  id: createEffectId(effect.type),
+  fromCharacter: undefined,
+  params: structuredClone(effect.params),
+  automation: structuredClone(effect.automation),
+})
+
+// Effects each character adds to the chain, with the params that differ from the defaults
+const characterEffects: Partial<Record<VoiceCharacter, Array<{ type: string; params: EffectParams }>>> = {
+  robot: [{ type: "vocoder", params: { carrier: "saw", chord: "note", note: 45, bands: 16, mix: 0.9 } }],
+  alien: [{ type: "ringModulator", params: { frequency: 30, waveform: "sine", mix: 1 } }],
 }
 
-// Create a compressor node
-export const createCompressorNode = (
-  audioContext: AudioContext,
-  threshold: number,
-  ratio: number,
-  attack: number,
-  release: number,
-): DynamicsCompressorNode => {
-  const compressor = audioContext.createDynamicsCompressor()
-  compressor.threshold.value = threshold
-  compressor.ratio.value = ratio
-  compressor.attack.value = attack
-  compressor.release.value = release
-  return compressor
+// The chain with the previous character's effects swapped for those of `character`
+export const applyCharacterEffects = (
+  effects: AdvancedAudioEffects,
+  character: VoiceCharacter,
+): AdvancedAudioEffects => [
+  ...effects.filter((effect) => !effect.fromCharacter),
+  ...(characterEffects[character] ?? []).map(({ type, params }) => {
+    const effect = createAdvancedEffect(type)
+    return { ...effect, params: { ...effect.params, ...params }, fromCharacter: true }
+  }),
+]
+
+// Whether an effect gets nodes in the graph (tempo effects and unknown types don't)
+export const isGraphEffect = (effect: AdvancedEffect): boolean => {
+  const definition = getEffectDefinition(effect.type)
+  return !!definition && !definition.getTempoFactor
 }
 
-// Create a biquad filter for phaser effect
-export const createPhaserFilters = (audioContext: AudioContext, stages: number): BiquadFilterNode[] => {
-  const filters: BiquadFilterNode[] = []
-
-  for (let i = 0; i < stages; i++) {
-    const filter = audioContext.createBiquadFilter()
-    filter.type = "allpass"
-    filter.frequency.value = 1000 // Will be modulated
-    filter.Q.value = 5
-    filters.push(filter)
-  }
-
-  return filters
+// Combined effects interface
+export interface CombinedAudioEffects {
+  basic: AudioEffects
+  advanced: AdvancedAudioEffects
 }
 
-// Create a worklet for granular synthesis
-export const createGranularProcessor = async (audioContext: AudioContext): Promise<boolean> => {
-  if (!audioContext.audioWorklet) {
-    console.error("AudioWorklet not supported in this browser")
-    return false
-  }
-
-  try {
-    // Check if the processor is already registered
-    try {
-      // Try to create the node first - if it fails, we need to register the processor
-      new AudioWorkletNode(audioContext, "granular-processor");
-      console.log("Granular processor already registered");
-      return true;
-    } catch (e) {
-      // Processor not registered yet, load it from the public folder
-      await audioContext.audioWorklet.addModule('/worklets/granular-processor.js');
-      console.log("Granular processor registered successfully");
-      return true;
-    }
-  } catch (error) {
-    console.error("Failed to register granular processor:", error);
-    return false;
-  }
+// Time to let removed links fade out before releasing them
+const RELEASE_DELAY = 40
+
+// One effect of the chain. Its input feeds the effect and a dry bypass path,
+// which are summed into `output`, so bypassing only swaps the two gains.
+export interface AdvancedEffectUnit {
+  id: string
+  type: string
+  bypass: boolean
+  input: GainNode
+  nodes: EffectNodes
+  effectGain: GainNode
+  bypassGain: GainNode
+  output: GainNode
 }
 
-// Create a worklet for auto-tune effect
-export const createAutoTuneProcessor = async (audioContext: AudioContext): Promise<boolean> => {
-  if (!audioContext.audioWorklet) {
-    console.error("AudioWorklet not supported in this browser")
-    return false
-  }
-
-  try {
-    // Check if the processor is already registered
-    try {
-      // Try to create the node first - if it fails, we need to register the processor
-      new AudioWorkletNode(audioContext, "auto-tune-processor");
-      console.log("Auto-tune processor already registered");
-      return true;
-    } catch (e) {
-      // Processor not registered yet, load it from the public folder
-      await audioContext.audioWorklet.addModule('/worklets/auto-tune-processor.js');
-      console.log("Auto-tune processor registered successfully");
-      return true;
-    }
-  } catch (error) {
-    console.error("Failed to register auto-tune processor:", error);
-    return false;
-  }
+// Connection between two neighbours in the chain ("input", a unit id or "output"),
+// through its own gain so it can be faded in and out
+interface ChainLink {
+  from: string
+  to: string
+  source: AudioNode
+  gain: GainNode
 }
 
-// Create a worklet for formant shifting
-export const createFormantShiftProcessor = async (audioContext: AudioContext): Promise<boolean> => {
-  if (!audioContext.audioWorklet) {
-    console.error("AudioWorklet not supported in this browser")
-    return false
-  }
+// Advanced audio nodes interface: the units in chain order and the links between them
+export interface AdvancedAudioNodes {
+  input: AudioNode
+  destination: AudioNode
+  units: AdvancedEffectUnit[]
+  links: ChainLink[]
+  // Rewiring in progress; each change waits for the previous one
+  rewiring: Promise<void>
+}
 
-  try {
-    // Check if the processor is already registered
-    try {
-      // Try to create the node first - if it fails, we need to register the processor
-      new AudioWorkletNode(audioContext, "formant-shift-processor");
-      console.log("Formant shift processor already registered");
-      return true;
-    } catch (e) {
-      // Processor not registered yet, load it from the public folder
-      await audioContext.audioWorklet.addModule('/worklets/formant-shift-processor.js');
-      console.log("Formant shift processor registered successfully");
-      return true;
-    }
-  } catch (error) {
-    console.error("Failed to register formant shift processor:", error);
-    return false;
+// Set a gain now, or fade to it
+const setGain = (gain: GainNode, value: number, fade: boolean) => {
+  if (fade) {
+    fadeGain(gain, value)
+  } else {
+    gain.gain.cancelScheduledValues(gain.context.currentTime)
+    gain.gain.value = value
   }
 }
 
-// Create a worklet for time stretching
-export const createTimeStretchProcessor = async (audioContext: AudioContext): Promise<boolean> => {
-  if (!audioContext.audioWorklet) {
-    console.error("AudioWorklet not supported in this browser")
-    return false
-  }
+// Build the nodes of one effect, or null if it can't be created
+const createEffectUnit = async (
+  audioContext: BaseAudioContext,
+  effect: AdvancedEffect,
+): Promise<AdvancedEffectUnit | null> => {
+  const definition = getEffectDefinition(effect.type)
+  if (!definition) return null
 
+  let nodes: EffectNodes | null = null
   try {
-    // Check if the processor is already registered
-    try {
-      // Try to create the node first - if it fails, we need to register the processor
-      new AudioWorkletNode(audioContext, "time-stretch-processor");
-      console.log("Time stretch processor already registered");
-      return true;
-    } catch (e) {
-      // Processor not registered yet, load it from the public folder
-      await audioContext.audioWorklet.addModule('/worklets/time-stretch-processor.js');
-      console.log("Time stretch processor registered successfully");
-      return true;
-    }
+    nodes = await definition.create(audioContext, effect.params)
   } catch (error) {
-    console.error("Failed to register time stretch processor:", error);
-    return false;
+    console.error(`Failed to create ${definition.name} effect:`, error)
   }
-}
-
-// Advanced audio nodes interface
-export interface AdvancedAudioNodes {
-  // Echo effect
-  echoDelayNode?: DelayNode
-  echoFeedbackGain?: GainNode
-  echoMixGain?: GainNode
-  echoDryGain?: GainNode
-
-  // Distortion effect
-  distortionNode?: WaveShaperNode
-  distortionMixGain?: GainNode
-  distortionDryGain?: GainNode
-
-  // Chorus effect
-  chorusDelayNode?: DelayNode
-  chorusOscillator?: OscillatorNode
-  chorusModulationGain?: GainNode
-  chorusMixGain?: GainNode
-  chorusDryGain?: GainNode
-
-  // Flanger effect
-  flangerDelayNode?: DelayNode
-  flangerOscillator?: OscillatorNode
-  flangerModulationGain?: GainNode
-  flangerFeedbackGain?: GainNode
-  flangerMixGain?: GainNode
-  flangerDryGain?: GainNode
-
-  // Phaser effect
-  phaserFilters?: BiquadFilterNode[]
-  phaserOscillator?: OscillatorNode
-  phaserModulationGain?: GainNode
-  phaserFeedbackGain?: GainNode
-  phaserMixGain?: GainNode
-  phaserDryGain?: GainNode
-
-  // Auto-tune effect
-  autoTuneNode?: AudioWorkletNode
-
-  // Formant shift effect
-  formantShiftNode?: AudioWorkletNode
-
-  // Time stretch effect
-  timeStretchNode?: AudioWorkletNode
-
-  // Compression effect
-  compressorNode?: DynamicsCompressorNode
-
-  // Granular synthesis effect
-  granularNode?: AudioWorkletNode
-}
-
-// Setup advanced audio processing graph
-export const setupAdvancedAudioGraph = async (
-  audioContext: AudioContext,
-  sourceNode: MediaElementAudioSourceNode,
-  destinationNode: AudioNode,
-  effects: AdvancedAudioEffects,
-): Promise<AdvancedAudioNodes> => {
-  const nodes: AdvancedAudioNodes = {}
+  if (!nodes) return null
 
-  // Create a chain of effects
-  let currentNode: AudioNode = sourceNode
+  const input = audioContext.createGain()
 
-  // 1. Echo effect
-  if (effects.echo.enabled) {
-    const { delayNode, feedbackGain } = createDelayNode(audioContext, effects.echo.delayTime, effects.echo.feedback)
+  // Effect and bypass paths, summed into the unit output
+  const effectGain = audioContext.createGain()
+  effectGain.gain.value = effect.bypass ? 0 : 1
 
-    const dryGain = audioContext.createGain()
-    dryGain.gain.value = 1 - effects.echo.mix
+  const bypassGain = audioContext.createGain()
+  bypassGain.gain.value = effect.bypass ? 1 : 0
 
-    const wetGain = audioContext.createGain()
-    wetGain.gain.value = effects.echo.mix
+  const output = audioContext.createGain()
+  input.connect(nodes.input)
+  nodes.output.connect(effectGain)
+  input.connect(bypassGain)
+  effectGain.connect(output)
+  bypassGain.connect(output)
 
-    // Connect
-    currentNode.connect(dryGain)
-    currentNode.connect(delayNode)
-    delayNode.connect(wetGain)
-
-    // Merge dry and wet
-    const merger = audioContext.createGain()
-    dryGain.connect(merger)
-    wetGain.connect(merger)
-
-    // Update current node
-    currentNode = merger
-
-    // Store nodes
-    nodes.echoDelayNode = delayNode
-    nodes.echoFeedbackGain = feedbackGain
-    nodes.echoMixGain = wetGain
-    nodes.echoDryGain = dryGain
-  }
-
-  // 2. Distortion effect
-  if (effects.distortion.enabled) {
-    const distortionNode = createDistortionNode(
-      audioContext,
-      effects.distortion.amount,
-      effects.distortion.oversample as OversampleType,
-    )
-
-    const dryGain = audioContext.createGain()
-    dryGain.gain.value = 0.5 // Fixed mix for distortion
-
-    const wetGain = audioContext.createGain()
-    wetGain.gain.value = 0.5
-
-    // Connect
-    currentNode.connect(dryGain)
-    currentNode.connect(distortionNode)
-    distortionNode.connect(wetGain)
-
-    // Merge dry and wet
-    const merger = audioContext.createGain()
-    dryGain.connect(merger)
-    wetGain.connect(merger)
-
-    // Update current node
-    currentNode = merger
-
-    // Store nodes
-    nodes.distortionNode = distortionNode
-    nodes.distortionMixGain = wetGain
-    nodes.distortionDryGain = dryGain
-  }
-
-  // 3. Chorus effect
-  if (effects.chorus.enabled) {
-    const delayNode = audioContext.createDelay(0.05)
-    delayNode.delayTime.value = 0.03 // 30ms delay
-
-    const { oscillator, modulationGain } = createModulationNodes(
-      audioContext,
-      effects.chorus.rate,
-      0.005 * effects.chorus.depth, // Convert to seconds
-    )
-
-    // Connect modulation
-    modulationGain.connect(delayNode.delayTime)
-
-    const dryGain = audioContext.createGain()
-    dryGain.gain.value = 1 - effects.chorus.mix
-
-    const wetGain = audioContext.createGain()
-    wetGain.gain.value = effects.chorus.mix
-
-    // Connect
-    currentNode.connect(dryGain)
-    currentNode.connect(delayNode)
-    delayNode.connect(wetGain)
-
-    // Merge dry and wet
-    const merger = audioContext.createGain()
-    dryGain.connect(merger)
-    wetGain.connect(merger)
-
-    // Update current node
-    currentNode = merger
-
-    // Store nodes
-    nodes.chorusDelayNode = delayNode
-    nodes.chorusOscillator = oscillator
-    nodes.chorusModulationGain = modulationGain
-    nodes.chorusMixGain = wetGain
-    nodes.chorusDryGain = dryGain
-  }
-
-  // 4. Flanger effect
-  if (effects.flanger.enabled) {
-    const delayNode = audioContext.createDelay(0.05)
-    delayNode.delayTime.value = effects.flanger.delay
-
-    const { oscillator, modulationGain } = createModulationNodes(
-      audioContext,
-      effects.flanger.rate,
-      effects.flanger.depth,
-    )
-
-    const feedbackGain = audioContext.createGain()
-    feedbackGain.gain.value = effects.flanger.feedback
-
-    // Connect modulation
-    modulationGain.connect(delayNode.delayTime)
-
-    // Connect feedback loop
-    delayNode.connect(feedbackGain)
-    feedbackGain.connect(delayNode)
-
-    const dryGain = audioContext.createGain()
-    dryGain.gain.value = 0.5 // Fixed mix for flanger
-
-    const wetGain = audioContext.createGain()
-    wetGain.gain.value = 0.5
-
-    // Connect
-    currentNode.connect(dryGain)
-    currentNode.connect(delayNode)
-    delayNode.connect(wetGain)
-
-    // Merge dry and wet
-    const merger = audioContext.createGain()
-    dryGain.connect(merger)
-    wetGain.connect(merger)
-
-    // Update current node
-    currentNode = merger
-
-    // Store nodes
-    nodes.flangerDelayNode = delayNode
-    nodes.flangerOscillator = oscillator
-    nodes.flangerModulationGain = modulationGain
-    nodes.flangerFeedbackGain = feedbackGain
-    nodes.flangerMixGain = wetGain
-    nodes.flangerDryGain = dryGain
-  }
-
-  // 5. Phaser effect
-  if (effects.phaser.enabled) {
-    const filters = createPhaserFilters(audioContext, effects.phaser.stages)
-
-    const { oscillator, modulationGain } = createModulationNodes(
-      audioContext,
-      effects.phaser.rate,
-      2000 * effects.phaser.depth, // Scale depth to frequency range
-    )
-
-    const feedbackGain = audioContext.createGain()
-    feedbackGain.gain.value = effects.phaser.feedback
-
-    // Connect filters in series
-    let filterChain: AudioNode = currentNode
-    for (const filter of filters) {
-      filterChain.connect(filter)
-      filterChain = filter
-
-      // Connect modulation to each filter
-      modulationGain.connect(filter.frequency)
-    }
-
-    // Connect feedback
-    filterChain.connect(feedbackGain)
-    feedbackGain.connect(filters[0])
-
-    const dryGain = audioContext.createGain()
-    dryGain.gain.value = 0.5 // Fixed mix
-
-    const wetGain = audioContext.createGain()
-    wetGain.gain.value = 0.5
-
-    // Connect
-    currentNode.connect(dryGain)
-    filterChain.connect(wetGain)
-
-    // Merge dry and wet
-    const merger = audioContext.createGain()
-    dryGain.connect(merger)
-    wetGain.connect(merger)
-
-    // Update current node
-    currentNode = merger
-
-    // Store nodes
-    nodes.phaserFilters = filters
-    nodes.phaserOscillator = oscillator
-    nodes.phaserModulationGain = modulationGain
-    nodes.phaserFeedbackGain = feedbackGain
-    nodes.phaserMixGain = wetGain
-    nodes.phaserDryGain = dryGain
-  }
-
-  // 6. Compression effect
-  if (effects.compression.enabled) {
-    const compressor = createCompressorNode(
-      audioContext,
-      effects.compression.threshold,
-      effects.compression.ratio,
-      effects.compression.attack,
-      effects.compression.release,
-    )
-
-    // Connect
-    currentNode.connect(compressor)
-
-    // Update current node
-    currentNode = compressor
-
-    // Store node
-    nodes.compressorNode = compressor
-  }
-
-  // 7. Auto-tune effect
-  if (effects.autoTune.enabled) {
-    try {
-      // Register processor if needed
-      await createAutoTuneProcessor(audioContext)
-
-      // Create node
-      const autoTuneNode = new AudioWorkletNode(audioContext, "auto-tune-processor")
-
-      // Set parameters
-      autoTuneNode.port.postMessage({
-        scale: effects.autoTune.scale,
-        amount: effects.autoTune.amount,
-      })
+  return { id: effect.id, type: effect.type, bypass: effect.bypass, input, nodes, effectGain, bypassGain, output }
+}
 
-      // Connect
-      currentNode.connect(autoTuneNode)
+const disposeEffectUnit = (unit: AdvancedEffectUnit) => {
+  unit.input.disconnect()
+  getEffectDefinition(unit.type)?.dispose(unit.nodes)
+  unit.effectGain.disconnect()
+  unit.bypassGain.disconnect()
+  unit.output.disconnect()
+}
 
-      // Update current node
-      currentNode = autoTuneNode
+const disconnectLink = (link: ChainLink) => {
+  link.source.disconnect(link.gain)
+  link.gain.disconnect()
+}
 
-      // Store node
-      nodes.autoTuneNode = autoTuneNode
-    } catch (error) {
-      console.error("Failed to create auto-tune effect:", error)
+const wait = (milliseconds: number) => new Promise<void>((resolve) => setTimeout(resolve, milliseconds))
+
+// Bring the graph in line with the chain. Units that stay are reused, so only
+// the links around added, removed or moved effects change. With `fade`, new
+// links fade in while old ones fade out, then the old ones are released.
+const applyChainLayout = async (nodes: AdvancedAudioNodes, effects: AdvancedAudioEffects, fade: boolean) => {
+  const audioContext = nodes.input.context
+
+  const units: AdvancedEffectUnit[] = []
+  for (const effect of effects) {
+    if (!effect.enabled || !isGraphEffect(effect)) continue
+    const existing = nodes.units.find((unit) => unit.id === effect.id)
+    const unit = existing ?? (await createEffectUnit(audioContext, effect))
+    if (unit) units.push(unit)
+  }
+  const removedUnits = nodes.units.filter((unit) => !units.includes(unit))
+
+  // input -> first unit -> ... -> last unit -> output (input -> output for an empty chain)
+  const wantedLinks: Array<{ from: string; to: string; source: AudioNode; target: AudioNode }> = []
+  let from = "input"
+  let source = nodes.input
+  for (const unit of units) {
+    wantedLinks.push({ from, to: unit.id, source, target: unit.input })
+    from = unit.id
+    source = unit.output
+  }
+  wantedLinks.push({ from, to: "output", source, target: nodes.destination })
+
+  const links: ChainLink[] = []
+  for (const wanted of wantedLinks) {
+    const existing = nodes.links.find((link) => link.from === wanted.from && link.to === wanted.to)
+    if (existing) {
+      links.push(existing)
+      continue
     }
-  }
-
-  // 8. Formant shift effect
-  if (effects.formantShift.enabled) {
-    try {
-      // Register processor if needed
-      await createFormantShiftProcessor(audioContext)
-
-      // Create node
-      const formantShiftNode = new AudioWorkletNode(audioContext, "formant-shift-processor")
 
-      // Set parameters
-      formantShiftNode.port.postMessage({
-        shift: effects.formantShift.shift,
-      })
-
-      // Connect
-      currentNode.connect(formantShiftNode)
-
-      // Update current node
-      currentNode = formantShiftNode
-
-      // Store node
-      nodes.formantShiftNode = formantShiftNode
-    } catch (error) {
-      console.error("Failed to create formant shift effect:", error)
+    const gain = audioContext.createGain()
+    gain.gain.value = fade ? 0 : 1
+    wanted.source.connect(gain)
+    gain.connect(wanted.target)
+    if (fade) {
+      setGain(gain, 1, true)
     }
+    links.push({ from: wanted.from, to: wanted.to, source: wanted.source, gain })
   }
 
-  // 9. Time stretch effect
-  if (effects.timeStretch.enabled) {
-    try {
-      // Register processor if needed
-      await createTimeStretchProcessor(audioContext)
-
-      // Create node
-      const timeStretchNode = new AudioWorkletNode(audioContext, "time-stretch-processor")
+  const staleLinks = nodes.links.filter((link) => !links.includes(link))
+  staleLinks.forEach((link) => setGain(link.gain, 0, fade))
 
-      // Set parameters
-      timeStretchNode.port.postMessage({
-        rate: effects.timeStretch.rate,
-      })
+  nodes.units = units
+  nodes.links = links
 
-      // Connect
-      currentNode.connect(timeStretchNode)
-
-      // Update current node
-      currentNode = timeStretchNode
-
-      // Store node
-      nodes.timeStretchNode = timeStretchNode
-    } catch (error) {
-      console.error("Failed to create time stretch effect:", error)
+  // Release what is no longer used once it has faded out
+  if (staleLinks.length > 0 || removedUnits.length > 0) {
+    if (fade) {
+      await wait(RELEASE_DELAY)
     }
+    staleLinks.forEach(disconnectLink)
+    removedUnits.forEach(disposeEffectUnit)
   }
+}
 
-  // 10. Granular synthesis effect
-  if (effects.granular.enabled) {
-    try {
-      // Register processor if needed
-      await createGranularProcessor(audioContext)
-
-      // Create node
-      const granularNode = new AudioWorkletNode(audioContext, "granular-processor")
-
-      // Set parameters
-      granularNode.port.postMessage({
-        grainSize: effects.granular.grainSize,
-        scatter: effects.granular.scatter,
-        density: effects.granular.density,
-      })
-
-      // Connect
-      currentNode.connect(granularNode)
-
-      // Update current node
-      currentNode = granularNode
-
-      // Store node
-      nodes.granularNode = granularNode
-    } catch (error) {
-      console.error("Failed to create granular synthesis effect:", error)
-    }
+// Setup advanced audio processing graph: every enabled effect, in chain order
+export const setupAdvancedAudioGraph = async (
+  audioContext: BaseAudioContext,
+  sourceNode: AudioNode,
+  destinationNode: AudioNode,
+  effects: AdvancedAudioEffects,
+): Promise<AdvancedAudioNodes> => {
+  const nodes: AdvancedAudioNodes = {
+    input: sourceNode,
+    destination: destinationNode,
+    units: [],
+    links: [],
+    rewiring: Promise.resolve(),
   }
 
-  // Connect final node to destination
-  currentNode.connect(destinationNode)
+  await applyChainLayout(nodes, effects, false)
 
   return nodes
 }
 
-// Update advanced audio effects in real-time
-export const updateAdvancedAudioEffects = (nodes: AdvancedAudioNodes, effects: AdvancedAudioEffects): void => {
-  // 1. Update echo effect
-  if (effects.echo.enabled && nodes.echoDelayNode && nodes.echoFeedbackGain && nodes.echoMixGain && nodes.echoDryGain) {
-    nodes.echoDelayNode.delayTime.value = effects.echo.delayTime
-    nodes.echoFeedbackGain.gain.value = effects.echo.feedback
-    nodes.echoMixGain.gain.value = effects.echo.mix
-    nodes.echoDryGain.gain.value = 1 - effects.echo.mix
-  }
+// Apply added, removed, reordered, enabled or disabled effects to a running graph
+// with short crossfades, without rebuilding the effects that stay
+export const rewireAdvancedAudioGraph = (nodes: AdvancedAudioNodes, effects: AdvancedAudioEffects): Promise<void> => {
+  nodes.rewiring = nodes.rewiring
+    .then(() => applyChainLayout(nodes, effects, true))
+    .catch((error) => console.error("Failed to rewire advanced effects:", error))
+  return nodes.rewiring
+}
 
-  // 2. Update distortion effect
-  if (effects.distortion.enabled && nodes.distortionNode) {
-    // Recreate curve with new amount
-    const k = effects.distortion.amount >= 100 ? 99.9 : effects.distortion.amount
-    const deg = Math.PI / 180
-    const samples = 44100
-    const curve = new Float32Array(samples)
-
-    for (let i = 0; i < samples; ++i) {
-      const x = (i * 2) / samples - 1
-      curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
+// Update advanced audio effects in real-time. Units are matched by effect id;
+// adding, removing or reordering effects goes through rewireAdvancedAudioGraph.
+export const updateAdvancedAudioEffects = (nodes: AdvancedAudioNodes, effects: AdvancedAudioEffects): void => {
+  for (const unit of nodes.units) {
+    const effect = effects.find((candidate) => candidate.id === unit.id)
+    const definition = getEffectDefinition(unit.type)
+    if (!effect || !effect.enabled || !definition) continue
+
+    if (effect.bypass !== unit.bypass) {
+      unit.bypass = effect.bypass
+      setGain(unit.effectGain, effect.bypass ? 0 : 1, true)
+      setGain(unit.bypassGain, effect.bypass ? 1 : 0, true)
     }
 
-    nodes.distortionNode.curve = curve
-    nodes.distortionNode.oversample = effects.distortion.oversample as OversampleType
-  }
-
-  // 3. Update chorus effect
-  if (
-    effects.chorus.enabled &&
-    nodes.chorusOscillator &&
-    nodes.chorusModulationGain &&
-    nodes.chorusMixGain &&
-    nodes.chorusDryGain
-  ) {
-    nodes.chorusOscillator.frequency.value = effects.chorus.rate
-    nodes.chorusModulationGain.gain.value = 0.005 * effects.chorus.depth
-    nodes.chorusMixGain.gain.value = effects.chorus.mix
-    nodes.chorusDryGain.gain.value = 1 - effects.chorus.mix
-  }
-
-  // 4. Update flanger effect
-  if (
-    effects.flanger.enabled &&
-    nodes.flangerDelayNode &&
-    nodes.flangerOscillator &&
-    nodes.flangerModulationGain &&
-    nodes.flangerFeedbackGain
-  ) {
-    nodes.flangerDelayNode.delayTime.value = effects.flanger.delay
-    nodes.flangerOscillator.frequency.value = effects.flanger.rate
-    nodes.flangerModulationGain.gain.value = effects.flanger.depth
-    nodes.flangerFeedbackGain.gain.value = effects.flanger.feedback
-  }
-
-  // 5. Update phaser effect
-  if (effects.phaser.enabled && nodes.phaserOscillator && nodes.phaserModulationGain && nodes.phaserFeedbackGain) {
-    nodes.phaserOscillator.frequency.value = effects.phaser.rate
-    nodes.phaserModulationGain.gain.value = 2000 * effects.phaser.depth
-    nodes.phaserFeedbackGain.gain.value = effects.phaser.feedback
-  }
-
-  // 6. Update compression effect
-  if (effects.compression.enabled && nodes.compressorNode) {
-    nodes.compressorNode.threshold.value = effects.compression.threshold
-    nodes.compressorNode.ratio.value = effects.compression.ratio
-    nodes.compressorNode.attack.value = effects.compression.attack
-    nodes.compressorNode.release.value = effects.compression.release
-  }
-
-  // 7. Update auto-tune effect
-  if (effects.autoTune.enabled && nodes.autoTuneNode) {
-    nodes.autoTuneNode.port.postMessage({
-      scale: effects.autoTune.scale,
-      amount: effects.autoTune.amount,
-    })
-  }
-
-  // 8. Update formant shift effect
-  if (effects.formantShift.enabled && nodes.formantShiftNode) {
-    nodes.formantShiftNode.port.postMessage({
-      shift: effects.formantShift.shift,
-    })
-  }
-
-  // 9. Update time stretch effect
-  if (effects.timeStretch.enabled && nodes.timeStretchNode) {
-    nodes.timeStretchNode.port.postMessage({
-      rate: effects.timeStretch.rate,
-    })
-  }
-
-  // 10. Update granular synthesis effect
-  if (effects.granular.enabled && nodes.granularNode) {
-    nodes.granularNode.port.postMessage({
-      grainSize: effects.granular.grainSize,
-      scatter: effects.granular.scatter,
-      density: effects.granular.density,
-    })
+    definition.update(unit.nodes, effect.params)
   }
 }
 
+// Stop and disconnect every effect in the graph
+export const disposeAdvancedAudioGraph = (nodes: AdvancedAudioNodes): void => {
+  nodes.links.forEach(disconnectLink)
+  nodes.units.forEach(disposeEffectUnit)
+  nodes.links = []
+  nodes.units = []
+}
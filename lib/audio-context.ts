@@ -0,0 +1,9 @@
+// Creating an AudioContext in any browser
+
+// Older Safari only has the prefixed AudioContext
+type PrefixedWindow = Window & { webkitAudioContext?: typeof AudioContext }
+
+export const createAudioContext = (): AudioContext => {
+  const AudioContextClass = window.AudioContext || (window as PrefixedWindow).webkitAudioContext
+  return new AudioContextClass()
+}
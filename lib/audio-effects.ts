@@ -1,27 +1,98 @@
-import { AudioWorkletNode, IBaseAudioContext, IConstantSourceNode, IBiquadFilterNode, IGainNode, IConvolverNode, IAudioDestinationNode, IMediaElementAudioSourceNode, IAudioContext } from 'standardized-audio-context';
+import { type WorkletParameters, createWorkletNode, getWorkletParam, smoothParam } from "./audio-worklets"
+import type { AutomatableParam, AutomationLanes, AutomationTarget } from "./automation"
+import { type EqBand, applyEqBand, defaultEqBands, setEqShelfGains } from "./eq"
+import { getStftLatency } from "./fft"
+import { type ModulationSettings, defaultModulation } from "./modulation"
+import {
+  type ReverbEngine,
+  type ReverbSettings,
+  defaultReverbSettings,
+  getReverbImpulse,
+  getReverbImpulseKey,
+} from "./reverb"
+
+export type PitchShiftQuality = "low" | "medium" | "high"
+
+// Where the advanced effect chain sits in the basic chain
+export type InsertPoint = "preEq" | "postEq" | "postReverb"
+
+// Character presets; robot and alien also add effects to the advanced chain (see applyCharacterEffects)
+export type VoiceCharacter = "normal" | "chipmunk" | "robot" | "alien" | "deep"
 
 export interface AudioEffects {
-  character: "normal" | "chipmunk" | "robot" | "deep"
+  character: VoiceCharacter
   pitch: number // -12 to 12 semitones
-  treble: number // -10 to 10 dB
-  bass: number // -10 to 10 dB
+  pitchQuality: PitchShiftQuality
+  stereoLink: boolean // shift both channels together to keep the stereo image
+  eq: EqBand[] // parametric EQ; the bass and treble controls set the first and last bands' gains
   reverb: number // 0 to 1
+  reverbSettings: ReverbSettings // room, tail shape and impulse of the reverb
+  pan: number // -1 (left) to 1 (right)
   speed: number // 0.5 to 2.0
+  insertPoint: InsertPoint // where advanced effects are processed
+  automation: AutomationLanes // lanes for the basic automation params below
+  modulation: ModulationSettings // LFOs and envelope followers routed to any automatable param
 }
 
 export const defaultEffects: AudioEffects = {
   character: "normal",
   pitch: 0,
-  treble: 0,
-  bass: 0,
+  pitchQuality: "medium",
+  stereoLink: true,
+  eq: defaultEqBands,
   reverb: 0,
+  reverbSettings: defaultReverbSettings,
+  pan: 0,
   speed: 1.0,
+  insertPoint: "postEq",
+  automation: {},
+  modulation: defaultModulation,
 }
 
+// Pan position as shown to the user, e.g. "30% L"
+export const formatPan = (pan: number): string => {
+  const percent = Math.round(Math.abs(pan) * 100)
+  return percent === 0 ? "Center" : `${percent}% ${pan < 0 ? "L" : "R"}`
+}
+
+// Basic parameters that can be automated over time
+export type BasicAutomationParam = "pitch" | "treble" | "bass" | "reverb" | "pan"
+
+// Set value of a basic automation param; bass and treble are the EQ's outer bands
+export const getBasicParamValue = (effects: AudioEffects, param: BasicAutomationParam): number => {
+  switch (param) {
+    case "bass":
+      return effects.eq[0].gain
+    case "treble":
+      return effects.eq[effects.eq.length - 1].gain
+    default:
+      return effects[param]
+  }
+}
+
+export const basicAutomationParams: Record<BasicAutomationParam, AutomatableParam> = {
+  pitch: { label: "Pitch", min: -12, max: 12, step: 1 },
+  treble: { label: "Treble", min: -10, max: 10, step: 1 },
+  bass: { label: "Bass", min: -10, max: 10, step: 1 },
+  reverb: { label: "Reverb", min: 0, max: 1, step: 0.01 },
+  pan: { label: "Pan", min: -1, max: 1, step: 0.01, format: formatPan },
+}
+
+// Pitch shifter FFT size and overlap for each quality setting.
+// Larger frames resolve low voices better but add more latency.
+export const pitchShiftQualitySettings: Record<PitchShiftQuality, { fftSize: number; overlap: number }> = {
+  low: { fftSize: 1024, overlap: 4 },
+  medium: { fftSize: 2048, overlap: 4 },
+  high: { fftSize: 4096, overlap: 8 },
+}
+
+// Convert semitones to a frequency ratio
+const getPitchRatio = (semitones: number): number => Math.pow(2, semitones / 12)
+
 // Apply character presets
 export const applyCharacterPreset = (
   effects: AudioEffects,
-  character: "normal" | "chipmunk" | "robot" | "deep",
+  character: VoiceCharacter,
 ): AudioEffects => {
   const newEffects = { ...effects, character }
 
@@ -29,30 +100,32 @@ export const applyCharacterPreset = (
     case "chipmunk":
       newEffects.pitch = 7
       newEffects.speed = 1.3
-      newEffects.treble = 5
-      newEffects.bass = -2
+      newEffects.eq = setEqShelfGains(effects.eq, { bass: -2, treble: 5 })
       newEffects.reverb = 0.1
       break
     case "robot":
       newEffects.pitch = 0
       newEffects.speed = 1.0
-      newEffects.treble = 8
-      newEffects.bass = 3
-      newEffects.reverb = 0.4
+      newEffects.eq = setEqShelfGains(effects.eq, { bass: 2, treble: 3 })
+      newEffects.reverb = 0.15
+      break
+    case "alien":
+      newEffects.pitch = 2
+      newEffects.speed = 1.0
+      newEffects.eq = setEqShelfGains(effects.eq, { bass: 0, treble: 4 })
+      newEffects.reverb = 0.25
       break
     case "deep":
       newEffects.pitch = -5
       newEffects.speed = 0.8
-      newEffects.treble = -2
-      newEffects.bass = 8
+      newEffects.eq = setEqShelfGains(effects.eq, { bass: 8, treble: -2 })
       newEffects.reverb = 0.3
       break
     case "normal":
     default:
       newEffects.pitch = 0
       newEffects.speed = 1.0
-      newEffects.treble = 0
-      newEffects.bass = 0
+      newEffects.eq = setEqShelfGains(effects.eq, { bass: 0, treble: 0 })
       newEffects.reverb = 0
       break
   }
@@ -60,168 +133,455 @@ export const applyCharacterPreset = (
   return newEffects
 }
 
-// Create a simple impulse response for reverb
-export const createReverbImpulseResponse = (audioContext: IBaseAudioContext<IAudioContext>, duration = 2, decay = 2): AudioBuffer => {
-  const sampleRate = audioContext.sampleRate
-  const length = sampleRate * duration
-  const impulse = audioContext.createBuffer(2, length, sampleRate)
-  const leftChannel = impulse.getChannelData(0)
-  const rightChannel = impulse.getChannelData(1)
+// Gains of one insertion point: straight through, or out to the advanced chain and back
+export interface InsertRoute {
+  through: GainNode
+  send: GainNode
+  return: GainNode
+}
+
+// Audio processing nodes interface
+export interface AudioNodes {
+  sourceNode: AudioNode
+  pitchNode: AudioWorkletNode | null
+  pitchRatio: AudioParam | null // pitch shifter ratio, for scheduling pitch changes
+  pitchRatioScale: number
+  // EQ bands in series from eqInput to eqOutput, rebuilt when bands are added or removed
+  eqInput: GainNode
+  eqFilters: BiquadFilterNode[]
+  eqOutput: GainNode
+  analyser: AnalyserNode // spectrum after the EQ, for drawing under its curve
+  preDelayNode: DelayNode
+  convolverNode: ConvolverNode
+  reverbImpulse: string // key of the impulse the convolver has or is loading (see reverb.ts)
+  algorithmicReverb: AudioWorkletNode | null // created when that engine is first selected
+  reverbEngine: ReverbEngine // engine the pre-delay feeds
+  reverbInput: GainNode
+  reverbOutput: GainNode
+  dryGain: GainNode
+  wetGain: GainNode
+  panner: StereoPannerNode
+  outputGain: GainNode
+  // The advanced chain runs from insertSend to insertReturn at the active insertion point
+  insertPoint: InsertPoint
+  insertSend: GainNode
+  insertReturn: GainNode
+  insertRoutes: Record<InsertPoint, InsertRoute>
+}
+
+export interface BasicEffectsChainOptions {
+  // Use the pitch shifter worklet (disabled when pitch is applied elsewhere)
+  pitchShift?: boolean
+  // Multiplies the pitch ratio, e.g. to cancel the pitch change of a source's playbackRate
+  pitchRatioScale?: number
+}
+
+// A media element can only ever be connected to one source node, so it is
+// created once per element and reused for every graph built on it
+const mediaElementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>()
 
-  for (let i = 0; i < length; i++) {
-    const n = i / length
-    // Decay exponentially
-    const amplitude = Math.pow(1 - n, decay)
-    // Random noise
-    leftChannel[i] = (Math.random() * 2 - 1) * amplitude
-    rightChannel[i] = (Math.random() * 2 - 1) * amplitude
+// Get the element's source node, creating it on first use
+export const createMediaElementSourceNode = (
+  audioContext: AudioContext,
+  audioElement: HTMLMediaElement,
+): MediaElementAudioSourceNode => {
+  const existing = mediaElementSources.get(audioElement)
+  if (existing) {
+    if (existing.context !== audioContext) {
+      throw new Error("Audio element is already connected to another AudioContext")
+    }
+    return existing
   }
 
-  return impulse
+  const sourceNode = audioContext.createMediaElementSource(audioElement)
+  mediaElementSources.set(audioElement, sourceNode)
+  return sourceNode
 }
 
-// Audio processing nodes interface
-export interface AudioNodes {
-  sourceNode: IMediaElementAudioSourceNode<IAudioContext>
-  pitchNode: AudioWorkletNode<any> | null
-  bassFilter: IBiquadFilterNode<IAudioContext>
-  trebleFilter: IBiquadFilterNode<IAudioContext>
-  convolverNode: IConvolverNode<IAudioContext>
-  dryGain: IGainNode<IAudioContext>
-  wetGain: IGainNode<IAudioContext>
-  outputGain: IGainNode<IAudioContext>
-}
-
-// Setup audio processing graph with all effects
-export const setupAudioGraph = async (
-  audioContext: IAudioContext,
-  audioElement: HTMLAudioElement,
-  effects: AudioEffects,
-): Promise<AudioNodes> => {
-  // Create source node - safely handle already connected elements
-  let sourceNode: IMediaElementAudioSourceNode<IAudioContext>;
+// Fade time when gains are switched on a running graph
+const CROSSFADE_TIME = 0.02
+
+// Ramp a gain to a new value over the crossfade time
+export const fadeGain = (gain: GainNode, value: number): void => {
+  const now = gain.context.currentTime
+  gain.gain.cancelScheduledValues(now)
+  gain.gain.setValueAtTime(gain.gain.value, now)
+  gain.gain.linearRampToValueAtTime(value, now + CROSSFADE_TIME)
+}
+
+// Connect `from` to `to` through an insertion point. While the point is active
+// the signal leaves through insertSend and comes back from insertReturn.
+const createInsertRoute = (
+  audioContext: BaseAudioContext,
+  from: AudioNode,
+  to: AudioNode,
+  insertSend: AudioNode,
+  insertReturn: AudioNode,
+  active: boolean,
+): InsertRoute => {
+  const through = audioContext.createGain()
+  through.gain.value = active ? 0 : 1
+
+  const send = audioContext.createGain()
+  send.gain.value = active ? 1 : 0
+
+  const returnGain = audioContext.createGain()
+  returnGain.gain.value = active ? 1 : 0
+
+  from.connect(through)
+  through.connect(to)
+  from.connect(send)
+  send.connect(insertSend)
+  insertReturn.connect(returnGain)
+  returnGain.connect(to)
+
+  return { through, send, return: returnGain }
+}
+
+// Algorithmic reverb worklet for the settings, or null if worklets are unavailable
+const createAlgorithmicReverb = async (
+  audioContext: BaseAudioContext,
+  settings: ReverbSettings,
+): Promise<AudioWorkletNode | null> => {
   try {
-    sourceNode = audioContext.createMediaElementSource(audioElement) as IMediaElementAudioSourceNode<IAudioContext>;
+    return await createWorkletNode(audioContext, "algorithmic-reverb-processor", {
+      outputChannelCount: [2],
+      parameterData: {
+        decay: settings.decay,
+        size: settings.size,
+        damping: settings.damping,
+        width: settings.width,
+        freeze: settings.freeze ? 1 : 0,
+        modulation: settings.modulation,
+      },
+    })
   } catch (error) {
-    if ((error as Error).message.includes('already connected')) {
-      console.warn('Audio element already connected to a source node. This may cause issues with audio processing.');
-      // Create a dummy source node to continue the setup
-      // This is a workaround - in a real app, you should manage audio nodes more carefully
-      const tempAudio = new Audio();
-      sourceNode = audioContext.createMediaElementSource(tempAudio) as IMediaElementAudioSourceNode<IAudioContext>;
-    } else {
-      throw error; // Re-throw if it's a different error
-    }
+    console.warn("Algorithmic reverb not available, using convolution:", error)
+    return null
+  }
+}
+
+// Filters for the bands, connected in series between the EQ's input and output
+const createEqFilters = (
+  audioContext: BaseAudioContext,
+  eq: EqBand[],
+  input: AudioNode,
+  output: AudioNode,
+): BiquadFilterNode[] => {
+  const filters = eq.map((band) => {
+    const filter = audioContext.createBiquadFilter()
+    filter.type = band.type
+    filter.frequency.value = band.frequency
+    filter.gain.value = band.gain
+    filter.Q.value = band.q
+    return filter
+  })
+
+  let previous = input
+  for (const filter of filters) {
+    previous.connect(filter)
+    previous = filter
   }
+  previous.connect(output)
+  return filters
+}
+
+// Build the basic effects chain (pitch -> EQ -> reverb -> pan) on any context,
+// with insertion points for the advanced chain before the EQ, between the EQ and
+// the reverb, and after the reverb. The caller connects outputGain to its destination
+// and the advanced chain from insertSend to insertReturn.
+export const createBasicEffectsChain = async (
+  audioContext: BaseAudioContext,
+  sourceNode: AudioNode,
+  effects: AudioEffects,
+  options: BasicEffectsChainOptions = {},
+): Promise<AudioNodes> => {
+  const { pitchShift = true, pitchRatioScale = 1 } = options
 
   // Create pitch shifter node if supported
-  let pitchNode: AudioWorkletNode<any> | null = null
-  try {
-    // Load the processor code
-    if (AudioWorkletNode && audioContext.audioWorklet) {
-      // Check if the processor is already registered
-      try {
-        // Try to create the node first - if it fails, we need to register the processor
-        pitchNode = new AudioWorkletNode(audioContext as any, "pitch-shifter-processor");
-      } catch (e) {
-        // Processor not registered yet, load it
-        await audioContext.audioWorklet.addModule('/worklets/pitch-shifter-processor.js');
-        
-        // Now create the node
-        pitchNode = new AudioWorkletNode(audioContext as any, "pitch-shifter-processor");
-      }
-      
-      // Set initial pitch
-      const pitchRatio = Math.pow(2, effects.pitch / 12) // Convert semitones to ratio
-      pitchNode.port.postMessage({ pitchRatio })
+  let pitchNode: AudioWorkletNode | null = null
+  if (pitchShift) {
+    try {
+      pitchNode = await createWorkletNode(audioContext, "pitch-shifter-processor", {
+        processorOptions: { ...pitchShiftQualitySettings[effects.pitchQuality], linked: effects.stereoLink },
+        parameterData: { pitchRatio: getPitchRatio(effects.pitch) * pitchRatioScale },
+      })
+    } catch (error) {
+      console.warn("Pitch shifter not available, falling back to playbackRate:", error)
+      pitchNode = null
     }
-  } catch (error) {
-    console.warn("Pitch shifter not available, falling back to playbackRate:", error)
-    pitchNode = null
   }
 
-  // Create filters
-  const bassFilter = audioContext.createBiquadFilter() as IBiquadFilterNode<IAudioContext>;
-  bassFilter.type = "lowshelf"
-  bassFilter.frequency.value = 200
-  bassFilter.gain.value = effects.bass
+  // Create the EQ and the analyser that watches it
+  const eqInput = audioContext.createGain()
+  const eqOutput = audioContext.createGain()
+  const eqFilters = createEqFilters(audioContext, effects.eq, eqInput, eqOutput)
+
+  const analyser = audioContext.createAnalyser()
+  analyser.fftSize = 4096
+  analyser.smoothingTimeConstant = 0.8
 
-  const trebleFilter = audioContext.createBiquadFilter() as IBiquadFilterNode<IAudioContext>;
-  trebleFilter.type = "highshelf"
-  trebleFilter.frequency.value = 3000
-  trebleFilter.gain.value = effects.treble
+  // Create reverb: a pre-delay into the convolver or the algorithmic engine.
+  // The convolver is always built, as the fallback.
+  const preDelayNode = audioContext.createDelay(1)
+  preDelayNode.delayTime.value = effects.reverbSettings.preDelay
 
-  // Create reverb (convolver)
-  const convolverNode = audioContext.createConvolver() as IConvolverNode<IAudioContext>;
-  convolverNode.buffer = createReverbImpulseResponse(audioContext)
+  const convolverNode = audioContext.createConvolver()
+  convolverNode.buffer = await getReverbImpulse(audioContext, effects.reverbSettings)
+
+  const algorithmicReverb =
+    effects.reverbSettings.engine === "algorithmic"
+      ? await createAlgorithmicReverb(audioContext, effects.reverbSettings)
+      : null
 
   // Create gain nodes for wet/dry mix
-  const wetGain = audioContext.createGain() as IGainNode<IAudioContext>;
+  const wetGain = audioContext.createGain()
   wetGain.gain.value = effects.reverb
 
-  const dryGain = audioContext.createGain() as IGainNode<IAudioContext>;
+  const dryGain = audioContext.createGain()
   dryGain.gain.value = 1 - effects.reverb
 
+  // Reverb input and the sum of its dry and wet paths
+  const reverbInput = audioContext.createGain()
+  const reverbOutput = audioContext.createGain()
+
+  // Pan the finished signal
+  const panner = audioContext.createStereoPanner()
+  panner.pan.value = effects.pan
+
   // Create output gain
-  const outputGain = audioContext.createGain() as IGainNode<IAudioContext>;
+  const outputGain = audioContext.createGain()
   outputGain.gain.value = 1.0
 
+  // Ends of the advanced chain
+  const insertSend = audioContext.createGain()
+  const insertReturn = audioContext.createGain()
+
   // Connect the nodes
+  let pitchOutput: AudioNode = sourceNode
   if (pitchNode) {
     // With pitch shifter
     sourceNode.connect(pitchNode)
-    pitchNode.connect(bassFilter)
-  } else {
-    // Without pitch shifter (fallback)
-    sourceNode.connect(bassFilter)
+    pitchOutput = pitchNode
   }
 
-  bassFilter.connect(trebleFilter)
+  const insertRoute = (from: AudioNode, to: AudioNode, point: InsertPoint) =>
+    createInsertRoute(audioContext, from, to, insertSend, insertReturn, effects.insertPoint === point)
+
+  const insertRoutes: Record<InsertPoint, InsertRoute> = {
+    preEq: insertRoute(pitchOutput, eqInput, "preEq"),
+    postEq: insertRoute(eqOutput, reverbInput, "postEq"),
+    postReverb: insertRoute(reverbOutput, panner, "postReverb"),
+  }
+
+  panner.connect(outputGain)
+
+  eqOutput.connect(analyser)
 
   // Dry path
-  trebleFilter.connect(dryGain)
-  dryGain.connect(outputGain)
+  reverbInput.connect(dryGain)
+  dryGain.connect(reverbOutput)
 
   // Wet (reverb) path
-  trebleFilter.connect(convolverNode)
+  reverbInput.connect(preDelayNode)
+  preDelayNode.connect(algorithmicReverb ?? convolverNode)
   convolverNode.connect(wetGain)
-  wetGain.connect(outputGain)
-
-  // Final output
-  outputGain.connect(audioContext.destination)
-
-  // Apply speed
-  audioElement.playbackRate = effects.speed
+  algorithmicReverb?.connect(wetGain)
+  wetGain.connect(reverbOutput)
 
   return {
     sourceNode,
     pitchNode,
-    bassFilter,
-    trebleFilter,
+    pitchRatio: pitchNode && getWorkletParam(pitchNode, "pitch-shifter-processor", "pitchRatio"),
+    pitchRatioScale,
+    eqInput,
+    eqFilters,
+    eqOutput,
+    analyser,
+    preDelayNode,
     convolverNode,
+    reverbImpulse: getReverbImpulseKey(effects.reverbSettings),
+    algorithmicReverb,
+    reverbEngine: algorithmicReverb ? "algorithmic" : "convolution",
+    reverbInput,
+    reverbOutput,
     dryGain,
     wetGain,
+    panner,
     outputGain,
+    insertPoint: effects.insertPoint,
+    insertSend,
+    insertReturn,
+    insertRoutes,
   }
 }
 
-// Update audio effects in real-time
-export const updateAudioEffects = (audioElement: HTMLAudioElement, nodes: AudioNodes, effects: AudioEffects): void => {
-  // Update filter values
-  nodes.trebleFilter.gain.value = effects.treble
-  nodes.bassFilter.gain.value = effects.bass
+// AudioParams driven by a basic automation param
+export const getBasicAutomationTargets = (nodes: AudioNodes, param: BasicAutomationParam): AutomationTarget[] => {
+  switch (param) {
+    case "pitch":
+      return nodes.pitchRatio
+        ? [{ param: nodes.pitchRatio, map: (pitch) => getPitchRatio(pitch) * nodes.pitchRatioScale }]
+        : []
+    case "treble":
+      return [{ param: nodes.eqFilters[nodes.eqFilters.length - 1].gain }]
+    case "bass":
+      return [{ param: nodes.eqFilters[0].gain }]
+    case "reverb":
+      return [{ param: nodes.wetGain.gain }, { param: nodes.dryGain.gain, map: (reverb) => 1 - reverb }]
+    case "pan":
+      return [{ param: nodes.panner.pan }]
+  }
+}
+
+// Output delay of the pitch shifter worklet in samples, as the worklet computes it
+export const getPitchShifterLatency = (quality: PitchShiftQuality): number =>
+  getStftLatency(pitchShiftQualitySettings[quality].fftSize)
+
+// Disconnect every node of the basic chain, including the source
+export const disposeBasicEffectsChain = (nodes: AudioNodes): void => {
+  const routeGains = Object.values(nodes.insertRoutes).flatMap((route) => [route.through, route.send, route.return])
+
+  for (const node of [
+    nodes.sourceNode,
+    nodes.pitchNode,
+    nodes.eqInput,
+    ...nodes.eqFilters,
+    nodes.eqOutput,
+    nodes.analyser,
+    nodes.preDelayNode,
+    nodes.convolverNode,
+    nodes.algorithmicReverb,
+    nodes.reverbInput,
+    nodes.reverbOutput,
+    nodes.dryGain,
+    nodes.wetGain,
+    nodes.panner,
+    nodes.outputGain,
+    nodes.insertSend,
+    nodes.insertReturn,
+    ...routeGains,
+  ]) {
+    node?.disconnect()
+  }
+}
+
+// Retune the EQ in place, or rebuild its filters when bands were added or removed
+const setEqBands = (nodes: AudioNodes, eq: EqBand[]) => {
+  if (eq.length === nodes.eqFilters.length) {
+    eq.forEach((band, i) => applyEqBand(nodes.eqFilters[i], band))
+    return
+  }
+
+  nodes.eqInput.disconnect()
+  for (const filter of nodes.eqFilters) {
+    filter.disconnect()
+  }
+  nodes.eqFilters = createEqFilters(nodes.eqInput.context, eq, nodes.eqInput, nodes.eqOutput)
+}
+
+// Move the advanced chain to another insertion point with a short crossfade
+const setInsertPoint = (nodes: AudioNodes, insertPoint: InsertPoint) => {
+  if (nodes.insertPoint === insertPoint) return
+  nodes.insertPoint = insertPoint
+
+  for (const [point, route] of Object.entries(nodes.insertRoutes)) {
+    const active = point === insertPoint
+    fadeGain(route.through, active ? 0 : 1)
+    fadeGain(route.send, active ? 1 : 0)
+    fadeGain(route.return, active ? 1 : 0)
+  }
+}
+
+// Swap in the impulse for new reverb settings once it is ready. Loads that
+// finish after a newer change are dropped.
+const setReverbImpulse = (nodes: AudioNodes, settings: ReverbSettings) => {
+  const key = getReverbImpulseKey(settings)
+  if (key === nodes.reverbImpulse) return
+  nodes.reverbImpulse = key
+
+  getReverbImpulse(nodes.convolverNode.context, settings)
+    .then((impulse) => {
+      if (nodes.reverbImpulse === key) nodes.convolverNode.buffer = impulse
+    })
+    .catch((error) => console.error("Failed to load reverb impulse:", error))
+}
+
+// Feed the pre-delay to the selected engine. The other one is left connected to
+// the wet gain, so its tail rings out instead of being cut.
+const setReverbEngine = (nodes: AudioNodes, settings: ReverbSettings) => {
+  if (settings.engine === nodes.reverbEngine) return
+  nodes.reverbEngine = settings.engine
+
+  const feed = (reverb: AudioNode) => {
+    nodes.preDelayNode.disconnect()
+    nodes.preDelayNode.connect(reverb)
+  }
+
+  if (settings.engine === "convolution") {
+    feed(nodes.convolverNode)
+    return
+  }
+
+  if (nodes.algorithmicReverb) {
+    feed(nodes.algorithmicReverb)
+    return
+  }
+
+  createAlgorithmicReverb(nodes.preDelayNode.context, settings).then((algorithmicReverb) => {
+    // Without worklets the convolver keeps playing
+    if (!algorithmicReverb) return
+    nodes.algorithmicReverb = algorithmicReverb
+    algorithmicReverb.connect(nodes.wetGain)
+    if (nodes.reverbEngine === "algorithmic") feed(algorithmicReverb)
+  })
+}
+
+const updateAlgorithmicReverb = (node: AudioWorkletNode, settings: ReverbSettings) => {
+  const values: Record<WorkletParameters["algorithmic-reverb-processor"], number> = {
+    decay: settings.decay,
+    size: settings.size,
+    damping: settings.damping,
+    width: settings.width,
+    freeze: settings.freeze ? 1 : 0,
+    modulation: settings.modulation,
+  }
+  for (const [name, value] of Object.entries(values)) {
+    const param = getWorkletParam(node, "algorithmic-reverb-processor", name as keyof typeof values)
+    // Freezing has to take hold at once
+    smoothParam(param, value, node.context, name === "freeze" ? 0 : undefined)
+  }
+}
+
+// Update audio effects in real-time (the speed is applied by applyPlaybackRate)
+export const updateAudioEffects = (nodes: AudioNodes, effects: AudioEffects): void => {
+  // Update the EQ
+  setEqBands(nodes, effects.eq)
 
   // Update reverb mix
   nodes.wetGain.gain.value = effects.reverb
   nodes.dryGain.gain.value = 1 - effects.reverb
 
-  // Update playback rate (speed)
-  audioElement.playbackRate = effects.speed
+  // Update the reverb's pre-delay, engine and impulse
+  smoothParam(nodes.preDelayNode.delayTime, effects.reverbSettings.preDelay, nodes.preDelayNode.context)
+  setReverbEngine(nodes, effects.reverbSettings)
+  setReverbImpulse(nodes, effects.reverbSettings)
+  if (nodes.algorithmicReverb) {
+    updateAlgorithmicReverb(nodes.algorithmicReverb, effects.reverbSettings)
+  }
+
+  nodes.panner.pan.value = effects.pan
+
+  // Move the advanced chain if its insertion point changed
+  setInsertPoint(nodes, effects.insertPoint)
 
   // Update pitch if available
-  if (nodes.pitchNode) {
-    const pitchRatio = Math.pow(2, effects.pitch / 12) // Convert semitones to ratio
-    nodes.pitchNode.port.postMessage({ pitchRatio })
+  if (nodes.pitchNode && nodes.pitchRatio) {
+    smoothParam(nodes.pitchRatio, getPitchRatio(effects.pitch) * nodes.pitchRatioScale, nodes.pitchNode.context)
+    nodes.pitchNode.port.postMessage({
+      ...pitchShiftQualitySettings[effects.pitchQuality],
+      linked: effects.stereoLink,
+    })
   } else {
     // Fallback for pitch: we'll use a combination of playbackRate and time stretching
     // This is a compromise that affects both pitch and speed
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { setupEffectsGraph } from "./audio-graph"
+import { AudioEngine } from "./audio-engine"
+import { createSafetyLimiter } from "./safety"
+
+// The graph and the limiter need real Web Audio; these stand-ins record how they're wired
+vi.mock("./audio-graph", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./audio-graph")>()),
+  setupEffectsGraph: vi.fn(async () => ({ basicNodes: {}, advancedNodes: [] })),
+  disposeEffectsGraph: vi.fn(),
+  scheduleEffectsAutomation: vi.fn(),
+  updateEffectsModulation: vi.fn(),
+}))
+
+vi.mock("./advanced-audio-effects", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./advanced-audio-effects")>()),
+  updateAdvancedAudioEffects: vi.fn(),
+}))
+
+vi.mock("./audio-effects", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./audio-effects")>()),
+  updateAudioEffects: vi.fn(),
+}))
+
+vi.mock("./safety", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./safety")>()),
+  createSafetyLimiter: vi.fn(async () => ({ input: { name: "limiter input" }, output: { connect: vi.fn() } })),
+  disposeSafetyLimiter: vi.fn(),
+  subscribeSafetySettings: vi.fn(() => () => {}),
+}))
+
+class FakeAudioContext {
+  state = "running"
+  currentTime = 0
+  destination = { name: "destination" }
+  createMediaElementSource = vi.fn(() => ({ connect: vi.fn(), context: this }))
+  resume = vi.fn(async () => {})
+  suspend = vi.fn(async () => {})
+  close = vi.fn(async () => {})
+}
+
+class FakeAudio {
+  volume = 1
+  playbackRate = 1
+  currentTime = 0
+  duration = 10
+  constructor(public src: string) {}
+  addEventListener() {}
+  removeEventListener() {}
+  play = vi.fn(async () => {})
+  pause = vi.fn()
+}
+
+const contexts: FakeAudioContext[] = []
+
+beforeEach(() => {
+  vi.stubGlobal("window", {
+    AudioContext: class extends FakeAudioContext {
+      constructor() {
+        super()
+        contexts.push(this)
+      }
+    },
+  })
+  vi.stubGlobal("Audio", FakeAudio)
+})
+
+afterEach(() => {
+  contexts.length = 0
+  vi.unstubAllGlobals()
+  vi.clearAllMocks()
+})
+
+describe("AudioEngine", () => {
+  it("plays through the safety limiter without effects", async () => {
+    const engine = new AudioEngine({ effects: false })
+    engine.load(new Blob())
+    await engine.play()
+
+    const [context] = contexts
+    const limiter = await vi.mocked(createSafetyLimiter).mock.results[0].value
+    const source = context.createMediaElementSource.mock.results[0].value
+    expect(setupEffectsGraph).not.toHaveBeenCalled()
+    expect(source.connect).toHaveBeenCalledWith(limiter.input)
+    expect(limiter.output.connect).toHaveBeenCalledWith(context.destination)
+    expect(engine.state).toBe("playing")
+
+    engine.dispose()
+  })
+
+  it("plays the effects graph into the safety limiter", async () => {
+    const engine = new AudioEngine()
+    engine.load(new Blob())
+    await engine.play()
+
+    const [context] = contexts
+    const limiter = await vi.mocked(createSafetyLimiter).mock.results[0].value
+    const source = context.createMediaElementSource.mock.results[0].value
+    expect(setupEffectsGraph).toHaveBeenCalledWith(context, source, limiter.input, expect.anything(), expect.anything())
+    expect(source.connect).not.toHaveBeenCalled()
+    expect(limiter.output.connect).toHaveBeenCalledWith(context.destination)
+
+    engine.dispose()
+  })
+})
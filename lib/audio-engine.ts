@@ -0,0 +1,388 @@
+// Playback engine: one audio element, its AudioContext and effects graph, with an
+// explicit lifecycle. Framework-agnostic; React binds to it through useAudioEngine.
+
+import { createAudioContext } from "./audio-context"
+import { type AudioEffects, createMediaElementSourceNode, defaultEffects, updateAudioEffects } from "./audio-effects"
+import {
+  type AdvancedAudioEffects,
+  defaultAdvancedEffects,
+  rewireAdvancedAudioGraph,
+  updateAdvancedAudioEffects,
+} from "./advanced-audio-effects"
+import {
+  type EffectsGraph,
+  disposeEffectsGraph,
+  getAdvancedChainLayout,
+  scheduleEffectsAutomation,
+  setupEffectsGraph,
+  updateEffectsModulation,
+} from "./audio-graph"
+import {
+  type SafetyLimiterNodes,
+  createSafetyLimiter,
+  disposeSafetyLimiter,
+  getSafetySettings,
+  subscribeSafetySettings,
+  updateSafetyLimiter,
+} from "./safety"
+import { applyPlaybackRate } from "./time-stretch"
+
+// idle: nothing loaded; loading: waiting for metadata; ready: loaded and stopped;
+// playing; suspended: paused mid-track (the AudioContext is suspended too);
+// disposed: released for good
+export type AudioEngineState = "idle" | "loading" | "ready" | "playing" | "suspended" | "disposed"
+
+export interface AudioEngineEvents {
+  statechange: AudioEngineState
+  timeupdate: number
+  durationchange: number
+  ended: void
+  error: unknown
+  // The safety limiter started or stopped ducking runaway output
+  safetyduck: boolean
+}
+
+export type AudioEngineListener<E extends keyof AudioEngineEvents> = (value: AudioEngineEvents[E]) => void
+
+export interface AudioEngineOptions {
+  // Play through the effects graph. Without it the element feeds the safety limiter directly.
+  effects?: boolean
+  // Pause other exclusive engines when this one starts playing
+  exclusive?: boolean
+}
+
+// Exclusive engines that are currently playing
+const exclusiveEngines = new Set<AudioEngine>()
+
+export class AudioEngine {
+  private readonly options: Required<AudioEngineOptions>
+  private currentState: AudioEngineState = "idle"
+  // One set per event, so each keeps its listener type
+  private readonly listeners: { [E in keyof AudioEngineEvents]: Set<AudioEngineListener<E>> } = {
+    statechange: new Set(),
+    timeupdate: new Set(),
+    durationchange: new Set(),
+    ended: new Set(),
+    error: new Set(),
+    safetyduck: new Set(),
+  }
+
+  private audioElement: HTMLAudioElement | null = null
+  private audioUrl: string | null = null
+  private audioContext: AudioContext | null = null
+  private graph: EffectsGraph | null = null
+  // Last stage before the speakers, whatever the effects do
+  private safetyLimiter: SafetyLimiterNodes | null = null
+  private unsubscribeSafety: (() => void) | null = null
+  // Graph being built; play() waits for it
+  private graphSetup: Promise<void> | null = null
+  private removeElementListeners: (() => void) | null = null
+
+  private basicEffects: AudioEffects = { ...defaultEffects }
+  private advancedEffects: AdvancedAudioEffects = [...defaultAdvancedEffects]
+  private advancedChainLayout = getAdvancedChainLayout(defaultAdvancedEffects)
+  private volume = 1
+
+  constructor(options: AudioEngineOptions = {}) {
+    this.options = { effects: true, exclusive: false, ...options }
+  }
+
+  get state(): AudioEngineState {
+    return this.currentState
+  }
+
+  get currentTime(): number {
+    return this.audioElement?.currentTime ?? 0
+  }
+
+  get duration(): number {
+    return this.audioElement?.duration ?? 0
+  }
+
+  // Subscribe to an event; returns the unsubscribe function
+  on<E extends keyof AudioEngineEvents>(event: E, listener: AudioEngineListener<E>): () => void {
+    this.listeners[event].add(listener)
+    return () => this.off(event, listener)
+  }
+
+  off<E extends keyof AudioEngineEvents>(event: E, listener: AudioEngineListener<E>): void {
+    this.listeners[event].delete(listener)
+  }
+
+  private emit<E extends keyof AudioEngineEvents>(event: E, value: AudioEngineEvents[E]) {
+    this.listeners[event].forEach((listener) => listener(value))
+  }
+
+  private setState(state: AudioEngineState) {
+    if (this.currentState === state) return
+    this.currentState = state
+    this.emit("statechange", state)
+  }
+
+  private assertNotDisposed() {
+    if (this.currentState === "disposed") {
+      throw new Error("AudioEngine has been disposed")
+    }
+  }
+
+  // Load a recording, releasing the previous one
+  load(blob: Blob): void {
+    this.assertNotDisposed()
+    this.release()
+
+    const url = URL.createObjectURL(blob)
+    const audioElement = new Audio(url)
+    audioElement.volume = this.volume
+    this.audioUrl = url
+    this.audioElement = audioElement
+
+    const handleLoadedMetadata = () => {
+      if (this.currentState === "loading") this.setState("ready")
+      this.emit("durationchange", audioElement.duration)
+    }
+
+    const handleTimeUpdate = () => {
+      this.emit("timeupdate", audioElement.currentTime)
+    }
+
+    const handleEnded = () => {
+      exclusiveEngines.delete(this)
+      audioElement.currentTime = 0
+      this.setState("ready")
+      this.emit("ended", undefined)
+    }
+
+    const handleError = () => {
+      this.emit("error", audioElement.error)
+    }
+
+    audioElement.addEventListener("loadedmetadata", handleLoadedMetadata)
+    audioElement.addEventListener("timeupdate", handleTimeUpdate)
+    audioElement.addEventListener("ended", handleEnded)
+    audioElement.addEventListener("error", handleError)
+    this.removeElementListeners = () => {
+      audioElement.removeEventListener("loadedmetadata", handleLoadedMetadata)
+      audioElement.removeEventListener("timeupdate", handleTimeUpdate)
+      audioElement.removeEventListener("ended", handleEnded)
+      audioElement.removeEventListener("error", handleError)
+    }
+
+    applyPlaybackRate(audioElement, this.basicEffects, this.advancedEffects)
+    this.setState("loading")
+  }
+
+  // Create the AudioContext, the safety limiter and (with effects) the effects graph on
+  // first play (browsers only allow starting a context after a user gesture). Effect
+  // changes are applied to this graph in place from then on.
+  private setupGraph(audioElement: HTMLAudioElement): Promise<void> {
+    this.graphSetup ??= (async () => {
+      const audioContext = createAudioContext()
+      this.audioContext = audioContext
+
+      try {
+        const sourceNode = createMediaElementSourceNode(audioContext, audioElement)
+        const safetyLimiter = await createSafetyLimiter(audioContext, getSafetySettings(), (ducking) =>
+          this.emit("safetyduck", ducking),
+        )
+        safetyLimiter.output.connect(audioContext.destination)
+        // Every live output goes through the limiter, with or without effects
+        const graph = this.options.effects
+          ? await setupEffectsGraph(
+              audioContext,
+              sourceNode,
+              safetyLimiter.input,
+              this.basicEffects,
+              this.advancedEffects,
+            )
+          : null
+        if (!graph) sourceNode.connect(safetyLimiter.input)
+
+        // Released while the graph was being built
+        if (this.audioContext !== audioContext) {
+          if (graph) disposeEffectsGraph(graph)
+          disposeSafetyLimiter(safetyLimiter)
+          return
+        }
+
+        this.graph = graph
+        this.safetyLimiter = safetyLimiter
+        // Parents can change the limits while something plays
+        this.unsubscribeSafety = subscribeSafetySettings((settings) => updateSafetyLimiter(safetyLimiter, settings))
+        this.advancedChainLayout = getAdvancedChainLayout(this.advancedEffects)
+        // Catch up with changes made while the graph was being built
+        this.applyEffects()
+        console.log(graph ? "Audio context initialized with effects" : "Audio context initialized")
+      } catch (error) {
+        console.error("Failed to initialize audio context:", error)
+        this.emit("error", error)
+      }
+    })()
+    return this.graphSetup
+  }
+
+  async play(): Promise<void> {
+    this.assertNotDisposed()
+    const audioElement = this.audioElement
+    if (!audioElement) return
+
+    try {
+      await this.setupGraph(audioElement)
+
+      // Resume audio context if suspended (autoplay policy, or paused by us)
+      if (this.audioContext && this.audioContext.state === "suspended") {
+        await this.audioContext.resume()
+      }
+      this.scheduleAutomation()
+
+      if (this.options.exclusive) {
+        exclusiveEngines.forEach((engine) => engine !== this && engine.pause())
+        exclusiveEngines.add(this)
+      }
+
+      await audioElement.play()
+      if (this.audioElement === audioElement) this.setState("playing")
+    } catch (error) {
+      console.error("Error playing audio:", error)
+      exclusiveEngines.delete(this)
+      this.emit("error", error)
+    }
+  }
+
+  pause(): void {
+    if (!this.audioElement || this.currentState !== "playing") return
+
+    this.audioElement.pause()
+    exclusiveEngines.delete(this)
+    this.setState("suspended")
+
+    this.audioContext?.suspend().catch((error: Error) => console.error("Error suspending audio context:", error))
+  }
+
+  // Jump to a time in seconds; invalid times are ignored
+  seek(time: number): void {
+    const audioElement = this.audioElement
+    if (!audioElement) return
+
+    if (isFinite(time) && time >= 0 && time <= (audioElement.duration || 0)) {
+      try {
+        audioElement.currentTime = time
+        this.scheduleAutomation()
+        this.emit("timeupdate", time)
+      } catch (error) {
+        console.error("Error setting currentTime:", error)
+      }
+    }
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume
+    // Only on the element: it feeds the graph, so setting the output gain as well would square it
+    if (this.audioElement) {
+      this.audioElement.volume = volume
+    }
+  }
+
+  // Spectrum after the EQ; null until the graph is built on first play
+  getAnalyser(): AnalyserNode | null {
+    return this.graph?.basicNodes.analyser ?? null
+  }
+
+  setBasicEffects(effects: AudioEffects): void {
+    this.basicEffects = effects
+    this.applyEffects()
+  }
+
+  setAdvancedEffects(effects: AdvancedAudioEffects): void {
+    this.advancedEffects = effects
+    this.applyEffects()
+  }
+
+  // Apply the current effects to the playback rate and the running graph
+  private applyEffects() {
+    if (this.audioElement) {
+      applyPlaybackRate(this.audioElement, this.basicEffects, this.advancedEffects)
+    }
+    if (!this.graph) return
+
+    updateAudioEffects(this.graph.basicNodes, this.basicEffects)
+
+    // Added, removed, reordered, enabled or disabled effects need rewiring;
+    // parameter and bypass changes are applied in place
+    const layout = getAdvancedChainLayout(this.advancedEffects)
+    if (layout !== this.advancedChainLayout) {
+      this.advancedChainLayout = layout
+      // Effects added by the rewiring pick up their lanes and modulation afterwards
+      rewireAdvancedAudioGraph(this.graph.advancedNodes, this.advancedEffects).then(() => {
+        this.scheduleAutomation()
+        this.updateModulation()
+      })
+    }
+    updateAdvancedAudioEffects(this.graph.advancedNodes, this.advancedEffects)
+    this.updateModulation()
+
+    // Lanes take over from the values set above
+    this.scheduleAutomation()
+  }
+
+  // (Re)schedule the automation lanes from the current position. The lanes follow
+  // the recording's time, so this is redone whenever the position or rate jumps.
+  private scheduleAutomation() {
+    if (!this.graph || !this.audioContext || !this.audioElement) return
+
+    scheduleEffectsAutomation(this.graph, this.basicEffects, this.advancedEffects, {
+      contextTime: this.audioContext.currentTime,
+      mediaTime: this.audioElement.currentTime,
+      rate: this.audioElement.playbackRate,
+    })
+  }
+
+  private updateModulation() {
+    if (!this.graph) return
+    updateEffectsModulation(this.graph, this.basicEffects, this.advancedEffects)
+  }
+
+  // Stop playback and release the element, its object URL, the graph and the context
+  private release() {
+    exclusiveEngines.delete(this)
+    this.removeElementListeners?.()
+    this.removeElementListeners = null
+
+    if (this.audioElement) {
+      this.audioElement.pause()
+      this.audioElement.src = ""
+      this.audioElement = null
+    }
+
+    if (this.audioUrl) {
+      URL.revokeObjectURL(this.audioUrl)
+      this.audioUrl = null
+    }
+
+    if (this.graph) {
+      disposeEffectsGraph(this.graph)
+      this.graph = null
+    }
+
+    this.unsubscribeSafety?.()
+    this.unsubscribeSafety = null
+    if (this.safetyLimiter) {
+      disposeSafetyLimiter(this.safetyLimiter)
+      this.safetyLimiter = null
+    }
+
+    if (this.audioContext && this.audioContext.state !== "closed") {
+      this.audioContext.close().catch((error: Error) => console.error("Error closing audio context:", error))
+    }
+    this.audioContext = null
+    this.graphSetup = null
+  }
+
+  // Release everything for good. The engine can't be used afterwards.
+  dispose(): void {
+    if (this.currentState === "disposed") return
+
+    this.release()
+    this.setState("disposed")
+    Object.values(this.listeners).forEach((listeners) => listeners.clear())
+  }
+}
@@ -0,0 +1,143 @@
+// Effects graph builder shared by live playback and offline export
+
+import {
+  type AudioEffects,
+  type AudioNodes,
+  type BasicAutomationParam,
+  type BasicEffectsChainOptions,
+  basicAutomationParams,
+  createBasicEffectsChain,
+  disposeBasicEffectsChain,
+  getBasicAutomationTargets,
+  getBasicParamValue,
+} from "./audio-effects"
+import {
+  type AdvancedAudioEffects,
+  type AdvancedAudioNodes,
+  disposeAdvancedAudioGraph,
+  isGraphEffect,
+  setupAdvancedAudioGraph,
+} from "./advanced-audio-effects"
+import {
+  type AutomationTarget,
+  type AutomationTiming,
+  type ParamRef,
+  getParamKey,
+  listAutomatableParams,
+  scheduleAutomation,
+} from "./automation"
+import { getEffectDefinition } from "./effects"
+import { type ModulationNodes, createModulationNodes, disposeModulation, updateModulation } from "./modulation"
+
+export interface EffectsGraph {
+  basicNodes: AudioNodes
+  advancedNodes: AdvancedAudioNodes
+  modulationNodes: ModulationNodes
+}
+
+// Check whether any advanced effect that needs nodes in the graph is switched on.
+// Tempo effects like time stretch change the playback rate instead (see time-stretch.ts).
+export const hasEnabledAdvancedEffects = (effects: AdvancedAudioEffects): boolean =>
+  effects.some((effect) => effect.enabled && isGraphEffect(effect))
+
+// Order and identity of the effects the advanced graph is built from. Parameter
+// and bypass changes are applied in place; a different layout needs rewiring.
+export const getAdvancedChainLayout = (effects: AdvancedAudioEffects): string =>
+  effects
+    .filter((effect) => effect.enabled && isGraphEffect(effect))
+    .map((effect) => effect.id)
+    .join(",")
+
+// Build the complete effects graph between a source and a destination.
+// Works on an AudioContext (player) as well as an OfflineAudioContext (export),
+// so both paths always render the same chain.
+export const setupEffectsGraph = async (
+  audioContext: BaseAudioContext,
+  sourceNode: AudioNode,
+  destinationNode: AudioNode,
+  basicEffects: AudioEffects,
+  advancedEffects: AdvancedAudioEffects,
+  options: BasicEffectsChainOptions = {},
+): Promise<EffectsGraph> => {
+  // Basic chain: pitch -> EQ -> reverb -> pan
+  const basicNodes = await createBasicEffectsChain(audioContext, sourceNode, basicEffects, options)
+  basicNodes.outputGain.connect(destinationNode)
+
+  // Advanced chain, spliced into the basic chain at its insertion point so
+  // everything runs on one serial path. The player adds effects to it later
+  // with rewireAdvancedAudioGraph.
+  const advancedNodes = await setupAdvancedAudioGraph(
+    audioContext,
+    basicNodes.insertSend,
+    basicNodes.insertReturn,
+    advancedEffects,
+  )
+
+  // LFOs and envelope followers, which follow the unprocessed source
+  const graph = { basicNodes, advancedNodes, modulationNodes: createModulationNodes(sourceNode) }
+  await updateEffectsModulation(graph, basicEffects, advancedEffects)
+
+  return graph
+}
+
+// Stop and disconnect a graph built by setupEffectsGraph
+export const disposeEffectsGraph = (graph: EffectsGraph): void => {
+  disposeModulation(graph.modulationNodes)
+  disposeAdvancedAudioGraph(graph.advancedNodes)
+  disposeBasicEffectsChain(graph.basicNodes)
+}
+
+// Schedule the automation lanes of every effect on the graph from `timing` on.
+// Parameters whose lane was removed go back to their set value.
+export const scheduleEffectsAutomation = (
+  graph: EffectsGraph,
+  basicEffects: AudioEffects,
+  advancedEffects: AdvancedAudioEffects,
+  timing: AutomationTiming,
+): void => {
+  for (const param of Object.keys(basicAutomationParams) as BasicAutomationParam[]) {
+    const targets = getBasicAutomationTargets(graph.basicNodes, param)
+    scheduleAutomation(targets, basicEffects.automation[param], getBasicParamValue(basicEffects, param), timing)
+  }
+
+  for (const unit of graph.advancedNodes.units) {
+    const effect = advancedEffects.find((candidate) => candidate.id === unit.id)
+    const automation = getEffectDefinition(unit.type)?.automation
+    if (!effect || !automation) continue
+
+    for (const [name, getTargets] of Object.entries(automation)) {
+      const value = effect.params[name]
+      if (!getTargets || typeof value !== "number") continue
+      scheduleAutomation(getTargets(unit.nodes), effect.automation[name], value, timing)
+    }
+  }
+}
+
+// AudioParams a parameter drives in the graph (none if its effect isn't in the graph)
+export const getParamTargets = (graph: EffectsGraph, ref: ParamRef): AutomationTarget[] => {
+  if (ref.effectId === null) {
+    return ref.param in basicAutomationParams
+      ? getBasicAutomationTargets(graph.basicNodes, ref.param as BasicAutomationParam)
+      : []
+  }
+
+  const unit = graph.advancedNodes.units.find((candidate) => candidate.id === ref.effectId)
+  const getTargets = unit && getEffectDefinition(unit.type)?.automation?.[ref.param]
+  return unit && getTargets ? getTargets(unit.nodes) : []
+}
+
+// Apply the modulation sources and routes to the graph. Call again after the
+// advanced chain was rewired, so routes reach effects that were added or rebuilt.
+export const updateEffectsModulation = (
+  graph: EffectsGraph,
+  basicEffects: AudioEffects,
+  advancedEffects: AdvancedAudioEffects,
+): Promise<void> => {
+  const params = listAutomatableParams(basicEffects, advancedEffects)
+
+  return updateModulation(graph.modulationNodes, basicEffects.modulation, (ref) => {
+    const key = getParamKey(ref)
+    const param = params.find((candidate) => candidate.key === key)
+    return param ? { targets: getParamTargets(graph, ref), range: param.range, value: param.value } : null
+  })
+}
@@ -1,23 +1,57 @@
 // Advanced audio processing for offline rendering and export
 
-import type { AudioEffects } from "./audio-effects"
+import { createAudioContext } from "./audio-context"
+import {
+  type AudioEffects,
+  type BasicAutomationParam,
+  getPitchShifterLatency,
+  pitchShiftQualitySettings,
+} from "./audio-effects"
 import type { AdvancedAudioEffects } from "./advanced-audio-effects"
+import { scheduleEffectsAutomation, setupEffectsGraph } from "./audio-graph"
+import { hasLane } from "./automation"
+import { getEffectDefinition } from "./effects"
+import { type ExportOptions, type ExportTags, getDefaultExportOptions, getEncoder } from "./encoders"
+import { type LoudnessReport, type LoudnessSettings, defaultLoudnessSettings, processLoudness } from "./loudness"
+import { pitchShiftAudioBuffer } from "./phase-vocoder"
+import { getTimeStretchRate, timeStretchAudioBuffer } from "./time-stretch"
+
+// Whether a basic parameter changes during the recording, by automation or modulation
+const isParamAnimated = (effects: AudioEffects, param: BasicAutomationParam): boolean =>
+  hasLane(effects.automation, param) ||
+  effects.modulation.routes.some((route) => route.target.effectId === null && route.target.param === param)
+
+// Samples the advanced chain delays the signal by (effects like noise reduction lag their input)
+const getAdvancedEffectsLatency = (effects: AdvancedAudioEffects): number =>
+  effects.reduce((latency, effect) => {
+    if (!effect.enabled || effect.bypass) return latency
+    return latency + (getEffectDefinition(effect.type)?.latency ?? 0)
+  }, 0)
+
+// Encoded export, with its loudness before and after normalization and limiting
+export interface ProcessedAudio {
+  blob: Blob
+  loudness: LoudnessReport
+}
 
-// Declare OversampleType
-type OversampleType = "none" | "2x" | "4x"
-
-// Process audio with all effects and return as blob
+// Process audio with all effects, then bring it to the target loudness and peak
 export const processAudioWithEffects = async (
   audioBlob: Blob,
   basicEffects: AudioEffects,
   advancedEffects: AdvancedAudioEffects,
-  format: "mp3" | "wav" = "mp3",
+  format = "mp3",
   progressCallback?: (progress: number) => void,
-): Promise<Blob> => {
+  loudnessSettings: LoudnessSettings = defaultLoudnessSettings,
+  exportOptions: ExportOptions = {},
+  tags: ExportTags = {},
+): Promise<ProcessedAudio> => {
   return new Promise(async (resolve, reject) => {
     try {
+      const encoder = getEncoder(format)
+      if (!encoder) throw new Error(`Unknown export format: ${format}`)
+
       // Create audio context
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
+      const audioContext = createAudioContext()
 
       // Report initial progress
       if (progressCallback) progressCallback(0.1)
@@ -34,165 +68,81 @@ export const processAudioWithEffects = async (
       // Report decoding progress
       if (progressCallback) progressCallback(0.3)
 
-      // Calculate output length based on speed/timeStretch
       const speedFactor = basicEffects.speed
-      const timeStretchFactor = advancedEffects.timeStretch.enabled ? advancedEffects.timeStretch.rate : 1.0
 
-      const finalSpeedFactor = speedFactor * timeStretchFactor
+      // Time stretch changes the duration without touching the pitch
+      const timeStretchRate = getTimeStretchRate(advancedEffects)
+      const stretchedBuffer =
+        Math.abs(timeStretchRate - 1) > 1e-4
+          ? timeStretchAudioBuffer(audioContext, audioBuffer, timeStretchRate)
+          : audioBuffer
+
+      // Automated or modulated pitch needs the pitch shifter worklet in the graph,
+      // whose output is delayed, like that of some advanced effects; render that
+      // much longer and trim it off the start
+      const pitchAutomated = isParamAnimated(basicEffects, "pitch")
+      const latency =
+        (pitchAutomated ? getPitchShifterLatency(basicEffects.pitchQuality) : 0) +
+        getAdvancedEffectsLatency(advancedEffects)
+
+      // Panning a mono recording, or an effect with a stereo output, needs a stereo render
+      const panned = basicEffects.pan !== 0 || isParamAnimated(basicEffects, "pan")
+      const widened = advancedEffects.some(
+        (effect) => effect.enabled && getEffectDefinition(effect.type)?.stereoOutput,
+      )
+      const channelCount =
+        panned || widened ? Math.max(2, stretchedBuffer.numberOfChannels) : stretchedBuffer.numberOfChannels
 
       // Create offline context for rendering
       const offlineContext = new OfflineAudioContext(
-        audioBuffer.numberOfChannels,
+        channelCount,
         // Adjust length based on speed
-        Math.ceil(audioBuffer.length / finalSpeedFactor),
-        audioBuffer.sampleRate,
+        Math.ceil(stretchedBuffer.length / speedFactor) + latency,
+        stretchedBuffer.sampleRate,
       )
 
+      // Report processing started
+      if (progressCallback) progressCallback(0.4)
+
+      // Pitch and speed must stay independent like in the player, where the
+      // audio element preserves pitch when its playbackRate changes. Shift the
+      // buffer by pitch / speed up front; playbackRate then restores the speed's
+      // share of the pitch while changing the tempo.
+      const pitchRatio = Math.pow(2, basicEffects.pitch / 12) / speedFactor
+      const { fftSize } = pitchShiftQualitySettings[basicEffects.pitchQuality]
+      const sourceBuffer =
+        !pitchAutomated && Math.abs(pitchRatio - 1) > 1e-4
+          ? pitchShiftAudioBuffer(offlineContext, stretchedBuffer, pitchRatio, fftSize)
+          : stretchedBuffer
+
+      // Report pitch shifting progress
+      if (progressCallback) progressCallback(0.5)
+
       // Create source
       const source = offlineContext.createBufferSource()
-      source.buffer = audioBuffer
-
-      // Apply basic effects
+      source.buffer = sourceBuffer
 
       // Speed
       source.playbackRate.value = speedFactor
 
-      // Pitch shift (using detune)
-      // 100 cents = 1 semitone
-      source.detune.value = basicEffects.pitch * 100
-
-      // Bass filter
-      const bassFilter = offlineContext.createBiquadFilter()
-      bassFilter.type = "lowshelf"
-      bassFilter.frequency.value = 200
-      bassFilter.gain.value = basicEffects.bass
-
-      // Treble filter
-      const trebleFilter = offlineContext.createBiquadFilter()
-      trebleFilter.type = "highshelf"
-      trebleFilter.frequency.value = 3000
-      trebleFilter.gain.value = basicEffects.treble
-
-      // Reverb
-      const convolver = offlineContext.createConvolver()
-
-      // Create reverb impulse response
-      const reverbLength = offlineContext.sampleRate * 2 // 2 seconds
-      const reverbBuffer = offlineContext.createBuffer(2, reverbLength, offlineContext.sampleRate)
-
-      // Fill reverb buffer with decaying noise
-      for (let channel = 0; channel < 2; channel++) {
-        const channelData = reverbBuffer.getChannelData(channel)
-        for (let i = 0; i < reverbLength; i++) {
-          // Exponential decay
-          channelData[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / reverbLength, 2)
-        }
-      }
-
-      convolver.buffer = reverbBuffer
-
-      // Dry/wet mix for reverb
-      const dryGain = offlineContext.createGain()
-      dryGain.gain.value = 1 - basicEffects.reverb
-
-      const wetGain = offlineContext.createGain()
-      wetGain.gain.value = basicEffects.reverb
-
-      // Connect basic effects chain
-      source.connect(bassFilter)
-      bassFilter.connect(trebleFilter)
-
-      // Split for dry/wet paths
-      const dryPath = trebleFilter
-
-      // Apply advanced effects if enabled
-
-      // Report processing started
-      if (progressCallback) progressCallback(0.4)
+      // Build the same effects graph the player uses. Pitch was applied to the
+      // buffer above, so the pitch worklet is skipped, unless pitch is automated;
+      // then the worklet also cancels the speed's share of the pitch.
+      const graph = await setupEffectsGraph(
+        offlineContext,
+        source,
+        offlineContext.destination,
+        basicEffects,
+        advancedEffects,
+        pitchAutomated ? { pitchRatioScale: 1 / speedFactor } : { pitchShift: false },
+      )
 
-      // 1. Echo
-      let echoNode = null
-      if (advancedEffects.echo.enabled) {
-        const delay = offlineContext.createDelay(2.0)
-        delay.delayTime.value = advancedEffects.echo.delayTime
-
-        const feedback = offlineContext.createGain()
-        feedback.gain.value = advancedEffects.echo.feedback
-
-        const echoMix = offlineContext.createGain()
-        echoMix.gain.value = advancedEffects.echo.mix
-
-        const echoInput = offlineContext.createGain()
-
-        // Connect echo
-        dryPath.connect(echoInput)
-        echoInput.connect(delay)
-        delay.connect(feedback)
-        feedback.connect(delay)
-        delay.connect(echoMix)
-
-        // Update dry path
-        echoNode = echoMix
-      }
-
-      // 2. Distortion
-      let distortionNode = null
-      if (advancedEffects.distortion.enabled) {
-        const distortion = offlineContext.createWaveShaper()
-        distortion.oversample = advancedEffects.distortion.oversample as OversampleType
-
-        // Create distortion curve
-        const k = advancedEffects.distortion.amount >= 100 ? 99.9 : advancedEffects.distortion.amount
-        const deg = Math.PI / 180
-        const samples = 44100
-        const curve = new Float32Array(samples)
-
-        for (let i = 0; i < samples; ++i) {
-          const x = (i * 2) / samples - 1
-          curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-        }
-
-        distortion.curve = curve
-
-        // Connect distortion
-        const distInput = echoNode || dryPath
-        distInput.connect(distortion)
-
-        // Update dry path
-        distortionNode = distortion
-      }
-
-      // Continue with other advanced effects...
-      // (For brevity, we'll implement just a few key ones)
-
-      // 3. Compression
-      let compressorNode = null
-      if (advancedEffects.compression.enabled) {
-        const compressor = offlineContext.createDynamicsCompressor()
-        compressor.threshold.value = advancedEffects.compression.threshold
-        compressor.ratio.value = advancedEffects.compression.ratio
-        compressor.attack.value = advancedEffects.compression.attack
-        compressor.release.value = advancedEffects.compression.release
-
-        // Connect compressor
-        const compInput = distortionNode || echoNode || dryPath
-        compInput.connect(compressor)
-
-        // Update dry path
-        compressorNode = compressor
-      }
-
-      // Final dry path after all advanced effects
-      const finalDryPath = compressorNode || distortionNode || echoNode || dryPath
-
-      // Connect final paths
-      finalDryPath.connect(dryGain)
-      trebleFilter.connect(convolver)
-      convolver.connect(wetGain)
-
-      // Connect to destination
-      dryGain.connect(offlineContext.destination)
-      wetGain.connect(offlineContext.destination)
+      // Automation lanes run on the recording's time, which the speed and time stretch compress
+      scheduleEffectsAutomation(graph, basicEffects, advancedEffects, {
+        contextTime: 0,
+        mediaTime: 0,
+        rate: speedFactor * timeStretchRate,
+      })
 
       // Start source
       source.start(0)
@@ -201,13 +151,28 @@ export const processAudioWithEffects = async (
       if (progressCallback) progressCallback(0.6)
 
       // Render audio
-      const renderedBuffer = await offlineContext.startRendering()
+      const renderedBuffer = trimStart(await offlineContext.startRendering(), latency)
 
       // Report rendering complete
       if (progressCallback) progressCallback(0.8)
 
-      // Convert to desired format
-      const audioData = format === "wav" ? encodeWAV(renderedBuffer) : await encodeMP3(renderedBuffer)
+      // Normalize and limit in place, so the encoders get no overs to clip
+      const channels = Array.from({ length: renderedBuffer.numberOfChannels }, (_, channel) =>
+        renderedBuffer.getChannelData(channel),
+      )
+      const loudness = processLoudness(channels, renderedBuffer.sampleRate, loudnessSettings)
+
+      // Report loudness processing complete
+      if (progressCallback) progressCallback(0.9)
+
+      // Convert to desired format, with the encoder's defaults for options not given
+      const options = { ...getDefaultExportOptions(encoder), ...exportOptions }
+      const audioData = await encoder.encode(
+        renderedBuffer,
+        options,
+        (progress) => progressCallback?.(0.9 + 0.1 * progress),
+        tags,
+      )
 
       // Report export complete
       if (progressCallback) progressCallback(1.0)
@@ -215,7 +180,7 @@ export const processAudioWithEffects = async (
       // Clean up
       audioContext.close()
 
-      resolve(audioData)
+      resolve({ blob: audioData, loudness })
     } catch (error) {
       console.error("Error processing audio:", error)
       reject(error)
@@ -223,127 +188,17 @@ export const processAudioWithEffects = async (
   })
 }
 
-// Encode AudioBuffer to WAV format
-const encodeWAV = (audioBuffer: AudioBuffer): Blob => {
-  const numOfChannels = audioBuffer.numberOfChannels
-  const sampleRate = audioBuffer.sampleRate
-  const length = audioBuffer.length
-
-  // Create buffer with space for the header
-  const buffer = new ArrayBuffer(44 + length * numOfChannels * 2)
-  const view = new DataView(buffer)
-
-  // Write WAV header
-  // "RIFF" chunk descriptor
-  writeString(view, 0, "RIFF")
-  view.setUint32(4, 36 + length * numOfChannels * 2, true)
-  writeString(view, 8, "WAVE")
-
-  // "fmt " sub-chunk
-  writeString(view, 12, "fmt ")
-  view.setUint32(16, 16, true) // subchunk1size (16 for PCM)
-  view.setUint16(20, 1, true) // audio format (1 for PCM)
-  view.setUint16(22, numOfChannels, true) // num of channels
-  view.setUint32(24, sampleRate, true) // sample rate
-  view.setUint32(28, sampleRate * numOfChannels * 2, true) // byte rate
-  view.setUint16(32, numOfChannels * 2, true) // block align
-  view.setUint16(34, 16, true) // bits per sample
-
-  // "data" sub-chunk
-  writeString(view, 36, "data")
-  view.setUint32(40, length * numOfChannels * 2, true) // subchunk2size
-
-  // Write audio data
-  const channels = []
-  for (let i = 0; i < numOfChannels; i++) {
-    channels.push(audioBuffer.getChannelData(i))
-  }
+// Drop the first `length` samples of a buffer
+const trimStart = (audioBuffer: AudioBuffer, length: number): AudioBuffer => {
+  if (length <= 0) return audioBuffer
 
-  let offset = 44
-  for (let i = 0; i < length; i++) {
-    for (let channel = 0; channel < numOfChannels; channel++) {
-      // Convert float32 to int16
-      const sample = Math.max(-1, Math.min(1, channels[channel][i]))
-      const int16Sample = sample < 0 ? sample * 0x8000 : sample * 0x7fff
-      view.setInt16(offset, int16Sample, true)
-      offset += 2
-    }
-  }
-
-  return new Blob([buffer], { type: "audio/wav" })
-}
-
-// Helper to write strings to DataView
-const writeString = (view: DataView, offset: number, string: string) => {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i))
-  }
-}
-
-// Encode AudioBuffer to MP3 format (using MediaRecorder if available)
-const encodeMP3 = async (audioBuffer: AudioBuffer): Promise<Blob> => {
-  // Check if MediaRecorder supports MP3
-  const mimeType = "audio/mp3"
-  const isMP3Supported = MediaRecorder.isTypeSupported(mimeType)
-
-  if (!isMP3Supported) {
-    console.warn("MP3 encoding not supported by this browser. Falling back to WAV.")
-    return encodeWAV(audioBuffer)
-  }
-
-  // Create a new AudioContext for playback
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
-
-  // Create a MediaStreamDestination
-  const destination = audioContext.createMediaStreamDestination()
-
-  // Create a buffer source
-  const source = audioContext.createBufferSource()
-  source.buffer = audioBuffer
-
-  // Connect source to destination
-  source.connect(destination)
-
-  // Create MediaRecorder
-  const recorder = new MediaRecorder(destination.stream, { mimeType })
-
-  // Collect chunks
-  const chunks: BlobPart[] = []
-  recorder.ondataavailable = (e) => {
-    if (e.data.size > 0) {
-      chunks.push(e.data)
-    }
-  }
-
-  // Create promise to wait for recording to complete
-  return new Promise<Blob>((resolve) => {
-    recorder.onstop = () => {
-      // Clean up
-      audioContext.close()
-
-      // Create blob from chunks
-      const blob = new Blob(chunks, { type: mimeType })
-      resolve(blob)
-    }
-
-    // Start recording and source
-    recorder.start()
-    source.start(0)
-
-    // Stop recording when source ends
-    source.onended = () => {
-      recorder.stop()
-    }
-
-    // Ensure we stop if source doesn't trigger onended
-    setTimeout(
-      () => {
-        if (recorder.state === "recording") {
-          recorder.stop()
-        }
-      },
-      audioBuffer.duration * 1000 + 500,
-    ) // Add 500ms buffer
+  const trimmed = new AudioBuffer({
+    numberOfChannels: audioBuffer.numberOfChannels,
+    length: audioBuffer.length - length,
+    sampleRate: audioBuffer.sampleRate,
   })
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    trimmed.copyToChannel(audioBuffer.getChannelData(channel).subarray(length), channel)
+  }
+  return trimmed
 }
-
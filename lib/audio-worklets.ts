@@ -0,0 +1,122 @@
+// AudioWorklet module loading shared by live (AudioContext) and offline (OfflineAudioContext) graphs
+
+export type WorkletProcessorName =
+  | "pitch-shifter-processor"
+  | "auto-tune-processor"
+  | "formant-shift-processor"
+  | "granular-processor"
+  | "envelope-follower-processor"
+  | "algorithmic-reverb-processor"
+  | "harmony-tracker-processor"
+  | "noise-reduction-processor"
+  | "safety-limiter-processor"
+
+// Processor name -> module URL in the public folder
+const workletModuleUrls: Record<WorkletProcessorName, string> = {
+  "pitch-shifter-processor": "/worklets/pitch-shifter-processor.js",
+  "auto-tune-processor": "/worklets/auto-tune-processor.js",
+  "formant-shift-processor": "/worklets/formant-shift-processor.js",
+  "granular-processor": "/worklets/granular-processor.js",
+  "envelope-follower-processor": "/worklets/envelope-follower-processor.js",
+  "algorithmic-reverb-processor": "/worklets/algorithmic-reverb-processor.js",
+  "harmony-tracker-processor": "/worklets/harmony-tracker-processor.js",
+  "noise-reduction-processor": "/worklets/noise-reduction-processor.js",
+  "safety-limiter-processor": "/worklets/safety-limiter-processor.js",
+}
+
+// AudioParams each processor declares in its parameterDescriptors
+export interface WorkletParameters {
+  "pitch-shifter-processor": "pitchRatio"
+  "auto-tune-processor": "key" | "amount" | "retuneSpeed"
+  "formant-shift-processor": "shift"
+  "granular-processor": "grainSize" | "scatter" | "density"
+  "envelope-follower-processor": "attack" | "release"
+  "algorithmic-reverb-processor": "decay" | "size" | "damping" | "width" | "freeze" | "modulation"
+  "harmony-tracker-processor": never
+  "noise-reduction-processor": "reduction" | "sensitivity" | "smoothing"
+  "safety-limiter-processor": "enabled" | "ceiling" | "maxLoudness" | "feedbackProtection"
+}
+
+// Node options with typed initial parameter values
+export interface WorkletNodeOptions<N extends WorkletProcessorName> extends Omit<AudioWorkletNodeOptions, "parameterData"> {
+  parameterData?: Partial<Record<WorkletParameters[N], number>>
+}
+
+// Time constant for parameter changes on a running graph, short enough to feel
+// immediate and long enough not to click
+const PARAM_SMOOTHING = 0.01
+
+// Modules already added (or being added) per context, so each one is loaded only once
+const loadedModules = new WeakMap<BaseAudioContext, Map<WorkletProcessorName, Promise<void>>>()
+
+// Load a worklet module into any context; resolves to false if AudioWorklet is unavailable
+export const loadWorkletModule = async (audioContext: BaseAudioContext, name: WorkletProcessorName): Promise<boolean> => {
+  if (!audioContext.audioWorklet) {
+    console.error("AudioWorklet not supported in this browser")
+    return false
+  }
+
+  let modules = loadedModules.get(audioContext)
+  if (!modules) {
+    modules = new Map()
+    loadedModules.set(audioContext, modules)
+  }
+
+  let pending = modules.get(name)
+  if (!pending) {
+    pending = audioContext.audioWorklet.addModule(workletModuleUrls[name])
+    modules.set(name, pending)
+  }
+
+  try {
+    await pending
+    return true
+  } catch (error) {
+    // Allow a later retry
+    modules.delete(name)
+    console.error(`Failed to register ${name}:`, error)
+    return false
+  }
+}
+
+// Load the module if needed and create a node for it, or null if worklets are unavailable
+export const createWorkletNode = async <N extends WorkletProcessorName>(
+  audioContext: BaseAudioContext,
+  name: N,
+  options?: WorkletNodeOptions<N>,
+): Promise<AudioWorkletNode | null> => {
+  const loaded = await loadWorkletModule(audioContext, name)
+  if (!loaded) return null
+
+  return new AudioWorkletNode(audioContext, name, options as AudioWorkletNodeOptions)
+}
+
+// A parameter declared by the node's processor
+export const getWorkletParam = <N extends WorkletProcessorName>(
+  node: AudioWorkletNode,
+  _name: N,
+  param: WorkletParameters[N],
+): AudioParam => {
+  const audioParam = node.parameters.get(param)
+  if (!audioParam) {
+    throw new Error(`Worklet node has no parameter "${param}"`)
+  }
+  return audioParam
+}
+
+// Glide a parameter to a new value from now on, replacing automation scheduled
+// after now. Pass 0 as the time constant for values that must not glide (like a key).
+export const smoothParam = (
+  param: AudioParam,
+  value: number,
+  audioContext: BaseAudioContext,
+  timeConstant = PARAM_SMOOTHING,
+): void => {
+  const now = audioContext.currentTime
+  param.cancelScheduledValues(now)
+  if (timeConstant > 0) {
+    param.setTargetAtTime(value, now, timeConstant)
+  } else {
+    param.setValueAtTime(value, now)
+  }
+}
@@ -10,6 +10,15 @@ declare class AudioWorkletProcessor {
   ): boolean;
 }
 
+// Parameters a processor declares with `static get parameterDescriptors()`
+interface AudioParamDescriptor {
+  name: string;
+  defaultValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  automationRate?: AutomationRate;
+}
+
 declare function registerProcessor(
   name: string, 
   constructor: { new (options?: AudioWorkletNodeOptions): AudioWorkletProcessor }
@@ -1,100 +1,180 @@
 /// <reference path="./audioworklet.d.ts" />
 
+import { detectPitch } from "./yin";
+
 interface AutoTuneProcessorOptions extends AudioWorkletNodeOptions {
   processorOptions?: {
-    port: MessagePort;
+    linked?: boolean;
+    shifterWindow?: number;
   };
 }
 
+interface AutoTuneMessage {
+  scale?: string;
+  customNotes?: number[];
+  linked?: boolean;
+}
+
+// Per-channel detection and correction state
+interface AutoTuneChannel {
+  buffer: Float32Array;
+  currentPitch: number;
+  targetRatio: number;
+  // Delay line read by two crossfaded heads for the pitch correction
+  delayLine: Float32Array;
+  writeIndex: number;
+  headPhase: number;
+  ratio: number;
+}
+
+// Ratios this close to 1 need no correction
+const UNITY_TOLERANCE = 1e-3;
+// How fast the heads settle: they drift as a ratio this far from 1 would move them
+// (about a third of a semitone)
+const SETTLE_RATE = 0.02;
+
 class AutoTuneProcessor extends AudioWorkletProcessor {
   scales: { [key: string]: number[] };
+  scaleName: string;
   currentScale: number[];
+  customNotes: number[];
   amount: number;
   rootNote: number;
+  retuneSpeed: number;
+  linked: boolean;
+  shifterWindow: number;
   bufferSize: number;
-  buffer: Float32Array;
+  hopSize: number;
   bufferIndex: number;
-  currentPitch: number;
-  targetPitch: number;
-  port: MessagePort;
+  hopCounter: number;
+  frame: Float32Array;
+  difference: Float32Array;
+  channels: AutoTuneChannel[];
+  // Mono mix analysed in linked mode
+  linkedChannel: AutoTuneChannel;
   sampleRate: number;
 
+  // The key and retune speed apply per block, the amount at each pitch detection
+  static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [
+      { name: "key", defaultValue: 0, minValue: 0, maxValue: 11, automationRate: "k-rate" },
+      { name: "amount", defaultValue: 0.5, minValue: 0, maxValue: 1 },
+      { name: "retuneSpeed", defaultValue: 0.05, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+    ];
+  }
+
   constructor(options?: AutoTuneProcessorOptions) {
     super(options);
     // Define musical scales (semitone offsets from root)
     this.scales = {
       chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
       major: [0, 2, 4, 5, 7, 9, 11],
-      minor: [0, 2, 3, 5, 7, 8, 10]
+      minor: [0, 2, 3, 5, 7, 8, 10],
+      pentatonic: [0, 2, 4, 7, 9],
+      blues: [0, 3, 5, 6, 7, 10]
     };
 
+    this.customNotes = [0, 2, 4, 5, 7, 9, 11];
+    this.scaleName = "major";
     this.currentScale = this.scales.major;
     this.amount = 0.5; // 0 to 1 (subtle to strong)
     this.rootNote = 0; // C
+    this.retuneSpeed = 0.05; // seconds to reach the target note
+    this.linked = options?.processorOptions?.linked ?? true;
+    // Length of the pitch correction grains
+    this.shifterWindow = options?.processorOptions?.shifterWindow || 1024;
 
-    // For pitch detection
+    // For pitch detection: analyse the last bufferSize samples every hopSize samples
     this.bufferSize = 2048;
-    this.buffer = new Float32Array(this.bufferSize);
+    this.hopSize = 512;
     this.bufferIndex = 0;
+    this.hopCounter = 0;
+    this.frame = new Float32Array(this.bufferSize);
+    this.difference = new Float32Array(this.bufferSize / 2);
+    this.channels = [];
+    this.linkedChannel = this.createChannel();
 
-    // For pitch correction
-    this.currentPitch = 0;
-    this.targetPitch = 0;
-
-    this.port = (options?.processorOptions?.port) as MessagePort;
     this.sampleRate = sampleRate;
 
-    this.port.onmessage = (event: { data: { scale: string; amount: number } }) => {
-      if (event.data.scale) {
-        this.currentScale = this.scales[event.data.scale] || this.scales.major;
+    this.port.onmessage = (event: { data: AutoTuneMessage }) => {
+      const data = event.data;
+      if (data.linked !== undefined) {
+        this.linked = data.linked;
+      }
+      if (data.customNotes) {
+        this.customNotes = this.normalizeNotes(data.customNotes);
       }
-      if (event.data.amount !== undefined) {
-        this.amount = Math.max(0, Math.min(1, event.data.amount));
+      if (data.scale) {
+        this.scaleName = data.scale;
       }
+      this.currentScale = this.scaleName === "custom"
+        ? this.customNotes
+        : this.scales[this.scaleName] || this.scales.major;
+    };
+  }
+
+  createChannel(): AutoTuneChannel {
+    return {
+      buffer: new Float32Array(this.bufferSize),
+      currentPitch: 0,
+      targetRatio: 1,
+      delayLine: new Float32Array(this.shifterWindow * 2),
+      writeIndex: 0,
+      headPhase: 0,
+      ratio: 1
     };
   }
 
-  // Simple pitch detection using zero-crossing
-  detectPitch(buffer: Float32Array) {
-    let crossings = 0;
-    let prevSample = 0;
+  // Sorted, de-duplicated semitone offsets in 0..11 (falls back to chromatic)
+  normalizeNotes(notes: number[]) {
+    const unique = new Set(notes.map((note) => ((Math.round(note) % 12) + 12) % 12));
+    return unique.size > 0 ? Array.from(unique).sort((a, b) => a - b) : this.scales.chromatic;
+  }
 
-    for (let i = 0; i < buffer.length; i++) {
-      if ((prevSample < 0 && buffer[i] >= 0) ||
-        (prevSample >= 0 && buffer[i] < 0)) {
-        crossings++;
-      }
-      prevSample = buffer[i];
+  // Run detection on the latest frame and update the channel's correction target
+  updatePitch(channel: AutoTuneChannel) {
+    // Unroll the ring buffer so the frame is in time order
+    const start = this.bufferIndex;
+    for (let i = 0; i < this.bufferSize; i++) {
+      this.frame[i] = channel.buffer[(start + i) % this.bufferSize];
     }
 
-    // Calculate frequency from zero-crossings
-    const secondsPerBuffer = buffer.length / this.sampleRate;
-    return crossings / (2 * secondsPerBuffer);
+    const frequency = detectPitch(this.frame, this.difference, this.sampleRate);
+    if (frequency > 0) {
+      channel.currentPitch = frequency;
+      const ratio = this.findClosestNote(frequency) / frequency;
+      channel.targetRatio = Math.pow(ratio, this.amount);
+    } else {
+      // Unvoiced or unreliable: relax back to the original pitch
+      channel.currentPitch = 0;
+      channel.targetRatio = 1;
+    }
   }
 
-  // Find closest note in scale
+  // Find closest note in the selected key and scale
   findClosestNote(frequency: number) {
-    // Convert frequency to MIDI note number
-    const noteNumber = 12 * (Math.log2(frequency / 440) + 4.75);
+    // Convert frequency to MIDI note number (A4 = 69), relative to the root
+    const noteNumber = 69 + 12 * Math.log2(frequency / 440);
+    const relative = noteNumber - this.rootNote;
+    const octave = Math.floor(relative / 12);
 
-    // Get the semitone offset from C
-    const semitone = Math.round(noteNumber) % 12;
-
-    // Find closest note in scale
-    let closestNote = this.currentScale[0];
-    let minDistance = 12;
-
-    for (const note of this.currentScale) {
-      const distance = Math.abs(semitone - note);
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestNote = note;
+    // Check the scale in this octave and its neighbours so notes near the octave
+    // boundary can snap across it
+    let closestNote = relative;
+    let minDistance = Infinity;
+    for (let o = octave - 1; o <= octave + 1; o++) {
+      for (const note of this.currentScale) {
+        const candidate = o * 12 + note;
+        const distance = Math.abs(relative - candidate);
+        if (distance < minDistance) {
+          minDistance = distance;
+          closestNote = candidate;
+        }
       }
     }
 
     // Calculate target frequency
-    const octave = Math.floor(noteNumber / 12);
-    const targetNoteNumber = octave * 12 + closestNote;
+    const targetNoteNumber = closestNote + this.rootNote;
     return 440 * Math.pow(2, (targetNoteNumber - 69) / 12);
   }
 
@@ -106,54 +186,88 @@ class AutoTuneProcessor extends AudioWorkletProcessor {
       return true;
     }
 
-    const inputChannel = input[0];
-    const outputChannel = output[0];
+    const channelCount = Math.min(input.length, output.length);
+    while (this.channels.length < channelCount) {
+      this.channels.push(this.createChannel());
+    }
 
-    // Fill buffer for pitch detection
-    for (let i = 0; i < inputChannel.length; i++) {
-      this.buffer[this.bufferIndex] = inputChannel[i];
-      this.bufferIndex = (this.bufferIndex + 1) % this.bufferSize;
+    this.rootNote = ((Math.round(parameters.key[0]) % 12) + 12) % 12;
+    this.retuneSpeed = parameters.retuneSpeed[0];
+    const amounts = parameters.amount;
 
-      // When buffer is full, detect pitch
-      if (this.bufferIndex === 0) {
-        const detectedFreq = this.detectPitch(this.buffer);
-        if (detectedFreq > 50 && detectedFreq < 2000) { // Valid vocal range
-          this.currentPitch = detectedFreq;
-          this.targetPitch = this.findClosestNote(detectedFreq);
-        }
+    // Fill buffers for pitch detection
+    const blockSize = input[0].length;
+    for (let i = 0; i < blockSize; i++) {
+      let mix = 0;
+      for (let c = 0; c < channelCount; c++) {
+        this.channels[c].buffer[this.bufferIndex] = input[c][i];
+        mix += input[c][i];
       }
-    }
+      this.linkedChannel.buffer[this.bufferIndex] = mix / channelCount;
+      this.bufferIndex = (this.bufferIndex + 1) % this.bufferSize;
 
-    // Simple time-domain pitch shifting
-    if (this.currentPitch > 0 && this.targetPitch > 0) {
-      const ratio = this.targetPitch / this.currentPitch;
-      const blendedRatio = 1 + (ratio - 1) * this.amount;
-
-      for (let i = 0; i < outputChannel.length; i++) {
-        // Simple resampling for pitch correction
-        const readPos = i / blendedRatio;
-        const readPosFloor = Math.floor(readPos);
-        const readPosFrac = readPos - readPosFloor;
-
-        if (readPosFloor >= 0 && readPosFloor < inputChannel.length - 1) {
-          // Linear interpolation
-          outputChannel[i] = inputChannel[readPosFloor] * (1 - readPosFrac) +
-            inputChannel[readPosFloor + 1] * readPosFrac;
-        } else if (readPosFloor >= 0 && readPosFloor < inputChannel.length) {
-          outputChannel[i] = inputChannel[readPosFloor];
+      // Every hop, detect pitch (on the mix when linked)
+      if (++this.hopCounter >= this.hopSize) {
+        this.hopCounter = 0;
+        this.amount = amounts.length > 1 ? amounts[i] : amounts[0];
+        if (this.linked) {
+          this.updatePitch(this.linkedChannel);
         } else {
-          outputChannel[i] = 0;
+          for (let c = 0; c < channelCount; c++) {
+            this.updatePitch(this.channels[c]);
+          }
         }
       }
-    } else {
-      // Pass through if no pitch detected
-      for (let i = 0; i < outputChannel.length; i++) {
-        outputChannel[i] = inputChannel[i];
-      }
+    }
+
+    for (let c = 0; c < channelCount; c++) {
+      const detection = this.linked ? this.linkedChannel : this.channels[c];
+      this.correct(input[c], output[c], this.channels[c], detection.targetRatio);
     }
 
     return true;
   }
+
+  // Delay-line pitch shifter: two read heads sweep across the delay line at a
+  // rate set by the pitch ratio and are crossfaded with Hann windows.
+  // The ratio glides towards the target at the retune speed.
+  correct(inputChannel: Float32Array, outputChannel: Float32Array, channel: AutoTuneChannel, targetRatio: number) {
+    const delayLine = channel.delayLine;
+    const length = delayLine.length;
+    const shifterWindow = this.shifterWindow;
+    const smoothing = this.retuneSpeed > 0 ? 1 - Math.exp(-1 / (this.retuneSpeed * this.sampleRate)) : 1;
+
+    for (let i = 0; i < outputChannel.length; i++) {
+      channel.ratio += (targetRatio - channel.ratio) * smoothing;
+
+      delayLine[channel.writeIndex] = inputChannel[i];
+
+      let sample = 0;
+      for (let head = 0; head < 2; head++) {
+        const phase = (channel.headPhase + head * 0.5) % 1;
+        const position = channel.writeIndex - phase * shifterWindow + length;
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const value = delayLine[index % length] * (1 - fraction) + delayLine[(index + 1) % length] * fraction;
+        sample += value * (0.5 - 0.5 * Math.cos(2 * Math.PI * phase));
+      }
+      outputChannel[i] = sample;
+      channel.writeIndex = (channel.writeIndex + 1) % length;
+
+      if (Math.abs(targetRatio - 1) < UNITY_TOLERANCE && Math.abs(channel.ratio - 1) < UNITY_TOLERANCE) {
+        // Nothing to correct: the heads settle at phase 0 or 0.5, where one of them carries
+        // the whole signal half a window late. Two heads a fixed distance apart would
+        // comb-filter it.
+        channel.ratio = 1;
+        const offset = Math.round(channel.headPhase * 2) / 2 - channel.headPhase;
+        channel.headPhase += Math.max(-SETTLE_RATE, Math.min(SETTLE_RATE, offset * shifterWindow)) / shifterWindow;
+      } else {
+        // Delay shrinks when shifting up and grows when shifting down
+        channel.headPhase += (1 - channel.ratio) / shifterWindow;
+      }
+      channel.headPhase -= Math.floor(channel.headPhase);
+    }
+  }
 }
 
-registerProcessor('auto-tune-processor', AutoTuneProcessor);
\ No newline at end of file
+registerProcessor('auto-tune-processor', AutoTuneProcessor);
@@ -0,0 +1,188 @@
+// Parameter automation: breakpoint lanes that move effect parameters over the
+// length of a recording, scheduled on the AudioParams the parameters drive
+
+import { type AudioEffects, type BasicAutomationParam, basicAutomationParams, getBasicParamValue } from "./audio-effects"
+import type { AdvancedAudioEffects } from "./advanced-audio-effects"
+import { getEffectDefinition } from "./effects"
+
+export type AutomationCurve = "linear" | "exponential"
+
+// A breakpoint. `curve` shapes the segment that ends at this point; exponential
+// segments fall back to linear when the two values don't share a sign.
+export interface AutomationPoint {
+  time: number // seconds into the recording
+  value: number // in the parameter's own units
+  curve: AutomationCurve
+}
+
+// Lanes keyed by parameter name. A lane with points overrides the parameter's value.
+export type AutomationLanes = Record<string, AutomationPoint[]>
+
+// AudioParam driven by a parameter; `map` converts the parameter value to the param value
+export interface AutomationTarget {
+  param: AudioParam
+  map?: (value: number) => number
+}
+
+// Where the recording is on the context's clock: at `contextTime` it is at
+// `mediaTime`, moving `rate` recording seconds per context second
+export interface AutomationTiming {
+  contextTime: number
+  mediaTime: number
+  rate: number
+}
+
+// Segments that need a param-side curve are followed in steps of this many seconds
+const AUTOMATION_STEP = 0.02
+
+// Params that currently follow a lane, so they can be released when it is removed
+const automatedParams = new WeakSet<AudioParam>()
+
+// Range of an automatable parameter, for drawing its lane
+export interface AutomatableParam {
+  label: string
+  min: number
+  max: number
+  step: number
+  unit?: string
+  format?: (value: number) => string
+}
+
+// A parameter of the basic effects (effectId null) or of an advanced effect
+export interface ParamRef {
+  effectId: string | null
+  param: string
+}
+
+// An automatable parameter of the current effects, with its set value and lane
+export interface AutomatableParamInfo extends ParamRef {
+  key: string
+  label: string
+  range: AutomatableParam
+  value: number
+  lane: AutomationPoint[] | undefined
+}
+
+export const getParamKey = (ref: ParamRef): string => `${ref.effectId ?? "basic"}:${ref.param}`
+
+// Every parameter of the basic effects and the advanced chain that drives an AudioParam.
+// These are the ones that can be automated or modulated.
+export const listAutomatableParams = (
+  basicEffects: AudioEffects,
+  advancedEffects: AdvancedAudioEffects,
+): AutomatableParamInfo[] => {
+  const params: AutomatableParamInfo[] = []
+
+  for (const [param, range] of Object.entries(basicAutomationParams)) {
+    const ref = { effectId: null, param }
+    const value = getBasicParamValue(basicEffects, param as BasicAutomationParam)
+    params.push({ ...ref, key: getParamKey(ref), label: range.label, range, value, lane: basicEffects.automation[param] })
+  }
+
+  for (const effect of advancedEffects) {
+    const definition = getEffectDefinition(effect.type)
+    if (!definition?.automation) continue
+
+    for (const param of Object.keys(definition.automation)) {
+      const descriptor = definition.params[param]
+      const value = effect.params[param]
+      if (descriptor?.kind !== "number" || typeof value !== "number") continue
+
+      const ref = { effectId: effect.id, param }
+      params.push({
+        ...ref,
+        key: getParamKey(ref),
+        label: `${definition.name} · ${descriptor.label}`,
+        range: descriptor,
+        value,
+        lane: effect.automation[param],
+      })
+    }
+  }
+
+  return params
+}
+
+export const hasLane = (lanes: AutomationLanes, param: string): boolean => (lanes[param]?.length ?? 0) > 0
+
+// Points of a lane in time order
+export const sortAutomationPoints = (points: AutomationPoint[]): AutomationPoint[] =>
+  [...points].sort((a, b) => a.time - b.time)
+
+const interpolate = (from: AutomationPoint, to: AutomationPoint, time: number): number => {
+  const span = to.time - from.time
+  const fraction = span > 0 ? Math.min(1, Math.max(0, (time - from.time) / span)) : 1
+
+  if (to.curve === "exponential" && from.value * to.value > 0) {
+    return from.value * Math.pow(to.value / from.value, fraction)
+  }
+  return from.value + (to.value - from.value) * fraction
+}
+
+// Value of a lane at a time; the first and last points hold before and after the lane
+export const getAutomationValue = (points: AutomationPoint[], time: number): number => {
+  if (time <= points[0].time) return points[0].value
+
+  for (let i = 1; i < points.length; i++) {
+    if (time <= points[i].time) {
+      return interpolate(points[i - 1], points[i], time)
+    }
+  }
+  return points[points.length - 1].value
+}
+
+// Replace everything scheduled on the targets from timing.contextTime on with the lane.
+// Without points the targets are released back to `value`.
+export const scheduleAutomation = (
+  targets: AutomationTarget[],
+  points: AutomationPoint[] | undefined,
+  value: number,
+  timing: AutomationTiming,
+): void => {
+  const { contextTime, mediaTime, rate } = timing
+  const toContextTime = (time: number) => contextTime + (time - mediaTime) / rate
+
+  const lane = points && points.length > 0 ? sortAutomationPoints(points) : null
+  const startValue = lane ? getAutomationValue(lane, mediaTime) : value
+
+  for (const { param, map } of targets) {
+    const toParamValue = map ?? ((v: number) => v)
+
+    if (!lane) {
+      if (automatedParams.has(param)) {
+        automatedParams.delete(param)
+        param.cancelScheduledValues(contextTime)
+        param.setValueAtTime(toParamValue(value), contextTime)
+      }
+      continue
+    }
+
+    automatedParams.add(param)
+    param.cancelScheduledValues(contextTime)
+
+    // Start from the lane's value now, then ramp to every point still ahead
+    param.setValueAtTime(toParamValue(startValue), contextTime)
+
+    let previous: AutomationPoint = { time: mediaTime, value: startValue, curve: "linear" }
+    for (const point of lane) {
+      if (point.time <= mediaTime) continue
+      const endTime = toContextTime(point.time)
+
+      if (!map) {
+        if (point.curve === "exponential" && previous.value * point.value > 0) {
+          param.exponentialRampToValueAtTime(point.value, endTime)
+        } else {
+          param.linearRampToValueAtTime(point.value, endTime)
+        }
+      } else {
+        // The mapping bends the curve, so follow it in steps
+        for (let time = previous.time + AUTOMATION_STEP; time < point.time; time += AUTOMATION_STEP) {
+          param.linearRampToValueAtTime(map(interpolate(previous, point, time)), toContextTime(time))
+        }
+        param.linearRampToValueAtTime(map(point.value), endTime)
+      }
+
+      previous = point
+    }
+  }
+}
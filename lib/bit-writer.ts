@@ -0,0 +1,41 @@
+// Bit writer for the encoders' bitstreams (MP3 and FLAC)
+
+// Writes bits most significant first
+export class BitWriter {
+  bytes = new Uint8Array(4096)
+  length = 0 // whole bytes written
+  private current = 0
+  private bitCount = 0
+
+  get bitLength(): number {
+    return this.length * 8 + this.bitCount
+  }
+
+  write(value: number, count: number): void {
+    while (count > 0) {
+      const take = Math.min(count, 8 - this.bitCount)
+      count -= take
+      this.current = (this.current << take) | ((value >>> count) & ((1 << take) - 1))
+      this.bitCount += take
+      if (this.bitCount === 8) {
+        this.pushByte(this.current)
+        this.current = 0
+        this.bitCount = 0
+      }
+    }
+  }
+
+  // Pad with zeros to a whole byte
+  align(): void {
+    if (this.bitCount > 0) this.write(0, 8 - this.bitCount)
+  }
+
+  pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2)
+      grown.set(this.bytes)
+      this.bytes = grown
+    }
+    this.bytes[this.length++] = byte
+  }
+}
@@ -0,0 +1,121 @@
+// Auto-tune: YIN pitch detection snapping to a key and scale (auto-tune-processor worklet)
+
+import { Music } from "lucide-react"
+import { createWorkletNode, getWorkletParam, smoothParam } from "../audio-worklets"
+import { disconnectNodes } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+// Auto-tune scales; "custom" uses the note set in customNotes
+export type AutoTuneScale = "major" | "minor" | "chromatic" | "pentatonic" | "blues" | "custom"
+
+export const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
+
+// Length of the worklet's pitch correction grains. Its read heads rest half a window
+// behind the input, which is the effect's latency
+const SHIFTER_WINDOW = 1024
+
+type AutoTuneParams = {
+  key: number // root note, 0 (C) to 11 (B)
+  scale: AutoTuneScale
+  customNotes: number[] // semitone offsets from the root used by the "custom" scale
+  amount: number // 0 to 1.0 (subtle to strong)
+  retuneSpeed: number // 0 to 0.5 seconds to glide to the target note (0 is instant)
+  stereoLink: boolean // detect on the mix and correct all channels together
+}
+
+interface AutoTuneNodes extends EffectNodes {
+  input: AudioWorkletNode
+  output: AudioWorkletNode
+  key: AudioParam
+  amount: AudioParam
+  retuneSpeed: AudioParam
+}
+
+// The scale and stereo link aren't numeric, so they go through the port
+const postParams = (node: AudioWorkletNode, params: AutoTuneParams) => {
+  node.port.postMessage({
+    scale: params.scale,
+    customNotes: params.customNotes,
+    linked: params.stereoLink,
+  })
+}
+
+export const autoTuneEffect = defineEffect<AutoTuneParams, AutoTuneNodes>({
+  type: "autoTune",
+  name: "Auto-Tune",
+  icon: Music,
+  params: {
+    key: {
+      kind: "choice",
+      label: "Key",
+      default: 0,
+      options: noteNames.map((name, index) => ({ value: index, label: name })),
+      control: "select",
+    },
+    scale: {
+      kind: "choice",
+      label: "Scale",
+      default: "major",
+      options: [
+        { value: "major", label: "Major" },
+        { value: "minor", label: "Minor" },
+        { value: "pentatonic", label: "Pentatonic" },
+        { value: "blues", label: "Blues" },
+        { value: "chromatic", label: "Chromatic" },
+        { value: "custom", label: "Custom" },
+      ],
+    },
+    customNotes: {
+      kind: "notes",
+      label: "Notes",
+      default: [0, 2, 4, 5, 7, 9, 11],
+      rootParam: "key",
+      visible: (params) => params.scale === "custom",
+    },
+    amount: { kind: "number", label: "Amount", default: 0.5, min: 0, max: 1, step: 0.01, format: formatPercent },
+    retuneSpeed: {
+      kind: "number",
+      label: "Retune Speed",
+      default: 0.05,
+      min: 0,
+      max: 0.5,
+      step: 0.005,
+      format: (value) => `${Math.round(value * 1000)}ms`,
+    },
+    stereoLink: { kind: "boolean", label: "Stereo Link", default: true },
+  },
+
+  create: async (audioContext, params) => {
+    const node = await createWorkletNode(audioContext, "auto-tune-processor", {
+      parameterData: { key: params.key, amount: params.amount, retuneSpeed: params.retuneSpeed },
+      processorOptions: { shifterWindow: SHIFTER_WINDOW },
+    })
+    if (!node) return null
+
+    postParams(node, params)
+    return {
+      input: node,
+      output: node,
+      key: getWorkletParam(node, "auto-tune-processor", "key"),
+      amount: getWorkletParam(node, "auto-tune-processor", "amount"),
+      retuneSpeed: getWorkletParam(node, "auto-tune-processor", "retuneSpeed"),
+    }
+  },
+
+  update: (nodes, params) => {
+    const audioContext = nodes.input.context
+    smoothParam(nodes.key, params.key, audioContext, 0)
+    smoothParam(nodes.amount, params.amount, audioContext)
+    smoothParam(nodes.retuneSpeed, params.retuneSpeed, audioContext)
+    postParams(nodes.input, params)
+  },
+
+  dispose: (nodes) => disconnectNodes(nodes.input),
+
+  automation: {
+    amount: (nodes) => [{ param: nodes.amount }],
+    retuneSpeed: (nodes) => [{ param: nodes.retuneSpeed }],
+  },
+
+  latency: SHIFTER_WINDOW / 2,
+})
@@ -0,0 +1,89 @@
+// Chorus: a short delay swept by an LFO, mixed with the dry signal
+
+import { Users } from "lucide-react"
+import { createModulationNodes, disconnectNodes, getMixTargets } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type ChorusParams = {
+  rate: number // 0.1 to 8 Hz
+  depth: number // 0 to 1.0
+  mix: number // 0 to 1.0
+}
+
+interface ChorusNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  delayNode: DelayNode
+  oscillator: OscillatorNode
+  modulationGain: GainNode
+  mixGain: GainNode
+  dryGain: GainNode
+}
+
+export const chorusEffect = defineEffect<ChorusParams, ChorusNodes>({
+  type: "chorus",
+  name: "Chorus",
+  icon: Users,
+  params: {
+    rate: { kind: "number", label: "Rate", default: 1.5, min: 0.1, max: 8, step: 0.1, unit: " Hz" },
+    depth: { kind: "number", label: "Depth", default: 0.7, min: 0, max: 1, step: 0.01, format: formatPercent },
+    mix: { kind: "number", label: "Mix", default: 0.5, min: 0, max: 1, step: 0.01, format: formatPercent },
+  },
+
+  create: (audioContext, params) => {
+    const input = audioContext.createGain()
+    const delayNode = audioContext.createDelay(0.05)
+    delayNode.delayTime.value = 0.03 // 30ms delay
+
+    const { oscillator, modulationGain } = createModulationNodes(
+      audioContext,
+      params.rate,
+      0.005 * params.depth, // Convert to seconds
+    )
+
+    // Connect modulation
+    modulationGain.connect(delayNode.delayTime)
+
+    const dryGain = audioContext.createGain()
+    dryGain.gain.value = 1 - params.mix
+
+    const wetGain = audioContext.createGain()
+    wetGain.gain.value = params.mix
+
+    // Connect
+    input.connect(dryGain)
+    input.connect(delayNode)
+    delayNode.connect(wetGain)
+
+    // Merge dry and wet
+    const output = audioContext.createGain()
+    dryGain.connect(output)
+    wetGain.connect(output)
+
+    return { input, output, delayNode, oscillator, modulationGain, mixGain: wetGain, dryGain }
+  },
+
+  update: (nodes, params) => {
+    nodes.oscillator.frequency.value = params.rate
+    nodes.modulationGain.gain.value = 0.005 * params.depth
+    nodes.mixGain.gain.value = params.mix
+    nodes.dryGain.gain.value = 1 - params.mix
+  },
+
+  dispose: (nodes) =>
+    disconnectNodes(
+      nodes.oscillator,
+      nodes.modulationGain,
+      nodes.input,
+      nodes.delayNode,
+      nodes.mixGain,
+      nodes.dryGain,
+      nodes.output,
+    ),
+
+  automation: {
+    rate: (nodes) => [{ param: nodes.oscillator.frequency }],
+    depth: (nodes) => [{ param: nodes.modulationGain.gain, map: (depth) => 0.005 * depth }],
+    mix: (nodes) => getMixTargets(nodes.mixGain, nodes.dryGain),
+  },
+})
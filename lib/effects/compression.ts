@@ -0,0 +1,56 @@
+// Compression: a dynamics compressor
+
+import { Gauge } from "lucide-react"
+import { createCompressorNode, disconnectNodes } from "./nodes"
+import { type EffectNodes, defineEffect } from "./types"
+
+type CompressionParams = {
+  threshold: number // -60 to 0 dB
+  ratio: number // 1 to 20
+  attack: number // 0 to 1.0 seconds
+  release: number // 0 to 1.0 seconds
+}
+
+interface CompressionNodes extends EffectNodes {
+  input: DynamicsCompressorNode
+  output: DynamicsCompressorNode
+}
+
+export const compressionEffect = defineEffect<CompressionParams, CompressionNodes>({
+  type: "compression",
+  name: "Compression",
+  icon: Gauge,
+  params: {
+    threshold: { kind: "number", label: "Threshold", default: -24, min: -60, max: 0, step: 1, unit: " dB" },
+    ratio: { kind: "number", label: "Ratio", default: 4, min: 1, max: 20, step: 0.5, format: (value) => `${value}:1` },
+    attack: { kind: "number", label: "Attack", default: 0.003, min: 0, max: 1, step: 0.001, unit: "s" },
+    release: { kind: "number", label: "Release", default: 0.25, min: 0.01, max: 1, step: 0.01, unit: "s" },
+  },
+
+  create: (audioContext, params) => {
+    const compressor = createCompressorNode(
+      audioContext,
+      params.threshold,
+      params.ratio,
+      params.attack,
+      params.release,
+    )
+    return { input: compressor, output: compressor }
+  },
+
+  update: (nodes, params) => {
+    nodes.input.threshold.value = params.threshold
+    nodes.input.ratio.value = params.ratio
+    nodes.input.attack.value = params.attack
+    nodes.input.release.value = params.release
+  },
+
+  dispose: (nodes) => disconnectNodes(nodes.input),
+
+  automation: {
+    threshold: (nodes) => [{ param: nodes.input.threshold }],
+    ratio: (nodes) => [{ param: nodes.input.ratio }],
+    attack: (nodes) => [{ param: nodes.input.attack }],
+    release: (nodes) => [{ param: nodes.input.release }],
+  },
+})
@@ -0,0 +1,82 @@
+// Distortion: a waveshaper mixed with the dry signal
+
+import { Zap } from "lucide-react"
+import {
+  type OversampleType,
+  createDistortionCurve,
+  createDistortionNode,
+  disconnectNodes,
+  getMixTargets,
+} from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type DistortionParams = {
+  amount: number // 0 to 100
+  oversample: OversampleType
+  mix: number // 0 to 1.0
+}
+
+interface DistortionNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  distortionNode: WaveShaperNode
+  mixGain: GainNode
+  dryGain: GainNode
+}
+
+export const distortionEffect = defineEffect<DistortionParams, DistortionNodes>({
+  type: "distortion",
+  name: "Distortion",
+  icon: Zap,
+  params: {
+    amount: { kind: "number", label: "Amount", default: 20, min: 0, max: 100, step: 1 },
+    oversample: {
+      kind: "choice",
+      label: "Oversample",
+      default: "4x",
+      options: [
+        { value: "none", label: "None" },
+        { value: "2x", label: "2x" },
+        { value: "4x", label: "4x" },
+      ],
+    },
+    mix: { kind: "number", label: "Mix", default: 0.5, min: 0, max: 1, step: 0.01, format: formatPercent },
+  },
+
+  create: (audioContext, params) => {
+    const input = audioContext.createGain()
+    const distortionNode = createDistortionNode(audioContext, params.amount, params.oversample)
+
+    const dryGain = audioContext.createGain()
+    dryGain.gain.value = 1 - params.mix
+
+    const wetGain = audioContext.createGain()
+    wetGain.gain.value = params.mix
+
+    // Connect
+    input.connect(dryGain)
+    input.connect(distortionNode)
+    distortionNode.connect(wetGain)
+
+    // Merge dry and wet
+    const output = audioContext.createGain()
+    dryGain.connect(output)
+    wetGain.connect(output)
+
+    return { input, output, distortionNode, mixGain: wetGain, dryGain }
+  },
+
+  update: (nodes, params) => {
+    // Recreate curve with new amount
+    nodes.distortionNode.curve = createDistortionCurve(params.amount)
+    nodes.distortionNode.oversample = params.oversample
+    nodes.mixGain.gain.value = params.mix
+    nodes.dryGain.gain.value = 1 - params.mix
+  },
+
+  dispose: (nodes) => disconnectNodes(nodes.input, nodes.distortionNode, nodes.mixGain, nodes.dryGain, nodes.output),
+
+  automation: {
+    mix: (nodes) => getMixTargets(nodes.mixGain, nodes.dryGain),
+  },
+})
@@ -0,0 +1,70 @@
+// Echo: a feedback delay mixed with the dry signal
+
+import { Repeat } from "lucide-react"
+import { createDelayNode, disconnectNodes, getMixTargets } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type EchoParams = {
+  delayTime: number // 0.1 to 1.0 seconds
+  feedback: number // 0 to 0.9
+  mix: number // 0 to 1.0
+}
+
+interface EchoNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  delayNode: DelayNode
+  feedbackGain: GainNode
+  mixGain: GainNode
+  dryGain: GainNode
+}
+
+export const echoEffect = defineEffect<EchoParams, EchoNodes>({
+  type: "echo",
+  name: "Echo",
+  icon: Repeat,
+  params: {
+    delayTime: { kind: "number", label: "Delay Time", default: 0.3, min: 0.1, max: 1.0, step: 0.01, unit: "s" },
+    feedback: { kind: "number", label: "Feedback", default: 0.4, min: 0, max: 0.9, step: 0.01, format: formatPercent },
+    mix: { kind: "number", label: "Mix", default: 0.3, min: 0, max: 1, step: 0.01, format: formatPercent },
+  },
+
+  create: (audioContext, params) => {
+    const input = audioContext.createGain()
+    const { delayNode, feedbackGain } = createDelayNode(audioContext, params.delayTime, params.feedback)
+
+    const dryGain = audioContext.createGain()
+    dryGain.gain.value = 1 - params.mix
+
+    const wetGain = audioContext.createGain()
+    wetGain.gain.value = params.mix
+
+    // Connect
+    input.connect(dryGain)
+    input.connect(delayNode)
+    delayNode.connect(wetGain)
+
+    // Merge dry and wet
+    const output = audioContext.createGain()
+    dryGain.connect(output)
+    wetGain.connect(output)
+
+    return { input, output, delayNode, feedbackGain, mixGain: wetGain, dryGain }
+  },
+
+  update: (nodes, params) => {
+    nodes.delayNode.delayTime.value = params.delayTime
+    nodes.feedbackGain.gain.value = params.feedback
+    nodes.mixGain.gain.value = params.mix
+    nodes.dryGain.gain.value = 1 - params.mix
+  },
+
+  dispose: (nodes) =>
+    disconnectNodes(nodes.input, nodes.delayNode, nodes.feedbackGain, nodes.mixGain, nodes.dryGain, nodes.output),
+
+  automation: {
+    delayTime: (nodes) => [{ param: nodes.delayNode.delayTime }],
+    feedback: (nodes) => [{ param: nodes.feedbackGain.gain }],
+    mix: (nodes) => getMixTargets(nodes.mixGain, nodes.dryGain),
+  },
+})
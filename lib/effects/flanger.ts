@@ -0,0 +1,97 @@
+// Flanger: a very short modulated delay with feedback, mixed 50/50 with the dry signal
+
+import { Wind } from "lucide-react"
+import { createModulationNodes, disconnectNodes } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type FlangerParams = {
+  delay: number // 0.001 to 0.02 seconds
+  depth: number // 0.001 to 0.01 seconds
+  rate: number // 0.1 to 5 Hz
+  feedback: number // 0 to 0.9
+}
+
+interface FlangerNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  delayNode: DelayNode
+  oscillator: OscillatorNode
+  modulationGain: GainNode
+  feedbackGain: GainNode
+  mixGain: GainNode
+  dryGain: GainNode
+}
+
+export const flangerEffect = defineEffect<FlangerParams, FlangerNodes>({
+  type: "flanger",
+  name: "Flanger",
+  icon: Wind,
+  params: {
+    delay: { kind: "number", label: "Delay", default: 0.005, min: 0.001, max: 0.02, step: 0.001, unit: "s" },
+    depth: { kind: "number", label: "Depth", default: 0.002, min: 0.001, max: 0.01, step: 0.001, unit: "s" },
+    rate: { kind: "number", label: "Rate", default: 0.5, min: 0.1, max: 5, step: 0.1, unit: " Hz" },
+    feedback: { kind: "number", label: "Feedback", default: 0.5, min: 0, max: 0.9, step: 0.01, format: formatPercent },
+  },
+
+  create: (audioContext, params) => {
+    const input = audioContext.createGain()
+    const delayNode = audioContext.createDelay(0.05)
+    delayNode.delayTime.value = params.delay
+
+    const { oscillator, modulationGain } = createModulationNodes(audioContext, params.rate, params.depth)
+
+    const feedbackGain = audioContext.createGain()
+    feedbackGain.gain.value = params.feedback
+
+    // Connect modulation
+    modulationGain.connect(delayNode.delayTime)
+
+    // Connect feedback loop
+    delayNode.connect(feedbackGain)
+    feedbackGain.connect(delayNode)
+
+    const dryGain = audioContext.createGain()
+    dryGain.gain.value = 0.5 // Fixed mix for flanger
+
+    const wetGain = audioContext.createGain()
+    wetGain.gain.value = 0.5
+
+    // Connect
+    input.connect(dryGain)
+    input.connect(delayNode)
+    delayNode.connect(wetGain)
+
+    // Merge dry and wet
+    const output = audioContext.createGain()
+    dryGain.connect(output)
+    wetGain.connect(output)
+
+    return { input, output, delayNode, oscillator, modulationGain, feedbackGain, mixGain: wetGain, dryGain }
+  },
+
+  update: (nodes, params) => {
+    nodes.delayNode.delayTime.value = params.delay
+    nodes.oscillator.frequency.value = params.rate
+    nodes.modulationGain.gain.value = params.depth
+    nodes.feedbackGain.gain.value = params.feedback
+  },
+
+  dispose: (nodes) =>
+    disconnectNodes(
+      nodes.oscillator,
+      nodes.modulationGain,
+      nodes.input,
+      nodes.delayNode,
+      nodes.feedbackGain,
+      nodes.mixGain,
+      nodes.dryGain,
+      nodes.output,
+    ),
+
+  automation: {
+    delay: (nodes) => [{ param: nodes.delayNode.delayTime }],
+    depth: (nodes) => [{ param: nodes.modulationGain.gain }],
+    rate: (nodes) => [{ param: nodes.oscillator.frequency }],
+    feedback: (nodes) => [{ param: nodes.feedbackGain.gain }],
+  },
+})
@@ -0,0 +1,58 @@
+// Formant shift: cepstral envelope warping that keeps the pitch (formant-shift-processor worklet)
+
+import { NetworkIcon as VoiceNetwork } from "lucide-react"
+import { createWorkletNode, getWorkletParam, smoothParam } from "../audio-worklets"
+import { getStftLatency } from "../fft"
+import { disconnectNodes } from "./nodes"
+import { type EffectNodes, defineEffect } from "./types"
+
+// FFT size of the worklet's STFT, which sets its latency
+export const FORMANT_SHIFT_FFT_SIZE = 1024
+
+type FormantShiftParams = {
+  shift: number // -2 to 2 (lower to higher formants)
+}
+
+interface FormantShiftNodes extends EffectNodes {
+  input: AudioWorkletNode
+  output: AudioWorkletNode
+  shift: AudioParam
+}
+
+export const formantShiftEffect = defineEffect<FormantShiftParams, FormantShiftNodes>({
+  type: "formantShift",
+  name: "Formant Shift",
+  icon: VoiceNetwork,
+  params: {
+    shift: {
+      kind: "number",
+      label: "Shift",
+      default: 0,
+      min: -2,
+      max: 2,
+      step: 0.1,
+      format: (value) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`,
+      marks: ["Deeper", "Normal", "Higher"],
+    },
+  },
+
+  create: async (audioContext, params) => {
+    const node = await createWorkletNode(audioContext, "formant-shift-processor", {
+      parameterData: { shift: params.shift },
+      processorOptions: { fftSize: FORMANT_SHIFT_FFT_SIZE },
+    })
+    if (!node) return null
+
+    return { input: node, output: node, shift: getWorkletParam(node, "formant-shift-processor", "shift") }
+  },
+
+  update: (nodes, params) => smoothParam(nodes.shift, params.shift, nodes.input.context),
+
+  dispose: (nodes) => disconnectNodes(nodes.input),
+
+  automation: {
+    shift: (nodes) => [{ param: nodes.shift }],
+  },
+
+  latency: getStftLatency(FORMANT_SHIFT_FFT_SIZE),
+})
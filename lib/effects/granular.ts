@@ -0,0 +1,66 @@
+// Granular synthesis: overlapping grains replayed from a short buffer (granular-processor worklet)
+
+import { Sparkles } from "lucide-react"
+import { createWorkletNode, getWorkletParam, smoothParam } from "../audio-worklets"
+import { disconnectNodes } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type GranularParams = {
+  grainSize: number // 0.01 to 0.5 seconds
+  scatter: number // 0 to 1.0
+  density: number // 0 to 1.0
+  stereoLink: boolean // share grain positions across channels
+}
+
+interface GranularNodes extends EffectNodes {
+  input: AudioWorkletNode
+  output: AudioWorkletNode
+  grainSize: AudioParam
+  scatter: AudioParam
+  density: AudioParam
+}
+
+export const granularEffect = defineEffect<GranularParams, GranularNodes>({
+  type: "granular",
+  name: "Granular Synthesis",
+  icon: Sparkles,
+  params: {
+    grainSize: { kind: "number", label: "Grain Size", default: 0.1, min: 0.01, max: 0.5, step: 0.01, unit: "s" },
+    scatter: { kind: "number", label: "Scatter", default: 0.2, min: 0, max: 1, step: 0.01, format: formatPercent },
+    density: { kind: "number", label: "Density", default: 0.8, min: 0, max: 1, step: 0.01, format: formatPercent },
+    stereoLink: { kind: "boolean", label: "Stereo Link", default: true },
+  },
+
+  create: async (audioContext, params) => {
+    const node = await createWorkletNode(audioContext, "granular-processor", {
+      processorOptions: { linked: params.stereoLink },
+      parameterData: { grainSize: params.grainSize, scatter: params.scatter, density: params.density },
+    })
+    if (!node) return null
+
+    return {
+      input: node,
+      output: node,
+      grainSize: getWorkletParam(node, "granular-processor", "grainSize"),
+      scatter: getWorkletParam(node, "granular-processor", "scatter"),
+      density: getWorkletParam(node, "granular-processor", "density"),
+    }
+  },
+
+  update: (nodes, params) => {
+    const audioContext = nodes.input.context
+    smoothParam(nodes.grainSize, params.grainSize, audioContext)
+    smoothParam(nodes.scatter, params.scatter, audioContext)
+    smoothParam(nodes.density, params.density, audioContext)
+    // The stereo link isn't numeric, so it goes through the port
+    nodes.input.port.postMessage({ linked: params.stereoLink })
+  },
+
+  dispose: (nodes) => disconnectNodes(nodes.input),
+
+  automation: {
+    grainSize: (nodes) => [{ param: nodes.grainSize }],
+    scatter: (nodes) => [{ param: nodes.scatter }],
+    density: (nodes) => [{ param: nodes.density }],
+  },
+})
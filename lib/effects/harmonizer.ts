@@ -0,0 +1,333 @@
+// Harmonizer: up to four pitch-shifted copies of the voice (pitch-shifter-processor
+// worklets) mixed with the dry signal. Voices sit a fixed number of semitones away,
+// or a number of scale steps from the sung note (harmony-tracker-processor worklet).
+// The shifters add their latency (2048 samples, about 45 ms) on top of each voice's delay.
+
+import { Users2 } from "lucide-react"
+import { formatPan, pitchShiftQualitySettings } from "../audio-effects"
+import { createWorkletNode, getWorkletParam, smoothParam } from "../audio-worklets"
+import { noteNames } from "./auto-tune"
+import { disconnectNodes } from "./nodes"
+import {
+  type ChoiceParamDescriptor,
+  type EffectNodes,
+  type EffectParams,
+  type NumberParamDescriptor,
+  defineEffect,
+  formatPercent,
+} from "./types"
+
+type HarmonyMode = "fixed" | "scale"
+type HarmonyScale = "major" | "minor"
+
+const MAX_VOICES = 4
+type VoiceIndex = 1 | 2 | 3 | 4
+
+type HarmonyVoiceParams<I extends VoiceIndex> = {
+  [K in `voice${I}${"Semitones" | "Degree" | "Level" | "Pan" | "Detune" | "Delay"}`]: number
+}
+
+// Per voice: semitones (-12 to 12, fixed mode), degree (scale steps, scale mode),
+// level (0 to 1.0), pan (-1 to 1), detune (-50 to 50 cents) and delay (0 to 0.25 seconds)
+type HarmonizerParams = {
+  voices: number // 1 to 4
+  mode: HarmonyMode
+  key: number // root note, 0 (C) to 11 (B)
+  scale: HarmonyScale
+} & HarmonyVoiceParams<1> &
+  HarmonyVoiceParams<2> &
+  HarmonyVoiceParams<3> &
+  HarmonyVoiceParams<4>
+
+interface HarmonyVoiceNodes {
+  shifter: AudioWorkletNode
+  pitchRatio: AudioParam
+  delay: DelayNode
+  level: GainNode
+  panner: StereoPannerNode
+}
+
+interface HarmonizerNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  voiceInput: GainNode // mono mix of the input the voices are made from
+  tracker: AudioWorkletNode
+  trackerOutputs: ChannelSplitterNode
+  voices: HarmonyVoiceNodes[]
+  // Voices fed from voiceInput, and whether the tracker drives their ratios
+  connectedVoices: number
+  tracking: boolean
+}
+
+// Scale steps offered for voices in scale mode
+const degreeOptions = [
+  { value: -7, label: "Octave below" },
+  { value: -4, label: "Fifth below" },
+  { value: -2, label: "Third below" },
+  { value: 2, label: "Third above" },
+  { value: 3, label: "Fourth above" },
+  { value: 4, label: "Fifth above" },
+  { value: 5, label: "Sixth above" },
+  { value: 7, label: "Octave above" },
+]
+
+interface VoiceDefaults {
+  semitones: number
+  degree: number
+  pan: number
+  detune: number
+  delay: number
+}
+
+// Controls of one voice, shown while the voice is in use
+const createVoiceParams = <I extends VoiceIndex>(
+  index: I,
+  defaults: VoiceDefaults,
+): { [K in keyof HarmonyVoiceParams<I>]: NumberParamDescriptor | ChoiceParamDescriptor<number> } => {
+  const used = (params: EffectParams) => (params.voices as number) >= index
+  const descriptors: Record<string, NumberParamDescriptor | ChoiceParamDescriptor<number>> = {
+    [`voice${index}Semitones`]: {
+      kind: "number",
+      label: `Voice ${index} Interval`,
+      default: defaults.semitones,
+      min: -12,
+      max: 12,
+      step: 1,
+      unit: " st",
+      visible: (params) => used(params) && params.mode === "fixed",
+    },
+    [`voice${index}Degree`]: {
+      kind: "choice",
+      label: `Voice ${index} Interval`,
+      default: defaults.degree,
+      options: degreeOptions,
+      control: "select",
+      visible: (params) => used(params) && params.mode === "scale",
+    },
+    [`voice${index}Level`]: {
+      kind: "number",
+      label: `Voice ${index} Level`,
+      default: 0.7,
+      min: 0,
+      max: 1,
+      step: 0.01,
+      format: formatPercent,
+      visible: used,
+    },
+    [`voice${index}Pan`]: {
+      kind: "number",
+      label: `Voice ${index} Pan`,
+      default: defaults.pan,
+      min: -1,
+      max: 1,
+      step: 0.01,
+      format: formatPan,
+      visible: used,
+    },
+    [`voice${index}Detune`]: {
+      kind: "number",
+      label: `Voice ${index} Detune`,
+      default: defaults.detune,
+      min: -50,
+      max: 50,
+      step: 1,
+      unit: " ct",
+      visible: used,
+    },
+    [`voice${index}Delay`]: {
+      kind: "number",
+      label: `Voice ${index} Delay`,
+      default: defaults.delay,
+      min: 0,
+      max: 0.25,
+      step: 0.005,
+      format: (value) => `${Math.round(value * 1000)}ms`,
+      visible: used,
+    },
+  }
+  return descriptors as { [K in keyof HarmonyVoiceParams<I>]: NumberParamDescriptor | ChoiceParamDescriptor<number> }
+}
+
+const getVoice = (params: HarmonizerParams, index: VoiceIndex) => ({
+  semitones: params[`voice${index}Semitones`],
+  degree: params[`voice${index}Degree`],
+  level: params[`voice${index}Level`],
+  pan: params[`voice${index}Pan`],
+  detune: params[`voice${index}Detune`],
+  delay: params[`voice${index}Delay`],
+})
+
+const voiceIndexes: VoiceIndex[] = [1, 2, 3, 4]
+
+// Pitch ratio of a voice in fixed mode
+const getFixedRatio = (semitones: number, detune: number): number => Math.pow(2, (semitones + detune / 100) / 12)
+
+// The key, scale and intervals aren't AudioParams, so they go through the port
+const postTrackerParams = (tracker: AudioWorkletNode, params: HarmonizerParams) => {
+  tracker.port.postMessage({
+    active: params.mode === "scale",
+    key: params.key,
+    scale: params.scale,
+    voices: voiceIndexes.map((index) => {
+      const { degree, detune } = getVoice(params, index)
+      return { degree, detune }
+    }),
+  })
+}
+
+// Bring the voices' inputs and ratios in line with the params
+const applyVoices = (nodes: HarmonizerNodes, params: HarmonizerParams) => {
+  const audioContext = nodes.input.context
+  const voiceCount = Math.min(MAX_VOICES, Math.max(1, Math.round(params.voices)))
+  const tracking = params.mode === "scale"
+
+  // Unused voices get no input, so their shifters have nothing to process
+  nodes.voices.forEach((voice, i) => {
+    const wasConnected = i < nodes.connectedVoices
+    const connected = i < voiceCount
+    if (connected && !wasConnected) nodes.voiceInput.connect(voice.shifter)
+    if (!connected && wasConnected) nodes.voiceInput.disconnect(voice.shifter)
+
+    // In scale mode the tracker's output is added to a ratio of 1
+    if (tracking && !nodes.tracking) nodes.trackerOutputs.connect(voice.pitchRatio, i)
+    if (!tracking && nodes.tracking) nodes.trackerOutputs.disconnect(voice.pitchRatio, i)
+
+    const { semitones, level, pan, detune, delay } = getVoice(params, voiceIndexes[i])
+    smoothParam(voice.pitchRatio, tracking ? 1 : getFixedRatio(semitones, detune), audioContext)
+    smoothParam(voice.delay.delayTime, delay, audioContext)
+    smoothParam(voice.level.gain, level, audioContext)
+    smoothParam(voice.panner.pan, pan, audioContext)
+  })
+
+  nodes.connectedVoices = voiceCount
+  nodes.tracking = tracking
+  postTrackerParams(nodes.tracker, params)
+}
+
+export const harmonizerEffect = defineEffect<HarmonizerParams, HarmonizerNodes>({
+  type: "harmonizer",
+  name: "Harmonizer",
+  icon: Users2,
+  params: {
+    voices: {
+      kind: "choice",
+      label: "Voices",
+      default: 2,
+      options: voiceIndexes.map((index) => ({ value: index, label: String(index) })),
+    },
+    mode: {
+      kind: "choice",
+      label: "Intervals",
+      default: "scale",
+      options: [
+        { value: "scale", label: "In key" },
+        { value: "fixed", label: "Fixed" },
+      ],
+    },
+    key: {
+      kind: "choice",
+      label: "Key",
+      default: 0,
+      options: noteNames.map((name, index) => ({ value: index, label: name })),
+      control: "select",
+      visible: (params) => params.mode === "scale",
+    },
+    scale: {
+      kind: "choice",
+      label: "Scale",
+      default: "major",
+      options: [
+        { value: "major", label: "Major" },
+        { value: "minor", label: "Minor" },
+      ],
+      visible: (params) => params.mode === "scale",
+    },
+    ...createVoiceParams(1, { semitones: 4, degree: 2, pan: -0.5, detune: -6, delay: 0.015 }),
+    ...createVoiceParams(2, { semitones: 7, degree: 4, pan: 0.5, detune: 6, delay: 0.03 }),
+    ...createVoiceParams(3, { semitones: -12, degree: -7, pan: -0.25, detune: 4, delay: 0.02 }),
+    ...createVoiceParams(4, { semitones: 12, degree: 7, pan: 0.25, detune: -4, delay: 0.04 }),
+  },
+
+  create: async (audioContext, params) => {
+    const tracker = await createWorkletNode(audioContext, "harmony-tracker-processor", {
+      outputChannelCount: [MAX_VOICES],
+    })
+    if (!tracker) return null
+
+    const shifters = await Promise.all(
+      voiceIndexes.map(() =>
+        createWorkletNode(audioContext, "pitch-shifter-processor", {
+          processorOptions: pitchShiftQualitySettings.medium,
+        }),
+      ),
+    )
+    if (shifters.some((shifter) => !shifter)) return null
+
+    const input = audioContext.createGain()
+    const output = audioContext.createGain()
+
+    const voiceInput = audioContext.createGain()
+    voiceInput.channelCount = 1
+    voiceInput.channelCountMode = "explicit"
+
+    const trackerOutputs = audioContext.createChannelSplitter(MAX_VOICES)
+
+    // Connect
+    input.connect(output)
+    input.connect(voiceInput)
+    voiceInput.connect(tracker)
+    tracker.connect(trackerOutputs)
+
+    const voices = (shifters as AudioWorkletNode[]).map((shifter) => {
+      const delay = audioContext.createDelay(1)
+      const level = audioContext.createGain()
+      const panner = audioContext.createStereoPanner()
+      shifter.connect(delay)
+      delay.connect(level)
+      level.connect(panner)
+      panner.connect(output)
+      return {
+        shifter,
+        pitchRatio: getWorkletParam(shifter, "pitch-shifter-processor", "pitchRatio"),
+        delay,
+        level,
+        panner,
+      }
+    })
+
+    const nodes = {
+      input,
+      output,
+      voiceInput,
+      tracker,
+      trackerOutputs,
+      voices,
+      connectedVoices: 0,
+      tracking: false,
+    }
+    applyVoices(nodes, params)
+    return nodes
+  },
+
+  update: applyVoices,
+
+  dispose: (nodes) => {
+    for (const voice of nodes.voices) {
+      disconnectNodes(voice.shifter, voice.delay, voice.level, voice.panner)
+    }
+    disconnectNodes(nodes.input, nodes.voiceInput, nodes.tracker, nodes.trackerOutputs, nodes.output)
+  },
+
+  automation: {
+    voice1Level: (nodes) => [{ param: nodes.voices[0].level.gain }],
+    voice1Pan: (nodes) => [{ param: nodes.voices[0].panner.pan }],
+    voice2Level: (nodes) => [{ param: nodes.voices[1].level.gain }],
+    voice2Pan: (nodes) => [{ param: nodes.voices[1].panner.pan }],
+    voice3Level: (nodes) => [{ param: nodes.voices[2].level.gain }],
+    voice3Pan: (nodes) => [{ param: nodes.voices[2].panner.pan }],
+    voice4Level: (nodes) => [{ param: nodes.voices[3].level.gain }],
+    voice4Pan: (nodes) => [{ param: nodes.voices[3].panner.pan }],
+  },
+
+  stereoOutput: true,
+})
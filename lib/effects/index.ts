@@ -0,0 +1,58 @@
+// Registry of advanced effect types.
+// To add an effect, write its definition in a file next to these (see echo.ts)
+// and add it to builtInEffects, or call registerEffect from anywhere.
+
+import { autoTuneEffect } from "./auto-tune"
+import { chorusEffect } from "./chorus"
+import { compressionEffect } from "./compression"
+import { distortionEffect } from "./distortion"
+import { echoEffect } from "./echo"
+import { flangerEffect } from "./flanger"
+import { formantShiftEffect } from "./formant-shift"
+import { granularEffect } from "./granular"
+import { harmonizerEffect } from "./harmonizer"
+import { noiseReductionEffect } from "./noise-reduction"
+import { phaserEffect } from "./phaser"
+import { ringModulatorEffect } from "./ring-modulator"
+import { timeStretchEffect } from "./time-stretch"
+import { vocoderEffect } from "./vocoder"
+import type { EffectDefinition, EffectParams } from "./types"
+
+export * from "./types"
+
+// In the order they are offered in the panel
+const builtInEffects: EffectDefinition[] = [
+  echoEffect,
+  distortionEffect,
+  chorusEffect,
+  flangerEffect,
+  phaserEffect,
+  ringModulatorEffect,
+  autoTuneEffect,
+  harmonizerEffect,
+  formantShiftEffect,
+  vocoderEffect,
+  timeStretchEffect,
+  compressionEffect,
+  noiseReductionEffect,
+  granularEffect,
+]
+
+const effectRegistry = new Map<string, EffectDefinition>()
+
+// Add an effect type (replaces any effect registered with the same type)
+export const registerEffect = (definition: EffectDefinition): void => {
+  effectRegistry.set(definition.type, definition)
+}
+
+builtInEffects.forEach(registerEffect)
+
+export const getEffectDefinition = (type: string): EffectDefinition | undefined => effectRegistry.get(type)
+
+export const getEffectDefinitions = (): EffectDefinition[] => Array.from(effectRegistry.values())
+
+// Parameter values of a new effect, from the descriptors' defaults
+export const getDefaultEffectParams = (definition: EffectDefinition): EffectParams =>
+  Object.fromEntries(
+    Object.entries(definition.params).map(([name, descriptor]) => [name, structuredClone(descriptor.default)]),
+  )
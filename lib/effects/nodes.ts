@@ -0,0 +1,117 @@
+// Node helpers shared by the built-in effects
+
+import type { AutomationTarget } from "../automation"
+
+export type OversampleType = "2x" | "4x" | "none"
+
+// Create a delay node for echo effect
+export const createDelayNode = (
+  audioContext: BaseAudioContext,
+  delayTime: number,
+  feedback: number,
+): { delayNode: DelayNode; feedbackGain: GainNode } => {
+  const delayNode = audioContext.createDelay(2.0) // Max 2 seconds delay
+  delayNode.delayTime.value = delayTime
+
+  const feedbackGain = audioContext.createGain()
+  feedbackGain.gain.value = feedback
+
+  // Connect delay to feedback loop
+  delayNode.connect(feedbackGain)
+  feedbackGain.connect(delayNode)
+
+  return { delayNode, feedbackGain }
+}
+
+// Waveshaper curve for the distortion amount (0 to 100)
+export const createDistortionCurve = (amount: number): Float32Array => {
+  const k = amount >= 100 ? 99.9 : amount // Prevent infinity
+  const deg = Math.PI / 180
+  const samples = 44100
+  const curve = new Float32Array(samples)
+
+  for (let i = 0; i < samples; ++i) {
+    const x = (i * 2) / samples - 1
+    curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
+  }
+
+  return curve
+}
+
+// Create a waveshaper node for distortion effect
+export const createDistortionNode = (
+  audioContext: BaseAudioContext,
+  amount: number,
+  oversample: OversampleType = "4x",
+): WaveShaperNode => {
+  const distortion = audioContext.createWaveShaper()
+  distortion.oversample = oversample
+  distortion.curve = createDistortionCurve(amount)
+  return distortion
+}
+
+// Create oscillator and gain nodes for chorus/flanger effects
+export const createModulationNodes = (
+  audioContext: BaseAudioContext,
+  rate: number,
+  depth: number,
+): { oscillator: OscillatorNode; modulationGain: GainNode } => {
+  const oscillator = audioContext.createOscillator()
+  oscillator.type = "sine"
+  oscillator.frequency.value = rate
+
+  const modulationGain = audioContext.createGain()
+  modulationGain.gain.value = depth
+
+  oscillator.connect(modulationGain)
+  oscillator.start()
+
+  return { oscillator, modulationGain }
+}
+
+// Create a compressor node
+export const createCompressorNode = (
+  audioContext: BaseAudioContext,
+  threshold: number,
+  ratio: number,
+  attack: number,
+  release: number,
+): DynamicsCompressorNode => {
+  const compressor = audioContext.createDynamicsCompressor()
+  compressor.threshold.value = threshold
+  compressor.ratio.value = ratio
+  compressor.attack.value = attack
+  compressor.release.value = release
+  return compressor
+}
+
+// Create a biquad filter for phaser effect
+export const createPhaserFilters = (audioContext: BaseAudioContext, stages: number): BiquadFilterNode[] => {
+  const filters: BiquadFilterNode[] = []
+
+  for (let i = 0; i < stages; i++) {
+    const filter = audioContext.createBiquadFilter()
+    filter.type = "allpass"
+    filter.frequency.value = 1000 // Will be modulated
+    filter.Q.value = 5
+    filters.push(filter)
+  }
+
+  return filters
+}
+
+// Automation targets of a wet/dry mix parameter
+export const getMixTargets = (mixGain: GainNode, dryGain: GainNode): AutomationTarget[] => [
+  { param: mixGain.gain },
+  { param: dryGain.gain, map: (mix) => 1 - mix },
+]
+
+// Stop and disconnect an effect's nodes (oscillators are stopped first)
+export const disconnectNodes = (...nodes: AudioNode[]): void => {
+  for (const node of nodes) {
+    if (node instanceof OscillatorNode) {
+      node.stop()
+    }
+    node.disconnect()
+  }
+}
@@ -0,0 +1,97 @@
+// Noise reduction: spectral Wiener filtering against a learned noise profile (noise-reduction-processor worklet)
+
+import { Eraser } from "lucide-react"
+import { createWorkletNode, getWorkletParam, smoothParam } from "../audio-worklets"
+import { NOISE_REDUCTION_LATENCY, defaultNoiseReductionSettings } from "../noise-reduction"
+import { disconnectNodes } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type NoiseReductionParams = {
+  profile: number[] // learned from the recording; nothing is removed until there is one
+  reduction: number // 0 to 40 dB
+  sensitivity: number // 0 to 1.0
+  smoothing: number // 0 to 1.0
+}
+
+interface NoiseReductionNodes extends EffectNodes {
+  input: AudioWorkletNode
+  output: AudioWorkletNode
+  profile: number[] // the profile the processor has
+  reduction: AudioParam
+  sensitivity: AudioParam
+  smoothing: AudioParam
+}
+
+export const noiseReductionEffect = defineEffect<NoiseReductionParams, NoiseReductionNodes>({
+  type: "noiseReduction",
+  name: "Noise Reduction",
+  icon: Eraser,
+  params: {
+    profile: { kind: "noiseProfile", label: "Noise Profile", default: [] },
+    reduction: {
+      kind: "number",
+      label: "Reduction",
+      default: defaultNoiseReductionSettings.reduction,
+      min: 0,
+      max: 40,
+      step: 1,
+      unit: " dB",
+    },
+    sensitivity: {
+      kind: "number",
+      label: "Sensitivity",
+      default: defaultNoiseReductionSettings.sensitivity,
+      min: 0,
+      max: 1,
+      step: 0.01,
+      format: formatPercent,
+    },
+    smoothing: {
+      kind: "number",
+      label: "Smoothing",
+      default: defaultNoiseReductionSettings.smoothing,
+      min: 0,
+      max: 0.95,
+      step: 0.01,
+      format: formatPercent,
+    },
+  },
+
+  create: async (audioContext, params) => {
+    const node = await createWorkletNode(audioContext, "noise-reduction-processor", {
+      processorOptions: { profile: params.profile },
+      parameterData: { reduction: params.reduction, sensitivity: params.sensitivity, smoothing: params.smoothing },
+    })
+    if (!node) return null
+
+    return {
+      input: node,
+      output: node,
+      profile: params.profile,
+      reduction: getWorkletParam(node, "noise-reduction-processor", "reduction"),
+      sensitivity: getWorkletParam(node, "noise-reduction-processor", "sensitivity"),
+      smoothing: getWorkletParam(node, "noise-reduction-processor", "smoothing"),
+    }
+  },
+
+  update: (nodes, params) => {
+    const audioContext = nodes.input.context
+    smoothParam(nodes.reduction, params.reduction, audioContext)
+    smoothParam(nodes.sensitivity, params.sensitivity, audioContext)
+    smoothParam(nodes.smoothing, params.smoothing, audioContext)
+    // The profile isn't numeric, so it goes through the port (only when relearned)
+    if (params.profile !== nodes.profile) {
+      nodes.input.port.postMessage({ profile: params.profile })
+      nodes.profile = params.profile
+    }
+  },
+
+  dispose: (nodes) => disconnectNodes(nodes.input),
+
+  automation: {
+    reduction: (nodes) => [{ param: nodes.reduction }],
+    sensitivity: (nodes) => [{ param: nodes.sensitivity }],
+  },
+
+  latency: NOISE_REDUCTION_LATENCY,
+})
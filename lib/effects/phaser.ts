@@ -0,0 +1,105 @@
+// Phaser: a chain of modulated all-pass filters with feedback, mixed 50/50 with the dry signal
+
+import { Waves } from "lucide-react"
+import { createModulationNodes, createPhaserFilters, disconnectNodes } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type PhaserParams = {
+  rate: number // 0.1 to 8 Hz
+  depth: number // 0 to 1.0
+  feedback: number // 0 to 0.9
+  stages: number // 2 to 12
+}
+
+interface PhaserNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  filters: BiquadFilterNode[]
+  oscillator: OscillatorNode
+  modulationGain: GainNode
+  feedbackGain: GainNode
+  mixGain: GainNode
+  dryGain: GainNode
+}
+
+export const phaserEffect = defineEffect<PhaserParams, PhaserNodes>({
+  type: "phaser",
+  name: "Phaser",
+  icon: Waves,
+  params: {
+    rate: { kind: "number", label: "Rate", default: 0.5, min: 0.1, max: 8, step: 0.1, unit: " Hz" },
+    depth: { kind: "number", label: "Depth", default: 0.5, min: 0, max: 1, step: 0.01, format: formatPercent },
+    feedback: { kind: "number", label: "Feedback", default: 0.5, min: 0, max: 0.9, step: 0.01, format: formatPercent },
+    stages: { kind: "number", label: "Stages", default: 6, min: 2, max: 12, step: 2 },
+  },
+
+  create: (audioContext, params) => {
+    const input = audioContext.createGain()
+    const filters = createPhaserFilters(audioContext, params.stages)
+
+    const { oscillator, modulationGain } = createModulationNodes(
+      audioContext,
+      params.rate,
+      2000 * params.depth, // Scale depth to frequency range
+    )
+
+    const feedbackGain = audioContext.createGain()
+    feedbackGain.gain.value = params.feedback
+
+    // Connect filters in series
+    let filterChain: AudioNode = input
+    for (const filter of filters) {
+      filterChain.connect(filter)
+      filterChain = filter
+
+      // Connect modulation to each filter
+      modulationGain.connect(filter.frequency)
+    }
+
+    // Connect feedback
+    filterChain.connect(feedbackGain)
+    feedbackGain.connect(filters[0])
+
+    const dryGain = audioContext.createGain()
+    dryGain.gain.value = 0.5 // Fixed mix
+
+    const wetGain = audioContext.createGain()
+    wetGain.gain.value = 0.5
+
+    // Connect
+    input.connect(dryGain)
+    filterChain.connect(wetGain)
+
+    // Merge dry and wet
+    const output = audioContext.createGain()
+    dryGain.connect(output)
+    wetGain.connect(output)
+
+    return { input, output, filters, oscillator, modulationGain, feedbackGain, mixGain: wetGain, dryGain }
+  },
+
+  // The number of stages is fixed once the filters exist
+  update: (nodes, params) => {
+    nodes.oscillator.frequency.value = params.rate
+    nodes.modulationGain.gain.value = 2000 * params.depth
+    nodes.feedbackGain.gain.value = params.feedback
+  },
+
+  dispose: (nodes) =>
+    disconnectNodes(
+      nodes.oscillator,
+      nodes.modulationGain,
+      nodes.input,
+      ...nodes.filters,
+      nodes.feedbackGain,
+      nodes.mixGain,
+      nodes.dryGain,
+      nodes.output,
+    ),
+
+  automation: {
+    rate: (nodes) => [{ param: nodes.oscillator.frequency }],
+    depth: (nodes) => [{ param: nodes.modulationGain.gain, map: (depth) => 2000 * depth }],
+    feedback: (nodes) => [{ param: nodes.feedbackGain.gain }],
+  },
+})
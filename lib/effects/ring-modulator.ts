@@ -0,0 +1,98 @@
+// Ring modulator: the signal multiplied by a carrier oscillator, mixed with the dry signal.
+// Low carriers give a tremolo-like flutter, higher ones a metallic, robotic voice.
+
+import { Radio } from "lucide-react"
+import { disconnectNodes, getMixTargets } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type RingModulatorParams = {
+  frequency: number // 1 to 2000 Hz
+  waveform: OscillatorType
+  mix: number // 0 to 1.0
+}
+
+interface RingModulatorNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  carrier: OscillatorNode
+  ringGain: GainNode // its gain is driven by the carrier alone
+  mixGain: GainNode
+  dryGain: GainNode
+}
+
+export const ringModulatorEffect = defineEffect<RingModulatorParams, RingModulatorNodes>({
+  type: "ringModulator",
+  name: "Ring Modulator",
+  icon: Radio,
+  params: {
+    frequency: {
+      kind: "number",
+      label: "Carrier",
+      default: 30,
+      min: 1,
+      max: 2000,
+      step: 1,
+      unit: " Hz",
+      scale: "log",
+    },
+    waveform: {
+      kind: "choice",
+      label: "Waveform",
+      default: "sine",
+      options: [
+        { value: "sine", label: "Sine" },
+        { value: "triangle", label: "Triangle" },
+        { value: "square", label: "Square" },
+        { value: "sawtooth", label: "Saw" },
+      ],
+    },
+    mix: { kind: "number", label: "Mix", default: 1, min: 0, max: 1, step: 0.01, format: formatPercent },
+  },
+
+  create: (audioContext, params) => {
+    const input = audioContext.createGain()
+
+    const carrier = audioContext.createOscillator()
+    carrier.type = params.waveform
+    carrier.frequency.value = params.frequency
+
+    // The carrier adds to a gain of 0, so the gain follows it exactly
+    const ringGain = audioContext.createGain()
+    ringGain.gain.value = 0
+    carrier.connect(ringGain.gain)
+    carrier.start()
+
+    const dryGain = audioContext.createGain()
+    dryGain.gain.value = 1 - params.mix
+
+    const wetGain = audioContext.createGain()
+    wetGain.gain.value = params.mix
+
+    // Connect
+    input.connect(dryGain)
+    input.connect(ringGain)
+    ringGain.connect(wetGain)
+
+    // Merge dry and wet
+    const output = audioContext.createGain()
+    dryGain.connect(output)
+    wetGain.connect(output)
+
+    return { input, output, carrier, ringGain, mixGain: wetGain, dryGain }
+  },
+
+  update: (nodes, params) => {
+    nodes.carrier.type = params.waveform
+    nodes.carrier.frequency.value = params.frequency
+    nodes.mixGain.gain.value = params.mix
+    nodes.dryGain.gain.value = 1 - params.mix
+  },
+
+  dispose: (nodes) =>
+    disconnectNodes(nodes.carrier, nodes.input, nodes.ringGain, nodes.mixGain, nodes.dryGain, nodes.output),
+
+  automation: {
+    frequency: (nodes) => [{ param: nodes.carrier.frequency }],
+    mix: (nodes) => getMixTargets(nodes.mixGain, nodes.dryGain),
+  },
+})
@@ -0,0 +1,32 @@
+// Time stretch: changes the tempo without changing the pitch. It has no nodes;
+// the player and the export apply it as a tempo change (see lib/time-stretch.ts).
+
+import { Timer } from "lucide-react"
+import { type EffectNodes, defineEffect } from "./types"
+
+type TimeStretchParams = {
+  rate: number // 0.5 to 2.0
+}
+
+export const timeStretchEffect = defineEffect<TimeStretchParams, EffectNodes>({
+  type: "timeStretch",
+  name: "Time Stretch",
+  icon: Timer,
+  params: {
+    rate: {
+      kind: "number",
+      label: "Rate",
+      default: 1.0,
+      min: 0.5,
+      max: 2.0,
+      step: 0.1,
+      unit: "x",
+      marks: ["Slower", "Normal", "Faster"],
+    },
+  },
+
+  create: () => null,
+  update: () => {},
+  dispose: () => {},
+  getTempoFactor: (params) => params.rate,
+})
@@ -0,0 +1,110 @@
+// Types for advanced effect plugins: parameter descriptors and effect definitions
+
+import type { LucideIcon } from "lucide-react"
+import type { AutomationTarget } from "../automation"
+
+export type EffectParamValue = number | boolean | string | number[]
+
+// Parameter values of one effect instance, keyed by parameter name
+export type EffectParams = Record<string, EffectParamValue>
+
+interface EffectParamDescriptorBase {
+  label: string
+  // Hide the control unless this returns true (e.g. options of another choice)
+  visible?: (params: EffectParams) => boolean
+}
+
+// Slider. Values are shown with the step's precision plus `unit`, unless `format` is given.
+export interface NumberParamDescriptor extends EffectParamDescriptorBase {
+  kind: "number"
+  default: number
+  min: number
+  max: number
+  step: number
+  unit?: string
+  // "log" spaces the slider logarithmically (min must be above 0)
+  scale?: "linear" | "log"
+  format?: (value: number) => string
+  // Captions spread under the slider, e.g. ["Slower", "Normal", "Faster"]
+  marks?: string[]
+}
+
+export interface BooleanParamDescriptor extends EffectParamDescriptorBase {
+  kind: "boolean"
+  default: boolean
+}
+
+// Radio buttons (default) or a select for a fixed set of values
+export interface ChoiceParamDescriptor<V extends string | number = string | number> extends EffectParamDescriptorBase {
+  kind: "choice"
+  default: V
+  options: Array<{ value: V; label: string }>
+  control?: "radio" | "select"
+}
+
+// Set of semitone offsets (0 to 11), shown as note buttons relative to the root note param
+export interface NoteSetParamDescriptor extends EffectParamDescriptorBase {
+  kind: "notes"
+  default: number[]
+  rootParam?: string
+}
+
+// Noise spectrum learned from the recording (see lib/noise-reduction.ts), empty until learned
+export interface NoiseProfileParamDescriptor extends EffectParamDescriptorBase {
+  kind: "noiseProfile"
+  default: number[]
+}
+
+export type EffectParamDescriptor =
+  | NumberParamDescriptor
+  | BooleanParamDescriptor
+  | ChoiceParamDescriptor
+  | NoteSetParamDescriptor
+  | NoiseProfileParamDescriptor
+
+// Descriptor kinds that fit a parameter of type V (any kind for untyped params)
+type EffectParamDescriptorFor<V> = [EffectParamValue] extends [V]
+  ? EffectParamDescriptor
+  : [V] extends [boolean]
+    ? BooleanParamDescriptor
+    : [V] extends [number[]]
+      ? NoteSetParamDescriptor | NoiseProfileParamDescriptor
+      : [V] extends [number]
+        ? NumberParamDescriptor | ChoiceParamDescriptor<V>
+        : [V] extends [string]
+          ? ChoiceParamDescriptor<V>
+          : never
+
+// Nodes built for one effect instance; the chain connects to `input` and from `output`
+export interface EffectNodes {
+  input: AudioNode
+  output: AudioNode
+}
+
+export interface EffectDefinition<P extends EffectParams = EffectParams, N extends EffectNodes = EffectNodes> {
+  type: string
+  name: string
+  icon: LucideIcon
+  // Controls are shown in declaration order
+  params: { [K in keyof P]: EffectParamDescriptorFor<P[K]> }
+  // Build the nodes, or return null if the effect can't run in this context
+  create: (audioContext: BaseAudioContext, params: P) => Promise<N | null> | N | null
+  update: (nodes: N, params: P) => void
+  dispose: (nodes: N) => void
+  // AudioParams driven by each parameter that can be automated (see lib/automation.ts)
+  automation?: { [K in keyof P]?: (nodes: N) => AutomationTarget[] }
+  // Effects that change the tempo instead of processing the signal (see time-stretch.ts).
+  // They get no nodes in the graph.
+  getTempoFactor?: (params: P) => number
+  // Set when the output is stereo even for a mono input, e.g. panned voices (see harmonizer.ts)
+  stereoOutput?: boolean
+  // Samples the output lags the input (see noise-reduction.ts); export trims it off
+  latency?: number
+}
+
+// Check a definition against its own parameter and node types, then store it untyped
+export const defineEffect = <P extends EffectParams, N extends EffectNodes>(
+  definition: EffectDefinition<P, N>,
+): EffectDefinition => definition as unknown as EffectDefinition
+
+export const formatPercent = (value: number): string => `${Math.round(value * 100)}%`
@@ -0,0 +1,337 @@
+// Vocoder: a channel vocoder with the voice as modulator and an internal synth as carrier.
+// Each band follows the voice's level through a bandpass, rectifier and lowpass, and
+// sets the gain of the same band of the carrier; the bands are summed into the output.
+
+import { AudioWaveform } from "lucide-react"
+import { noteNames } from "./auto-tune"
+import { disconnectNodes, getMixTargets } from "./nodes"
+import { type EffectNodes, defineEffect, formatPercent } from "./types"
+
+type VocoderCarrier = "saw" | "pulse" | "noise"
+type VocoderChord = "note" | "major" | "minor" | "fifth"
+
+type VocoderParams = {
+  carrier: VocoderCarrier
+  chord: VocoderChord // notes played on top of the root (not used by noise)
+  note: number // MIDI root note of the carrier, 36 (C2) to 60 (C4)
+  bands: number // 8 to 24 bands between 120 Hz and 7 kHz
+  formantShift: number // -12 to 12 semitones the carrier's bands sit from the voice's
+  release: number // 0.01 to 0.5 seconds for a band to follow the voice's level
+  mix: number // 0 to 1.0
+}
+
+interface VocoderBand {
+  analysis: BiquadFilterNode
+  rectifier: WaveShaperNode
+  smoother: BiquadFilterNode
+  synthesis: BiquadFilterNode
+  vca: GainNode // its gain is driven by the band's level alone
+}
+
+interface VocoderNodes extends EffectNodes {
+  input: GainNode
+  output: GainNode
+  carrierGain: GainNode
+  // The carrier's oscillators or noise, and what they were built for
+  sources: AudioScheduledSourceNode[]
+  carrier: VocoderCarrier
+  chord: VocoderChord
+  bands: VocoderBand[]
+  makeupGain: GainNode
+  mixGain: GainNode
+  dryGain: GainNode
+}
+
+const chordIntervals: Record<VocoderChord, number[]> = {
+  note: [0],
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  fifth: [0, 7, 12],
+}
+
+const MIN_BAND_FREQUENCY = 120
+const MAX_BAND_FREQUENCY = 7000
+// Output level per square root of the band count: narrower bands pass less of both signals
+const MAKEUP_GAIN = 4
+// White noise has more energy in the upper bands than a saw, so it is turned down
+const NOISE_LEVEL = 0.5
+// Pulse carrier duty cycle; thinner than a square for a buzzier tone
+const PULSE_WIDTH = 0.25
+const PULSE_HARMONICS = 64
+
+const getNoteFrequency = (note: number): number => 440 * Math.pow(2, (note - 69) / 12)
+
+// Centre frequencies of the analysis bands, spaced evenly in pitch
+const getBandFrequencies = (bands: number): number[] => {
+  const ratio = Math.pow(MAX_BAND_FREQUENCY / MIN_BAND_FREQUENCY, 1 / (bands - 1))
+  return Array.from({ length: bands }, (_, band) => MIN_BAND_FREQUENCY * Math.pow(ratio, band))
+}
+
+// Q giving each band the width of the gap to its neighbours
+const getBandQ = (bands: number): number => {
+  const halfRatio = Math.sqrt(Math.pow(MAX_BAND_FREQUENCY / MIN_BAND_FREQUENCY, 1 / (bands - 1)))
+  return 1 / (halfRatio - 1 / halfRatio)
+}
+
+// Carrier band frequency, kept below Nyquist
+const getSynthesisFrequency = (audioContext: BaseAudioContext, frequency: number, formantShift: number): number =>
+  Math.min(frequency * Math.pow(2, formantShift / 12), audioContext.sampleRate * 0.45)
+
+// Cutoff of a band's level follower for the release time
+const getSmootherFrequency = (release: number): number => 1 / (2 * Math.PI * release)
+
+const createPulseWave = (audioContext: BaseAudioContext): PeriodicWave => {
+  const real = new Float32Array(PULSE_HARMONICS)
+  const imag = new Float32Array(PULSE_HARMONICS)
+  for (let n = 1; n < PULSE_HARMONICS; n++) {
+    real[n] = (2 / (n * Math.PI)) * Math.sin(n * Math.PI * PULSE_WIDTH)
+  }
+  return audioContext.createPeriodicWave(real, imag)
+}
+
+// Start the carrier's sources into carrierGain
+const createCarrierSources = (
+  audioContext: BaseAudioContext,
+  carrierGain: GainNode,
+  params: VocoderParams,
+): AudioScheduledSourceNode[] => {
+  if (params.carrier === "noise") {
+    const buffer = audioContext.createBuffer(1, audioContext.sampleRate * 2, audioContext.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1
+    }
+
+    const noise = audioContext.createBufferSource()
+    noise.buffer = buffer
+    noise.loop = true
+    noise.connect(carrierGain)
+    noise.start()
+    carrierGain.gain.value = NOISE_LEVEL
+    return [noise]
+  }
+
+  const intervals = chordIntervals[params.chord]
+  const pulseWave = params.carrier === "pulse" ? createPulseWave(audioContext) : null
+  carrierGain.gain.value = 1 / Math.sqrt(intervals.length)
+
+  return intervals.map((interval) => {
+    const oscillator = audioContext.createOscillator()
+    if (pulseWave) {
+      oscillator.setPeriodicWave(pulseWave)
+    } else {
+      oscillator.type = "sawtooth"
+    }
+    oscillator.frequency.value = getNoteFrequency(params.note + interval)
+    oscillator.connect(carrierGain)
+    oscillator.start()
+    return oscillator
+  })
+}
+
+const disposeCarrierSources = (sources: AudioScheduledSourceNode[]) => {
+  for (const source of sources) {
+    source.stop()
+    source.disconnect()
+  }
+}
+
+// Build the bands between the voice, the carrier and the makeup gain
+const createBands = (
+  audioContext: BaseAudioContext,
+  input: AudioNode,
+  carrierGain: AudioNode,
+  makeupGain: AudioNode,
+  params: VocoderParams,
+): VocoderBand[] => {
+  const q = getBandQ(params.bands)
+  // |x|, so the lowpass after it gives the band's level
+  const rectifierCurve = new Float32Array([1, 0, 1])
+
+  return getBandFrequencies(params.bands).map((frequency) => {
+    const analysis = audioContext.createBiquadFilter()
+    analysis.type = "bandpass"
+    analysis.frequency.value = frequency
+    analysis.Q.value = q
+
+    const rectifier = audioContext.createWaveShaper()
+    rectifier.curve = rectifierCurve
+
+    const smoother = audioContext.createBiquadFilter()
+    smoother.type = "lowpass"
+    smoother.frequency.value = getSmootherFrequency(params.release)
+
+    const synthesis = audioContext.createBiquadFilter()
+    synthesis.type = "bandpass"
+    synthesis.frequency.value = getSynthesisFrequency(audioContext, frequency, params.formantShift)
+    synthesis.Q.value = q
+
+    const vca = audioContext.createGain()
+    vca.gain.value = 0
+
+    input.connect(analysis)
+    analysis.connect(rectifier)
+    rectifier.connect(smoother)
+    smoother.connect(vca.gain)
+
+    carrierGain.connect(synthesis)
+    synthesis.connect(vca)
+    vca.connect(makeupGain)
+
+    return { analysis, rectifier, smoother, synthesis, vca }
+  })
+}
+
+const disposeBands = (input: AudioNode, carrierGain: AudioNode, bands: VocoderBand[]) => {
+  for (const band of bands) {
+    input.disconnect(band.analysis)
+    carrierGain.disconnect(band.synthesis)
+    disconnectNodes(band.analysis, band.rectifier, band.smoother, band.synthesis, band.vca)
+  }
+}
+
+export const vocoderEffect = defineEffect<VocoderParams, VocoderNodes>({
+  type: "vocoder",
+  name: "Vocoder",
+  icon: AudioWaveform,
+  params: {
+    carrier: {
+      kind: "choice",
+      label: "Carrier",
+      default: "saw",
+      options: [
+        { value: "saw", label: "Saw" },
+        { value: "pulse", label: "Pulse" },
+        { value: "noise", label: "Noise" },
+      ],
+    },
+    chord: {
+      kind: "choice",
+      label: "Chord",
+      default: "note",
+      options: [
+        { value: "note", label: "Single note" },
+        { value: "major", label: "Major" },
+        { value: "minor", label: "Minor" },
+        { value: "fifth", label: "Power" },
+      ],
+      visible: (params) => params.carrier !== "noise",
+    },
+    note: {
+      kind: "choice",
+      label: "Note",
+      default: 45,
+      options: Array.from({ length: 25 }, (_, index) => ({
+        value: 36 + index,
+        label: `${noteNames[index % 12]}${2 + Math.floor(index / 12)}`,
+      })),
+      control: "select",
+      visible: (params) => params.carrier !== "noise",
+    },
+    bands: {
+      kind: "choice",
+      label: "Bands",
+      default: 16,
+      options: [
+        { value: 8, label: "8" },
+        { value: 12, label: "12" },
+        { value: 16, label: "16" },
+        { value: 24, label: "24" },
+      ],
+    },
+    formantShift: { kind: "number", label: "Formant Shift", default: 0, min: -12, max: 12, step: 1, unit: " st" },
+    release: {
+      kind: "number",
+      label: "Release",
+      default: 0.05,
+      min: 0.01,
+      max: 0.5,
+      step: 0.01,
+      format: (value) => `${Math.round(value * 1000)}ms`,
+    },
+    mix: { kind: "number", label: "Mix", default: 1, min: 0, max: 1, step: 0.01, format: formatPercent },
+  },
+
+  create: (audioContext, params) => {
+    const input = audioContext.createGain()
+    const carrierGain = audioContext.createGain()
+    const sources = createCarrierSources(audioContext, carrierGain, params)
+
+    const makeupGain = audioContext.createGain()
+    makeupGain.gain.value = MAKEUP_GAIN * Math.sqrt(params.bands)
+    const bands = createBands(audioContext, input, carrierGain, makeupGain, params)
+
+    const dryGain = audioContext.createGain()
+    dryGain.gain.value = 1 - params.mix
+
+    const wetGain = audioContext.createGain()
+    wetGain.gain.value = params.mix
+
+    // Connect
+    input.connect(dryGain)
+    makeupGain.connect(wetGain)
+
+    // Merge dry and wet
+    const output = audioContext.createGain()
+    dryGain.connect(output)
+    wetGain.connect(output)
+
+    return {
+      input,
+      output,
+      carrierGain,
+      sources,
+      carrier: params.carrier,
+      chord: params.chord,
+      bands,
+      makeupGain,
+      mixGain: wetGain,
+      dryGain,
+    }
+  },
+
+  update: (nodes, params) => {
+    const audioContext = nodes.input.context
+
+    // A new carrier or chord needs new sources; the note only retunes them
+    if (params.carrier !== nodes.carrier || params.chord !== nodes.chord) {
+      disposeCarrierSources(nodes.sources)
+      nodes.sources = createCarrierSources(audioContext, nodes.carrierGain, params)
+      nodes.carrier = params.carrier
+      nodes.chord = params.chord
+    } else if (params.carrier !== "noise") {
+      const intervals = chordIntervals[params.chord]
+      nodes.sources.forEach((source, i) => {
+        if (source instanceof OscillatorNode) {
+          source.frequency.value = getNoteFrequency(params.note + intervals[i])
+        }
+      })
+    }
+
+    // A new band count needs new bands; otherwise they follow the shift and release
+    if (params.bands !== nodes.bands.length) {
+      disposeBands(nodes.input, nodes.carrierGain, nodes.bands)
+      nodes.bands = createBands(audioContext, nodes.input, nodes.carrierGain, nodes.makeupGain, params)
+      nodes.makeupGain.gain.value = MAKEUP_GAIN * Math.sqrt(params.bands)
+    } else {
+      const frequencies = getBandFrequencies(params.bands)
+      nodes.bands.forEach((band, i) => {
+        band.synthesis.frequency.value = getSynthesisFrequency(audioContext, frequencies[i], params.formantShift)
+        band.smoother.frequency.value = getSmootherFrequency(params.release)
+      })
+    }
+
+    nodes.mixGain.gain.value = params.mix
+    nodes.dryGain.gain.value = 1 - params.mix
+  },
+
+  dispose: (nodes) => {
+    disposeCarrierSources(nodes.sources)
+    disposeBands(nodes.input, nodes.carrierGain, nodes.bands)
+    disconnectNodes(nodes.input, nodes.carrierGain, nodes.makeupGain, nodes.mixGain, nodes.dryGain, nodes.output)
+  },
+
+  automation: {
+    mix: (nodes) => getMixTargets(nodes.mixGain, nodes.dryGain),
+  },
+})
@@ -0,0 +1,213 @@
+// AAC-LC in an M4A (MP4) file, encoded by the browser's AudioEncoder, with iTunes-style tags
+
+import { resampleToRate } from "./resample"
+import { concatBytes, defineEncoder, type ExportTags, getChannels } from "./types"
+import { encodeWithWebCodecs, isAudioEncoderSupported } from "./webcodecs"
+
+type AacOptions = {
+  bitrate: number // kbps
+}
+
+const CODEC = "mp4a.40.2" // AAC-LC
+const FRAME_SIZE = 1024
+// Rates AAC encoders take everywhere; others are resampled to 48 kHz
+const SAMPLE_RATES = [44100, 48000]
+// Sampling frequency indexes of the AudioSpecificConfig
+const FREQUENCY_INDEXES: Record<number, number> = { 48000: 3, 44100: 4 }
+
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text)
+
+const uint = (value: number, bytes: number): number[] =>
+  Array.from({ length: bytes }, (_, i) => (value >>> (8 * (bytes - 1 - i))) & 0xff)
+
+// Box of a size, a four-character type ("©" of the iTunes tags is the single byte 0xa9) and a body
+const box = (type: string, ...parts: Array<Uint8Array | number[]>): Uint8Array => {
+  const body = concatBytes(parts.map((part) => (part instanceof Uint8Array ? part : Uint8Array.from(part))))
+  const typeBytes = Uint8Array.from(type, (char) => char.charCodeAt(0))
+  return concatBytes([Uint8Array.from(uint(8 + body.length, 4)), typeBytes, body])
+}
+
+// Box with a version and flags before its fields
+const fullBox = (type: string, version: number, flags: number, ...parts: Array<Uint8Array | number[]>): Uint8Array =>
+  box(type, [version, ...uint(flags, 3)], ...parts)
+
+// Identity transform of movie and track headers
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].flatMap((value) => uint(value, 4))
+
+// MPEG-4 descriptor of a tag and its length, in four 7-bit bytes
+const descriptor = (tag: number, ...parts: Array<Uint8Array | number[]>): Uint8Array => {
+  const body = concatBytes(parts.map((part) => (part instanceof Uint8Array ? part : Uint8Array.from(part))))
+  const length = [21, 14, 7, 0].map((shift, i) => ((body.length >> shift) & 0x7f) | (i < 3 ? 0x80 : 0))
+  return concatBytes([Uint8Array.of(tag, ...length), body])
+}
+
+// AudioSpecificConfig of AAC-LC, when the encoder doesn't give one
+const createAudioSpecificConfig = (sampleRate: number, channelCount: number): Uint8Array =>
+  Uint8Array.from(uint((2 << 11) | (FREQUENCY_INDEXES[sampleRate] << 7) | (channelCount << 3), 2))
+
+const createSampleEntry = (
+  sampleRate: number,
+  channelCount: number,
+  bitrate: number,
+  config: Uint8Array,
+): Uint8Array => {
+  const esds = fullBox(
+    "esds",
+    0,
+    0,
+    descriptor(
+      0x03, // ES_Descriptor
+      [0, 1, 0], // ES_ID, flags
+      descriptor(
+        0x04, // DecoderConfigDescriptor
+        [0x40, 0x15], // MPEG-4 audio, audio stream
+        [...uint(0, 3), ...uint(bitrate, 4), ...uint(bitrate, 4)], // buffer size, max and average bitrate
+        descriptor(0x05, config),
+      ),
+      descriptor(0x06, [0x02]), // SLConfigDescriptor
+    ),
+  )
+  return box(
+    "mp4a",
+    [0, 0, 0, 0, 0, 0, ...uint(1, 2)], // reserved, data reference index
+    [...uint(0, 8), ...uint(channelCount, 2), ...uint(16, 2), ...uint(0, 4)],
+    uint(sampleRate * 0x10000, 4),
+    esds,
+  )
+}
+
+// iTunes metadata: title, artist and cover art
+const createMetadata = (tags: ExportTags): Uint8Array | undefined => {
+  const data = (type: number, value: Uint8Array) => box("data", uint(type, 4), uint(0, 4), value)
+  const items: Uint8Array[] = []
+  if (tags.title) items.push(box("©nam", data(1, utf8(tags.title))))
+  if (tags.artist) items.push(box("©ART", data(1, utf8(tags.artist))))
+  if (tags.cover) items.push(box("covr", data(tags.cover.mimeType === "image/png" ? 14 : 13, tags.cover.data)))
+  if (items.length === 0) return undefined
+
+  const handler = fullBox("hdlr", 0, 0, uint(0, 4), utf8("mdirappl"), uint(0, 9))
+  return box("udta", fullBox("meta", 0, 0, handler, box("ilst", ...items)))
+}
+
+interface Track {
+  sampleRate: number
+  channelCount: number
+  bitrate: number
+  config: Uint8Array
+  sizes: number[]
+  durations: number[]
+}
+
+const createMovie = (track: Track, dataOffset: number, tags: ExportTags): Uint8Array => {
+  const { sampleRate, sizes, durations } = track
+  const duration = durations.reduce((total, samples) => total + samples, 0)
+
+  // Runs of equal durations
+  const timeToSample: number[][] = []
+  for (const samples of durations) {
+    const last = timeToSample[timeToSample.length - 1]
+    if (last && last[1] === samples) last[0]++
+    else timeToSample.push([1, samples])
+  }
+
+  const sampleTable = box(
+    "stbl",
+    fullBox("stsd", 0, 0, uint(1, 4), createSampleEntry(sampleRate, track.channelCount, track.bitrate, track.config)),
+    fullBox("stts", 0, 0, uint(timeToSample.length, 4), timeToSample.flat().flatMap((value) => uint(value, 4))),
+    fullBox("stsc", 0, 0, uint(1, 4), [...uint(1, 4), ...uint(sizes.length, 4), ...uint(1, 4)]), // one chunk
+    fullBox("stsz", 0, 0, uint(0, 4), uint(sizes.length, 4), sizes.flatMap((size) => uint(size, 4))),
+    fullBox("stco", 0, 0, uint(1, 4), uint(dataOffset, 4)),
+  )
+  const media = box(
+    "mdia",
+    fullBox("mdhd", 0, 0, uint(0, 8), uint(sampleRate, 4), uint(duration, 4), uint(0x55c4, 2), uint(0, 2)), // "und"
+    fullBox("hdlr", 0, 0, uint(0, 4), utf8("soun"), uint(0, 12), utf8("SoundHandler\0")),
+    box(
+      "minf",
+      fullBox("smhd", 0, 0, uint(0, 4)),
+      box("dinf", fullBox("dref", 0, 0, uint(1, 4), fullBox("url ", 0, 1))),
+      sampleTable,
+    ),
+  )
+  const trackBox = box(
+    "trak",
+    // Enabled, in the movie and preview; volume 1.0 and no width or height
+    fullBox(
+      "tkhd",
+      0,
+      7,
+      uint(0, 8),
+      uint(1, 4),
+      uint(0, 4),
+      uint(duration, 4),
+      uint(0, 8),
+      uint(0, 4),
+      [1, 0, 0, 0],
+      MATRIX,
+      uint(0, 8),
+    ),
+    media,
+  )
+
+  const header = fullBox(
+    "mvhd",
+    0,
+    0,
+    uint(0, 8),
+    uint(sampleRate, 4),
+    uint(duration, 4),
+    uint(0x00010000, 4), // rate 1.0
+    [1, 0, ...uint(0, 10)], // volume 1.0
+    MATRIX,
+    uint(0, 24),
+    uint(2, 4), // next track id
+  )
+  const metadata = createMetadata(tags)
+  return metadata ? box("moov", header, trackBox, metadata) : box("moov", header, trackBox)
+}
+
+export const aacEncoder = defineEncoder<AacOptions>({
+  format: "aac",
+  name: "AAC",
+  mimeType: "audio/mp4",
+  extension: "m4a",
+  options: {
+    bitrate: {
+      label: "kbps",
+      default: 192,
+      options: [96, 128, 192, 256].map((bitrate) => ({ value: bitrate, label: String(bitrate) })),
+    },
+  },
+  tags: ["title", "artist", "cover"],
+  isSupported: () => isAudioEncoderSupported({ codec: CODEC, sampleRate: 48000, numberOfChannels: 2, bitrate: 192000 }),
+
+  encode: async (audioBuffer, options, onProgress, tags = {}) => {
+    const sampleRate = SAMPLE_RATES.includes(audioBuffer.sampleRate) ? audioBuffer.sampleRate : 48000
+    const channels = getChannels(audioBuffer)
+      .slice(0, 2)
+      .map((channel) => resampleToRate(channel, audioBuffer.sampleRate, sampleRate))
+    const bitrate = options.bitrate * 1000
+
+    const encoded = await encodeWithWebCodecs(
+      channels,
+      { codec: CODEC, sampleRate, numberOfChannels: channels.length, bitrate },
+      FRAME_SIZE,
+      onProgress,
+    )
+    const track: Track = {
+      sampleRate,
+      channelCount: channels.length,
+      bitrate,
+      config: encoded.description ?? createAudioSpecificConfig(sampleRate, channels.length),
+      sizes: encoded.packets.map((packet) => packet.length),
+      durations: encoded.durations,
+    }
+
+    // The chunk offset doesn't change the movie's size, so a first pass finds where the data starts
+    const fileType = box("ftyp", utf8("M4A "), uint(0, 4), utf8("M4A mp42isom"))
+    const moovSize = createMovie(track, 0, tags).length
+    const movie = createMovie(track, fileType.length + moovSize + 8, tags)
+    const file = concatBytes([fileType, movie, box("mdat", concatBytes(encoded.packets))])
+    return new Blob([file], { type: "audio/mp4" })
+  },
+})
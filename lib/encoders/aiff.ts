@@ -0,0 +1,82 @@
+// AIFF: big-endian PCM in an IFF file, with the title and artist as NAME and AUTH chunks
+
+import { concatBytes, defineEncoder, getChannels, toInteger } from "./types"
+
+type AiffOptions = {
+  bitDepth: number // 16 or 24
+}
+
+// Chunk of an id, its size and its data, padded to an even length
+const createChunk = (id: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2))
+  const view = new DataView(chunk.buffer)
+  for (let i = 0; i < 4; i++) {
+    chunk[i] = id.charCodeAt(i)
+  }
+  view.setUint32(4, data.length)
+  chunk.set(data, 8)
+  return chunk
+}
+
+// Text chunks are ASCII; other characters become "?"
+const textBytes = (text: string): Uint8Array =>
+  Uint8Array.from(text, (char) => (char.charCodeAt(0) < 128 ? char.charCodeAt(0) : 63))
+
+// 80-bit extended precision float, as COMM stores the sample rate
+const writeExtended = (view: DataView, offset: number, value: number) => {
+  const exponent = Math.floor(Math.log2(value))
+  const mantissa = (value / Math.pow(2, exponent)) * Math.pow(2, 31)
+  view.setUint16(offset, 16383 + exponent)
+  view.setUint32(offset + 2, Math.floor(mantissa))
+  view.setUint32(offset + 6, Math.floor((mantissa % 1) * Math.pow(2, 32)))
+}
+
+export const aiffEncoder = defineEncoder<AiffOptions>({
+  format: "aiff",
+  name: "AIFF",
+  mimeType: "audio/aiff",
+  extension: "aiff",
+  options: {
+    bitDepth: {
+      label: "Bit depth",
+      default: 16,
+      options: [
+        { value: 16, label: "16-bit" },
+        { value: 24, label: "24-bit" },
+      ],
+    },
+  },
+  tags: ["title", "artist"],
+
+  encode: (audioBuffer, options, _onProgress, tags = {}) => {
+    const channels = getChannels(audioBuffer)
+    const bytesPerSample = options.bitDepth / 8
+
+    const common = new Uint8Array(18)
+    const commonView = new DataView(common.buffer)
+    commonView.setUint16(0, channels.length)
+    commonView.setUint32(2, audioBuffer.length)
+    commonView.setUint16(6, options.bitDepth)
+    writeExtended(commonView, 8, audioBuffer.sampleRate)
+
+    // Sound data: an offset and block size of zero, then the interleaved samples
+    const sound = new Uint8Array(8 + audioBuffer.length * channels.length * bytesPerSample)
+    let offset = 8
+    for (let i = 0; i < audioBuffer.length; i++) {
+      for (const channel of channels) {
+        const sample = toInteger(channel[i], options.bitDepth)
+        for (let byte = bytesPerSample - 1; byte >= 0; byte--) {
+          sound[offset++] = (sample >> (8 * byte)) & 0xff
+        }
+      }
+    }
+
+    const chunks = [createChunk("COMM", common)]
+    if (tags.title) chunks.push(createChunk("NAME", textBytes(tags.title)))
+    if (tags.artist) chunks.push(createChunk("AUTH", textBytes(tags.artist)))
+    chunks.push(createChunk("SSND", sound))
+
+    const form = createChunk("FORM", concatBytes([textBytes("AIFF"), ...chunks]))
+    return new Blob([form], { type: "audio/aiff" })
+  },
+})
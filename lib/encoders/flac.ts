@@ -0,0 +1,370 @@
+// FLAC: lossless. Each block of samples is predicted with whichever fixed polynomial
+// predictor (orders 0 to 4) leaves the smallest residual, which is Rice coded; stereo
+// blocks also try the side channel with the left, right or mid channel.
+
+import { BitWriter } from "../bit-writer"
+import { concatBytes, defineEncoder, getChannels, toInteger } from "./types"
+import { createPictureBlock, createVorbisComment } from "./vorbis-comment"
+
+type FlacOptions = {
+  bitDepth: number // 16 or 24
+}
+
+const BLOCK_SIZE = 4096
+const MAX_FIXED_ORDER = 4
+const MAX_PARTITION_ORDER = 8
+const MAX_RICE_PARAMETER = 14 // 15 is the escape code, which isn't used
+
+const BLOCK_STREAMINFO = 0
+const BLOCK_VORBIS_COMMENT = 4
+const BLOCK_PICTURE = 6
+
+// Channel assignments of a frame: independent channels are channels - 1
+const LEFT_SIDE = 8
+const SIDE_RIGHT = 9
+const MID_SIDE = 10
+
+// Frames to encode between progress reports, when the page gets to update
+const FRAMES_PER_YIELD = 64
+
+// Frame header codes of the common sample rates
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1,
+  176400: 2,
+  192000: 3,
+  8000: 4,
+  16000: 5,
+  22050: 6,
+  24000: 7,
+  32000: 8,
+  44100: 9,
+  48000: 10,
+  96000: 11,
+}
+
+const crc8Table = Uint8Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff
+  }
+  return crc
+})
+
+const crc16Table = Uint16Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 8
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff
+  }
+  return crc
+})
+
+const crc8 = (bytes: Uint8Array): number => bytes.reduce((crc, byte) => crc8Table[crc ^ byte], 0)
+
+const crc16 = (bytes: Uint8Array): number =>
+  bytes.reduce((crc, byte) => ((crc << 8) & 0xffff) ^ crc16Table[(crc >> 8) ^ byte], 0)
+
+// Residual of a fixed predictor of `order` from the samples before it
+const getFixedResidual = (samples: Int32Array, order: number, residual: Int32Array) => {
+  for (let i = order; i < samples.length; i++) {
+    const x = samples[i]
+    switch (order) {
+      case 0:
+        residual[i] = x
+        break
+      case 1:
+        residual[i] = x - samples[i - 1]
+        break
+      case 2:
+        residual[i] = x - 2 * samples[i - 1] + samples[i - 2]
+        break
+      case 3:
+        residual[i] = x - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3]
+        break
+      default:
+        residual[i] = x - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4]
+    }
+  }
+}
+
+// Residual as an unsigned number: 0, -1, 1, -2, ... become 0, 1, 2, 3, ...
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1)
+
+interface RiceCoding {
+  bits: number
+  partitionOrder: number
+  parameters: number[]
+}
+
+// Best Rice parameter for a partition of `count` values summing (zigzagged) to `sum`, and its size
+const chooseRiceParameter = (sum: number, count: number): { parameter: number; bits: number } => {
+  const estimate = sum > count ? Math.floor(Math.log2(sum / count)) : 0
+  let best = { parameter: 0, bits: Infinity }
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAMETER, estimate + 1); k++) {
+    const bits = count * (k + 1) + Math.floor(sum / Math.pow(2, k))
+    if (bits < best.bits) best = { parameter: k, bits }
+  }
+  return best
+}
+
+// Partitioning of the residual (after the first `order` samples) that codes in the fewest bits
+const chooseRiceCoding = (residual: Int32Array, order: number): RiceCoding => {
+  const length = residual.length
+  let maxOrder = 0
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    length % (2 << maxOrder) === 0 &&
+    length / (2 << maxOrder) > order
+  ) {
+    maxOrder++
+  }
+
+  // Sums of the finest partitions, merged pairwise for each coarser order
+  let sums = Array.from({ length: 1 << maxOrder }, (_, partition) => {
+    const size = length >> maxOrder
+    let sum = 0
+    for (let i = Math.max(order, partition * size); i < (partition + 1) * size; i++) {
+      sum += zigzag(residual[i])
+    }
+    return sum
+  })
+
+  let best: RiceCoding = { bits: Infinity, partitionOrder: 0, parameters: [] }
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const size = length >> partitionOrder
+    let bits = 0
+    const parameters = sums.map((sum, partition) => {
+      const choice = chooseRiceParameter(sum, partition === 0 ? size - order : size)
+      bits += 4 + choice.bits
+      return choice.parameter
+    })
+    if (bits < best.bits) best = { bits, partitionOrder, parameters }
+    sums = Array.from({ length: sums.length / 2 }, (_, partition) => sums[2 * partition] + sums[2 * partition + 1])
+  }
+  return best
+}
+
+type Subframe =
+  | { type: "constant"; bits: number }
+  | { type: "verbatim"; bits: number }
+  | { type: "fixed"; bits: number; order: number; residual: Int32Array; coding: RiceCoding }
+
+// Smallest coding of one channel of a block with `sampleBits` bits per sample
+const chooseSubframe = (samples: Int32Array, sampleBits: number): Subframe => {
+  if (samples.every((sample) => sample === samples[0])) {
+    return { type: "constant", bits: 8 + sampleBits }
+  }
+
+  let best: Subframe = { type: "verbatim", bits: 8 + samples.length * sampleBits }
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residual = new Int32Array(samples.length)
+    getFixedResidual(samples, order, residual)
+    const coding = chooseRiceCoding(residual, order)
+    const bits = 8 + order * sampleBits + 6 + coding.bits
+    if (bits < best.bits) best = { type: "fixed", bits, order, residual, coding }
+  }
+  return best
+}
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, sampleBits: number, subframe: Subframe) => {
+  if (subframe.type === "constant") {
+    writer.write(0, 8)
+    writer.write(samples[0], sampleBits)
+    return
+  }
+
+  if (subframe.type === "verbatim") {
+    writer.write(0b00000010, 8)
+    samples.forEach((sample) => writer.write(sample, sampleBits))
+    return
+  }
+
+  const { order, residual, coding } = subframe
+  writer.write((0b001000 | order) << 1, 8)
+  for (let i = 0; i < order; i++) {
+    writer.write(samples[i], sampleBits)
+  }
+
+  // Rice coding with 4-bit parameters, then each partition's parameter and values
+  writer.write(0, 2)
+  writer.write(coding.partitionOrder, 4)
+  const size = samples.length >> coding.partitionOrder
+  coding.parameters.forEach((parameter, partition) => {
+    writer.write(parameter, 4)
+    for (let i = Math.max(order, partition * size); i < (partition + 1) * size; i++) {
+      const value = zigzag(residual[i])
+      writer.write(0, Math.floor(value / Math.pow(2, parameter)))
+      writer.write(1, 1)
+      if (parameter > 0) writer.write(value, parameter)
+    }
+  })
+}
+
+// Frame number in the variable-length UTF-8 style coding of frame headers
+const writeFrameNumber = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8)
+    return
+  }
+
+  // A lead byte of as many ones as bytes, then 6 bits in each continuation byte
+  let continuation = 1
+  while (value >= Math.pow(2, 5 * continuation + 6)) continuation++
+  writer.write(((1 << (continuation + 1)) - 1) << 1, continuation + 2)
+  writer.write(value >>> (6 * continuation), 6 - continuation)
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.write(0b10, 2)
+    writer.write(value >>> (6 * i), 6)
+  }
+}
+
+// Sample rate of a frame header: a code, or the rate after the header in kHz, Hz or tens of Hz.
+// Every frame states it, so decoders don't need STREAMINFO to play from any frame
+const getSampleRateCoding = (sampleRate: number): { code: number; value?: number; bits?: number } => {
+  if (SAMPLE_RATE_CODES[sampleRate]) return { code: SAMPLE_RATE_CODES[sampleRate] }
+  if (sampleRate % 1000 === 0 && sampleRate / 1000 < 256) return { code: 12, value: sampleRate / 1000, bits: 8 }
+  if (sampleRate < 65536) return { code: 13, value: sampleRate, bits: 16 }
+  if (sampleRate % 10 === 0 && sampleRate / 10 < 65536) return { code: 14, value: sampleRate / 10, bits: 16 }
+  return { code: 0 } // only in STREAMINFO
+}
+
+const encodeFrame = (
+  channels: Int32Array[],
+  sampleRate: number,
+  bitDepth: number,
+  frameNumber: number,
+): Uint8Array => {
+  const length = channels[0].length
+
+  // Stereo: code the two channels as they are, or one of them with the side channel
+  let assignment = channels.length - 1
+  let coded = channels.map((samples) => ({
+    samples,
+    sampleBits: bitDepth,
+    subframe: chooseSubframe(samples, bitDepth),
+  }))
+  if (channels.length === 2) {
+    const [left, right] = channels
+    const mid = left.map((sample, i) => (sample + right[i]) >> 1)
+    const side = left.map((sample, i) => sample - right[i])
+    const [codedLeft, codedRight] = coded
+    const codedMid = { samples: mid, sampleBits: bitDepth, subframe: chooseSubframe(mid, bitDepth) }
+    const codedSide = { samples: side, sampleBits: bitDepth + 1, subframe: chooseSubframe(side, bitDepth + 1) }
+    const options = [
+      { assignment, coded: [codedLeft, codedRight] },
+      { assignment: LEFT_SIDE, coded: [codedLeft, codedSide] },
+      { assignment: SIDE_RIGHT, coded: [codedSide, codedRight] },
+      { assignment: MID_SIDE, coded: [codedMid, codedSide] },
+    ]
+    const size = (option: (typeof options)[number]) => option.coded[0].subframe.bits + option.coded[1].subframe.bits
+    const best = options.reduce((smallest, option) => (size(option) < size(smallest) ? option : smallest))
+    assignment = best.assignment
+    coded = best.coded
+  }
+
+  const writer = new BitWriter()
+  writer.write(0b11111111111110, 14) // sync
+  writer.write(0, 2) // reserved, fixed block size
+  writer.write(length === BLOCK_SIZE ? 12 : 7, 4) // 4096, or the size after the header
+  const rate = getSampleRateCoding(sampleRate)
+  writer.write(rate.code, 4)
+  writer.write(assignment, 4)
+  writer.write(bitDepth === 24 ? 0b110 : 0b100, 3)
+  writer.write(0, 1)
+  writeFrameNumber(writer, frameNumber)
+  if (length !== BLOCK_SIZE) writer.write(length - 1, 16)
+  if (rate.value !== undefined && rate.bits) writer.write(rate.value, rate.bits)
+  writer.write(crc8(writer.bytes.subarray(0, writer.length)), 8)
+
+  for (const { samples, sampleBits, subframe } of coded) {
+    writeSubframe(writer, samples, sampleBits, subframe)
+  }
+  writer.align()
+  writer.write(crc16(writer.bytes.subarray(0, writer.length)), 16)
+  return writer.bytes.slice(0, writer.length)
+}
+
+const createMetadataBlock = (type: number, body: Uint8Array, last: boolean): Uint8Array => {
+  const block = new Uint8Array(4 + body.length)
+  new DataView(block.buffer).setUint32(0, ((last ? 0x80 : 0) << 24) | (type << 24) | body.length)
+  block.set(body, 4)
+  return block
+}
+
+const createStreamInfo = (
+  sampleRate: number,
+  channelCount: number,
+  bitDepth: number,
+  length: number,
+  frameSizes: number[],
+): Uint8Array => {
+  const writer = new BitWriter()
+  writer.write(BLOCK_SIZE, 16) // smallest block, except the last
+  writer.write(BLOCK_SIZE, 16) // largest block
+  writer.write(Math.min(...frameSizes), 24)
+  writer.write(Math.max(...frameSizes), 24)
+  writer.write(sampleRate, 20)
+  writer.write(channelCount - 1, 3)
+  writer.write(bitDepth - 1, 5)
+  writer.write(Math.floor(length / Math.pow(2, 32)), 4)
+  writer.write(length >>> 0, 32)
+  writer.write(0, 128) // no MD5 signature
+  return writer.bytes.slice(0, writer.length)
+}
+
+export const flacEncoder = defineEncoder<FlacOptions>({
+  format: "flac",
+  name: "FLAC",
+  mimeType: "audio/flac",
+  extension: "flac",
+  options: {
+    bitDepth: {
+      label: "Bit depth",
+      default: 16,
+      options: [
+        { value: 16, label: "16-bit" },
+        { value: 24, label: "24-bit" },
+      ],
+    },
+  },
+  tags: ["title", "artist", "cover"],
+
+  encode: async (audioBuffer, options, onProgress, tags = {}) => {
+    const channels = getChannels(audioBuffer)
+    const { bitDepth } = options
+    const frameCount = Math.ceil(audioBuffer.length / BLOCK_SIZE)
+
+    const frames: Uint8Array[] = []
+    for (let frame = 0; frame < frameCount; frame++) {
+      const start = frame * BLOCK_SIZE
+      const end = Math.min(audioBuffer.length, start + BLOCK_SIZE)
+      const samples = channels.map((channel) =>
+        Int32Array.from(channel.subarray(start, end), (sample) => toInteger(sample, bitDepth)),
+      )
+      frames.push(encodeFrame(samples, audioBuffer.sampleRate, bitDepth, frame))
+
+      if (frame % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) {
+        onProgress?.(frame / frameCount)
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      }
+    }
+    onProgress?.(1)
+
+    const frameSizes = frames.length > 0 ? frames.map((frame) => frame.length) : [0]
+    const streamInfo = createStreamInfo(
+      audioBuffer.sampleRate,
+      channels.length,
+      bitDepth,
+      audioBuffer.length,
+      frameSizes,
+    )
+    const metadata = [
+      { type: BLOCK_STREAMINFO, body: streamInfo },
+      { type: BLOCK_VORBIS_COMMENT, body: createVorbisComment(tags) },
+    ]
+    if (tags.cover) metadata.push({ type: BLOCK_PICTURE, body: createPictureBlock(tags.cover) })
+
+    const blocks = metadata.map(({ type, body }, i) => createMetadataBlock(type, body, i === metadata.length - 1))
+    const file = concatBytes([Uint8Array.of(0x66, 0x4c, 0x61, 0x43), ...blocks, ...frames])
+    return new Blob([file], { type: "audio/flac" })
+  },
+})
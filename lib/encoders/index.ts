@@ -0,0 +1,40 @@
+// Registry of export formats.
+// To add a format, write its encoder in a file next to these (see aiff.ts)
+// and add it to builtInEncoders, or call registerEncoder from anywhere.
+
+import { aacEncoder } from "./aac"
+import { aiffEncoder } from "./aiff"
+import { flacEncoder } from "./flac"
+import { mp3Encoder } from "./mp3"
+import { opusEncoder } from "./opus"
+import { wavEncoder } from "./wav"
+import type { ExportEncoder, ExportOptions } from "./types"
+
+export * from "./types"
+
+// In the order they are offered in the download dialog
+const builtInEncoders: ExportEncoder[] = [mp3Encoder, aacEncoder, opusEncoder, flacEncoder, wavEncoder, aiffEncoder]
+
+const encoderRegistry = new Map<string, ExportEncoder>()
+
+// Add an export format (replaces any encoder registered with the same format)
+export const registerEncoder = (encoder: ExportEncoder): void => {
+  encoderRegistry.set(encoder.format, encoder)
+}
+
+builtInEncoders.forEach(registerEncoder)
+
+export const getEncoder = (format: string): ExportEncoder | undefined => encoderRegistry.get(format)
+
+export const getEncoders = (): ExportEncoder[] => Array.from(encoderRegistry.values())
+
+// Encoders this browser can use (AAC needs WebCodecs)
+export const getAvailableEncoders = async (): Promise<ExportEncoder[]> => {
+  const encoders = getEncoders()
+  const supported = await Promise.all(encoders.map((encoder) => encoder.isSupported?.() ?? true))
+  return encoders.filter((_, i) => supported[i])
+}
+
+// Option values of a new export, from the descriptors' defaults
+export const getDefaultExportOptions = (encoder: ExportEncoder): ExportOptions =>
+  Object.fromEntries(Object.entries(encoder.options).map(([name, descriptor]) => [name, descriptor.default]))
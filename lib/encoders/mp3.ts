@@ -0,0 +1,72 @@
+// MP3: encoded by lib/mp3-encoder.ts in the MP3 worker, with an ID3 tag
+
+import type { Id3Tags } from "../id3"
+import { type Mp3Settings, defaultMp3Settings, mp3Bitrates, mp3Qualities } from "../mp3-encoder"
+import type { Mp3EncodeRequest, Mp3EncodeResponse } from "../mp3-worker"
+import { defineEncoder, getChannels } from "./types"
+
+// Encode AudioBuffer to MP3 format in the MP3 worker, reporting its progress from 0 to 1
+const encodeMP3 = (
+  audioBuffer: AudioBuffer,
+  settings: Mp3Settings,
+  tags: Id3Tags,
+  onProgress?: (progress: number) => void,
+): Promise<Blob> =>
+  new Promise<Blob>((resolve, reject) => {
+    const worker = new Worker(new URL("../mp3-worker.ts", import.meta.url))
+
+    worker.onmessage = (event: MessageEvent<Mp3EncodeResponse>) => {
+      const response = event.data
+      if (response.type === "progress") {
+        onProgress?.(response.progress)
+        return
+      }
+
+      worker.terminate()
+      if (response.type === "done") {
+        resolve(new Blob([response.data], { type: "audio/mpeg" }))
+      } else {
+        reject(new Error(response.message))
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+
+    // Copies, as the channels' buffers move to the worker
+    const channels = getChannels(audioBuffer).map((channel) => channel.slice())
+    const request: Mp3EncodeRequest = { channels, sampleRate: audioBuffer.sampleRate, settings, tags }
+    worker.postMessage(request, channels.map((channel) => channel.buffer))
+  })
+
+export const mp3Encoder = defineEncoder<Mp3Settings>({
+  format: "mp3",
+  name: "MP3",
+  mimeType: "audio/mpeg",
+  extension: "mp3",
+  options: {
+    mode: {
+      label: "Bitrate",
+      default: defaultMp3Settings.mode,
+      options: [
+        { value: "cbr", label: "Constant" },
+        { value: "vbr", label: "Variable" },
+      ],
+    },
+    bitrate: {
+      label: "kbps",
+      default: defaultMp3Settings.bitrate,
+      options: mp3Bitrates.map((bitrate) => ({ value: bitrate, label: String(bitrate) })),
+      visible: (options) => options.mode === "cbr",
+    },
+    quality: {
+      label: "Quality",
+      default: defaultMp3Settings.quality,
+      options: mp3Qualities,
+      visible: (options) => options.mode === "vbr",
+    },
+  },
+  tags: ["title", "artist", "cover"],
+  encode: (audioBuffer, options, onProgress, tags = {}) => encodeMP3(audioBuffer, options, tags, onProgress),
+})
@@ -0,0 +1,213 @@
+// Opus in an Ogg file at 48 kHz, encoded by the browser's AudioEncoder, or by libopus
+// in the Opus worker where WebCodecs has no Opus encoder
+
+import type { OpusEncodeRequest, OpusEncodeResponse } from "../opus-worker"
+import { resampleToRate } from "./resample"
+import { concatBytes, defineEncoder, getChannels } from "./types"
+import { createVorbisComment } from "./vorbis-comment"
+import { type EncodedAudio, encodeWithWebCodecs, isAudioEncoderSupported } from "./webcodecs"
+
+type OpusOptions = {
+  bitrate: number // kbps
+}
+
+const SAMPLE_RATE = 48000 // Opus always codes at 48 kHz
+const FRAME_SIZE = 960 // 20 ms, the encoder's default
+const DEFAULT_PRE_SKIP = 312 // libopus lookahead, when the encoder gives no OpusHead
+const MAX_SEGMENTS = 255 // lacing values in an Ogg page
+const STREAM_SERIAL = 0x41756469
+
+// Ogg page header flags
+const CONTINUED = 1
+const FIRST_PAGE = 2
+const LAST_PAGE = 4
+
+const crc32Table = Uint32Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 24
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1
+  }
+  return crc >>> 0
+})
+
+const crc32 = (bytes: Uint8Array): number =>
+  bytes.reduce((crc, byte) => ((crc << 8) ^ crc32Table[((crc >>> 24) ^ byte) & 0xff]) >>> 0, 0)
+
+interface OggPacket {
+  data: Uint8Array
+  granule: number // samples at the end of the packet, pre-skip included
+}
+
+const createPage = (
+  segments: number[],
+  data: Uint8Array,
+  flags: number,
+  granule: number,
+  sequence: number,
+): Uint8Array => {
+  const page = new Uint8Array(27 + segments.length + data.length)
+  const view = new DataView(page.buffer)
+  page.set([0x4f, 0x67, 0x67, 0x53]) // "OggS", then version 0
+  page[5] = flags
+  // -1 when no packet ends on the page
+  view.setUint32(6, granule < 0 ? 0xffffffff : granule >>> 0, true)
+  view.setUint32(10, granule < 0 ? 0xffffffff : Math.floor(granule / Math.pow(2, 32)), true)
+  view.setUint32(14, STREAM_SERIAL, true)
+  view.setUint32(18, sequence, true)
+  page[26] = segments.length
+  page.set(segments, 27)
+  page.set(data, 27 + segments.length)
+  view.setUint32(22, crc32(page), true)
+  return page
+}
+
+// Pages of a logical stream. Each group of packets starts on a new page, as Ogg Opus wants
+// the OpusHead and OpusTags packets on pages of their own
+const createOggStream = (groups: OggPacket[][]): Uint8Array => {
+  const pages: Uint8Array[] = []
+  let flags = FIRST_PAGE
+
+  const nonEmpty = groups.filter((packets) => packets.length > 0)
+  for (const [groupIndex, packets] of nonEmpty.entries()) {
+    let segments: number[] = []
+    let parts: Uint8Array[] = []
+    let granule = -1
+
+    const flush = (last: boolean) => {
+      const isLast = last && groupIndex === nonEmpty.length - 1
+      pages.push(createPage(segments, concatBytes(parts), flags | (isLast ? LAST_PAGE : 0), granule, pages.length))
+      flags = 0
+      segments = []
+      parts = []
+      granule = -1
+    }
+
+    for (const [packetIndex, packet] of packets.entries()) {
+      // Lacing: 255 for each whole 255 bytes, then the rest (0 if it divides exactly)
+      let offset = 0
+      for (;;) {
+        const size = Math.min(255, packet.data.length - offset)
+        segments.push(size)
+        parts.push(packet.data.subarray(offset, offset + size))
+        offset += size
+        const ended = size < 255
+        if (ended) granule = packet.granule
+        if (segments.length === MAX_SEGMENTS) {
+          flush(ended && packetIndex === packets.length - 1)
+          if (!ended) flags = CONTINUED
+        }
+        if (ended) break
+      }
+    }
+    if (segments.length > 0) flush(true)
+  }
+  return concatBytes(pages)
+}
+
+// Identification header of channel mapping family 0 (mono or stereo)
+const createOpusHead = (channelCount: number, preSkip: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19)
+  const view = new DataView(head.buffer)
+  head.set(new TextEncoder().encode("OpusHead"))
+  head[8] = 1 // version
+  head[9] = channelCount
+  view.setUint16(10, preSkip, true)
+  view.setUint32(12, inputSampleRate, true)
+  return head
+}
+
+const isOpusHead = (data?: Uint8Array): data is Uint8Array =>
+  !!data && data.length >= 19 && new TextDecoder().decode(data.subarray(0, 8)) === "OpusHead"
+
+// Encode 48 kHz channels with libopus in the Opus worker, reporting its progress from 0 to 1
+const encodeInWorker = (
+  channels: Float32Array[],
+  bitrate: number,
+  inputSampleRate: number,
+  onProgress?: (progress: number) => void,
+): Promise<EncodedAudio> =>
+  new Promise<EncodedAudio>((resolve, reject) => {
+    const worker = new Worker(new URL("../opus-worker.ts", import.meta.url))
+
+    worker.onmessage = (event: MessageEvent<OpusEncodeResponse>) => {
+      const response = event.data
+      if (response.type === "progress") {
+        onProgress?.(response.progress)
+        return
+      }
+
+      worker.terminate()
+      if (response.type === "done") {
+        resolve({
+          packets: response.packets,
+          durations: response.packets.map(() => FRAME_SIZE),
+          description: createOpusHead(channels.length, response.preSkip, inputSampleRate),
+        })
+      } else {
+        reject(new Error(response.message))
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+
+    // Copies, as the channels' buffers move to the worker
+    const copies = channels.map((channel) => channel.slice())
+    const request: OpusEncodeRequest = { channels: copies, bitrate }
+    worker.postMessage(request, copies.map((channel) => channel.buffer))
+  })
+
+export const opusEncoder = defineEncoder<OpusOptions>({
+  format: "opus",
+  name: "Opus",
+  mimeType: "audio/ogg",
+  extension: "opus",
+  options: {
+    bitrate: {
+      label: "kbps",
+      default: 96,
+      options: [32, 64, 96, 128, 160].map((bitrate) => ({ value: bitrate, label: String(bitrate) })),
+    },
+  },
+  tags: ["title", "artist", "cover"],
+
+  encode: async (audioBuffer, options, onProgress, tags = {}) => {
+    // Mapping family 0 carries at most two channels
+    const channels = getChannels(audioBuffer)
+      .slice(0, 2)
+      .map((channel) => resampleToRate(channel, audioBuffer.sampleRate, SAMPLE_RATE))
+    const length = channels[0].length
+
+    const config = {
+      codec: "opus",
+      sampleRate: SAMPLE_RATE,
+      numberOfChannels: channels.length,
+      bitrate: options.bitrate * 1000,
+    }
+    const encoded = (await isAudioEncoderSupported(config))
+      ? await encodeWithWebCodecs(channels, config, FRAME_SIZE, onProgress)
+      : await encodeInWorker(channels, config.bitrate, audioBuffer.sampleRate, onProgress)
+
+    const head = isOpusHead(encoded.description)
+      ? encoded.description
+      : createOpusHead(channels.length, DEFAULT_PRE_SKIP, audioBuffer.sampleRate)
+    const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true)
+
+    // Granule positions count the pre-skip; the last one trims the padding of the final packet
+    let position = 0
+    const packets = encoded.packets.map((data, i) => {
+      position += encoded.durations[i]
+      return { data, granule: position }
+    })
+    if (packets.length > 0) {
+      const previous = packets.length > 1 ? packets[packets.length - 2].granule : 0
+      const last = packets[packets.length - 1]
+      last.granule = Math.max(previous, Math.min(last.granule, preSkip + length))
+    }
+
+    const tagsPacket = concatBytes([new TextEncoder().encode("OpusTags"), createVorbisComment(tags, true)])
+    const file = createOggStream([[{ data: head, granule: 0 }], [{ data: tagsPacket, granule: 0 }], packets])
+    return new Blob([file], { type: "audio/ogg" })
+  },
+})
@@ -0,0 +1,40 @@
+// Resampling of a channel to an encoder's sample rate
+
+import { resampleChannel } from "../phase-vocoder"
+
+// Taps on each side of the low-pass, per input sample of the output's spacing
+const HALF_TAPS_PER_STEP = 16
+// Cutoff as a share of the output's Nyquist, leaving room for the filter's transition band
+const CUTOFF = 0.9
+
+// Windowed-sinc low-pass (Blackman), symmetric so it doesn't delay the signal
+const lowPass = (input: Float32Array, cutoff: number, halfTaps: number): Float32Array => {
+  const taps = Float32Array.from({ length: 2 * halfTaps + 1 }, (_, i) => {
+    const n = i - halfTaps
+    const sinc = n === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * n) / (Math.PI * n)
+    const phase = (Math.PI * i) / halfTaps
+    return sinc * (0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase))
+  })
+
+  const output = new Float32Array(input.length)
+  for (let i = 0; i < input.length; i++) {
+    let sum = 0
+    const start = Math.max(-halfTaps, -i)
+    const end = Math.min(halfTaps, input.length - 1 - i)
+    for (let n = start; n <= end; n++) sum += taps[n + halfTaps] * input[i + n]
+    output[i] = sum
+  }
+  return output
+}
+
+// Resample a channel from one rate to another. Downsampling filters out what the lower rate
+// can't hold first, as the interpolation alone would fold it back into the audible band
+export const resampleToRate = (channel: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return channel
+  const length = Math.round((channel.length * toRate) / fromRate)
+  if (toRate > fromRate) return resampleChannel(channel, length)
+
+  const step = fromRate / toRate
+  const filtered = lowPass(channel, (CUTOFF * 0.5) / step, Math.ceil(HALF_TAPS_PER_STEP * step))
+  return resampleChannel(filtered, length)
+}
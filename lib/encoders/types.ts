@@ -0,0 +1,64 @@
+// Types for export encoders: option descriptors and encoder definitions
+
+import type { Id3Tags } from "../id3"
+
+export type ExportOptionValue = number | string
+
+// Option values of one export, keyed by option name
+export type ExportOptions = Record<string, ExportOptionValue>
+
+// Buttons for a fixed set of values
+export interface ExportOptionDescriptor<V extends ExportOptionValue = ExportOptionValue> {
+  label: string
+  default: V
+  options: Array<{ value: V; label: string }>
+  // Hide the option unless this returns true (e.g. the bitrate of constant bitrate only)
+  visible?: (options: ExportOptions) => boolean
+}
+
+// Title, artist and cover art; each encoder writes the ones it lists in its container's way
+export type ExportTags = Id3Tags
+export type ExportTag = keyof ExportTags
+
+export interface ExportEncoder<O extends ExportOptions = ExportOptions> {
+  format: string
+  name: string
+  mimeType: string
+  extension: string
+  // Options are shown in declaration order
+  options: { [K in keyof O]: ExportOptionDescriptor<O[K]> }
+  tags: ExportTag[]
+  // Whether this browser can encode the format, for encoders that need WebCodecs; supported when missing
+  isSupported?: () => Promise<boolean>
+  // Encode a rendered buffer, reporting progress from 0 to 1
+  encode: (
+    audioBuffer: AudioBuffer,
+    options: O,
+    onProgress?: (progress: number) => void,
+    tags?: ExportTags,
+  ) => Promise<Blob> | Blob
+}
+
+// Check a definition against its own option types, then store it untyped
+export const defineEncoder = <O extends ExportOptions>(encoder: ExportEncoder<O>): ExportEncoder =>
+  encoder as unknown as ExportEncoder
+
+// Samples of every channel of a buffer
+export const getChannels = (audioBuffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel))
+
+// Sample (-1 to 1) as a signed integer of `bits` bits, clipped
+export const toInteger = (sample: number, bits: number): number => {
+  const scale = Math.pow(2, bits - 1)
+  return Math.max(-scale, Math.min(scale - 1, Math.round(sample * scale)))
+}
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
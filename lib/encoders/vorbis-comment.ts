@@ -0,0 +1,51 @@
+// Tags of FLAC and Ogg Opus files: a Vorbis comment for the title and artist, and a
+// FLAC picture block for the cover art (which Opus carries as a base64 comment)
+
+import { concatBytes, type ExportTags } from "./types"
+
+const VENDOR = "Audiology"
+const PICTURE_FRONT_COVER = 3
+
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text)
+
+// Bytes of a little-endian 32-bit length followed by the data
+const withLength = (data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(4 + data.length)
+  new DataView(bytes.buffer).setUint32(0, data.length, true)
+  bytes.set(data, 4)
+  return bytes
+}
+
+// FLAC METADATA_BLOCK_PICTURE body: big-endian fields, the image size left unknown
+export const createPictureBlock = (cover: NonNullable<ExportTags["cover"]>): Uint8Array => {
+  const mimeType = utf8(cover.mimeType)
+  const block = new Uint8Array(32 + mimeType.length + cover.data.length)
+  const view = new DataView(block.buffer)
+  view.setUint32(0, PICTURE_FRONT_COVER)
+  view.setUint32(4, mimeType.length)
+  block.set(mimeType, 8)
+  // Empty description, then width, height, depth and colour count of zero
+  view.setUint32(28 + mimeType.length, cover.data.length)
+  block.set(cover.data, 32 + mimeType.length)
+  return block
+}
+
+const toBase64 = (data: Uint8Array): string => {
+  let binary = ""
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(data.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+// Vendor and comments; Opus also puts the cover here, as FLAC has a block of its own for it
+export const createVorbisComment = (tags: ExportTags, withCover = false): Uint8Array => {
+  const comments: string[] = []
+  if (tags.title) comments.push(`TITLE=${tags.title}`)
+  if (tags.artist) comments.push(`ARTIST=${tags.artist}`)
+  if (withCover && tags.cover) comments.push(`METADATA_BLOCK_PICTURE=${toBase64(createPictureBlock(tags.cover))}`)
+
+  const count = new Uint8Array(4)
+  new DataView(count.buffer).setUint32(0, comments.length, true)
+  return concatBytes([withLength(utf8(VENDOR)), count, ...comments.map((comment) => withLength(utf8(comment)))])
+}
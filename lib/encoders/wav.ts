@@ -0,0 +1,70 @@
+// WAV: 16-bit PCM in a RIFF file
+
+import { defineEncoder } from "./types"
+
+// Encode AudioBuffer to WAV format
+export const encodeWAV = (audioBuffer: AudioBuffer): Blob => {
+  const numOfChannels = audioBuffer.numberOfChannels
+  const sampleRate = audioBuffer.sampleRate
+  const length = audioBuffer.length
+
+  // Create buffer with space for the header
+  const buffer = new ArrayBuffer(44 + length * numOfChannels * 2)
+  const view = new DataView(buffer)
+
+  // Write WAV header
+  // "RIFF" chunk descriptor
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, 36 + length * numOfChannels * 2, true)
+  writeString(view, 8, "WAVE")
+
+  // "fmt " sub-chunk
+  writeString(view, 12, "fmt ")
+  view.setUint32(16, 16, true) // subchunk1size (16 for PCM)
+  view.setUint16(20, 1, true) // audio format (1 for PCM)
+  view.setUint16(22, numOfChannels, true) // num of channels
+  view.setUint32(24, sampleRate, true) // sample rate
+  view.setUint32(28, sampleRate * numOfChannels * 2, true) // byte rate
+  view.setUint16(32, numOfChannels * 2, true) // block align
+  view.setUint16(34, 16, true) // bits per sample
+
+  // "data" sub-chunk
+  writeString(view, 36, "data")
+  view.setUint32(40, length * numOfChannels * 2, true) // subchunk2size
+
+  // Write audio data
+  const channels = []
+  for (let i = 0; i < numOfChannels; i++) {
+    channels.push(audioBuffer.getChannelData(i))
+  }
+
+  let offset = 44
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numOfChannels; channel++) {
+      // Convert float32 to int16
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]))
+      const int16Sample = sample < 0 ? sample * 0x8000 : sample * 0x7fff
+      view.setInt16(offset, int16Sample, true)
+      offset += 2
+    }
+  }
+
+  return new Blob([buffer], { type: "audio/wav" })
+}
+
+// Helper to write strings to DataView
+const writeString = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i))
+  }
+}
+
+export const wavEncoder = defineEncoder({
+  format: "wav",
+  name: "WAV",
+  mimeType: "audio/wav",
+  extension: "wav",
+  options: {},
+  tags: [],
+  encode: (audioBuffer) => encodeWAV(audioBuffer),
+})
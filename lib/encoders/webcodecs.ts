@@ -0,0 +1,82 @@
+// Encoding with the browser's AudioEncoder (WebCodecs), for codecs without an encoder of our own
+
+export interface EncodedAudio {
+  packets: Uint8Array[]
+  durations: number[] // samples in each packet
+  // Codec setup of the decoder config, if the encoder gave one (AudioSpecificConfig, OpusHead)
+  description?: Uint8Array
+}
+
+// Samples to give the encoder at a time, and how many inputs it may queue before we wait
+const INPUT_FRAMES = 4800
+const MAX_QUEUE_SIZE = 8
+
+export const isAudioEncoderSupported = async (config: AudioEncoderConfig): Promise<boolean> => {
+  if (typeof AudioEncoder === "undefined") return false
+  try {
+    const support = await AudioEncoder.isConfigSupported(config)
+    return support.supported === true
+  } catch {
+    return false
+  }
+}
+
+const toBytes = (source: AllowSharedBufferSource): Uint8Array =>
+  ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice()
+
+// Encode channels at the config's sample rate into packets. `frameSize` is the packet length
+// to assume when the encoder doesn't give a duration
+export const encodeWithWebCodecs = async (
+  channels: Float32Array[],
+  config: AudioEncoderConfig,
+  frameSize: number,
+  onProgress?: (progress: number) => void,
+): Promise<EncodedAudio> => {
+  const result: EncodedAudio = { packets: [], durations: [] }
+  let failure: Error | undefined
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const packet = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(packet)
+      result.packets.push(packet)
+      result.durations.push(chunk.duration ? Math.round((chunk.duration * config.sampleRate) / 1e6) : frameSize)
+      if (metadata?.decoderConfig?.description && !result.description) {
+        result.description = toBytes(metadata.decoderConfig.description)
+      }
+    },
+    error: (error) => {
+      failure = error
+    },
+  })
+  encoder.configure(config)
+
+  const length = channels[0]?.length ?? 0
+  for (let start = 0; start < length && !failure; start += INPUT_FRAMES) {
+    const frames = Math.min(INPUT_FRAMES, length - start)
+    const data = new Float32Array(frames * channels.length)
+    channels.forEach((channel, i) => data.set(channel.subarray(start, start + frames), i * frames))
+    const audioData = new AudioData({
+      format: "f32-planar",
+      sampleRate: config.sampleRate,
+      numberOfChannels: channels.length,
+      numberOfFrames: frames,
+      timestamp: Math.round((start * 1e6) / config.sampleRate),
+      data,
+    })
+    encoder.encode(audioData)
+    audioData.close()
+
+    while (encoder.encodeQueueSize > MAX_QUEUE_SIZE && !failure) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    onProgress?.((start + frames) / length)
+  }
+
+  if (!failure) await encoder.flush()
+  if (encoder.state !== "closed") encoder.close()
+  if (failure) throw failure
+  return result
+}
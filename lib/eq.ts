@@ -0,0 +1,118 @@
+// Parametric EQ of the basic effects: a series of biquad bands. The first and last
+// bands stand in for the old fixed bass (lowshelf at 200 Hz) and treble (highshelf
+// at 3 kHz) controls, which now set their gains.
+
+import { smoothParam } from "./audio-worklets"
+
+export type EqBandType = "lowshelf" | "peaking" | "highshelf" | "lowpass" | "highpass" | "notch"
+
+export interface EqBand {
+  type: EqBandType
+  frequency: number // 20 to 20000 Hz
+  gain: number // -12 to 12 dB (unused by the pass and notch types)
+  q: number // 0.1 to 18 (unused by the shelf types)
+}
+
+export const EQ_MIN_FREQUENCY = 20
+export const EQ_MAX_FREQUENCY = 20000
+export const EQ_MAX_GAIN = 12
+export const EQ_MIN_Q = 0.1
+export const EQ_MAX_Q = 18
+
+// The first and last bands always stay, for bass and treble
+export const MIN_EQ_BANDS = 2
+export const MAX_EQ_BANDS = 8
+
+export const eqBandTypes: Array<{ value: EqBandType; label: string }> = [
+  { value: "lowshelf", label: "Low shelf" },
+  { value: "peaking", label: "Peak" },
+  { value: "highshelf", label: "High shelf" },
+  { value: "lowpass", label: "Low pass" },
+  { value: "highpass", label: "High pass" },
+  { value: "notch", label: "Notch" },
+]
+
+export const defaultEqBands: EqBand[] = [
+  { type: "lowshelf", frequency: 200, gain: 0, q: 0.71 },
+  { type: "peaking", frequency: 500, gain: 0, q: 1 },
+  { type: "peaking", frequency: 1500, gain: 0, q: 1 },
+  { type: "highshelf", frequency: 3000, gain: 0, q: 0.71 },
+]
+
+// Whether a band type boosts or cuts by its gain
+export const hasEqGain = (type: EqBandType): boolean =>
+  type === "lowshelf" || type === "peaking" || type === "highshelf"
+
+// Whether the EQ leaves the sound as it is
+export const isFlatEq = (eq: EqBand[]): boolean => eq.every((band) => hasEqGain(band.type) && band.gain === 0)
+
+export const updateEqBand = (eq: EqBand[], index: number, changes: Partial<EqBand>): EqBand[] =>
+  eq.map((band, i) => (i === index ? { ...band, ...changes } : band))
+
+// Set the gains of the first and last bands, as the bass and treble controls do
+export const setEqShelfGains = (eq: EqBand[], gains: { bass?: number; treble?: number }): EqBand[] =>
+  eq.map((band, i) => {
+    if (i === 0 && gains.bass !== undefined) return { ...band, gain: gains.bass }
+    if (i === eq.length - 1 && gains.treble !== undefined) return { ...band, gain: gains.treble }
+    return band
+  })
+
+// Add a peaking band halfway (in octaves) between the two bands furthest apart,
+// keeping the bands in frequency order. Returns the EQ and the new band's index.
+export const addEqBand = (eq: EqBand[]): { eq: EqBand[]; index: number } => {
+  if (eq.length >= MAX_EQ_BANDS) return { eq, index: -1 }
+
+  let index = 1
+  let widest = 0
+  for (let i = 1; i < eq.length; i++) {
+    const octaves = Math.log2(eq[i].frequency / eq[i - 1].frequency)
+    if (octaves > widest) {
+      widest = octaves
+      index = i
+    }
+  }
+
+  const frequency = Math.round(Math.sqrt(eq[index - 1].frequency * eq[index].frequency))
+  const band: EqBand = { type: "peaking", frequency, gain: 0, q: 1 }
+  return { eq: [...eq.slice(0, index), band, ...eq.slice(index)], index }
+}
+
+// Remove a band other than the first and last
+export const removeEqBand = (eq: EqBand[], index: number): EqBand[] =>
+  index <= 0 || index >= eq.length - 1 || eq.length <= MIN_EQ_BANDS ? eq : eq.filter((_, i) => i !== index)
+
+// Set a filter to a band, ramping so that dragging a band doesn't click
+export const applyEqBand = (filter: BiquadFilterNode, band: EqBand): void => {
+  filter.type = band.type
+  smoothParam(filter.frequency, band.frequency, filter.context)
+  smoothParam(filter.gain, band.gain, filter.context)
+  smoothParam(filter.Q, band.q, filter.context)
+}
+
+// Filters for drawing the response; they are never connected, so one silent context serves them all
+let responseContext: OfflineAudioContext | null = null
+const responseFilters: BiquadFilterNode[] = []
+
+// Combined response of the bands at each frequency, in dB
+export const getEqResponse = (eq: EqBand[], frequencies: Float32Array): Float32Array => {
+  responseContext ??= new OfflineAudioContext(1, 1, 48000)
+  while (responseFilters.length < eq.length) {
+    responseFilters.push(responseContext.createBiquadFilter())
+  }
+
+  const response = new Float32Array(frequencies.length)
+  const magnitude = new Float32Array(frequencies.length)
+  const phase = new Float32Array(frequencies.length)
+  eq.forEach((band, i) => {
+    const filter = responseFilters[i]
+    filter.type = band.type
+    filter.frequency.value = band.frequency
+    filter.gain.value = band.gain
+    filter.Q.value = band.q
+    filter.getFrequencyResponse(frequencies, magnitude, phase)
+    for (let k = 0; k < frequencies.length; k++) {
+      response[k] += 20 * Math.log10(Math.max(magnitude[k], 1e-6))
+    }
+  })
+  return response
+}
@@ -0,0 +1,96 @@
+// Radix-2 complex FFT used by the spectral processors
+
+export class FFT {
+  readonly size: number
+  private readonly cosTable: Float64Array
+  private readonly sinTable: Float64Array
+  private readonly reverseTable: Uint32Array
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`)
+    }
+
+    this.size = size
+    this.cosTable = new Float64Array(size / 2)
+    this.sinTable = new Float64Array(size / 2)
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size)
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size)
+    }
+
+    // Bit-reversal permutation
+    const bits = Math.log2(size)
+    this.reverseTable = new Uint32Array(size)
+    for (let i = 0; i < size; i++) {
+      let reversed = 0
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >>> b) & 1)
+      }
+      this.reverseTable[i] = reversed
+    }
+  }
+
+  // In-place forward transform
+  forward(re: Float64Array, im: Float64Array): void {
+    this.transform(re, im, false)
+  }
+
+  // In-place inverse transform (scaled by 1/size)
+  inverse(re: Float64Array, im: Float64Array): void {
+    this.transform(re, im, true)
+    const scale = 1 / this.size
+    for (let i = 0; i < this.size; i++) {
+      re[i] *= scale
+      im[i] *= scale
+    }
+  }
+
+  private transform(re: Float64Array, im: Float64Array, inverse: boolean): void {
+    const n = this.size
+
+    for (let i = 0; i < n; i++) {
+      const j = this.reverseTable[i]
+      if (j > i) {
+        let tmp = re[i]
+        re[i] = re[j]
+        re[j] = tmp
+        tmp = im[i]
+        im[i] = im[j]
+        im[j] = tmp
+      }
+    }
+
+    const sign = inverse ? 1 : -1
+    for (let half = 1; half < n; half <<= 1) {
+      const step = n / (half * 2)
+      for (let start = 0; start < n; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cosTable[k * step]
+          const wi = sign * this.sinTable[k * step]
+          const a = start + k
+          const b = a + half
+          const tr = re[b] * wr - im[b] * wi
+          const ti = re[b] * wi + im[b] * wr
+          re[b] = re[a] - tr
+          im[b] = im[a] - ti
+          re[a] += tr
+          im[a] += ti
+        }
+      }
+    }
+  }
+}
+
+// Periodic Hann window
+export const createHannWindow = (size: number): Float64Array => {
+  const window = new Float64Array(size)
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size)
+  }
+  return window
+}
+
+// Samples a streaming STFT processor delays its output by: each input sample waits
+// for the last frame holding it to be overlap-added
+export const getStftLatency = (fftSize: number): number => fftSize
@@ -0,0 +1,65 @@
+// ID3v2.3 tag for the start of an MP3 file: title, artist and cover art
+
+import { concatBytes } from "./encoders/types"
+
+export interface Id3Tags {
+  title?: string
+  artist?: string
+  cover?: { mimeType: string; data: Uint8Array } // a JPEG or PNG image
+}
+
+const ENCODING_LATIN1 = 0
+const ENCODING_UTF16 = 1
+const PICTURE_FRONT_COVER = 3
+
+const latin1Bytes = (text: string): Uint8Array => Uint8Array.from(text, (char) => char.charCodeAt(0))
+
+// A text frame's content: Latin-1 when every character fits, otherwise UTF-16 with a byte order mark
+const encodeText = (text: string): Uint8Array => {
+  if (/^[\u0000-\u00ff]*$/.test(text)) {
+    return concatBytes([Uint8Array.of(ENCODING_LATIN1), latin1Bytes(text)])
+  }
+
+  const bytes = new Uint8Array(3 + text.length * 2)
+  bytes.set([ENCODING_UTF16, 0xff, 0xfe])
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    bytes[3 + i * 2] = code & 0xff
+    bytes[4 + i * 2] = code >> 8
+  }
+  return bytes
+}
+
+// Frame header: its id, size (not syncsafe in v2.3) and no flags
+const createFrame = (id: string, content: Uint8Array): Uint8Array => {
+  const frame = new Uint8Array(10 + content.length)
+  frame.set(latin1Bytes(id))
+  new DataView(frame.buffer).setUint32(4, content.length)
+  frame.set(content, 10)
+  return frame
+}
+
+// The tag's bytes, or none when there is nothing to tag
+export const createId3Tag = (tags: Id3Tags): Uint8Array => {
+  const frames: Uint8Array[] = []
+  if (tags.title) frames.push(createFrame("TIT2", encodeText(tags.title)))
+  if (tags.artist) frames.push(createFrame("TPE1", encodeText(tags.artist)))
+  if (tags.cover) {
+    // Encoding, MIME type, picture type, an empty description, then the image
+    const header = concatBytes([
+      Uint8Array.of(ENCODING_LATIN1),
+      latin1Bytes(tags.cover.mimeType),
+      Uint8Array.of(0, PICTURE_FRONT_COVER, 0),
+    ])
+    frames.push(createFrame("APIC", concatBytes([header, tags.cover.data])))
+  }
+  if (frames.length === 0) return new Uint8Array(0)
+
+  // Version 2.3, no flags, and the size after the header in 7-bit (syncsafe) bytes
+  const body = concatBytes(frames)
+  const header = Uint8Array.of(0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 0)
+  for (let i = 0; i < 4; i++) {
+    header[6 + i] = (body.length >> (7 * (3 - i))) & 0x7f
+  }
+  return concatBytes([header, body])
+}
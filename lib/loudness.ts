@@ -0,0 +1,239 @@
+// Export loudness: integrated loudness (ITU-R BS.1770, in LUFS) and true peak
+// (dBTP, from a 4x oversampled signal), normalization to a target loudness, and
+// a lookahead limiter that keeps the true peak under a ceiling. Everything works
+// on a rendered buffer, so the limiter can look as far ahead as it likes.
+
+export interface LoudnessMeasurement {
+  integrated: number // LUFS; -Infinity for silence
+  truePeak: number // dBTP; -Infinity for silence
+}
+
+export interface LoudnessReport {
+  before: LoudnessMeasurement
+  after: LoudnessMeasurement
+  gain: number // dB of normalization applied
+}
+
+export interface LoudnessSettings {
+  normalize: boolean
+  target: number // -30 to -8 LUFS
+  limit: boolean
+  ceiling: number // -6 to 0 dBTP
+}
+
+export const loudnessTargets: Array<{ value: number; label: string }> = [
+  { value: -23, label: "Broadcast" },
+  { value: -16, label: "Voice" },
+  { value: -14, label: "Social" },
+]
+
+export const defaultLoudnessSettings: LoudnessSettings = {
+  normalize: true,
+  target: -16,
+  limit: true,
+  ceiling: -1,
+}
+
+// Gating block of 400 ms, every 100 ms
+const BLOCK_TIME = 0.4
+const BLOCK_STEP_TIME = 0.1
+const ABSOLUTE_GATE = -70 // LUFS
+const RELATIVE_GATE = -10 // LU below the absolutely gated loudness
+
+// True peak interpolation: 4 points per sample from a windowed sinc over 12 samples
+const OVERSAMPLING = 4
+const INTERPOLATION_TAPS = 12
+
+// Limiter lookahead (the gain is down before a peak arrives) and release
+const LIMITER_LOOKAHEAD = 0.005
+const LIMITER_RELEASE = 0.1
+
+const toDecibels = (value: number): number => (value > 0 ? 20 * Math.log10(value) : -Infinity)
+
+// Biquad over a whole channel (direct form I)
+const filterChannel = (input: Float32Array, b: number[], a: number[]): Float32Array => {
+  const output = new Float32Array(input.length)
+  let x1 = 0
+  let x2 = 0
+  let y1 = 0
+  let y2 = 0
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i]
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2
+    x2 = x1
+    x1 = x
+    y2 = y1
+    y1 = y
+    output[i] = y
+  }
+  return output
+}
+
+// K-weighting (a high shelf for the head, then a high pass), designed for any
+// sample rate; at 48 kHz these are the coefficients given in BS.1770
+const kWeight = (channel: Float32Array, sampleRate: number): Float32Array => {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate)
+  let Q = 0.7071752369554196
+  const Vh = Math.pow(10, 3.999843853973347 / 20)
+  const Vb = Math.pow(Vh, 0.4996667741545416)
+  let a0 = 1 + K / Q + K * K
+  const shelved = filterChannel(
+    channel,
+    [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  )
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate)
+  Q = 0.5003270373238773
+  a0 = 1 + K / Q + K * K
+  return filterChannel(shelved, [1, -2, 1], [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0])
+}
+
+// Weight of a channel in the sum; the surrounds of a 5.1 layout count more
+const getChannelWeight = (channel: number, channelCount: number): number =>
+  channelCount === 6 && channel >= 4 ? 1.41 : 1
+
+// Gated integrated loudness of the channels
+export const measureIntegratedLoudness = (channels: Float32Array[], sampleRate: number): number => {
+  const weighted = channels.map((channel) => kWeight(channel, sampleRate))
+  const length = channels[0]?.length ?? 0
+  const blockLength = Math.min(length, Math.round(BLOCK_TIME * sampleRate))
+  const step = Math.round(BLOCK_STEP_TIME * sampleRate)
+  if (blockLength === 0) return -Infinity
+
+  // Weighted mean square of every block
+  const blocks: number[] = []
+  for (let start = 0; start + blockLength <= length; start += step) {
+    let power = 0
+    weighted.forEach((channel, c) => {
+      let sum = 0
+      for (let i = start; i < start + blockLength; i++) {
+        sum += channel[i] * channel[i]
+      }
+      power += (getChannelWeight(c, channels.length) * sum) / blockLength
+    })
+    blocks.push(power)
+  }
+
+  const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power)
+  const gatedMean = (threshold: number) => {
+    const passed = blocks.filter((power) => toLoudness(power) > threshold)
+    return passed.length > 0 ? passed.reduce((sum, power) => sum + power, 0) / passed.length : 0
+  }
+
+  const absoluteMean = gatedMean(ABSOLUTE_GATE)
+  if (absoluteMean === 0) return -Infinity
+  const relativeMean = gatedMean(toLoudness(absoluteMean) + RELATIVE_GATE)
+  return relativeMean > 0 ? toLoudness(relativeMean) : -Infinity
+}
+
+// interpolation[p][j]: weight of sample i - taps / 2 + 1 + j at i + p / OVERSAMPLING
+const interpolation = Array.from({ length: OVERSAMPLING }, (_, p) =>
+  Array.from({ length: INTERPOLATION_TAPS }, (_, j) => {
+    const t = p / OVERSAMPLING - (j - INTERPOLATION_TAPS / 2 + 1)
+    const half = INTERPOLATION_TAPS / 2
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t)
+    const window = 0.42 + 0.5 * Math.cos((Math.PI * t) / half) + 0.08 * Math.cos((2 * Math.PI * t) / half)
+    return sinc * window
+  }),
+)
+
+// Highest oversampled level from each sample up to the next, over all channels
+const getTruePeakEnvelope = (channels: Float32Array[]): Float32Array => {
+  const length = channels[0]?.length ?? 0
+  const envelope = new Float32Array(length)
+  const offset = INTERPOLATION_TAPS / 2 - 1
+
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      let peak = Math.abs(channel[i])
+      for (let p = 1; p < OVERSAMPLING; p++) {
+        const weights = interpolation[p]
+        let value = 0
+        for (let j = 0; j < INTERPOLATION_TAPS; j++) {
+          const k = i - offset + j
+          if (k >= 0 && k < length) value += channel[k] * weights[j]
+        }
+        peak = Math.max(peak, Math.abs(value))
+      }
+      envelope[i] = Math.max(envelope[i], peak)
+    }
+  }
+  return envelope
+}
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): LoudnessMeasurement => ({
+  integrated: measureIntegratedLoudness(channels, sampleRate),
+  truePeak: toDecibels(getTruePeakEnvelope(channels).reduce((peak, value) => Math.max(peak, value), 0)),
+})
+
+// Pull the true peaks under the ceiling. Each sample's gain is the lowest any
+// peak within the lookahead needs, ramped in over the lookahead and let go with
+// the release, the same on every channel so the stereo image holds.
+const limitTruePeak = (channels: Float32Array[], sampleRate: number, ceiling: number): void => {
+  const envelope = getTruePeakEnvelope(channels)
+  const length = envelope.length
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate))
+  const limit = Math.pow(10, ceiling / 20)
+
+  // Lowest gain needed from each sample to the end of its lookahead (a sliding
+  // minimum, with a queue of the samples that can still be the lowest)
+  const needed = envelope.map((peak) => (peak > limit ? limit / peak : 1))
+  const held = new Float32Array(length)
+  const queue = new Int32Array(length)
+  let head = 0
+  let tail = 0
+  for (let i = length - 1; i >= 0; i--) {
+    while (tail > head && needed[queue[tail - 1]] >= needed[i]) tail--
+    queue[tail++] = i
+    while (queue[head] > i + lookahead) head++
+    held[i] = needed[queue[head]]
+  }
+
+  // A peak is inside the hold of all of the lookahead samples before it, so
+  // their average is no more than the gain it needs. Before the start the
+  // first sample's hold applies, for peaks right at the start.
+  const releaseCoefficient = Math.exp(-1 / (LIMITER_RELEASE * sampleRate))
+  const start = held[0] ?? 1
+  let sum = start * lookahead
+  let gain = start
+  for (let i = 0; i < length; i++) {
+    sum += held[i]
+    sum -= i >= lookahead ? held[i - lookahead] : start
+    const target = sum / lookahead
+    gain = target < gain ? target : target + (gain - target) * releaseCoefficient
+
+    for (const channel of channels) {
+      channel[i] *= gain
+    }
+  }
+}
+
+// Normalize and limit the channels in place, reporting the loudness before and after
+export const processLoudness = (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: LoudnessSettings,
+): LoudnessReport => {
+  const before = measureLoudness(channels, sampleRate)
+
+  const gain = settings.normalize && isFinite(before.integrated) ? settings.target - before.integrated : 0
+  if (gain !== 0) {
+    const factor = Math.pow(10, gain / 20)
+    for (const channel of channels) {
+      for (let i = 0; i < channel.length; i++) {
+        channel[i] *= factor
+      }
+    }
+  }
+
+  if (settings.limit) {
+    limitTruePeak(channels, sampleRate, settings.ceiling)
+  }
+
+  const after = gain !== 0 || settings.limit ? measureLoudness(channels, sampleRate) : before
+  return { before, after, gain }
+}
+
+export const formatLoudness = (value: number, unit: "LUFS" | "dBTP"): string =>
+  isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`
@@ -0,0 +1,339 @@
+// Modulation: global LFOs and envelope followers routed to effect parameters.
+// A source is an audio-rate control signal added to the AudioParams a parameter
+// drives (the same targets automation uses), so it moves the parameter around
+// its set value or its automation lane.
+
+import { createWorkletNode, getWorkletParam, smoothParam } from "./audio-worklets"
+import type { AutomatableParam, AutomationTarget, ParamRef } from "./automation"
+
+export type LfoShape = "sine" | "triangle" | "square" | "sawtooth" | "sampleHold"
+
+export interface Lfo {
+  id: string
+  kind: "lfo"
+  shape: LfoShape
+  rate: number // 0.05 to 20 Hz, used when not synced
+  sync: boolean // derive the rate from the tempo
+  division: number // beats per cycle when synced
+  depth: number // 0 to 1
+}
+
+// Follows the level of the recording before any effect
+export interface EnvelopeFollower {
+  id: string
+  kind: "envelope"
+  attack: number // seconds
+  release: number // seconds
+  depth: number // 0 to 1
+}
+
+export type ModulationSource = Lfo | EnvelopeFollower
+
+// One cell of the matrix: a source applied to a parameter. At full depth and an
+// amount of ±1 an LFO swings the parameter by half its range either way, and an
+// envelope at full level pushes it by its whole range.
+export interface ModulationRoute {
+  id: string
+  sourceId: string
+  target: ParamRef
+  amount: number // -1 to 1
+}
+
+export interface ModulationSettings {
+  tempo: number // BPM for synced LFOs
+  sources: ModulationSource[]
+  routes: ModulationRoute[]
+}
+
+export const defaultModulation: ModulationSettings = { tempo: 120, sources: [], routes: [] }
+
+export const lfoShapes: Array<{ value: LfoShape; label: string }> = [
+  { value: "sine", label: "Sine" },
+  { value: "triangle", label: "Triangle" },
+  { value: "square", label: "Square" },
+  { value: "sawtooth", label: "Saw" },
+  { value: "sampleHold", label: "Sample & hold" },
+]
+
+// Cycle lengths for synced LFOs, in beats
+export const lfoDivisions: Array<{ value: number; label: string }> = [
+  { value: 16, label: "4 bars" },
+  { value: 8, label: "2 bars" },
+  { value: 4, label: "1 bar" },
+  { value: 2, label: "1/2" },
+  { value: 1, label: "1/4" },
+  { value: 0.5, label: "1/8" },
+  { value: 0.25, label: "1/16" },
+]
+
+const createModulationId = (prefix: string): string => `${prefix}-${Math.random().toString(36).slice(2, 10)}`
+
+export const createLfo = (): Lfo => ({
+  id: createModulationId("lfo"),
+  kind: "lfo",
+  shape: "sine",
+  rate: 1,
+  sync: false,
+  division: 4,
+  depth: 1,
+})
+
+export const createEnvelopeFollower = (): EnvelopeFollower => ({
+  id: createModulationId("envelope"),
+  kind: "envelope",
+  attack: 0.01,
+  release: 0.2,
+  depth: 1,
+})
+
+export const createModulationRoute = (sourceId: string, target: ParamRef, amount: number): ModulationRoute => ({
+  id: createModulationId("route"),
+  sourceId,
+  target,
+  amount,
+})
+
+// LFO frequency in Hz
+export const getLfoRate = (lfo: Lfo, tempo: number): number => (lfo.sync ? tempo / 60 / lfo.division : lfo.rate)
+
+// Sample & hold plays a looped buffer of random steps; its playback rate sets the step rate
+const SAMPLE_HOLD_STEPS = 64
+const SAMPLE_HOLD_STEP_LENGTH = 128 // samples per step
+
+interface LfoNodes {
+  kind: "lfo"
+  shape: LfoShape
+  node: OscillatorNode | AudioBufferSourceNode
+  rate: AudioParam
+  rateScale: number // rate param value per Hz
+}
+
+interface EnvelopeFollowerNodes {
+  kind: "envelope"
+  node: AudioWorkletNode
+}
+
+type ModulationSourceNodes = LfoNodes | EnvelopeFollowerNodes
+
+// A route's gains from its source to each AudioParam of the parameter
+interface ModulationRouteNodes {
+  source: ModulationSourceNodes
+  params: AudioParam[]
+  gains: GainNode[]
+}
+
+export interface ModulationNodes {
+  input: AudioNode // the signal envelope followers follow
+  sources: Map<string, ModulationSourceNodes>
+  routes: Map<string, ModulationRouteNodes>
+  // Update in progress; each one waits for the previous one
+  updating: Promise<void>
+}
+
+// A route's parameter in the graph: the AudioParams it drives, its range and set value
+export interface ModulationDestination {
+  targets: AutomationTarget[]
+  range: AutomatableParam
+  value: number
+}
+
+export const createModulationNodes = (input: AudioNode): ModulationNodes => ({
+  input,
+  sources: new Map(),
+  routes: new Map(),
+  updating: Promise.resolve(),
+})
+
+// Build a source, or null if it can't run in this context
+const createSourceNodes = async (
+  audioContext: BaseAudioContext,
+  input: AudioNode,
+  source: ModulationSource,
+  tempo: number,
+): Promise<ModulationSourceNodes | null> => {
+  if (source.kind === "envelope") {
+    const node = await createWorkletNode(audioContext, "envelope-follower-processor", {
+      outputChannelCount: [1],
+      parameterData: { attack: source.attack, release: source.release },
+    })
+    if (!node) return null
+    input.connect(node)
+    return { kind: "envelope", node }
+  }
+
+  const rate = getLfoRate(source, tempo)
+
+  if (source.shape === "sampleHold") {
+    const buffer = audioContext.createBuffer(1, SAMPLE_HOLD_STEPS * SAMPLE_HOLD_STEP_LENGTH, audioContext.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let step = 0; step < SAMPLE_HOLD_STEPS; step++) {
+      data.fill(Math.random() * 2 - 1, step * SAMPLE_HOLD_STEP_LENGTH, (step + 1) * SAMPLE_HOLD_STEP_LENGTH)
+    }
+
+    const node = audioContext.createBufferSource()
+    node.buffer = buffer
+    node.loop = true
+    const rateScale = SAMPLE_HOLD_STEP_LENGTH / audioContext.sampleRate
+    node.playbackRate.value = rate * rateScale
+    node.start()
+    return { kind: "lfo", shape: source.shape, node, rate: node.playbackRate, rateScale }
+  }
+
+  const node = audioContext.createOscillator()
+  node.type = source.shape
+  node.frequency.value = rate
+  node.start()
+  return { kind: "lfo", shape: source.shape, node, rate: node.frequency, rateScale: 1 }
+}
+
+// Whether a source's nodes can follow its settings in place
+const matchesSource = (nodes: ModulationSourceNodes, source: ModulationSource): boolean =>
+  nodes.kind === source.kind && (nodes.kind !== "lfo" || (source.kind === "lfo" && nodes.shape === source.shape))
+
+const updateSourceNodes = (nodes: ModulationSourceNodes, source: ModulationSource, tempo: number) => {
+  const audioContext = nodes.node.context
+  if (nodes.kind === "lfo" && source.kind === "lfo") {
+    smoothParam(nodes.rate, getLfoRate(source, tempo) * nodes.rateScale, audioContext)
+  } else if (nodes.kind === "envelope" && source.kind === "envelope") {
+    smoothParam(getWorkletParam(nodes.node, "envelope-follower-processor", "attack"), source.attack, audioContext)
+    smoothParam(getWorkletParam(nodes.node, "envelope-follower-processor", "release"), source.release, audioContext)
+  }
+}
+
+const disposeSourceNodes = (input: AudioNode, nodes: ModulationSourceNodes) => {
+  if (nodes.kind === "lfo") {
+    nodes.node.stop()
+  } else {
+    input.disconnect(nodes.node)
+  }
+  nodes.node.disconnect()
+}
+
+const disposeRouteNodes = (nodes: ModulationRouteNodes) => {
+  for (const gain of nodes.gains) {
+    nodes.source.node.disconnect(gain)
+    gain.disconnect()
+  }
+}
+
+// Release a source together with the routes that read from it
+const removeSource = (nodes: ModulationNodes, id: string) => {
+  const sourceNodes = nodes.sources.get(id)
+  if (!sourceNodes) return
+
+  for (const [routeId, route] of nodes.routes) {
+    if (route.source === sourceNodes) {
+      disposeRouteNodes(route)
+      nodes.routes.delete(routeId)
+    }
+  }
+  disposeSourceNodes(nodes.input, sourceNodes)
+  nodes.sources.delete(id)
+}
+
+// How far the AudioParam moves per unit of the parameter around its value.
+// Mapped params (like a pitch ratio) are linearised there.
+const getSlope = ({ map }: AutomationTarget, range: AutomatableParam, value: number): number => {
+  if (!map) return 1
+  const delta = (range.max - range.min) * 1e-3
+  return (map(value + delta) - map(value - delta)) / (2 * delta)
+}
+
+// Gain from a source's signal to one AudioParam of the route's parameter
+const getRouteGain = (
+  source: ModulationSource,
+  route: ModulationRoute,
+  destination: ModulationDestination,
+  target: AutomationTarget,
+): number => {
+  const { range, value } = destination
+  const span = (range.max - range.min) * (source.kind === "lfo" ? 0.5 : 1)
+  return route.amount * source.depth * span * getSlope(target, range, value)
+}
+
+const applyModulation = async (
+  nodes: ModulationNodes,
+  settings: ModulationSettings,
+  resolve: (target: ParamRef) => ModulationDestination | null,
+) => {
+  const audioContext = nodes.input.context
+
+  // Sources that changed kind or shape are rebuilt, the others follow in place
+  for (const source of settings.sources) {
+    const existing = nodes.sources.get(source.id)
+    if (existing && matchesSource(existing, source)) {
+      updateSourceNodes(existing, source, settings.tempo)
+      continue
+    }
+
+    removeSource(nodes, source.id)
+    const created = await createSourceNodes(audioContext, nodes.input, source, settings.tempo)
+    if (created) nodes.sources.set(source.id, created)
+  }
+
+  for (const id of nodes.sources.keys()) {
+    if (!settings.sources.some((source) => source.id === id)) removeSource(nodes, id)
+  }
+
+  // Routes are reconnected when their parameter now drives other AudioParams,
+  // e.g. after its effect was rebuilt
+  const activeRoutes = new Set<string>()
+  for (const route of settings.routes) {
+    const source = settings.sources.find((candidate) => candidate.id === route.sourceId)
+    const sourceNodes = nodes.sources.get(route.sourceId)
+    const destination = resolve(route.target)
+    if (!source || !sourceNodes || !destination || destination.targets.length === 0) continue
+    activeRoutes.add(route.id)
+
+    const gainValues = destination.targets.map((target) => getRouteGain(source, route, destination, target))
+    const params = destination.targets.map((target) => target.param)
+
+    const existing = nodes.routes.get(route.id)
+    if (
+      existing &&
+      existing.source === sourceNodes &&
+      existing.params.length === params.length &&
+      existing.params.every((param, i) => param === params[i])
+    ) {
+      existing.gains.forEach((gain, i) => smoothParam(gain.gain, gainValues[i], audioContext))
+      continue
+    }
+
+    if (existing) disposeRouteNodes(existing)
+    const gains = params.map((param, i) => {
+      const gain = audioContext.createGain()
+      gain.gain.value = gainValues[i]
+      sourceNodes.node.connect(gain)
+      gain.connect(param)
+      return gain
+    })
+    nodes.routes.set(route.id, { source: sourceNodes, params, gains })
+  }
+
+  for (const [id, route] of nodes.routes) {
+    if (!activeRoutes.has(id)) {
+      disposeRouteNodes(route)
+      nodes.routes.delete(id)
+    }
+  }
+}
+
+// Bring the sources and routes in line with the settings. `resolve` finds a
+// route's parameter in the graph, or null if it isn't there (e.g. a disabled effect).
+export const updateModulation = (
+  nodes: ModulationNodes,
+  settings: ModulationSettings,
+  resolve: (target: ParamRef) => ModulationDestination | null,
+): Promise<void> => {
+  nodes.updating = nodes.updating
+    .then(() => applyModulation(nodes, settings, resolve))
+    .catch((error) => console.error("Failed to update modulation:", error))
+  return nodes.updating
+}
+
+// Stop every source and disconnect every route
+export const disposeModulation = (nodes: ModulationNodes): void => {
+  for (const id of [...nodes.sources.keys()]) {
+    removeSource(nodes, id)
+  }
+}
@@ -0,0 +1,879 @@
+// MP3 (MPEG-1 Layer III) encoder. The signal goes through the standard polyphase
+// filterbank and MDCT (long blocks only), a simple masking model gives the noise
+// each scalefactor band can take, and every granule is quantized as coarsely as
+// that allows. Constant bitrate then fits each granule to its share of the bits,
+// borrowing from the bit reservoir; variable bitrate gives each frame the lowest
+// bitrate it fits in, and a Xing header for its duration and seeking.
+// Plain computation on arrays, so it runs the same in the MP3 worker.
+
+import { BitWriter } from "./bit-writer"
+import {
+  COUNT1_TABLES,
+  HUFFMAN_TABLES,
+  type HuffmanTable,
+  MP3_BITRATES,
+  MP3_SAMPLE_RATES,
+  SCALEFACTOR_BANDS,
+  SCALEFACTOR_LENGTHS,
+  SYNTHESIS_WINDOW_HALF,
+} from "./mp3-tables"
+import { resampleChannel } from "./phase-vocoder"
+
+export type Mp3Settings = {
+  mode: "cbr" | "vbr"
+  bitrate: number // kbps, for constant bitrate
+  quality: number // 0 (best) to 9, for variable bitrate
+}
+
+export const defaultMp3Settings: Mp3Settings = {
+  mode: "cbr",
+  bitrate: 192,
+  quality: 2,
+}
+
+// Choices offered for each mode
+export const mp3Bitrates = [96, 128, 192, 256, 320]
+export const mp3Qualities: Array<{ value: number; label: string }> = [
+  { value: 0, label: "Best" },
+  { value: 2, label: "High" },
+  { value: 4, label: "Medium" },
+  { value: 6, label: "Small" },
+]
+
+const GRANULE_SIZE = 576
+const FRAME_SIZE = 1152
+const SUBBANDS = 32
+const SUBBAND_SAMPLES = 18
+// Samples the encoder's and decoder's filterbanks delay the signal by together
+const CODEC_DELAY = 1057
+
+const MAX_QUANTIZED = 8206 // 15 plus the largest 13-bit escape
+const MAX_PART23_BITS = 4095
+const MAX_MAIN_DATA_BEGIN = 511 // bytes a frame's data can start before it, in the reservoir
+// Quantizer rounding: a little under one half, as the 4/3 power skews the error upwards
+const ROUNDING = 0.4054
+const MAX_SCALEFACTOR_BAND = 21 // the band above has no scalefactor
+
+const MODE_JOINT_STEREO = 1
+const MODE_MONO = 3
+const MODE_EXTENSION_MS = 2
+
+// Frames are mid/side coded while the side carries less than this much of the mid's energy
+const MS_THRESHOLD = 0.35
+// How quickly the constant bitrate's running average of the bits frames ask for moves
+const AVERAGE_COEFFICIENT = 0.05
+// Level of a full-scale signal for the threshold of hearing (dB SPL), and the
+// MDCT energy a full-scale sine gives a granule
+const FULL_SCALE_SPL = 96
+const FULL_SCALE_ENERGY = 1
+// The threshold of hearing is capped here (dB SPL), so no band is dropped outright
+const MAX_HEARING_THRESHOLD = 60
+// How far masking spreads to the band above and the band below
+const SPREAD_UP = 0.1
+const SPREAD_DOWN = 0.01
+// Noise-like bands mask their own noise, so take this much (dB) more than tones.
+// Spectral flatness (dB, over at least FLATNESS_LINES lines around a band) of white
+// noise in the MDCT, and from where a band counts as a tone.
+const NOISE_MASKING = 18
+const FLATNESS_LINES = 16
+const NOISE_FLATNESS = -6
+const TONAL_FLATNESS = -18
+
+// Analysis window C, which is the synthesis window D / 32
+const analysisWindow = (() => {
+  const window = new Float64Array(512)
+  for (let i = 0; i <= 256; i++) {
+    window[i] = SYNTHESIS_WINDOW_HALF[i] / 65536 / 32
+  }
+  for (let i = 1; i < 256; i++) {
+    window[512 - i] = i % 64 === 0 ? window[i] : -window[i]
+  }
+  return window
+})()
+
+// Matrixing of the windowed samples into the 32 subbands
+const filterbankCosines = Float64Array.from({ length: SUBBANDS * 64 }, (_, index) => {
+  const k = Math.floor(index / 64)
+  const i = index % 64
+  return Math.cos(((2 * k + 1) * (i - 16) * Math.PI) / 64)
+})
+
+// MDCT of 36 windowed subband samples into 18 lines, scaled for the decoder's inverse
+const mdctCosines = Float64Array.from({ length: SUBBAND_SAMPLES * 36 }, (_, index) => {
+  const m = Math.floor(index / 36)
+  const i = index % 36
+  const window = Math.sin((Math.PI / 36) * (i + 0.5))
+  return (window * Math.cos((Math.PI / 72) * (2 * i + 19) * (2 * m + 1))) / 9
+})
+
+// Alias reduction butterflies between neighbouring subbands
+const aliasCoefficients = [-0.6, -0.535, -0.33, -0.185, -0.095, -0.041, -0.0142, -0.0037]
+const aliasCs = aliasCoefficients.map((c) => 1 / Math.sqrt(1 + c * c))
+const aliasCa = aliasCoefficients.map((c) => c / Math.sqrt(1 + c * c))
+
+// |q|^(4/3) of every quantized value
+const pow43 = Float64Array.from({ length: MAX_QUANTIZED + 1 }, (_, q) => Math.pow(q, 4 / 3))
+
+// Big-value tables worth trying by the largest value in a region (up to 15)
+const smallTableChoices = [[], [1], [2, 3], [5, 6], [7, 8, 9], [7, 8, 9], [10, 11, 12], [10, 11, 12]]
+// Region sizes (region0_count, region1_count) by the number of bands the big values reach into
+const regionCounts = [
+  [0, 0], [0, 0], [0, 0], [0, 0], [0, 0], [0, 1], [1, 1], [1, 1], [1, 2], [2, 2], [2, 3], [2, 3],
+  [3, 4], [3, 4], [3, 4], [4, 5], [4, 5], [4, 6], [5, 6], [5, 6], [5, 7], [6, 7], [6, 7],
+]
+
+// Filterbank state of one channel
+interface ChannelState {
+  samples: Float64Array // the last 512 input samples, newest at offset
+  offset: number
+  previous: Float64Array // the last granule's subband samples, 18 per subband
+  current: Float64Array
+}
+
+// One channel of one granule, from its MDCT lines to its Huffman coding
+interface Granule {
+  xr: Float64Array
+  xr34: Float64Array // |xr|^(3/4)
+  allowed: Float64Array // noise each band can take
+  values: Int32Array // quantized magnitudes
+  globalGain: number
+  scalefacScale: number
+  scalefactors: Int32Array
+  scalefacCompress: number
+  part2Length: number
+  part23Length: number
+  bigValues: number
+  count1: number
+  tableSelect: number[]
+  region0Count: number
+  region1Count: number
+  count1Table: number
+}
+
+const createChannelState = (): ChannelState => ({
+  samples: new Float64Array(512),
+  offset: 0,
+  previous: new Float64Array(SUBBANDS * SUBBAND_SAMPLES),
+  current: new Float64Array(SUBBANDS * SUBBAND_SAMPLES),
+})
+
+const createGranule = (): Granule => ({
+  xr: new Float64Array(GRANULE_SIZE),
+  xr34: new Float64Array(GRANULE_SIZE),
+  allowed: new Float64Array(MAX_SCALEFACTOR_BAND + 1),
+  values: new Int32Array(GRANULE_SIZE),
+  globalGain: 210,
+  scalefacScale: 0,
+  scalefactors: new Int32Array(MAX_SCALEFACTOR_BAND),
+  scalefacCompress: 0,
+  part2Length: 0,
+  part23Length: 0,
+  bigValues: 0,
+  count1: 0,
+  tableSelect: [0, 0, 0],
+  region0Count: 0,
+  region1Count: 0,
+  count1Table: 0,
+})
+
+const windowSums = new Float64Array(64)
+
+// Filter 576 samples from `start` into the granule's MDCT lines
+const analyzeGranule = (state: ChannelState, input: Float32Array, start: number, xr: Float64Array) => {
+  const { samples, previous, current } = state
+
+  // Polyphase filterbank: 18 samples in each of the 32 subbands
+  for (let t = 0; t < SUBBAND_SAMPLES; t++) {
+    state.offset = (state.offset - 32) & 511
+    const first = start + t * 32
+    for (let n = 0; n < 32; n++) {
+      const index = first + n
+      samples[(state.offset + 31 - n) & 511] = index < input.length ? input[index] : 0
+    }
+
+    for (let i = 0; i < 64; i++) {
+      let sum = 0
+      for (let j = 0; j < 8; j++) {
+        sum += analysisWindow[i + 64 * j] * samples[(state.offset + i + 64 * j) & 511]
+      }
+      windowSums[i] = sum
+    }
+
+    for (let k = 0; k < SUBBANDS; k++) {
+      let sum = 0
+      for (let i = 0; i < 64; i++) {
+        sum += filterbankCosines[k * 64 + i] * windowSums[i]
+      }
+      // Odd subbands are inverted in frequency, which negates their odd samples
+      current[k * SUBBAND_SAMPLES + t] = k % 2 === 1 && t % 2 === 1 ? -sum : sum
+    }
+  }
+
+  // MDCT over the last two granules of each subband
+  for (let k = 0; k < SUBBANDS; k++) {
+    const base = k * SUBBAND_SAMPLES
+    for (let m = 0; m < SUBBAND_SAMPLES; m++) {
+      const row = m * 36
+      let sum = 0
+      for (let i = 0; i < SUBBAND_SAMPLES; i++) {
+        sum += previous[base + i] * mdctCosines[row + i] + current[base + i] * mdctCosines[row + 18 + i]
+      }
+      xr[base + m] = sum
+    }
+  }
+
+  // Alias reduction, which the decoder undoes
+  for (let k = 1; k < SUBBANDS; k++) {
+    const base = k * SUBBAND_SAMPLES
+    for (let i = 0; i < 8; i++) {
+      const upper = xr[base - 1 - i]
+      const lower = xr[base + i]
+      xr[base - 1 - i] = upper * aliasCs[i] + lower * aliasCa[i]
+      xr[base + i] = lower * aliasCs[i] - upper * aliasCa[i]
+    }
+  }
+
+  state.previous = current
+  state.current = previous
+}
+
+// Threshold of hearing (dB SPL) at a frequency, after Terhardt
+const getHearingThreshold = (frequency: number): number => {
+  const f = Math.max(frequency, 20) / 1000
+  const threshold = 3.64 * Math.pow(f, -0.8) - 6.5 * Math.exp(-0.6 * Math.pow(f - 3.3, 2)) + 0.001 * Math.pow(f, 4)
+  return Math.min(threshold, MAX_HEARING_THRESHOLD)
+}
+
+// Noise each band can take at the threshold of hearing, from its quietest frequency
+const getHearingThresholds = (bands: number[], sampleRate: number): Float64Array =>
+  Float64Array.from({ length: bands.length - 1 }, (_, b) => {
+    let threshold = Infinity
+    for (let i = bands[b]; i < bands[b + 1]; i++) {
+      threshold = Math.min(threshold, getHearingThreshold(((i + 0.5) * sampleRate) / 2 / GRANULE_SIZE))
+    }
+    return FULL_SCALE_ENERGY * Math.pow(10, (threshold - FULL_SCALE_SPL) / 10)
+  })
+
+const bandEnergies = new Float64Array(MAX_SCALEFACTOR_BAND + 1)
+const bandTonalities = new Float64Array(MAX_SCALEFACTOR_BAND + 1)
+
+// Noise each band can take: its energy with a little of its neighbours', `snr` dB
+// down for tones and less for noise, but no less than the threshold of hearing
+const setAllowedNoise = (granule: Granule, bands: number[], hearing: Float64Array, snr: number) => {
+  const bandCount = bands.length - 1
+  for (let b = 0; b < bandCount; b++) {
+    let energy = 0
+    for (let i = bands[b]; i < bands[b + 1]; i++) {
+      energy += granule.xr[i] * granule.xr[i]
+    }
+    bandEnergies[b] = energy
+
+    // Spectral flatness: geometric mean energy of the lines over their mean. Narrow
+    // bands are widened, as a few lines are too few to tell a tone from noise.
+    let start = bands[b]
+    let end = bands[b + 1]
+    while (end - start < FLATNESS_LINES) {
+      start = Math.max(0, start - 1)
+      end = Math.min(GRANULE_SIZE, end + 1)
+    }
+    let sum = 0
+    let logSum = 0
+    for (let i = start; i < end; i++) {
+      const line = granule.xr[i] * granule.xr[i] + 1e-20
+      sum += line
+      logSum += Math.log10(line)
+    }
+    const flatness = 10 * (logSum / (end - start) - Math.log10(sum / (end - start)))
+    const tonality = (flatness - NOISE_FLATNESS) / (TONAL_FLATNESS - NOISE_FLATNESS)
+    bandTonalities[b] = Math.min(1, Math.max(0, tonality))
+  }
+
+  for (let b = 0; b < bandCount; b++) {
+    const below = b > 0 ? bandEnergies[b - 1] * SPREAD_UP : 0
+    const above = b < bandCount - 1 ? bandEnergies[b + 1] * SPREAD_DOWN : 0
+    const bandSnr = snr - NOISE_MASKING * (1 - bandTonalities[b])
+    granule.allowed[b] = Math.max(hearing[b], (bandEnergies[b] + below + above) * Math.pow(10, -bandSnr / 10))
+  }
+
+  for (let i = 0; i < GRANULE_SIZE; i++) {
+    granule.xr34[i] = Math.pow(Math.abs(granule.xr[i]), 0.75)
+  }
+}
+
+// Step, in the quantizer's quarter-power-of-two units, of a band
+const getBandGain = (granule: Granule, band: number): number => {
+  if (band >= MAX_SCALEFACTOR_BAND) return granule.globalGain
+  return granule.globalGain - (granule.scalefacScale ? 4 : 2) * granule.scalefactors[band]
+}
+
+// Quantize the granule with its gains; false if a value would be too large to code
+const quantizeGranule = (granule: Granule, bands: number[]): boolean => {
+  for (let b = 0; b < bands.length - 1; b++) {
+    const factor = Math.pow(2, -0.1875 * (getBandGain(granule, b) - 210))
+    for (let i = bands[b]; i < bands[b + 1]; i++) {
+      const value = Math.floor(granule.xr34[i] * factor + ROUNDING)
+      if (value > MAX_QUANTIZED) return false
+      granule.values[i] = value
+    }
+  }
+  return true
+}
+
+// Squared error of a band quantized with `gain`; Infinity if a value is too large
+const getBandNoise = (granule: Granule, start: number, end: number, gain: number): number => {
+  const factor = Math.pow(2, -0.1875 * (gain - 210))
+  const step = Math.pow(2, 0.25 * (gain - 210))
+  let noise = 0
+  for (let i = start; i < end; i++) {
+    const value = Math.floor(granule.xr34[i] * factor + ROUNDING)
+    if (value > MAX_QUANTIZED) return Infinity
+    const error = Math.abs(granule.xr[i]) - pow43[value] * step
+    noise += error * error
+  }
+  return noise
+}
+
+const countPairBits = (values: Int32Array, start: number, end: number, table: HuffmanTable): number => {
+  const { size, linbits, lengths } = table
+  let bits = 0
+  for (let i = start; i < end; i += 2) {
+    let x = values[i]
+    let y = values[i + 1]
+    if (x > 14 && linbits) {
+      bits += linbits
+      x = 15
+    }
+    if (y > 14 && linbits) {
+      bits += linbits
+      y = 15
+    }
+    bits += lengths[x * size + y] + (x ? 1 : 0) + (y ? 1 : 0)
+  }
+  return bits
+}
+
+// Cheapest big-value table for a region
+const chooseTable = (values: Int32Array, start: number, end: number): { table: number; bits: number } => {
+  let max = 0
+  for (let i = start; i < end; i++) {
+    max = Math.max(max, values[i])
+  }
+  if (max === 0) return { table: 0, bits: 0 }
+
+  let candidates: number[]
+  if (max < smallTableChoices.length) {
+    candidates = smallTableChoices[max]
+  } else if (max <= 15) {
+    candidates = [13, 15]
+  } else {
+    // The first table of each escape family with enough linbits
+    const linbits = Math.ceil(Math.log2(max - 15 + 1))
+    candidates = [16, 24].map((first) => {
+      let table = first
+      while (HUFFMAN_TABLES[table]!.linbits < linbits) table++
+      return table
+    })
+  }
+
+  let best = { table: 0, bits: Infinity }
+  for (const table of candidates) {
+    const bits = countPairBits(values, start, end, HUFFMAN_TABLES[table]!)
+    if (bits < best.bits) best = { table, bits }
+  }
+  return best
+}
+
+// Split the values into big values and quadruples, pick the scalefactor lengths
+// and Huffman tables, and count the bits. Returns part2_3_length.
+const countGranuleBits = (granule: Granule, bands: number[]): number => {
+  const { values } = granule
+
+  // Zero pairs at the top are left out; then quadruples of zeros and ones
+  let end = GRANULE_SIZE
+  while (end > 0 && values[end - 1] === 0 && values[end - 2] === 0) end -= 2
+  let count1 = 0
+  while (end >= 4 && values[end - 1] <= 1 && values[end - 2] <= 1 && values[end - 3] <= 1 && values[end - 4] <= 1) {
+    end -= 4
+    count1++
+  }
+  granule.bigValues = end / 2
+  granule.count1 = count1
+
+  // Count1 region, with whichever quadruple table is smaller
+  let bitsA = 0
+  let bitsB = 0
+  for (let i = end; i < end + count1 * 4; i += 4) {
+    const index = values[i] * 8 + values[i + 1] * 4 + values[i + 2] * 2 + values[i + 3]
+    const signs = values[i] + values[i + 1] + values[i + 2] + values[i + 3]
+    bitsA += COUNT1_TABLES[0].lengths[index] + signs
+    bitsB += COUNT1_TABLES[1].lengths[index] + signs
+  }
+  granule.count1Table = bitsB < bitsA ? 1 : 0
+  let bits = Math.min(bitsA, bitsB)
+
+  // Big values in three regions, split on band edges
+  let bandIndex = 1
+  while (bands[bandIndex] < end) bandIndex++
+  const [region0Count, region1Count] = regionCounts[bandIndex]
+  granule.region0Count = region0Count
+  granule.region1Count = region1Count
+  const region1 = Math.min(bands[region0Count + 1], end)
+  const region2 = Math.min(bands[region0Count + region1Count + 2], end)
+  const regions = [
+    [0, region1],
+    [region1, region2],
+    [region2, end],
+  ]
+  regions.forEach(([start, regionEnd], region) => {
+    const choice = chooseTable(values, start, regionEnd)
+    granule.tableSelect[region] = choice.table
+    bits += choice.bits
+  })
+
+  // Scalefactors, in the fewest bits that hold them
+  let max1 = 0
+  let max2 = 0
+  for (let b = 0; b < MAX_SCALEFACTOR_BAND; b++) {
+    if (b < 11) max1 = Math.max(max1, granule.scalefactors[b])
+    else max2 = Math.max(max2, granule.scalefactors[b])
+  }
+  granule.part2Length = Infinity
+  SCALEFACTOR_LENGTHS.forEach(([slen1, slen2], compress) => {
+    const length = 11 * slen1 + 10 * slen2
+    if (max1 < 1 << slen1 && max2 < 1 << slen2 && length < granule.part2Length) {
+      granule.part2Length = length
+      granule.scalefacCompress = compress
+    }
+  })
+
+  granule.part23Length = granule.part2Length + bits
+  return granule.part23Length
+}
+
+// Largest gain (coarsest step) a band can take for its allowed noise
+const findBandGain = (granule: Granule, start: number, end: number, allowed: number, lowest: number): number => {
+  if (getBandNoise(granule, start, end, lowest) > allowed) return lowest
+
+  let low = lowest
+  let high = 256
+  while (high - low > 1) {
+    const middle = (low + high) >> 1
+    if (getBandNoise(granule, start, end, middle) <= allowed) low = middle
+    else high = middle
+  }
+  return low
+}
+
+const largestScalefactor = (band: number): number => (band < 11 ? 15 : 7)
+
+// Quantize the granule as coarsely as each band's allowed noise lets it, with
+// whichever scalefactor scale takes fewer bits
+const quantizeForNoise = (granule: Granule, bands: number[]) => {
+  const bandCount = bands.length - 1
+  const gains = new Int32Array(bandCount)
+  const lowest = new Int32Array(bandCount)
+  const active: boolean[] = []
+
+  for (let b = 0; b < bandCount; b++) {
+    let max = 0
+    for (let i = bands[b]; i < bands[b + 1]; i++) {
+      max = Math.max(max, granule.xr34[i])
+    }
+    active[b] = max > 0
+    if (!active[b]) continue
+
+    // The finest step that still keeps every value codable
+    const finest = Math.floor(210 + Math.log2(max / (MAX_QUANTIZED + 1 - ROUNDING)) / 0.1875) + 1
+    lowest[b] = Math.min(255, Math.max(0, finest))
+    gains[b] = findBandGain(granule, bands[b], bands[b + 1], granule.allowed[b], lowest[b])
+  }
+
+  let best: { globalGain: number; scalefacScale: number; scalefactors: Int32Array; bits: number } | null = null
+  for (const scalefacScale of [0, 1]) {
+    const unit = scalefacScale ? 4 : 2
+
+    // The global gain is the coarsest band's, as far as the others' scalefactors reach
+    let globalGain = -Infinity
+    let limit = 255
+    let floor = 0
+    for (let b = 0; b < bandCount; b++) {
+      if (!active[b]) continue
+      floor = Math.max(floor, lowest[b])
+      if (b < MAX_SCALEFACTOR_BAND) {
+        globalGain = Math.max(globalGain, gains[b])
+        limit = Math.min(limit, gains[b] + unit * largestScalefactor(b))
+      } else {
+        limit = Math.min(limit, gains[b])
+      }
+    }
+    if (globalGain === -Infinity) globalGain = limit
+    globalGain = Math.min(255, Math.max(floor, Math.min(globalGain, limit)))
+
+    const scalefactors = new Int32Array(MAX_SCALEFACTOR_BAND)
+    for (let b = 0; b < MAX_SCALEFACTOR_BAND; b++) {
+      if (!active[b]) continue
+      const wanted = Math.ceil((globalGain - gains[b]) / unit)
+      const reachable = Math.floor((globalGain - lowest[b]) / unit)
+      scalefactors[b] = Math.max(0, Math.min(wanted, largestScalefactor(b), reachable))
+    }
+
+    granule.globalGain = globalGain
+    granule.scalefacScale = scalefacScale
+    granule.scalefactors.set(scalefactors)
+    quantizeGranule(granule, bands)
+    const bits = countGranuleBits(granule, bands)
+    if (!best || bits < best.bits) best = { globalGain, scalefacScale, scalefactors, bits }
+  }
+
+  granule.globalGain = best!.globalGain
+  granule.scalefacScale = best!.scalefacScale
+  granule.scalefactors.set(best!.scalefactors)
+  quantizeGranule(granule, bands)
+  countGranuleBits(granule, bands)
+}
+
+// Coarsen the whole granule until it takes no more than `maxBits`
+const fitGranule = (granule: Granule, bands: number[], maxBits: number) => {
+  if (granule.part23Length <= maxBits) return
+
+  const fits = (globalGain: number) => {
+    granule.globalGain = globalGain
+    return quantizeGranule(granule, bands) && countGranuleBits(granule, bands) <= maxBits
+  }
+
+  // Scalefactors cost bits of their own, so without room for them go without
+  let low = granule.globalGain
+  if (!fits(255)) {
+    granule.scalefactors.fill(0)
+    low = -1
+  }
+
+  let high = 255
+  while (high - low > 1) {
+    const middle = (low + high) >> 1
+    if (fits(middle)) high = middle
+    else low = middle
+  }
+  fits(high)
+}
+
+const writeGranule = (writer: BitWriter, granule: Granule, bands: number[]) => {
+  const { values, xr } = granule
+
+  const [slen1, slen2] = SCALEFACTOR_LENGTHS[granule.scalefacCompress]
+  for (let b = 0; b < MAX_SCALEFACTOR_BAND; b++) {
+    writer.write(granule.scalefactors[b], b < 11 ? slen1 : slen2)
+  }
+
+  const end = granule.bigValues * 2
+  const region1 = Math.min(bands[granule.region0Count + 1], end)
+  const region2 = Math.min(bands[granule.region0Count + granule.region1Count + 2], end)
+  for (let i = 0; i < end; i += 2) {
+    const tableSelect = granule.tableSelect[i < region1 ? 0 : i < region2 ? 1 : 2]
+    if (tableSelect === 0) continue
+
+    const { size, linbits, codes, lengths } = HUFFMAN_TABLES[tableSelect]!
+    const x = values[i]
+    const y = values[i + 1]
+    const codeX = linbits && x > 14 ? 15 : x
+    const codeY = linbits && y > 14 ? 15 : y
+    writer.write(codes[codeX * size + codeY], lengths[codeX * size + codeY])
+    if (codeX === 15 && linbits) writer.write(x - 15, linbits)
+    if (x) writer.write(xr[i] < 0 ? 1 : 0, 1)
+    if (codeY === 15 && linbits) writer.write(y - 15, linbits)
+    if (y) writer.write(xr[i + 1] < 0 ? 1 : 0, 1)
+  }
+
+  const { codes, lengths } = COUNT1_TABLES[granule.count1Table]
+  for (let i = end; i < end + granule.count1 * 4; i += 4) {
+    const index = values[i] * 8 + values[i + 1] * 4 + values[i + 2] * 2 + values[i + 3]
+    writer.write(codes[index], lengths[index])
+    for (let j = i; j < i + 4; j++) {
+      if (values[j]) writer.write(xr[j] < 0 ? 1 : 0, 1)
+    }
+  }
+}
+
+const writeHeader = (
+  writer: BitWriter,
+  bitrateIndex: number,
+  sampleRateIndex: number,
+  padding: number,
+  mode: number,
+  modeExtension: number,
+) => {
+  writer.write(0x7ff, 11) // sync
+  writer.write(3, 2) // MPEG-1
+  writer.write(1, 2) // Layer III
+  writer.write(1, 1) // no CRC
+  writer.write(bitrateIndex, 4)
+  writer.write(sampleRateIndex, 2)
+  writer.write(padding, 1)
+  writer.write(0, 1) // private
+  writer.write(mode, 2)
+  writer.write(modeExtension, 2)
+  writer.write(0, 1) // not copyrighted
+  writer.write(1, 1) // original
+  writer.write(0, 2) // no emphasis
+}
+
+const writeSideInfo = (writer: BitWriter, granules: Granule[][], mainDataBegin: number) => {
+  const channelCount = granules[0].length
+  writer.write(mainDataBegin, 9)
+  writer.write(0, channelCount === 1 ? 5 : 3) // private
+  writer.write(0, 4 * channelCount) // no scalefactors shared between granules
+
+  for (const channels of granules) {
+    for (const granule of channels) {
+      writer.write(granule.part23Length, 12)
+      writer.write(granule.bigValues, 9)
+      writer.write(granule.globalGain, 8)
+      writer.write(granule.scalefacCompress, 4)
+      writer.write(0, 1) // long blocks
+      granule.tableSelect.forEach((table) => writer.write(table, 5))
+      writer.write(granule.region0Count, 4)
+      writer.write(granule.region1Count, 3)
+      writer.write(0, 1) // no preemphasis
+      writer.write(granule.scalefacScale, 1)
+      writer.write(granule.count1Table, 1)
+    }
+  }
+}
+
+// Bytes in a frame, header included
+const getFrameLength = (bitrate: number, sampleRate: number, padding: number): number =>
+  Math.floor((144000 * bitrate) / sampleRate) + padding
+
+// The MPEG-1 sample rate nearest the signal's
+const getEncodedSampleRate = (sampleRate: number): number =>
+  MP3_SAMPLE_RATES.reduce((best, rate) => (Math.abs(rate - sampleRate) < Math.abs(best - sampleRate) ? rate : best))
+
+// Highest frequency worth coding at a bitrate per channel, or a variable bitrate quality
+const getLowpass = (settings: Mp3Settings, channelCount: number): number => {
+  if (settings.mode === "vbr") {
+    return [20000, 19500, 19000, 18500, 18000, 17000, 16000, 15000, 13500, 12000][settings.quality]
+  }
+
+  const perChannel = settings.bitrate / channelCount
+  const lowpasses: Array<[number, number]> = [
+    [128, 20000],
+    [96, 19000],
+    [80, 17500],
+    [64, 16500],
+    [56, 15500],
+    [48, 14500],
+    [40, 13000],
+    [32, 11000],
+  ]
+  return lowpasses.find(([bitrate]) => perChannel >= bitrate)?.[1] ?? 8000
+}
+
+// Signal-to-noise ratio (dB) tonal bands are quantized for. Constant bitrate aims
+// for what its bitrate should hold and coarsens to fit; variable bitrate takes what
+// its quality asks for.
+const getTargetSnr = (settings: Mp3Settings, channelCount: number): number =>
+  settings.mode === "vbr" ? 30 - 1.5 * settings.quality : Math.min(45, 10 + settings.bitrate / channelCount / 5)
+
+// Whether a frame's two channels are coded as mid and side
+const isMidSide = (granules: Granule[][]): boolean => {
+  let mid = 0
+  let side = 0
+  for (const [left, right] of granules) {
+    for (let i = 0; i < GRANULE_SIZE; i++) {
+      mid += (left.xr[i] + right.xr[i]) ** 2
+      side += (left.xr[i] - right.xr[i]) ** 2
+    }
+  }
+  return side < mid * MS_THRESHOLD
+}
+
+const toMidSide = (left: Float64Array, right: Float64Array) => {
+  for (let i = 0; i < GRANULE_SIZE; i++) {
+    const mid = (left[i] + right[i]) * Math.SQRT1_2
+    right[i] = (left[i] - right[i]) * Math.SQRT1_2
+    left[i] = mid
+  }
+}
+
+interface EncodedFrame {
+  head: Uint8Array // header and side info
+  slots: number // bytes of main data after them
+}
+
+// First frame: silent, with a Xing ("Info" for constant bitrate) header giving the
+// frame count, length and a seek table
+const createXingFrame = (
+  frames: EncodedFrame[],
+  settings: Mp3Settings,
+  sampleRate: number,
+  sampleRateIndex: number,
+  mode: number,
+): Uint8Array => {
+  const sideInfoLength = mode === MODE_MONO ? 17 : 32
+  const tagLength = 4 + 4 + 4 + 4 + 100
+  let bitrateIndex = settings.mode === "cbr" ? MP3_BITRATES.indexOf(settings.bitrate) : 1
+  while (getFrameLength(MP3_BITRATES[bitrateIndex], sampleRate, 0) < 4 + sideInfoLength + tagLength) {
+    bitrateIndex++
+  }
+
+  const length = getFrameLength(MP3_BITRATES[bitrateIndex], sampleRate, 0)
+  const frame = new Uint8Array(length)
+  const header = new BitWriter()
+  writeHeader(header, bitrateIndex, sampleRateIndex, 0, mode, 0)
+  frame.set(header.bytes.subarray(0, 4))
+
+  // Where each audio frame starts, counting this one
+  const offsets: number[] = []
+  let total = length
+  for (const { head, slots } of frames) {
+    offsets.push(total)
+    total += head.length + slots
+  }
+
+  const view = new DataView(frame.buffer)
+  let offset = 4 + sideInfoLength
+  const tag = settings.mode === "vbr" ? "Xing" : "Info"
+  for (let i = 0; i < 4; i++) {
+    frame[offset + i] = tag.charCodeAt(i)
+  }
+  view.setUint32(offset + 4, 0x7) // frames, bytes and seek table present
+  view.setUint32(offset + 8, frames.length)
+  view.setUint32(offset + 12, total)
+  offset += 16
+  for (let i = 0; i < 100; i++) {
+    const position = offsets[Math.floor((i / 100) * frames.length)] ?? total
+    frame[offset + i] = Math.min(255, Math.floor((256 * position) / total))
+  }
+  return frame
+}
+
+// Encode channels of samples (-1 to 1) to an MP3 file, without tags. Two channels
+// are coded as joint stereo, or as mono if they are the same.
+export const encodeMp3 = (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: Mp3Settings,
+  onProgress?: (progress: number) => void,
+): Uint8Array => {
+  const isMono = channels.length === 1 || channels[1].every((sample, i) => sample === channels[0][i])
+  const encodedRate = getEncodedSampleRate(sampleRate)
+  const input = (isMono ? channels.slice(0, 1) : channels.slice(0, 2)).map((channel) =>
+    encodedRate === sampleRate
+      ? channel
+      : resampleChannel(channel, Math.round((channel.length * encodedRate) / sampleRate)),
+  )
+
+  const channelCount = input.length
+  const mode = isMono ? MODE_MONO : MODE_JOINT_STEREO
+  const sampleRateIndex = MP3_SAMPLE_RATES.indexOf(encodedRate)
+  const bands = SCALEFACTOR_BANDS[sampleRateIndex]
+  const hearing = getHearingThresholds(bands, encodedRate)
+  const snr = getTargetSnr(settings, channelCount)
+  const lowpass = getLowpass(settings, channelCount)
+  const lowpassLine = Math.min(GRANULE_SIZE, Math.round((lowpass / encodedRate) * 2 * GRANULE_SIZE))
+  const sideInfoLength = isMono ? 17 : 32
+
+  const states = input.map(() => createChannelState())
+  const granules = [0, 1].map(() => input.map(() => createGranule()))
+  const mainData = new BitWriter()
+  const frames: EncodedFrame[] = []
+  const frameCount = Math.ceil((input[0].length + CODEC_DELAY) / FRAME_SIZE)
+
+  // Main data position where the next frame's own bytes start, and padding
+  // accumulated to keep a constant bitrate exact
+  let slotStart = 0
+  let paddingLag = 0
+  // Bits frames have been asking for lately
+  let averageNeeded = 0
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    // Transform and quantize for the allowed noise
+    granules.forEach((channelGranules, gr) => {
+      channelGranules.forEach((granule, ch) => {
+        analyzeGranule(states[ch], input[ch], (frame * 2 + gr) * GRANULE_SIZE, granule.xr)
+      })
+    })
+    const midSide = !isMono && isMidSide(granules)
+    for (const channelGranules of granules) {
+      if (midSide) toMidSide(channelGranules[0].xr, channelGranules[1].xr)
+      for (const granule of channelGranules) {
+        granule.xr.fill(0, lowpassLine)
+        setAllowedNoise(granule, bands, hearing, snr)
+        quantizeForNoise(granule, bands)
+      }
+    }
+
+    // Bytes still free in earlier frames this one can use
+    const gap = slotStart - mainData.length
+    for (let i = MAX_MAIN_DATA_BEGIN; i < gap; i++) {
+      mainData.pushByte(0)
+    }
+    const mainDataBegin = slotStart - mainData.length
+
+    // Variable bitrate takes the lowest bitrate that holds the frame as it is.
+    // Constant bitrate gives frames bits by how many they ask for next to the
+    // frames before, so easy frames leave some in the reservoir for hard ones.
+    const needed = granules.flat().reduce((sum, granule) => sum + granule.part23Length, 0)
+    let bitrateIndex = MP3_BITRATES.indexOf(settings.bitrate)
+    let padding = 0
+    if (settings.mode === "vbr") {
+      const capacity = (index: number) =>
+        8 * (getFrameLength(MP3_BITRATES[index], encodedRate, 0) - 4 - sideInfoLength + mainDataBegin)
+      bitrateIndex = 1
+      while (bitrateIndex < MP3_BITRATES.length - 1 && capacity(bitrateIndex) < needed) bitrateIndex++
+    } else {
+      paddingLag -= (144000 * settings.bitrate) % encodedRate
+      if (paddingLag < 0) {
+        padding = 1
+        paddingLag += encodedRate
+      }
+    }
+
+    const slots = getFrameLength(MP3_BITRATES[bitrateIndex], encodedRate, padding) - 4 - sideInfoLength
+    const budget = 8 * (slots + mainDataBegin)
+    let frameBits = budget
+    if (settings.mode === "cbr") {
+      averageNeeded = frame === 0 ? needed : averageNeeded + (needed - averageNeeded) * AVERAGE_COEFFICIENT
+      frameBits = averageNeeded > 0 ? Math.min(budget, Math.floor((8 * slots * needed) / averageNeeded)) : budget
+    }
+
+    // Shared out by what each granule asks for
+    for (const granule of granules.flat()) {
+      const share = needed > frameBits ? Math.floor((frameBits * granule.part23Length) / needed) : granule.part23Length
+      fitGranule(granule, bands, Math.min(MAX_PART23_BITS, share))
+    }
+
+    for (const channelGranules of granules) {
+      for (const granule of channelGranules) {
+        writeGranule(mainData, granule, bands)
+      }
+    }
+    mainData.align()
+
+    const head = new BitWriter()
+    writeHeader(head, bitrateIndex, sampleRateIndex, padding, mode, midSide ? MODE_EXTENSION_MS : 0)
+    writeSideInfo(head, granules, mainDataBegin)
+    frames.push({ head: head.bytes.slice(0, head.length), slots })
+    slotStart += slots
+
+    if (onProgress && frame % 50 === 0) onProgress(frame / frameCount)
+  }
+
+  // Interleave the headers with the main data
+  const xing = createXingFrame(frames, settings, encodedRate, sampleRateIndex, mode)
+  const length = frames.reduce((sum, { head, slots }) => sum + head.length + slots, xing.length)
+  const output = new Uint8Array(length)
+  output.set(xing)
+  let offset = xing.length
+  let position = 0
+  for (const { head, slots } of frames) {
+    output.set(head, offset)
+    offset += head.length
+    output.set(mainData.bytes.subarray(position, Math.min(position + slots, mainData.length)), offset)
+    offset += slots
+    position += slots
+  }
+
+  onProgress?.(1)
+  return output
+}
@@ -0,0 +1,35 @@
+// Web Worker that encodes MP3 files off the main thread. Takes the samples of every
+// channel, posts progress as it goes, then the file with its ID3 tag.
+
+import { createId3Tag, type Id3Tags } from "./id3"
+import { type Mp3Settings, encodeMp3 } from "./mp3-encoder"
+
+export interface Mp3EncodeRequest {
+  channels: Float32Array[]
+  sampleRate: number
+  settings: Mp3Settings
+  tags: Id3Tags
+}
+
+export type Mp3EncodeResponse =
+  | { type: "progress"; progress: number }
+  | { type: "done"; data: Uint8Array }
+  | { type: "error"; message: string }
+
+const respond = (response: Mp3EncodeResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer })
+}
+
+self.onmessage = (event: MessageEvent<Mp3EncodeRequest>) => {
+  const { channels, sampleRate, settings, tags } = event.data
+  try {
+    const audio = encodeMp3(channels, sampleRate, settings, (progress) => respond({ type: "progress", progress }))
+    const tag = createId3Tag(tags)
+    const data = new Uint8Array(tag.length + audio.length)
+    data.set(tag)
+    data.set(audio, tag.length)
+    respond({ type: "done", data }, [data.buffer])
+  } catch (error) {
+    respond({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+}
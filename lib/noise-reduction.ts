@@ -0,0 +1,148 @@
+// Noise reduction: a noise profile learned from a recording, removed by the
+// noise-reduction-processor worklet, live (lib/effects/noise-reduction.ts) or
+// offline to save a cleaned copy of a library recording.
+// The profile is the average noise power at fixed frequencies, PROFILE_SPACING Hz
+// apart, measured with the worklet's frame size, so it applies at any sample rate.
+
+import { createAudioContext } from "./audio-context"
+import { createWorkletNode } from "./audio-worklets"
+import { FFT, createHannWindow } from "./fft"
+
+// Frame size and hop of the worklet's STFT
+const FFT_SIZE = 2048
+const HOP_SIZE = 512
+
+// Samples the worklet's output lags its input: a frame is output once the next one is complete
+export const NOISE_REDUCTION_LATENCY = FFT_SIZE
+
+const PROFILE_SPACING = 93.75
+const PROFILE_POINTS = 257 // 0 to 24 kHz
+
+// Without a region, the quietest share of the frames is taken as noise
+const QUIET_FRAME_SHARE = 0.1
+const MIN_NOISE_FRAMES = 4
+// Frames below this power are digital silence, not noise
+const SILENCE_POWER = 1e-10
+
+// Noise-only stretch of a recording, in seconds
+export interface NoiseRegion {
+  start: number
+  end: number
+}
+
+export interface NoiseReductionSettings {
+  reduction: number // 0 to 40 dB the noise is lowered by at most
+  sensitivity: number // 0 to 1, how readily quiet sound counts as noise
+  smoothing: number // 0 to 0.95, how slowly the reduction lets go, against warbling artefacts
+}
+
+export const defaultNoiseReductionSettings: NoiseReductionSettings = {
+  reduction: 12,
+  sensitivity: 0.5,
+  smoothing: 0.5,
+}
+
+// Decode a recording at its own sample rate
+export const decodeRecording = async (blob: Blob): Promise<AudioBuffer> => {
+  const audioContext = createAudioContext()
+  try {
+    return await audioContext.decodeAudioData(await blob.arrayBuffer())
+  } finally {
+    audioContext.close()
+  }
+}
+
+// Power spectrum of every frame, averaged over the channels
+const getFramePowers = (audioBuffer: AudioBuffer): Float64Array[] => {
+  const fft = new FFT(FFT_SIZE)
+  const window = createHannWindow(FFT_SIZE)
+  const re = new Float64Array(FFT_SIZE)
+  const im = new Float64Array(FFT_SIZE)
+  const bins = FFT_SIZE / 2 + 1
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c))
+
+  const frames: Float64Array[] = []
+  for (let start = 0; start + FFT_SIZE <= audioBuffer.length; start += HOP_SIZE) {
+    const power = new Float64Array(bins)
+    for (const channel of channels) {
+      for (let i = 0; i < FFT_SIZE; i++) {
+        re[i] = channel[start + i] * window[i]
+        im[i] = 0
+      }
+      fft.forward(re, im)
+      for (let k = 0; k < bins; k++) {
+        power[k] += (re[k] * re[k] + im[k] * im[k]) / channels.length
+      }
+    }
+    frames.push(power)
+  }
+  return frames
+}
+
+const getTotalPower = (power: Float64Array): number => power.reduce((sum, value) => sum + value, 0)
+
+// Learn the noise from a noise-only region, or from the recording's quietest
+// frames. Returns an empty profile if there is nothing to learn from.
+export const learnNoiseProfile = (audioBuffer: AudioBuffer, region?: NoiseRegion): number[] => {
+  let frames = getFramePowers(audioBuffer)
+
+  if (region) {
+    const first = Math.floor((region.start * audioBuffer.sampleRate) / HOP_SIZE)
+    const last = Math.floor((region.end * audioBuffer.sampleRate - FFT_SIZE) / HOP_SIZE)
+    frames = frames.slice(first, Math.max(first + 1, last + 1))
+  } else {
+    const audible = frames.filter((power) => getTotalPower(power) > SILENCE_POWER)
+    const count = Math.max(MIN_NOISE_FRAMES, Math.round(audible.length * QUIET_FRAME_SHARE))
+    frames = audible.sort((a, b) => getTotalPower(a) - getTotalPower(b)).slice(0, count)
+  }
+  if (frames.length === 0) return []
+
+  const bins = FFT_SIZE / 2 + 1
+  const average = new Float64Array(bins)
+  for (const power of frames) {
+    for (let k = 0; k < bins; k++) {
+      average[k] += power[k] / frames.length
+    }
+  }
+
+  // Resample onto the profile's frequencies; those above Nyquist take the top bin
+  return Array.from({ length: PROFILE_POINTS }, (_, point) => {
+    const position = Math.min((point * PROFILE_SPACING * FFT_SIZE) / audioBuffer.sampleRate, bins - 1)
+    const index = Math.floor(position)
+    const next = Math.min(index + 1, bins - 1)
+    return average[index] + (average[next] - average[index]) * (position - index)
+  })
+}
+
+// Run a buffer through the noise reducer offline
+export const reduceNoiseInBuffer = async (
+  audioBuffer: AudioBuffer,
+  profile: number[],
+  settings: NoiseReductionSettings,
+): Promise<AudioBuffer> => {
+  const { numberOfChannels, length, sampleRate } = audioBuffer
+  const offlineContext = new OfflineAudioContext(numberOfChannels, length + NOISE_REDUCTION_LATENCY, sampleRate)
+
+  const node = await createWorkletNode(offlineContext, "noise-reduction-processor", {
+    outputChannelCount: [numberOfChannels],
+    processorOptions: { profile },
+    parameterData: settings,
+  })
+  if (!node) {
+    throw new Error("Noise reduction needs AudioWorklet support")
+  }
+
+  const source = offlineContext.createBufferSource()
+  source.buffer = audioBuffer
+  source.connect(node)
+  node.connect(offlineContext.destination)
+  source.start(0)
+
+  // Drop the worklet's latency from the start
+  const rendered = await offlineContext.startRendering()
+  const result = new AudioBuffer({ numberOfChannels, length, sampleRate })
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    result.copyToChannel(rendered.getChannelData(channel).subarray(NOISE_REDUCTION_LATENCY), channel)
+  }
+  return result
+}
@@ -0,0 +1,18 @@
+// Type definitions for the libopus build inside opus-recorder's encoder worker
+
+declare module "opus-recorder/dist/encoderWorker.min.js" {
+  // Emscripten module; numbers other than sizes and results are pointers into its heap,
+  // whose views are replaced when the memory grows
+  export const Module: {
+    HEAPU8: Uint8Array
+    HEAP32: Int32Array
+    HEAPF32: Float32Array
+    _malloc: (size: number) => number
+    _free: (pointer: number) => void
+    _opus_encoder_create: (sampleRate: number, channels: number, application: number, error: number) => number
+    // The request's arguments are read from a list in the heap
+    _opus_encoder_ctl: (encoder: number, request: number, args: number) => number
+    _opus_encode_float: (encoder: number, pcm: number, frameSize: number, data: number, maxBytes: number) => number
+    _opus_encoder_destroy: (encoder: number) => void
+  }
+}
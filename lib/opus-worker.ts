@@ -0,0 +1,94 @@
+// Web Worker that encodes Opus with libopus (the WebAssembly build opus-recorder ships),
+// for browsers without a WebCodecs Opus encoder. Takes 48 kHz channels, posts progress
+// as it goes, then the packets and the encoder's lookahead.
+
+import { Module } from "opus-recorder/dist/encoderWorker.min.js"
+
+export interface OpusEncodeRequest {
+  channels: Float32Array[] // at 48 kHz, one or two
+  bitrate: number // bits per second
+}
+
+export type OpusEncodeResponse =
+  | { type: "progress"; progress: number }
+  | { type: "done"; packets: Uint8Array[]; preSkip: number }
+  | { type: "error"; message: string }
+
+const SAMPLE_RATE = 48000
+const FRAME_SIZE = 960 // 20 ms
+const MAX_PACKET_SIZE = 4000 // libopus's recommended output buffer
+const APPLICATION_AUDIO = 2049
+const SET_BITRATE = 4002
+const GET_LOOKAHEAD = 4027
+const PROGRESS_FRAMES = 50 // a second of audio
+
+const respond = (response: OpusEncodeResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer })
+}
+
+// Call an encoder control with one argument: a value, or a pointer for the result
+const control = (encoder: number, request: number, arg: number): number => {
+  const args = Module._malloc(4)
+  Module.HEAP32[args >> 2] = arg
+  const result = Module._opus_encoder_ctl(encoder, request, args)
+  Module._free(args)
+  return result
+}
+
+// Encode channels into 20 ms packets. Silence after the end flushes the encoder's
+// lookahead, which decoders skip at the start (the pre-skip)
+const encodeOpus = (
+  channels: Float32Array[],
+  bitrate: number,
+  onProgress: (progress: number) => void,
+): { packets: Uint8Array[]; preSkip: number } => {
+  const channelCount = channels.length
+  const length = channels[0]?.length ?? 0
+
+  const status = Module._malloc(4)
+  const encoder = Module._opus_encoder_create(SAMPLE_RATE, channelCount, APPLICATION_AUDIO, status)
+  const error = Module.HEAP32[status >> 2]
+  Module._free(status)
+  if (!encoder || error < 0) throw new Error(`Could not create the Opus encoder (error ${error})`)
+
+  const pcm = Module._malloc(FRAME_SIZE * channelCount * 4)
+  const output = Module._malloc(MAX_PACKET_SIZE)
+  const lookahead = Module._malloc(4)
+  try {
+    if (control(encoder, SET_BITRATE, bitrate) < 0) throw new Error(`Unsupported Opus bitrate: ${bitrate}`)
+    control(encoder, GET_LOOKAHEAD, lookahead)
+    const preSkip = Module.HEAP32[lookahead >> 2]
+
+    const packets: Uint8Array[] = []
+    for (let start = 0; start < length + preSkip; start += FRAME_SIZE) {
+      // Interleaved, padded with silence past the end
+      const frame = Module.HEAPF32.subarray(pcm >> 2, (pcm >> 2) + FRAME_SIZE * channelCount)
+      frame.fill(0)
+      const frames = Math.max(0, Math.min(FRAME_SIZE, length - start))
+      channels.forEach((channel, c) => {
+        for (let i = 0; i < frames; i++) frame[i * channelCount + c] = channel[start + i]
+      })
+
+      const size = Module._opus_encode_float(encoder, pcm, FRAME_SIZE, output, MAX_PACKET_SIZE)
+      if (size < 0) throw new Error(`Opus encoding failed (error ${size})`)
+      packets.push(Module.HEAPU8.slice(output, output + size))
+      if (packets.length % PROGRESS_FRAMES === 0) onProgress(Math.min(1, start / length))
+    }
+    return { packets, preSkip }
+  } finally {
+    Module._free(pcm)
+    Module._free(output)
+    Module._free(lookahead)
+    Module._opus_encoder_destroy(encoder)
+  }
+}
+
+self.onmessage = (event: MessageEvent<OpusEncodeRequest>) => {
+  const { channels, bitrate } = event.data
+  try {
+    const { packets, preSkip } = encodeOpus(channels, bitrate, (progress) => respond({ type: "progress", progress }))
+    respond({ type: "done", packets, preSkip }, packets.map((packet) => packet.buffer))
+  } catch (error) {
+    respond({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,173 @@
+// Offline phase-vocoder processing for export (pitch shifting that keeps duration)
+
+import { FFT, createHannWindow } from "./fft"
+
+const DEFAULT_FFT_SIZE = 2048
+const OVERLAP = 4
+
+const wrapPhase = (phase: number): number => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI))
+
+// Stretch a channel in time by `stretch` (> 1 is longer) without changing its pitch
+export const phaseVocoderStretch = (
+  input: Float32Array,
+  stretch: number,
+  fftSize = DEFAULT_FFT_SIZE,
+): Float32Array => {
+  const analysisHop = fftSize / OVERLAP
+  const synthesisHop = analysisHop * stretch
+  const outputLength = Math.ceil(input.length * stretch)
+  const bins = fftSize / 2 + 1
+
+  const fft = new FFT(fftSize)
+  const window = createHannWindow(fftSize)
+  const re = new Float64Array(fftSize)
+  const im = new Float64Array(fftSize)
+  const previousPhase = new Float64Array(bins)
+  const synthesisPhase = new Float64Array(bins)
+  const magnitudes = new Float64Array(bins)
+  const phases = new Float64Array(bins)
+  const peaks = new Uint32Array(bins)
+
+  // Frames start one window before the input, so input sample t lands at
+  // output sample t * stretch + latency
+  const latency = Math.round((fftSize * (stretch + 1)) / 2)
+  const output = new Float64Array(outputLength + latency + fftSize)
+  const windowSum = new Float64Array(outputLength + latency + fftSize)
+
+  const frameCount = Math.ceil((input.length + fftSize) / analysisHop) + 1
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const inputStart = frame * analysisHop - fftSize
+    const outputStart = Math.round(frame * synthesisHop)
+
+    for (let i = 0; i < fftSize; i++) {
+      const index = inputStart + i
+      re[i] = index >= 0 && index < input.length ? input[index] * window[i] : 0
+      im[i] = 0
+    }
+
+    fft.forward(re, im)
+
+    for (let k = 0; k < bins; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k])
+      phases[k] = Math.atan2(im[k], re[k])
+    }
+
+    // Identity phase locking: only spectral peaks are propagated, the bins around
+    // each peak keep their phase offset to it so partials stay coherent
+    let peakCount = 0
+    for (let k = 0; k < bins; k++) {
+      const magnitude = magnitudes[k]
+      if (
+        (k < 1 || magnitude > magnitudes[k - 1]) &&
+        (k < 2 || magnitude > magnitudes[k - 2]) &&
+        (k >= bins - 1 || magnitude >= magnitudes[k + 1]) &&
+        (k >= bins - 2 || magnitude >= magnitudes[k + 2])
+      ) {
+        peaks[peakCount++] = k
+      }
+    }
+
+    for (let p = 0; p < peakCount; p++) {
+      const k = peaks[p]
+
+      // Deviation from the bin's expected phase advance gives its true frequency
+      const expected = (2 * Math.PI * k * analysisHop) / fftSize
+      const deviation = wrapPhase(phases[k] - previousPhase[k] - expected)
+      synthesisPhase[k] =
+        frame === 0 ? phases[k] : synthesisPhase[k] + ((expected + deviation) * synthesisHop) / analysisHop
+    }
+
+    let peakIndex = 0
+    for (let k = 0; k < bins; k++) {
+      // Nearest peak (region boundaries sit halfway between peaks)
+      while (peakIndex < peakCount - 1 && k > (peaks[peakIndex] + peaks[peakIndex + 1]) / 2) {
+        peakIndex++
+      }
+
+      if (peakCount > 0 && peaks[peakIndex] !== k) {
+        const peak = peaks[peakIndex]
+        synthesisPhase[k] = synthesisPhase[peak] + phases[k] - phases[peak]
+      }
+
+      previousPhase[k] = phases[k]
+      re[k] = magnitudes[k] * Math.cos(synthesisPhase[k])
+      im[k] = magnitudes[k] * Math.sin(synthesisPhase[k])
+    }
+
+    // Rebuild the conjugate-symmetric half
+    for (let k = bins; k < fftSize; k++) {
+      re[k] = re[fftSize - k]
+      im[k] = -im[fftSize - k]
+    }
+
+    fft.inverse(re, im)
+
+    for (let i = 0; i < fftSize; i++) {
+      const index = outputStart + i
+      if (index >= output.length) break
+      output[index] += re[i] * window[i]
+      windowSum[index] += window[i] * window[i]
+    }
+  }
+
+  // Normalize the overlap-add and drop the latency
+  const result = new Float32Array(outputLength)
+  for (let i = 0; i < outputLength; i++) {
+    const index = i + latency
+    const norm = windowSum[index]
+    result[i] = norm > 1e-6 ? output[index] / norm : 0
+  }
+
+  return result
+}
+
+// Resample a channel to `outputLength` samples with cubic interpolation
+export const resampleChannel = (input: Float32Array, outputLength: number): Float32Array => {
+  const output = new Float32Array(outputLength)
+  if (input.length === 0 || outputLength === 0) return output
+
+  const step = input.length / outputLength
+  const sampleAt = (index: number) => input[Math.max(0, Math.min(input.length - 1, index))]
+
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * step
+    const index = Math.floor(position)
+    const t = position - index
+
+    // Catmull-Rom spline through the four neighbouring samples
+    const y0 = sampleAt(index - 1)
+    const y1 = sampleAt(index)
+    const y2 = sampleAt(index + 1)
+    const y3 = sampleAt(index + 2)
+    output[i] =
+      y1 + 0.5 * t * (y2 - y0 + t * (2 * y0 - 5 * y1 + 4 * y2 - y3 + t * (3 * (y1 - y2) + y3 - y0)))
+  }
+
+  return output
+}
+
+// Shift a channel's pitch by `ratio` while keeping its length
+export const pitchShiftChannel = (input: Float32Array, ratio: number, fftSize = DEFAULT_FFT_SIZE): Float32Array => {
+  if (Math.abs(ratio - 1) < 1e-4) return input.slice()
+
+  // Stretch by the ratio, then resample back to the original length
+  const stretched = phaseVocoderStretch(input, ratio, fftSize)
+  return resampleChannel(stretched, input.length)
+}
+
+// Pitch shift every channel of a buffer, returning a new buffer of the same length
+export const pitchShiftAudioBuffer = (
+  audioContext: BaseAudioContext,
+  audioBuffer: AudioBuffer,
+  ratio: number,
+  fftSize = DEFAULT_FFT_SIZE,
+): AudioBuffer => {
+  const shifted = audioContext.createBuffer(audioBuffer.numberOfChannels, audioBuffer.length, audioBuffer.sampleRate)
+
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    shifted.copyToChannel(pitchShiftChannel(audioBuffer.getChannelData(channel), ratio, fftSize), channel)
+  }
+
+  return shifted
+}
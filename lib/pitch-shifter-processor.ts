@@ -1,40 +1,285 @@
 /// <reference path="./audioworklet.d.ts" />
 
+import { FFT, createHannWindow, getStftLatency } from "./fft";
+
 interface PitchShifterProcessorOptions extends AudioWorkletNodeOptions {
   processorOptions?: {
-    port: MessagePort;
+    fftSize?: number;
+    overlap?: number;
+    linked?: boolean;
   };
 }
 
+// Per-channel analysis/synthesis state
+interface PitchShifterChannel {
+  inputFifo: Float32Array;
+  outputFifo: Float32Array;
+  outputAccumulator: Float64Array;
+  magnitudes: Float64Array;
+  phases: Float64Array;
+  previousPhases: Float64Array;
+  synthesisPhases: Float64Array;
+  synthesisRe: Float64Array;
+  synthesisIm: Float64Array;
+}
+
+// Streaming STFT phase-vocoder pitch shifter.
+// Each frame is analysed, every spectral peak is moved to its shifted bin
+// together with its neighbouring bins (identity phase locking), and the frames
+// are overlap-added at the analysis hop, so the tempo is unchanged.
+// Output is delayed by fftSize samples (see `latency`): a sample is output once
+// the last frame holding it has been overlap-added.
+// In linked mode the peaks are found on the summed spectrum and each one is
+// propagated from the loudest channel at that bin; the other channels keep
+// their phase offsets to it, so the stereo image stays intact.
 class PitchShifterProcessor extends AudioWorkletProcessor {
   pitchRatio: number;
-  grainSize: number;
-  overlapRatio: number;
-  inputBuffer: Float32Array;
-  outputBuffer: Float32Array;
-  inputBufferFill: number;
-  outputBufferFill: number;
-  port: MessagePort;
+  linked: boolean;
+  fftSize!: number;
+  overlap!: number;
+  hopSize!: number;
+  latency!: number;
+  fifoStart!: number;
+  fft!: FFT;
+  window!: Float64Array;
+  fifoPosition!: number;
+  re!: Float64Array;
+  im!: Float64Array;
+  linkedMagnitudes!: Float64Array;
+  peaks!: Uint32Array;
+  peakPhases!: Float64Array;
+  peakReferences!: Uint8Array;
+  channels: PitchShifterChannel[];
+
+  // Read once per frame, at the sample where the frame is processed
+  static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [{ name: "pitchRatio", defaultValue: 1, minValue: 0.25, maxValue: 4 }];
+  }
 
   constructor(options?: PitchShifterProcessorOptions) {
     super(options);
     this.pitchRatio = 1.0;
-    this.grainSize = 512;
-    this.overlapRatio = 0.5;
+    this.linked = options?.processorOptions?.linked ?? true;
+    this.channels = [];
+
+    this.configure(options?.processorOptions?.fftSize || 2048, options?.processorOptions?.overlap || 4);
+
+    this.port.onmessage = (event: {
+      data: { fftSize?: number; overlap?: number; linked?: boolean };
+    }) => {
+      if (event.data.linked !== undefined) {
+        this.linked = event.data.linked;
+      }
+      const fftSize = event.data.fftSize || this.fftSize;
+      const overlap = event.data.overlap || this.overlap;
+      if (fftSize !== this.fftSize || overlap !== this.overlap) {
+        this.configure(fftSize, overlap);
+      }
+    };
+  }
+
+  // (Re)allocate all buffers for a given FFT size and overlap factor
+  configure(fftSize: number, overlap: number) {
+    this.fftSize = fftSize;
+    this.overlap = overlap;
+    this.hopSize = fftSize / overlap;
+    this.latency = getStftLatency(fftSize);
+    // The input FIFO keeps the last fftSize - hop samples between frames
+    this.fifoStart = fftSize - this.hopSize;
+
+    const bins = fftSize / 2 + 1;
+    this.fft = new FFT(fftSize);
+    this.window = createHannWindow(fftSize);
+    this.fifoPosition = this.fifoStart;
+    this.re = new Float64Array(fftSize);
+    this.im = new Float64Array(fftSize);
+    this.linkedMagnitudes = new Float64Array(bins);
+    this.peaks = new Uint32Array(bins);
+    this.peakPhases = new Float64Array(bins);
+    this.peakReferences = new Uint8Array(bins);
+
+    const channelCount = this.channels.length;
+    this.channels = [];
+    this.ensureChannels(channelCount);
+  }
+
+  ensureChannels(count: number) {
+    const bins = this.fftSize / 2 + 1;
+    while (this.channels.length < count) {
+      this.channels.push({
+        inputFifo: new Float32Array(this.fftSize),
+        outputFifo: new Float32Array(this.fftSize),
+        outputAccumulator: new Float64Array(this.fftSize * 2),
+        magnitudes: new Float64Array(bins),
+        phases: new Float64Array(bins),
+        previousPhases: new Float64Array(bins),
+        synthesisPhases: new Float64Array(bins),
+        synthesisRe: new Float64Array(bins),
+        synthesisIm: new Float64Array(bins),
+      });
+    }
+  }
 
-    this.inputBuffer = new Float32Array(this.grainSize * 2);
-    this.outputBuffer = new Float32Array(this.grainSize * 2);
+  analyse(channel: PitchShifterChannel) {
+    const { fftSize, re, im } = this;
+    const bins = fftSize / 2 + 1;
 
-    this.inputBufferFill = 0;
-    this.outputBufferFill = 0;
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = channel.inputFifo[i] * this.window[i];
+      im[i] = 0;
+    }
+    this.fft.forward(re, im);
 
-    this.port = (options?.processorOptions?.port) as MessagePort;
+    for (let k = 0; k < bins; k++) {
+      channel.magnitudes[k] = Math.hypot(re[k], im[k]);
+      channel.phases[k] = Math.atan2(im[k], re[k]);
+    }
+  }
 
-    this.port.onmessage = (event: { data: { pitchRatio: number } }) => {
-      if (event.data.pitchRatio !== undefined) {
-        this.pitchRatio = event.data.pitchRatio;
+  // Spectral peaks of a magnitude spectrum, written to this.peaks
+  findPeaks(magnitudes: Float64Array) {
+    const bins = this.fftSize / 2 + 1;
+    let peakCount = 0;
+    for (let k = 0; k < bins; k++) {
+      const magnitude = magnitudes[k];
+      if (
+        magnitude > 1e-9 &&
+        (k < 1 || magnitude > magnitudes[k - 1]) &&
+        (k < 2 || magnitude > magnitudes[k - 2]) &&
+        (k >= bins - 1 || magnitude >= magnitudes[k + 1]) &&
+        (k >= bins - 2 || magnitude >= magnitudes[k + 2])
+      ) {
+        this.peaks[peakCount++] = k;
       }
-    };
+    }
+    return peakCount;
+  }
+
+  // Synthesis phase of every peak at its shifted bin, propagated from the
+  // loudest of the `references` at that peak
+  propagatePeaks(references: PitchShifterChannel[], peakCount: number) {
+    const expectedAdvance = (2 * Math.PI * this.hopSize) / this.fftSize;
+
+    for (let p = 0; p < peakCount; p++) {
+      const peak = this.peaks[p];
+      const target = Math.round(peak * this.pitchRatio);
+      if (target >= this.fftSize / 2 + 1) continue;
+
+      let referenceIndex = 0;
+      for (let c = 1; c < references.length; c++) {
+        if (references[c].magnitudes[peak] > references[referenceIndex].magnitudes[peak]) {
+          referenceIndex = c;
+        }
+      }
+      this.peakReferences[p] = referenceIndex;
+      const reference = references[referenceIndex];
+
+      // True frequency of the peak (in bins) from its phase advance
+      let deviation = reference.phases[peak] - reference.previousPhases[peak] - peak * expectedAdvance;
+      deviation -= 2 * Math.PI * Math.round(deviation / (2 * Math.PI));
+      const trueBin = peak + deviation / expectedAdvance;
+
+      this.peakPhases[p] = reference.synthesisPhases[target] + trueBin * this.pitchRatio * expectedAdvance;
+    }
+  }
+
+  // Move each peak's region to the shifted position and overlap-add the result
+  synthesise(channel: PitchShifterChannel, references: PitchShifterChannel[], peakCount: number) {
+    const { fftSize, hopSize, re, im, peaks } = this;
+    const bins = fftSize / 2 + 1;
+
+    channel.synthesisRe.fill(0);
+    channel.synthesisIm.fill(0);
+
+    let regionStart = 0;
+    for (let p = 0; p < peakCount; p++) {
+      const peak = peaks[p];
+      const regionEnd = p < peakCount - 1 ? Math.floor((peak + peaks[p + 1]) / 2) : bins - 1;
+      const target = Math.round(peak * this.pitchRatio);
+      const binShift = target - peak;
+
+      if (target < bins) {
+        const referencePhase = references[this.peakReferences[p]].phases[peak];
+        for (let k = regionStart; k <= regionEnd; k++) {
+          const j = k + binShift;
+          if (j < 0 || j >= bins) continue;
+          const phase = this.peakPhases[p] + channel.phases[k] - referencePhase;
+          channel.synthesisRe[j] += channel.magnitudes[k] * Math.cos(phase);
+          channel.synthesisIm[j] += channel.magnitudes[k] * Math.sin(phase);
+        }
+      }
+
+      regionStart = regionEnd + 1;
+    }
+
+    for (let k = 0; k < bins; k++) {
+      re[k] = channel.synthesisRe[k];
+      im[k] = channel.synthesisIm[k];
+    }
+
+    // Conjugate-symmetric half, then back to the time domain
+    for (let k = bins; k < fftSize; k++) {
+      re[k] = re[fftSize - k];
+      im[k] = -im[fftSize - k];
+    }
+    this.fft.inverse(re, im);
+
+    // Overlap-add; a squared Hann window sums to 3/8 * overlap
+    const gain = 8 / (3 * this.overlap);
+    for (let i = 0; i < fftSize; i++) {
+      channel.outputAccumulator[i] += re[i] * this.window[i] * gain;
+    }
+
+    for (let i = 0; i < hopSize; i++) {
+      channel.outputFifo[i] = channel.outputAccumulator[i];
+    }
+
+    // Shift the accumulator and the input window by one hop
+    channel.outputAccumulator.copyWithin(0, hopSize);
+    channel.outputAccumulator.fill(0, channel.outputAccumulator.length - hopSize);
+    channel.inputFifo.copyWithin(0, hopSize);
+  }
+
+  // Update the phase history once every channel has been synthesised
+  finishFrame(channel: PitchShifterChannel) {
+    const bins = this.fftSize / 2 + 1;
+    for (let k = 0; k < bins; k++) {
+      channel.previousPhases[k] = channel.phases[k];
+      channel.synthesisPhases[k] = Math.atan2(channel.synthesisIm[k], channel.synthesisRe[k]);
+    }
+  }
+
+  processFrame(channelCount: number) {
+    const channels = this.channels.slice(0, channelCount);
+
+    for (const channel of channels) {
+      this.analyse(channel);
+    }
+
+    if (this.linked && channelCount > 1) {
+      // Shared peaks from the summed spectrum
+      this.linkedMagnitudes.fill(0);
+      for (const channel of channels) {
+        for (let k = 0; k < this.linkedMagnitudes.length; k++) {
+          this.linkedMagnitudes[k] += channel.magnitudes[k];
+        }
+      }
+      const peakCount = this.findPeaks(this.linkedMagnitudes);
+      this.propagatePeaks(channels, peakCount);
+      for (const channel of channels) {
+        this.synthesise(channel, channels, peakCount);
+      }
+    } else {
+      for (const channel of channels) {
+        const peakCount = this.findPeaks(channel.magnitudes);
+        this.propagatePeaks([channel], peakCount);
+        this.synthesise(channel, [channel], peakCount);
+      }
+    }
+
+    for (const channel of channels) {
+      this.finishFrame(channel);
+    }
   }
 
   process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
@@ -45,27 +290,24 @@ class PitchShifterProcessor extends AudioWorkletProcessor {
       return true;
     }
 
-    const inputChannel = input[0];
-    const outputChannel = output[0];
+    const channelCount = Math.min(input.length, output.length);
+    this.ensureChannels(channelCount);
 
-    // Simple time-domain pitch shifting
-    // This is a basic implementation - a real one would use FFT
-    const stretchFactor = 1.0 / this.pitchRatio;
-
-    for (let i = 0; i < inputChannel.length; i++) {
-      // Simple resampling for pitch shift
-      const readPos = i * stretchFactor;
-      const readPosFloor = Math.floor(readPos);
-      const readPosFrac = readPos - readPosFloor;
+    const pitchRatios = parameters.pitchRatio;
+    const blockSize = input[0].length;
+    for (let i = 0; i < blockSize; i++) {
+      const readPosition = this.fifoPosition - this.fifoStart;
+      for (let c = 0; c < channelCount; c++) {
+        const channel = this.channels[c];
+        channel.inputFifo[this.fifoPosition] = input[c][i];
+        output[c][i] = channel.outputFifo[readPosition];
+      }
+      this.fifoPosition++;
 
-      if (readPosFloor >= 0 && readPosFloor < inputChannel.length - 1) {
-        // Linear interpolation
-        outputChannel[i] = inputChannel[readPosFloor] * (1 - readPosFrac) +
-                          inputChannel[readPosFloor + 1] * readPosFrac;
-      } else if (readPosFloor >= 0 && readPosFloor < inputChannel.length) {
-        outputChannel[i] = inputChannel[readPosFloor];
-      } else {
-        outputChannel[i] = 0;
+      if (this.fifoPosition >= this.fftSize) {
+        this.fifoPosition = this.fifoStart;
+        this.pitchRatio = pitchRatios.length > 1 ? pitchRatios[i] : pitchRatios[0];
+        this.processFrame(channelCount);
       }
     }
 
@@ -73,4 +315,4 @@ class PitchShifterProcessor extends AudioWorkletProcessor {
   }
 }
 
-registerProcessor('pitch-shifter-processor', PitchShifterProcessor);
\ No newline at end of file
+registerProcessor('pitch-shifter-processor', PitchShifterProcessor);
@@ -0,0 +1,225 @@
+// Reverb settings and impulse responses. The convolution engine uses an impulse
+// generated from a seed and a room type, or loaded from a recording in the library;
+// the same settings always give the same impulse, so playback and export sound
+// alike. The algorithmic engine (algorithmic-reverb-processor) needs no impulse.
+
+import { getAudioById } from "./db"
+
+export type ReverbRoom = "bathroom" | "hall" | "cave" | "stadium" | "spring" | "plate"
+
+// Convolution sounds most natural; algorithmic is much cheaper for long tails
+export type ReverbEngine = "convolution" | "algorithmic"
+
+export interface ReverbSettings {
+  engine: ReverbEngine
+  room: ReverbRoom // character of the generated impulse; the values below start from its preset
+  preDelay: number // 0 to 0.2 seconds before the reverb starts
+  decay: number // 0.2 to 8 seconds for the tail to fall by 60 dB
+  damping: number // 0 to 1, how much faster the highs die out
+  width: number // 0 (mono) to 1
+  size: number // 0 to 1, room size of the algorithmic engine
+  freeze: boolean // algorithmic engine: hold the tail indefinitely
+  modulation: number // 0 to 1, algorithmic engine: delay modulation that smears metallic ringing
+  seed: number // noise seed of the generated impulse
+  impulseId: number | null // library recording to use as the impulse instead
+}
+
+// Discrete echoes added to the start of the tail: `count` taps `interval` seconds
+// apart, each `gain` times the level of the one before
+interface ReverbReflections {
+  interval: number
+  count: number
+  gain: number
+}
+
+interface ReverbRoomPreset {
+  label: string
+  preDelay: number
+  decay: number
+  damping: number
+  width: number
+  size: number
+  reflections?: ReverbReflections
+}
+
+export const reverbRooms: Record<ReverbRoom, ReverbRoomPreset> = {
+  bathroom: {
+    label: "Bathroom",
+    preDelay: 0.005,
+    decay: 0.9,
+    damping: 0.1,
+    width: 0.5,
+    size: 0.2,
+    reflections: { interval: 0.011, count: 8, gain: 0.7 },
+  },
+  hall: { label: "Hall", preDelay: 0.025, decay: 2.4, damping: 0.45, width: 1, size: 0.7 },
+  cave: {
+    label: "Cave",
+    preDelay: 0.04,
+    decay: 4.5,
+    damping: 0.6,
+    width: 0.9,
+    size: 0.85,
+    reflections: { interval: 0.12, count: 6, gain: 0.5 },
+  },
+  stadium: {
+    label: "Stadium",
+    preDelay: 0.08,
+    decay: 5.5,
+    damping: 0.5,
+    width: 1,
+    size: 1,
+    reflections: { interval: 0.25, count: 4, gain: 0.45 },
+  },
+  spring: {
+    label: "Spring",
+    preDelay: 0.01,
+    decay: 2,
+    damping: 0.3,
+    width: 0.3,
+    size: 0.4,
+    reflections: { interval: 0.032, count: 30, gain: 0.85 },
+  },
+  plate: { label: "Plate", preDelay: 0, decay: 1.8, damping: 0.05, width: 1, size: 0.5 },
+}
+
+export const defaultReverbSettings: ReverbSettings = {
+  engine: "convolution",
+  room: "hall",
+  preDelay: reverbRooms.hall.preDelay,
+  decay: reverbRooms.hall.decay,
+  damping: reverbRooms.hall.damping,
+  width: reverbRooms.hall.width,
+  size: reverbRooms.hall.size,
+  freeze: false,
+  modulation: 0,
+  seed: 1,
+  impulseId: null,
+}
+
+// Settings for a room with its preset values, keeping the seed and impulse
+export const applyReverbRoom = (settings: ReverbSettings, room: ReverbRoom): ReverbSettings => {
+  const { preDelay, decay, damping, width, size } = reverbRooms[room]
+  return { ...settings, room, preDelay, decay, damping, width, size }
+}
+
+// Small seeded PRNG (mulberry32), returns values in [0, 1)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Level of the tail: -60 dB after `decay` seconds
+const DECAY_RATE = Math.log(1000)
+
+// Stereo noise tail for the settings. The pre-delay isn't part of the impulse;
+// the chain delays the reverb's input instead, so it can change without a new impulse.
+export const createReverbImpulse = (audioContext: BaseAudioContext, settings: ReverbSettings): AudioBuffer => {
+  const { sampleRate } = audioContext
+  const { decay, damping, width } = settings
+  const length = Math.max(1, Math.round(decay * sampleRate))
+  const impulse = audioContext.createBuffer(2, length, sampleRate)
+  const left = impulse.getChannelData(0)
+  const right = impulse.getChannelData(1)
+  const random = createRandom(settings.seed)
+
+  // Mid/side mix of two noises; narrowing it lowers the level, which is made up here
+  const widthGain = 1 / Math.sqrt((1 + width * width) / 2)
+  let lowLeft = 0
+  let lowRight = 0
+
+  for (let i = 0; i < length; i++) {
+    const time = i / sampleRate
+    const amplitude = Math.exp((-DECAY_RATE * time) / decay)
+
+    const a = random() * 2 - 1
+    const b = random() * 2 - 1
+    const mid = (a + b) / 2
+    const side = ((a - b) / 2) * width
+
+    // One-pole lowpass that closes over the first half of the tail, with its
+    // loss of level made up so damping darkens the tail without shortening it
+    const coefficient = 1 - damping * 0.95 * Math.min(1, (2 * time) / decay)
+    const filterGain = 1 / Math.sqrt(coefficient / (2 - coefficient))
+    lowLeft += coefficient * ((mid + side) * widthGain - lowLeft)
+    lowRight += coefficient * ((mid - side) * widthGain - lowRight)
+
+    left[i] = lowLeft * filterGain * amplitude
+    right[i] = lowRight * filterGain * amplitude
+  }
+
+  // Early reflections, slightly apart on each side
+  const reflections = reverbRooms[settings.room].reflections
+  if (reflections) {
+    for (let n = 1; n <= reflections.count; n++) {
+      const level = Math.pow(reflections.gain, n) * (n % 2 === 0 ? 1 : -1)
+      for (const channel of [left, right]) {
+        const jitter = 1 + (random() - 0.5) * 0.1 * width
+        const index = Math.round(reflections.interval * n * jitter * sampleRate)
+        if (index < length) channel[index] += level
+      }
+    }
+  }
+
+  return impulse
+}
+
+// Identifies the impulse the settings produce; the pre-delay isn't part of it
+export const getReverbImpulseKey = (settings: ReverbSettings): string =>
+  settings.impulseId !== null
+    ? `library:${settings.impulseId}`
+    : `${settings.room}:${settings.decay}:${settings.damping}:${settings.width}:${settings.seed}`
+
+// Generated impulses kept per context besides the library ones (e.g. while a slider is dragged)
+const MAX_CACHED_IMPULSES = 8
+
+// Impulses already built (or being loaded) per context
+const impulseCache = new WeakMap<BaseAudioContext, Map<string, Promise<AudioBuffer>>>()
+
+// Decode a library recording in the context, or null if it is gone or can't be decoded
+const loadLibraryImpulse = async (audioContext: BaseAudioContext, id: number): Promise<AudioBuffer | null> => {
+  const audio = await getAudioById(id)
+  if (!audio) return null
+
+  try {
+    return await audioContext.decodeAudioData(await audio.blob.arrayBuffer())
+  } catch (error) {
+    console.error(`Failed to decode impulse response ${id}:`, error)
+    return null
+  }
+}
+
+// The impulse for the settings, built once per context. A library impulse that
+// can't be loaded falls back to the generated one.
+export const getReverbImpulse = (audioContext: BaseAudioContext, settings: ReverbSettings): Promise<AudioBuffer> => {
+  let impulses = impulseCache.get(audioContext)
+  if (!impulses) {
+    impulses = new Map()
+    impulseCache.set(audioContext, impulses)
+  }
+
+  const key = getReverbImpulseKey(settings)
+  let impulse = impulses.get(key)
+  if (!impulse) {
+    const { impulseId } = settings
+    impulse =
+      impulseId !== null
+        ? loadLibraryImpulse(audioContext, impulseId).then(
+            (buffer) => buffer ?? getReverbImpulse(audioContext, { ...settings, impulseId: null }),
+          )
+        : Promise.resolve(createReverbImpulse(audioContext, settings))
+    impulses.set(key, impulse)
+
+    const generatedKeys = [...impulses.keys()].filter((candidate) => !candidate.startsWith("library:"))
+    if (generatedKeys.length > MAX_CACHED_IMPULSES) {
+      impulses.delete(generatedKeys[0])
+    }
+  }
+  return impulse
+}
@@ -0,0 +1,184 @@
+// Hearing safety: the limiter at the end of every live graph (safety-limiter-processor
+// worklet) and its settings. Parents adjust the settings on the settings page; the
+// limiter can only be switched off with their PIN. Settings and the PIN's hash are
+// kept in localStorage and apply to every player at once.
+
+import { createWorkletNode, getWorkletParam, smoothParam } from "./audio-worklets"
+
+export interface SafetySettings {
+  enabled: boolean // off only with the parents' PIN
+  ceiling: number // -12 to 0 dBFS no sample goes above
+  maxLoudness: number // -30 to -6 dBFS level the sound is turned down to
+  feedbackProtection: boolean // duck sustained full-scale output, like an echo feeding back on itself
+}
+
+export const defaultSafetySettings: SafetySettings = {
+  enabled: true,
+  ceiling: -3,
+  maxLoudness: -14,
+  feedbackProtection: true,
+}
+
+// Ranges the settings page offers; stored values are clamped to them too
+export const safetyRanges = {
+  ceiling: { min: -12, max: 0 },
+  maxLoudness: { min: -30, max: -6 },
+}
+
+export const MIN_PIN_LENGTH = 4
+
+const SETTINGS_KEY = "audiology-safety-settings"
+const PIN_KEY = "audiology-safety-pin"
+
+type SafetyListener = (settings: SafetySettings) => void
+const listeners = new Set<SafetyListener>()
+
+const clamp = (value: number, range: { min: number; max: number }): number =>
+  Math.min(range.max, Math.max(range.min, value))
+
+export const getSafetySettings = (): SafetySettings => {
+  if (typeof window === "undefined") return defaultSafetySettings
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}")
+    const settings = { ...defaultSafetySettings, ...stored }
+    return {
+      enabled: settings.enabled !== false,
+      ceiling: clamp(Number(settings.ceiling), safetyRanges.ceiling),
+      maxLoudness: clamp(Number(settings.maxLoudness), safetyRanges.maxLoudness),
+      feedbackProtection: settings.feedbackProtection !== false,
+    }
+  } catch {
+    return defaultSafetySettings
+  }
+}
+
+const storeSafetySettings = (settings: SafetySettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  listeners.forEach((listener) => listener(settings))
+}
+
+// Change the limits. Switching the limiter off goes through setSafetyEnabled.
+export const updateSafetySettings = (changes: Partial<Omit<SafetySettings, "enabled">>): SafetySettings => {
+  const current = getSafetySettings()
+  const settings = {
+    ...current,
+    ...changes,
+    enabled: current.enabled,
+    ceiling: clamp(changes.ceiling ?? current.ceiling, safetyRanges.ceiling),
+    maxLoudness: clamp(changes.maxLoudness ?? current.maxLoudness, safetyRanges.maxLoudness),
+  }
+  storeSafetySettings(settings)
+  return settings
+}
+
+// Called with the settings whenever they change, in this tab or another; returns the unsubscribe function
+export const subscribeSafetySettings = (listener: SafetyListener): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SETTINGS_KEY) listener(getSafetySettings())
+  }
+
+  listeners.add(listener)
+  window.addEventListener("storage", handleStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener("storage", handleStorage)
+  }
+}
+
+const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`audiology:${pin}`))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export const hasSafetyPin = (): boolean => typeof window !== "undefined" && !!localStorage.getItem(PIN_KEY)
+
+export const verifySafetyPin = async (pin: string): Promise<boolean> => {
+  const stored = localStorage.getItem(PIN_KEY)
+  return !!stored && stored === (await hashPin(pin))
+}
+
+// Set the PIN; changing an existing one needs the current PIN. Resolves to whether it was set.
+export const setSafetyPin = async (pin: string, currentPin = ""): Promise<boolean> => {
+  if (pin.length < MIN_PIN_LENGTH) return false
+  if (hasSafetyPin() && !(await verifySafetyPin(currentPin))) return false
+
+  localStorage.setItem(PIN_KEY, await hashPin(pin))
+  return true
+}
+
+// Switch the limiter on, or off with the PIN. Resolves to whether the change was made.
+export const setSafetyEnabled = async (enabled: boolean, pin = ""): Promise<boolean> => {
+  if (!enabled && !(await verifySafetyPin(pin))) return false
+
+  storeSafetySettings({ ...getSafetySettings(), enabled })
+  return true
+}
+
+export interface SafetyLimiterNodes {
+  input: AudioNode
+  output: AudioNode
+  // The worklet, or a compressor set up as a limiter where worklets are unavailable
+  limiter: AudioWorkletNode | null
+  compressor: DynamicsCompressorNode | null
+}
+
+// Compressor settings closest to a brickwall limiter, or neutral when disabled
+const applyCompressorSettings = (compressor: DynamicsCompressorNode, settings: SafetySettings) => {
+  compressor.threshold.value = settings.enabled ? Math.min(settings.ceiling, settings.maxLoudness + 8) : 0
+  compressor.ratio.value = settings.enabled ? 20 : 1
+  compressor.knee.value = 0
+  compressor.attack.value = 0.001
+  compressor.release.value = 0.1
+}
+
+// Create the limiter. onDucking is called when feedback ducking starts and stops.
+export const createSafetyLimiter = async (
+  audioContext: BaseAudioContext,
+  settings: SafetySettings,
+  onDucking?: (ducking: boolean) => void,
+): Promise<SafetyLimiterNodes> => {
+  let limiter: AudioWorkletNode | null = null
+  try {
+    limiter = await createWorkletNode(audioContext, "safety-limiter-processor", {
+      parameterData: {
+        enabled: settings.enabled ? 1 : 0,
+        ceiling: settings.ceiling,
+        maxLoudness: settings.maxLoudness,
+        feedbackProtection: settings.feedbackProtection ? 1 : 0,
+      },
+    })
+  } catch (error) {
+    console.warn("Safety limiter not available, falling back to a compressor:", error)
+  }
+
+  if (limiter) {
+    limiter.port.onmessage = (event) => onDucking?.(event.data.ducking)
+    return { input: limiter, output: limiter, limiter, compressor: null }
+  }
+
+  const compressor = audioContext.createDynamicsCompressor()
+  applyCompressorSettings(compressor, settings)
+  return { input: compressor, output: compressor, limiter: null, compressor }
+}
+
+export const updateSafetyLimiter = (nodes: SafetyLimiterNodes, settings: SafetySettings): void => {
+  if (nodes.compressor) {
+    applyCompressorSettings(nodes.compressor, settings)
+  }
+  if (!nodes.limiter) return
+
+  const audioContext = nodes.limiter.context
+  const param = (name: "enabled" | "ceiling" | "maxLoudness" | "feedbackProtection") =>
+    getWorkletParam(nodes.limiter!, "safety-limiter-processor", name)
+  smoothParam(param("enabled"), settings.enabled ? 1 : 0, audioContext, 0)
+  smoothParam(param("ceiling"), settings.ceiling, audioContext)
+  smoothParam(param("maxLoudness"), settings.maxLoudness, audioContext)
+  smoothParam(param("feedbackProtection"), settings.feedbackProtection ? 1 : 0, audioContext, 0)
+}
+
+export const disposeSafetyLimiter = (nodes: SafetyLimiterNodes): void => {
+  if (nodes.limiter) nodes.limiter.port.onmessage = null
+  nodes.input.disconnect()
+  nodes.output.disconnect()
+}
@@ -0,0 +1,168 @@
+// Offline WSOLA (waveform-similarity overlap-add) time stretching for export,
+// plus the playback-rate mode the player uses for the same effect
+
+import type { AudioEffects } from "./audio-effects"
+import type { AdvancedAudioEffects } from "./advanced-audio-effects"
+import { getEffectDefinition } from "./effects"
+import { createHannWindow } from "./fft"
+
+// Frame length and how far each frame may move to line up with the previous one
+const FRAME_DURATION = 0.03
+const SEARCH_DURATION = 0.01
+
+// Number of coarse search positions before refining around the best one
+const COARSE_SEARCH_STEPS = 32
+
+// Similarity of a candidate segment to the target, normalized by the candidate's energy
+const similarity = (signal: Float32Array, target: number, candidate: number, length: number): number => {
+  let correlation = 0
+  let energy = 0
+  for (let i = 0; i < length; i++) {
+    const t = target + i < signal.length ? signal[target + i] : 0
+    const c = candidate + i < signal.length ? signal[candidate + i] : 0
+    correlation += t * c
+    energy += c * c
+  }
+  return correlation / Math.sqrt(energy + 1e-9)
+}
+
+// Analysis position of every output frame. Each frame is searched around its
+// nominal position for the best match with the natural continuation of the
+// previous frame, so periodic waveforms stay in phase across the overlap.
+const findFramePositions = (
+  signal: Float32Array,
+  rate: number,
+  frameSize: number,
+  searchRadius: number,
+  frameCount: number,
+): Int32Array => {
+  const hop = frameSize / 2
+  const positions = new Int32Array(frameCount)
+  const maxPosition = Math.max(0, signal.length - 1)
+
+  for (let frame = 1; frame < frameCount; frame++) {
+    const target = positions[frame - 1] + hop
+    const nominal = Math.round(frame * hop * rate)
+    const low = Math.max(0, nominal - searchRadius)
+    const high = Math.min(maxPosition, nominal + searchRadius)
+
+    if (low >= high) {
+      positions[frame] = Math.min(maxPosition, nominal)
+      continue
+    }
+
+    // Coarse pass over the search range, then refine around the best candidate
+    const step = Math.max(1, Math.floor((high - low) / COARSE_SEARCH_STEPS))
+    let best = low
+    let bestScore = -Infinity
+    for (let candidate = low; candidate <= high; candidate += step) {
+      const score = similarity(signal, target, candidate, hop)
+      if (score > bestScore) {
+        bestScore = score
+        best = candidate
+      }
+    }
+
+    const refineLow = Math.max(low, best - step + 1)
+    const refineHigh = Math.min(high, best + step - 1)
+    for (let candidate = refineLow; candidate <= refineHigh; candidate++) {
+      const score = similarity(signal, target, candidate, hop)
+      if (score > bestScore) {
+        bestScore = score
+        best = candidate
+      }
+    }
+
+    positions[frame] = best
+  }
+
+  return positions
+}
+
+// Change the tempo of a set of channels by `rate` (> 1 is faster and shorter)
+// without changing their pitch. Frame positions are searched once on the mono
+// mix and shared by every channel, which keeps the stereo image intact.
+export const wsolaStretch = (channels: Float32Array[], rate: number, sampleRate: number): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0
+  const outputLength = Math.ceil(inputLength / rate)
+  if (Math.abs(rate - 1) < 1e-4 || inputLength === 0) return channels.map((channel) => channel.slice())
+
+  const frameSize = 2 * Math.round((sampleRate * FRAME_DURATION) / 2)
+  const hop = frameSize / 2
+  const searchRadius = Math.round(sampleRate * SEARCH_DURATION)
+  const window = createHannWindow(frameSize)
+
+  // Mono mix for the similarity search
+  const mix = new Float32Array(inputLength)
+  for (const channel of channels) {
+    for (let i = 0; i < inputLength; i++) {
+      mix[i] += channel[i] / channels.length
+    }
+  }
+
+  const frameCount = Math.ceil(outputLength / hop) + 1
+  const positions = findFramePositions(mix, rate, frameSize, searchRadius, frameCount)
+
+  // Hann frames at 50% overlap sum to one; the window sum still covers the edges
+  const windowSum = new Float64Array(outputLength)
+  for (let frame = 0; frame < frameCount; frame++) {
+    const outputStart = frame * hop
+    for (let i = 0; i < frameSize && outputStart + i < outputLength; i++) {
+      windowSum[outputStart + i] += window[i]
+    }
+  }
+
+  return channels.map((channel) => {
+    const output = new Float32Array(outputLength)
+    for (let frame = 0; frame < frameCount; frame++) {
+      const outputStart = frame * hop
+      const inputStart = positions[frame]
+      for (let i = 0; i < frameSize && outputStart + i < outputLength; i++) {
+        const index = inputStart + i
+        if (index < inputLength) {
+          output[outputStart + i] += channel[index] * window[i]
+        }
+      }
+    }
+
+    for (let i = 0; i < outputLength; i++) {
+      output[i] = windowSum[i] > 1e-6 ? output[i] / windowSum[i] : 0
+    }
+    return output
+  })
+}
+
+// Time stretch every channel of a buffer, returning a new buffer of length / rate
+export const timeStretchAudioBuffer = (
+  audioContext: BaseAudioContext,
+  audioBuffer: AudioBuffer,
+  rate: number,
+): AudioBuffer => {
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) =>
+    audioBuffer.getChannelData(channel),
+  )
+  const stretched = wsolaStretch(channels, rate, audioBuffer.sampleRate)
+
+  const result = audioContext.createBuffer(audioBuffer.numberOfChannels, stretched[0].length, audioBuffer.sampleRate)
+  stretched.forEach((channel, index) => result.copyToChannel(channel, index))
+  return result
+}
+
+// Combined tempo factor of the tempo effects in the chain (1 when there are none)
+export const getTimeStretchRate = (effects: AdvancedAudioEffects): number =>
+  effects.reduce((rate, effect) => {
+    const getTempoFactor = getEffectDefinition(effect.type)?.getTempoFactor
+    if (!getTempoFactor || !effect.enabled || effect.bypass) return rate
+    return rate * getTempoFactor(effect.params)
+  }, 1)
+
+// Player time-stretch mode: a realtime node can't change the duration, so the
+// media element plays at speed * stretch rate and keeps the pitch itself
+export const applyPlaybackRate = (
+  audioElement: HTMLMediaElement,
+  basicEffects: AudioEffects,
+  advancedEffects: AdvancedAudioEffects,
+): void => {
+  audioElement.preservesPitch = true
+  audioElement.playbackRate = basicEffects.speed * getTimeStretchRate(advancedEffects)
+}
@@ -0,0 +1,65 @@
+// YIN pitch detection used by the pitch-tracking processors
+
+// Frame length, confidence threshold (maximum normalized difference accepted
+// as a period) and detectable range
+const YIN_WINDOW = 1024
+const YIN_THRESHOLD = 0.15
+const MIN_FREQUENCY = 60
+const MAX_FREQUENCY = 1000
+
+// YIN pitch detection (de Cheveigné & Kawahara) with parabolic refinement.
+// `buffer` holds the frame in time order (at least YIN_WINDOW plus the longest
+// period), `difference` is scratch space of half its length.
+// Returns 0 Hz when no period is confident enough.
+export const detectPitch = (buffer: Float32Array, difference: Float32Array, sampleRate: number): number => {
+  const minLag = Math.floor(sampleRate / MAX_FREQUENCY)
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_FREQUENCY), buffer.length - YIN_WINDOW - 1)
+
+  // Difference function
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0
+    for (let i = 0; i < YIN_WINDOW; i++) {
+      const delta = buffer[i] - buffer[i + lag]
+      sum += delta * delta
+    }
+    difference[lag] = sum
+  }
+
+  // Cumulative mean normalized difference
+  difference[0] = 1
+  let runningSum = 0
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += difference[lag]
+    difference[lag] = runningSum > 0 ? (difference[lag] * lag) / runningSum : 1
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let period = -1
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (difference[lag] < YIN_THRESHOLD) {
+      while (lag + 1 <= maxLag && difference[lag + 1] < difference[lag]) {
+        lag++
+      }
+      period = lag
+      break
+    }
+  }
+
+  if (period < 0) {
+    return 0
+  }
+
+  // Parabolic interpolation around the minimum
+  let refined = period
+  if (period > 1 && period < maxLag) {
+    const a = difference[period - 1]
+    const b = difference[period]
+    const c = difference[period + 1]
+    const denominator = a - 2 * b + c
+    if (denominator > 0) {
+      refined = period + (a - c) / (2 * denominator)
+    }
+  }
+
+  return sampleRate / refined
+}
@@ -0,0 +1,161 @@
+// Algorithmic reverb processor for AudioWorklet
+// Freeverb: eight parallel lowpass-feedback combs into four series allpasses per
+// channel, the right channel's delays slightly longer for a decorrelated stereo
+// tail. Outputs the reverb only; the chain mixes it with the dry signal.
+// Comb feedback is derived from the decay time, so the tail falls by 60 dB in
+// `decay` seconds whatever the room size.
+
+// Delay lengths in samples at 44.1 kHz
+const COMB_TUNING = [1116, 1188, 1277, 1356, 1422, 1491, 1557, 1617];
+const ALLPASS_TUNING = [556, 441, 341, 225];
+const STEREO_SPREAD = 23;
+
+const INPUT_GAIN = 0.015;
+const OUTPUT_GAIN = 3;
+const ALLPASS_FEEDBACK = 0.5;
+const DAMPING_SCALE = 0.4;
+// Comb delays run from half to one and a half times the tuning as the size goes from 0 to 1
+const MIN_SIZE_SCALE = 0.5;
+const MAX_SIZE_SCALE = 1.5;
+// Comb delay swing at full modulation, in samples at 44.1 kHz, and the LFO rate
+const MODULATION_DEPTH = 12;
+const MODULATION_RATE = 0.5;
+
+// Lowpass-feedback comb with a fractional, movable delay
+class Comb {
+  constructor(length) {
+    this.buffer = new Float32Array(length);
+    this.index = 0;
+    this.filterStore = 0;
+  }
+
+  process(input, delay, feedback, damping) {
+    const buffer = this.buffer;
+    let readPosition = this.index - delay;
+    if (readPosition < 0) readPosition += buffer.length;
+    const i0 = Math.floor(readPosition);
+    const i1 = i0 + 1 < buffer.length ? i0 + 1 : 0;
+    const output = buffer[i0] + (buffer[i1] - buffer[i0]) * (readPosition - i0);
+
+    this.filterStore = output * (1 - damping) + this.filterStore * damping;
+    buffer[this.index] = input + this.filterStore * feedback;
+    this.index = this.index + 1 < buffer.length ? this.index + 1 : 0;
+    return output;
+  }
+}
+
+// Schroeder allpass with a fixed delay
+class Allpass {
+  constructor(length) {
+    this.buffer = new Float32Array(length);
+    this.index = 0;
+  }
+
+  process(input) {
+    const delayed = this.buffer[this.index];
+    this.buffer[this.index] = input + delayed * ALLPASS_FEEDBACK;
+    this.index = this.index + 1 < this.buffer.length ? this.index + 1 : 0;
+    return delayed - input;
+  }
+}
+
+class AlgorithmicReverbProcessor extends AudioWorkletProcessor {
+  // Read once per block. decay in seconds; freeze holds the tail while above 0.5.
+  static get parameterDescriptors() {
+    return [
+      { name: "decay", defaultValue: 2, minValue: 0.1, maxValue: 20, automationRate: "k-rate" },
+      { name: "size", defaultValue: 0.7, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "damping", defaultValue: 0.5, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "width", defaultValue: 1, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "freeze", defaultValue: 0, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "modulation", defaultValue: 0, minValue: 0, maxValue: 1, automationRate: "k-rate" }
+    ];
+  }
+
+  constructor(options) {
+    super(options);
+    this.scale = sampleRate / 44100;
+    this.modulationPhase = 0;
+
+    // Left and right channel: combs with their base delays, and allpasses
+    this.channels = [0, STEREO_SPREAD].map((spread) => {
+      const combDelays = COMB_TUNING.map((length) => (length + spread) * this.scale);
+      return {
+        combDelays,
+        combs: combDelays.map((delay) => new Comb(Math.ceil(delay * MAX_SIZE_SCALE + MODULATION_DEPTH * this.scale) + 2)),
+        allpasses: ALLPASS_TUNING.map((length) => new Allpass(Math.round((length + spread) * this.scale)))
+      };
+    });
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+
+    if (!output || !output[0]) {
+      return true;
+    }
+
+    const decay = parameters.decay[0];
+    const frozen = parameters.freeze[0] > 0.5;
+    const damping = frozen ? 0 : parameters.damping[0] * DAMPING_SCALE;
+    const inputGain = frozen ? 0 : INPUT_GAIN;
+    const width = parameters.width[0];
+    const sizeScale = MIN_SIZE_SCALE + (MAX_SIZE_SCALE - MIN_SIZE_SCALE) * parameters.size[0];
+    const modulationDepth = parameters.modulation[0] * MODULATION_DEPTH * this.scale;
+    const blockSize = output[0].length;
+
+    // Delay and feedback of every comb for this block. The combs' LFOs are spread
+    // around the cycle so the tail shimmers instead of wobbling as one.
+    const combSettings = this.channels.map((channel) =>
+      channel.combDelays.map((baseDelay, index) => {
+        const phase = this.modulationPhase + (index / channel.combDelays.length) * 2 * Math.PI;
+        const delay = baseDelay * sizeScale + modulationDepth * (1 + Math.sin(phase)) / 2 + 1;
+        const feedback = frozen ? 1 : Math.pow(10, (-3 * delay) / (sampleRate * decay));
+        return { delay, feedback };
+      })
+    );
+    this.modulationPhase = (this.modulationPhase + (2 * Math.PI * MODULATION_RATE * blockSize) / sampleRate) % (2 * Math.PI);
+
+    const wet1 = OUTPUT_GAIN * (width / 2 + 0.5);
+    const wet2 = OUTPUT_GAIN * ((1 - width) / 2);
+
+    for (let i = 0; i < blockSize; i++) {
+      let sum = 0;
+      if (input) {
+        for (let c = 0; c < input.length; c++) {
+          sum += input[c][i];
+        }
+      }
+      const reverbInput = sum * inputGain;
+
+      let left = 0;
+      let right = 0;
+      for (let c = 0; c < 2; c++) {
+        const channel = this.channels[c];
+        const settings = combSettings[c];
+        let value = 0;
+        for (let k = 0; k < channel.combs.length; k++) {
+          value += channel.combs[k].process(reverbInput, settings[k].delay, settings[k].feedback, damping);
+        }
+        for (let k = 0; k < channel.allpasses.length; k++) {
+          value = channel.allpasses[k].process(value);
+        }
+        if (c === 0) left = value;
+        else right = value;
+      }
+
+      if (output.length > 1) {
+        output[0][i] = left * wet1 + right * wet2;
+        output[1][i] = right * wet1 + left * wet2;
+        for (let c = 2; c < output.length; c++) output[c][i] = 0;
+      } else {
+        output[0][i] = ((left + right) / 2) * OUTPUT_GAIN;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('algorithmic-reverb-processor', AlgorithmicReverbProcessor);
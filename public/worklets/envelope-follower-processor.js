@@ -0,0 +1,51 @@
+// Envelope follower for AudioWorklet
+// Outputs the level of its input (the peak of all channels) as a mono control
+// signal from 0 to 1, rising with the attack time and falling with the release time.
+class EnvelopeFollowerProcessor extends AudioWorkletProcessor {
+  // Times in seconds, read once per block
+  static get parameterDescriptors() {
+    return [
+      { name: "attack", defaultValue: 0.01, minValue: 0.001, maxValue: 1, automationRate: "k-rate" },
+      { name: "release", defaultValue: 0.2, minValue: 0.001, maxValue: 2, automationRate: "k-rate" }
+    ];
+  }
+
+  constructor(options) {
+    super(options);
+    this.level = 0;
+  }
+
+  // One-pole smoothing coefficient for a time constant in seconds
+  coefficient(time) {
+    return 1 - Math.exp(-1 / (time * sampleRate));
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+
+    if (!output || !output[0]) {
+      return true;
+    }
+
+    const attack = this.coefficient(parameters.attack[0]);
+    const release = this.coefficient(parameters.release[0]);
+    const blockSize = output[0].length;
+
+    for (let i = 0; i < blockSize; i++) {
+      let peak = 0;
+      for (let c = 0; c < input.length; c++) {
+        peak = Math.max(peak, Math.abs(input[c][i]));
+      }
+
+      this.level += (peak - this.level) * (peak > this.level ? attack : release);
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = this.level;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('envelope-follower-processor', EnvelopeFollowerProcessor);
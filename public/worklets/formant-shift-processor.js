@@ -1,64 +1,158 @@
 // Formant shift processor for AudioWorklet
+import { FFT, createHannWindow, getStftLatency } from "./fft.js";
+
+const OVERLAP = 4;
+
+// Refinement passes of the true-envelope estimate
+const ENVELOPE_ITERATIONS = 4;
+
+// Largest boost applied to a bin, so warping a formant into a spectral valley
+// doesn't blow up noise
+const MAX_GAIN = 32;
+
+// Cepstral formant shifter.
+// Each STFT frame's spectral envelope is estimated from the liftered real
+// cepstrum, then the spectrum is multiplied by warpedEnvelope / envelope.
+// The harmonics (and so the pitch) stay where they are while the formants
+// move by `formantRatio`.
+// Output is delayed by fftSize samples (see `latency`): a sample is output once
+// the last frame holding it has been overlap-added.
 class FormantShiftProcessor extends AudioWorkletProcessor {
+  // Read once per frame, at the sample where the frame is processed
+  static get parameterDescriptors() {
+    return [{ name: "shift", defaultValue: 0, minValue: -2, maxValue: 2 }];
+  }
+
   constructor(options) {
     super(options);
     this.shift = 0; // -2 to 2
+    this.formantRatio = 1;
+
+    this.fftSize = options?.processorOptions?.fftSize || 1024;
+    this.hopSize = this.fftSize / OVERLAP;
+    this.latency = getStftLatency(this.fftSize);
+    // The input FIFO keeps the last fftSize - hop samples between frames
+    this.fifoStart = this.fftSize - this.hopSize;
+    // Keep quefrencies below ~1.7 ms, so voices up to ~600 Hz keep their
+    // harmonics out of the envelope
+    this.lifterOrder = Math.max(8, Math.floor(sampleRate / 600));
+
+    this.fft = new FFT(this.fftSize);
+    this.window = createHannWindow(this.fftSize);
+    this.fifoPosition = this.fifoStart;
+    this.re = new Float64Array(this.fftSize);
+    this.im = new Float64Array(this.fftSize);
+    this.cepstrumRe = new Float64Array(this.fftSize);
+    this.cepstrumIm = new Float64Array(this.fftSize);
+    this.logSpectrum = new Float64Array(this.fftSize / 2 + 1);
+    this.envelope = new Float64Array(this.fftSize / 2 + 1);
+    this.channels = [];
+  }
+
+  setShift(shift) {
+    if (shift === this.shift) return;
+    this.shift = shift;
+
+    // Formant frequencies scale by 1.5 per step
+    this.formantRatio = Math.pow(1.5, shift);
+  }
+
+  ensureChannels(count) {
+    while (this.channels.length < count) {
+      this.channels.push({
+        inputFifo: new Float32Array(this.fftSize),
+        outputFifo: new Float32Array(this.fftSize),
+        outputAccumulator: new Float64Array(this.fftSize * 2)
+      });
+    }
+  }
+
+  // Log spectral envelope of the current frame (this.re/this.im) into this.envelope.
+  // "True envelope" estimation: the liftered cepstrum is refitted to
+  // max(log spectrum, previous envelope) so it rides on the harmonic peaks
+  // instead of averaging them with the valleys in between.
+  estimateEnvelope() {
+    const { fftSize, cepstrumRe, cepstrumIm, envelope, logSpectrum } = this;
+    const bins = fftSize / 2 + 1;
+
+    for (let k = 0; k < bins; k++) {
+      logSpectrum[k] = Math.log(Math.hypot(this.re[k], this.im[k]) + 1e-9);
+      envelope[k] = -Infinity;
+    }
+
+    for (let iteration = 0; iteration < ENVELOPE_ITERATIONS; iteration++) {
+      // Real cepstrum of the current target
+      for (let k = 0; k < bins; k++) {
+        cepstrumRe[k] = Math.max(logSpectrum[k], envelope[k]);
+        cepstrumIm[k] = 0;
+      }
+      for (let k = bins; k < fftSize; k++) {
+        cepstrumRe[k] = cepstrumRe[fftSize - k];
+        cepstrumIm[k] = 0;
+      }
+      this.fft.inverse(cepstrumRe, cepstrumIm);
 
-    // Formant filter banks
-    this.formantFilters = [
-      { frequency: 500, Q: 10, gain: 1 },   // First formant
-      { frequency: 1500, Q: 8, gain: 0.7 }, // Second formant
-      { frequency: 2500, Q: 6, gain: 0.4 }  // Third formant
-    ];
-
-    // State variables for biquad filters
-    this.x1 = new Float32Array(3);
-    this.x2 = new Float32Array(3);
-    this.y1 = new Float32Array(3);
-    this.y2 = new Float32Array(3);
-
-    this.port.onmessage = (event) => {
-      if (event.data.shift !== undefined) {
-        this.shift = Math.max(-2, Math.min(2, event.data.shift));
-
-        // Update formant frequencies based on shift
-        this.formantFilters[0].frequency = 500 * Math.pow(1.5, this.shift);
-        this.formantFilters[1].frequency = 1500 * Math.pow(1.5, this.shift);
-        this.formantFilters[2].frequency = 2500 * Math.pow(1.5, this.shift);
+      // Low-quefrency lifter (symmetric), then back to a smoothed log spectrum
+      for (let n = this.lifterOrder; n <= fftSize - this.lifterOrder; n++) {
+        cepstrumRe[n] = 0;
       }
-    };
+      cepstrumIm.fill(0);
+      this.fft.forward(cepstrumRe, cepstrumIm);
+
+      for (let k = 0; k < bins; k++) {
+        envelope[k] = cepstrumRe[k];
+      }
+    }
   }
 
-  // Biquad filter implementation with state variables
-  applyFilter(sample, filter, filterIndex) {
-    const w0 = 2 * Math.PI * filter.frequency / sampleRate;
-    const alpha = Math.sin(w0) / (2 * filter.Q);
-
-    const b0 = (1 + alpha) * filter.gain;
-    const b1 = -2 * Math.cos(w0) * filter.gain;
-    const b2 = (1 - alpha) * filter.gain;
-    const a0 = 1 + alpha;
-    const a1 = -2 * Math.cos(w0);
-    const a2 = 1 - alpha;
-
-    // Normalize coefficients
-    const b0_norm = b0 / a0;
-    const b1_norm = b1 / a0;
-    const b2_norm = b2 / a0;
-    const a1_norm = a1 / a0;
-    const a2_norm = a2 / a0;
-
-    // Apply filter with state variables (direct form II)
-    const result = b0_norm * sample + b1_norm * this.x1[filterIndex] + b2_norm * this.x2[filterIndex]
-                  - a1_norm * this.y1[filterIndex] - a2_norm * this.y2[filterIndex];
-    
-    // Update state variables
-    this.x2[filterIndex] = this.x1[filterIndex];
-    this.x1[filterIndex] = sample;
-    this.y2[filterIndex] = this.y1[filterIndex];
-    this.y1[filterIndex] = result;
-    
-    return result;
+  processFrame(channel) {
+    const { fftSize, re, im, envelope } = this;
+    const bins = fftSize / 2 + 1;
+
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = channel.inputFifo[i] * this.window[i];
+      im[i] = 0;
+    }
+    this.fft.forward(re, im);
+
+    if (this.formantRatio !== 1) {
+      this.estimateEnvelope();
+
+      for (let k = 0; k < bins; k++) {
+        // Envelope value that moves to bin k after warping
+        const source = Math.min(k / this.formantRatio, bins - 1);
+        const index = Math.floor(source);
+        const fraction = source - index;
+        const next = Math.min(index + 1, bins - 1);
+        const warped = envelope[index] * (1 - fraction) + envelope[next] * fraction;
+
+        const gain = Math.min(MAX_GAIN, Math.exp(warped - envelope[k]));
+        re[k] *= gain;
+        im[k] *= gain;
+      }
+    }
+
+    // Conjugate-symmetric half, then back to the time domain
+    for (let k = bins; k < fftSize; k++) {
+      re[k] = re[fftSize - k];
+      im[k] = -im[fftSize - k];
+    }
+    this.fft.inverse(re, im);
+
+    // Overlap-add; a squared Hann window sums to 3/8 * overlap
+    const gain = 8 / (3 * OVERLAP);
+    for (let i = 0; i < fftSize; i++) {
+      channel.outputAccumulator[i] += re[i] * this.window[i] * gain;
+    }
+
+    for (let i = 0; i < this.hopSize; i++) {
+      channel.outputFifo[i] = channel.outputAccumulator[i];
+    }
+
+    // Shift the accumulator and the input window by one hop
+    channel.outputAccumulator.copyWithin(0, this.hopSize);
+    channel.outputAccumulator.fill(0, channel.outputAccumulator.length - this.hopSize);
+    channel.inputFifo.copyWithin(0, this.hopSize);
   }
 
   process(inputs, outputs, parameters) {
@@ -69,25 +163,31 @@ class FormantShiftProcessor extends AudioWorkletProcessor {
       return true;
     }
 
-    const inputChannel = input[0];
-    const outputChannel = output[0];
-
-    // Process each sample
-    for (let i = 0; i < inputChannel.length; i++) {
-      let sample = inputChannel[i];
-
-      // Apply formant filters
-      let filteredSample = 0;
-      for (let j = 0; j < this.formantFilters.length; j++) {
-        filteredSample += this.applyFilter(sample, this.formantFilters[j], j);
+    const channelCount = Math.min(input.length, output.length);
+    this.ensureChannels(channelCount);
+
+    const shifts = parameters.shift;
+    const blockSize = input[0].length;
+    for (let i = 0; i < blockSize; i++) {
+      const readPosition = this.fifoPosition - this.fifoStart;
+      for (let c = 0; c < channelCount; c++) {
+        const channel = this.channels[c];
+        channel.inputFifo[this.fifoPosition] = input[c][i];
+        output[c][i] = channel.outputFifo[readPosition];
+      }
+      this.fifoPosition++;
+
+      if (this.fifoPosition >= this.fftSize) {
+        this.fifoPosition = this.fifoStart;
+        this.setShift(shifts.length > 1 ? shifts[i] : shifts[0]);
+        for (let c = 0; c < channelCount; c++) {
+          this.processFrame(this.channels[c]);
+        }
       }
-
-      // Mix original and filtered signal
-      outputChannel[i] = sample * 0.3 + filteredSample * 0.7;
     }
 
     return true;
   }
 }
 
-registerProcessor('formant-shift-processor', FormantShiftProcessor);
\ No newline at end of file
+registerProcessor('formant-shift-processor', FormantShiftProcessor);
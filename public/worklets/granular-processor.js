@@ -1,28 +1,78 @@
 // Granular synthesis processor for AudioWorklet
 class GranularProcessor extends AudioWorkletProcessor {
-  constructor() {
-    super();
-    this.grainSize = 4096; // Default grain size
+  // Read once per block, when grains are spawned (grainSize in seconds)
+  static get parameterDescriptors() {
+    return [
+      { name: "grainSize", defaultValue: 0.1, minValue: 0.01, maxValue: 0.5, automationRate: "k-rate" },
+      { name: "scatter", defaultValue: 0.2, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "density", defaultValue: 0.8, minValue: 0, maxValue: 1, automationRate: "k-rate" }
+    ];
+  }
+
+  constructor(options) {
+    super(options);
+    this.grainSize = Math.floor(0.1 * sampleRate); // In samples
     this.scatter = 0.2;
     this.density = 0.8;
-    this.buffer = new Float32Array(32768); // Buffer for grains
+    this.bufferLength = 32768; // Buffer for grains
+    this.buffers = []; // One buffer per channel
     this.bufferFill = 0;
-    this.grains = [];
-    this.sampleRate = 44100;
+    // Linked: one grain cloud read from every channel; unlinked: one cloud per channel
+    this.linked = options?.processorOptions?.linked ?? true;
+    this.grainSets = [];
+    this.sampleRate = sampleRate;
     
     this.port.onmessage = (event) => {
-      if (event.data.grainSize !== undefined) {
-        this.grainSize = Math.floor(event.data.grainSize * this.sampleRate);
-      }
-      if (event.data.scatter !== undefined) {
-        this.scatter = event.data.scatter;
-      }
-      if (event.data.density !== undefined) {
-        this.density = event.data.density;
+      if (event.data.linked !== undefined) {
+        this.linked = event.data.linked;
       }
     };
   }
   
+  // Create new grains based on density
+  spawnGrain(grains) {
+    if (Math.random() < this.density * 0.1) {
+      const startPos = Math.floor(Math.random() * (this.bufferLength - this.grainSize));
+      const endPos = startPos + this.grainSize;
+      const offset = Math.floor(Math.random() * this.scatter * this.sampleRate);
+      
+      // Each grain keeps its size, so changing it doesn't cut grains in flight
+      grains.push({
+        start: startPos,
+        end: endPos,
+        size: this.grainSize,
+        pos: 0,
+        offset: offset
+      });
+    }
+  }
+  
+  // Add the active grains, read from one channel's buffer, to its output
+  renderGrains(grains, buffer, outputChannel) {
+    for (let i = 0; i < grains.length; i++) {
+      const grain = grains[i];
+      
+      for (let j = 0; j < outputChannel.length && grain.pos + j < grain.size; j++) {
+        const pos = grain.pos + j;
+        // Apply envelope (simple triangle)
+        const envelope = 1 - Math.abs(2 * pos / grain.size - 1);
+        const bufferPos = (grain.start + pos) % this.bufferLength;
+        
+        // Add grain sample to output
+        outputChannel[(j + grain.offset) % outputChannel.length] += 
+          buffer[bufferPos] * envelope * 0.5;
+      }
+    }
+  }
+  
+  // Advance the grains by one block and remove completed ones
+  advanceGrains(grains, blockSize) {
+    for (const grain of grains) {
+      grain.pos = Math.min(grain.pos + blockSize, grain.size);
+    }
+    return grains.filter(grain => grain.pos < grain.size);
+  }
+  
   process(inputs, outputs, parameters) {
     const input = inputs[0];
     const output = outputs[0];
@@ -31,58 +81,47 @@ class GranularProcessor extends AudioWorkletProcessor {
       return true;
     }
     
-    const inputChannel = input[0];
-    const outputChannel = output[0];
-    
-    // Add input to buffer
-    for (let i = 0; i < inputChannel.length; i++) {
-      this.buffer[this.bufferFill] = inputChannel[i];
-      this.bufferFill = (this.bufferFill + 1) % this.buffer.length;
+    const channelCount = Math.min(input.length, output.length);
+    while (this.buffers.length < channelCount) {
+      this.buffers.push(new Float32Array(this.bufferLength));
+      this.grainSets.push([]);
     }
     
-    // Clear output
-    for (let i = 0; i < outputChannel.length; i++) {
-      outputChannel[i] = 0;
+    this.grainSize = Math.floor(parameters.grainSize[0] * this.sampleRate);
+    this.scatter = parameters.scatter[0];
+    this.density = parameters.density[0];
+    
+    // Add input to buffers
+    const blockSize = input[0].length;
+    for (let i = 0; i < blockSize; i++) {
+      for (let c = 0; c < channelCount; c++) {
+        this.buffers[c][this.bufferFill] = input[c][i];
+      }
+      this.bufferFill = (this.bufferFill + 1) % this.bufferLength;
     }
     
-    // Create new grains based on density
-    if (Math.random() < this.density * 0.1) {
-      const startPos = Math.floor(Math.random() * (this.buffer.length - this.grainSize));
-      const endPos = startPos + this.grainSize;
-      const offset = Math.floor(Math.random() * this.scatter * this.sampleRate);
-      
-      this.grains.push({
-        start: startPos,
-        end: endPos,
-        pos: 0,
-        offset: offset
-      });
+    // Clear output
+    for (let c = 0; c < channelCount; c++) {
+      output[c].fill(0);
     }
     
-    // Process active grains
-    for (let i = 0; i < this.grains.length; i++) {
-      const grain = this.grains[i];
-      
-      for (let j = 0; j < outputChannel.length; j++) {
-        if (grain.pos < this.grainSize) {
-          // Apply envelope (simple triangle)
-          const envelope = 1 - Math.abs(2 * grain.pos / this.grainSize - 1);
-          const bufferPos = (grain.start + grain.pos) % this.buffer.length;
-          
-          // Add grain sample to output
-          outputChannel[(j + grain.offset) % outputChannel.length] += 
-            this.buffer[bufferPos] * envelope * 0.5;
-          
-          grain.pos++;
-        }
+    if (this.linked) {
+      // Same grain positions on every channel keeps the stereo image
+      this.spawnGrain(this.grainSets[0]);
+      for (let c = 0; c < channelCount; c++) {
+        this.renderGrains(this.grainSets[0], this.buffers[c], output[c]);
+      }
+      this.grainSets[0] = this.advanceGrains(this.grainSets[0], blockSize);
+    } else {
+      for (let c = 0; c < channelCount; c++) {
+        this.spawnGrain(this.grainSets[c]);
+        this.renderGrains(this.grainSets[c], this.buffers[c], output[c]);
+        this.grainSets[c] = this.advanceGrains(this.grainSets[c], blockSize);
       }
     }
     
-    // Remove completed grains
-    this.grains = this.grains.filter(grain => grain.pos < this.grainSize);
-    
     return true;
   }
 }
 
-registerProcessor('granular-processor', GranularProcessor);
\ No newline at end of file
+registerProcessor('granular-processor', GranularProcessor);
@@ -0,0 +1,128 @@
+// Harmony tracker processor for AudioWorklet
+import { detectPitch } from "./yin.js";
+
+// Follows the pitch of the voice and outputs, on one channel per harmony voice,
+// the pitch ratio that voice needs to land on the scale note `degree` steps from
+// the sung note, minus 1. The harmonizer adds it to the pitchRatio param (left
+// at 1) of each voice's pitch shifter. Between notes the last ratios are held.
+
+const BUFFER_SIZE = 2048;
+const HOP_SIZE = 512;
+
+const SCALES = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10]
+};
+
+class HarmonyTrackerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super(options);
+    this.buffer = new Float32Array(BUFFER_SIZE);
+    this.frame = new Float32Array(BUFFER_SIZE);
+    this.difference = new Float32Array(BUFFER_SIZE / 2);
+    this.bufferIndex = 0;
+    this.hopCounter = 0;
+
+    this.active = true;
+    this.key = 0;
+    this.scale = SCALES.major;
+    this.voices = []; // { degree, detune } per output channel
+    // Last detected note relative to the key (the root until something is sung)
+    this.note = 0;
+    this.ratios = new Float32Array(0);
+
+    this.port.onmessage = (event) => {
+      const data = event.data;
+      if (data.active !== undefined) {
+        this.active = data.active;
+      }
+      if (data.key !== undefined) {
+        this.key = data.key;
+      }
+      if (data.scale) {
+        this.scale = SCALES[data.scale] || SCALES.major;
+      }
+      if (data.voices) {
+        this.voices = data.voices;
+      }
+      this.updateRatios();
+    };
+  }
+
+  // Ratio of every voice for the current note
+  updateRatios() {
+    if (this.ratios.length !== this.voices.length) {
+      this.ratios = new Float32Array(this.voices.length);
+    }
+
+    // Nearest note of the scale, counted in scale steps from the root
+    const steps = this.scale.length;
+    const octave = Math.floor(this.note / 12);
+    let nearestStep = 0;
+    let minDistance = Infinity;
+    for (let o = octave - 1; o <= octave + 1; o++) {
+      for (let s = 0; s < steps; s++) {
+        const distance = Math.abs(this.note - (o * 12 + this.scale[s]));
+        if (distance < minDistance) {
+          minDistance = distance;
+          nearestStep = o * steps + s;
+        }
+      }
+    }
+
+    // The harmony lands on the exact scale note, even when the voice is off pitch
+    for (let v = 0; v < this.voices.length; v++) {
+      const step = nearestStep + this.voices[v].degree;
+      const target = Math.floor(step / steps) * 12 + this.scale[((step % steps) + steps) % steps];
+      const semitones = target - this.note + this.voices[v].detune / 100;
+      this.ratios[v] = Math.min(4, Math.max(0.25, Math.pow(2, semitones / 12)));
+    }
+  }
+
+  detect() {
+    // Unroll the ring buffer so the frame is in time order
+    for (let i = 0; i < BUFFER_SIZE; i++) {
+      this.frame[i] = this.buffer[(this.bufferIndex + i) % BUFFER_SIZE];
+    }
+
+    const frequency = detectPitch(this.frame, this.difference, sampleRate);
+    if (frequency > 0) {
+      this.note = 69 + 12 * Math.log2(frequency / 440) - this.key;
+      this.updateRatios();
+    }
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+
+    if (!output || !output[0]) {
+      return true;
+    }
+
+    const blockSize = output[0].length;
+    if (this.active && input && input.length > 0) {
+      for (let i = 0; i < blockSize; i++) {
+        let mix = 0;
+        for (let c = 0; c < input.length; c++) {
+          mix += input[c][i];
+        }
+        this.buffer[this.bufferIndex] = mix / input.length;
+        this.bufferIndex = (this.bufferIndex + 1) % BUFFER_SIZE;
+
+        if (++this.hopCounter >= HOP_SIZE) {
+          this.hopCounter = 0;
+          this.detect();
+        }
+      }
+    }
+
+    for (let c = 0; c < output.length; c++) {
+      output[c].fill(this.active && c < this.ratios.length ? this.ratios[c] - 1 : 0);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('harmony-tracker-processor', HarmonyTrackerProcessor);
@@ -0,0 +1,197 @@
+// Noise reduction processor for AudioWorklet
+import { FFT, createHannWindow } from "./fft.js";
+
+// Streaming STFT Wiener filter. Every bin is scaled by 1 - k * noise / power,
+// where noise is the learned profile (see lib/noise-reduction.ts) and k grows
+// with the sensitivity, floored at the reduction. The gains are smoothed across
+// neighbouring bins and held over time, which keeps "musical noise" (isolated
+// bins flickering on and off) down. The channels share one set of gains.
+// Output is delayed by FFT_SIZE samples.
+
+const FFT_SIZE = 2048;
+const OVERLAP = 4;
+const HOP_SIZE = FFT_SIZE / OVERLAP;
+
+// The profile holds noise power at fixed frequencies, PROFILE_SPACING Hz apart,
+// so it applies at any sample rate
+const PROFILE_SPACING = 93.75;
+
+// Oversubtraction at sensitivity 0 and 1
+const MIN_OVERSUBTRACTION = 1;
+const MAX_OVERSUBTRACTION = 4;
+// Bins on each side averaged into a bin's gain
+const GAIN_SPREAD = 2;
+
+class NoiseReductionProcessor extends AudioWorkletProcessor {
+  // Read once per frame. reduction in dB; smoothing holds falling gains.
+  static get parameterDescriptors() {
+    return [
+      { name: "reduction", defaultValue: 12, minValue: 0, maxValue: 40, automationRate: "k-rate" },
+      { name: "sensitivity", defaultValue: 0.5, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "smoothing", defaultValue: 0.5, minValue: 0, maxValue: 1, automationRate: "k-rate" }
+    ];
+  }
+
+  constructor(options) {
+    super(options);
+    const bins = FFT_SIZE / 2 + 1;
+    this.fft = new FFT(FFT_SIZE);
+    this.window = createHannWindow(FFT_SIZE);
+    this.re = new Float64Array(FFT_SIZE);
+    this.im = new Float64Array(FFT_SIZE);
+    this.power = new Float64Array(bins);
+    this.rawGains = new Float64Array(bins);
+    this.gains = new Float64Array(bins).fill(1);
+    this.noise = new Float64Array(bins);
+    this.fifoPosition = FFT_SIZE - HOP_SIZE;
+    this.channels = [];
+    this.spectra = [];
+
+    this.setProfile(options?.processorOptions?.profile ?? []);
+    this.port.onmessage = (event) => {
+      if (event.data.profile) {
+        this.setProfile(event.data.profile);
+      }
+    };
+  }
+
+  // Noise power of every bin, interpolated from the profile; none without one
+  setProfile(profile) {
+    this.hasProfile = profile.length > 0;
+    for (let k = 0; k < this.noise.length; k++) {
+      const position = Math.min((k * sampleRate) / FFT_SIZE / PROFILE_SPACING, profile.length - 1);
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, profile.length - 1);
+      this.noise[k] = this.hasProfile ? profile[index] + (profile[next] - profile[index]) * (position - index) : 0;
+    }
+  }
+
+  ensureChannels(count) {
+    while (this.channels.length < count) {
+      this.channels.push({
+        inputFifo: new Float32Array(FFT_SIZE),
+        outputFifo: new Float32Array(FFT_SIZE),
+        outputAccumulator: new Float64Array(FFT_SIZE * 2)
+      });
+      this.spectra.push({ re: new Float64Array(FFT_SIZE / 2 + 1), im: new Float64Array(FFT_SIZE / 2 + 1) });
+    }
+  }
+
+  updateGains(reduction, sensitivity, smoothing) {
+    const bins = this.gains.length;
+    if (!this.hasProfile) {
+      this.gains.fill(1);
+      return;
+    }
+
+    const floor = Math.pow(10, -reduction / 20);
+    const oversubtraction = MIN_OVERSUBTRACTION + (MAX_OVERSUBTRACTION - MIN_OVERSUBTRACTION) * sensitivity;
+    for (let k = 0; k < bins; k++) {
+      this.rawGains[k] = Math.max(0, 1 - (oversubtraction * this.noise[k]) / (this.power[k] + 1e-12));
+    }
+
+    // Average over neighbouring bins, then rise at once and fall slowly
+    for (let k = 0; k < bins; k++) {
+      let sum = 0;
+      let count = 0;
+      for (let j = Math.max(0, k - GAIN_SPREAD); j <= Math.min(bins - 1, k + GAIN_SPREAD); j++) {
+        sum += this.rawGains[j];
+        count++;
+      }
+      const target = Math.max(floor, sum / count);
+      this.gains[k] = target > this.gains[k] ? target : this.gains[k] * smoothing + target * (1 - smoothing);
+    }
+  }
+
+  processFrame(channelCount, reduction, sensitivity, smoothing) {
+    const { re, im } = this;
+    const bins = FFT_SIZE / 2 + 1;
+
+    // Analyse every channel; the gains follow their average power
+    this.power.fill(0);
+    for (let c = 0; c < channelCount; c++) {
+      const channel = this.channels[c];
+      for (let i = 0; i < FFT_SIZE; i++) {
+        re[i] = channel.inputFifo[i] * this.window[i];
+        im[i] = 0;
+      }
+      this.fft.forward(re, im);
+
+      const spectrum = this.spectra[c];
+      for (let k = 0; k < bins; k++) {
+        spectrum.re[k] = re[k];
+        spectrum.im[k] = im[k];
+        this.power[k] += (re[k] * re[k] + im[k] * im[k]) / channelCount;
+      }
+    }
+
+    this.updateGains(reduction, sensitivity, smoothing);
+
+    // Overlap-add; a squared Hann window sums to 3/8 * overlap
+    const gain = 8 / (3 * OVERLAP);
+    for (let c = 0; c < channelCount; c++) {
+      const channel = this.channels[c];
+      const spectrum = this.spectra[c];
+      for (let k = 0; k < bins; k++) {
+        re[k] = spectrum.re[k] * this.gains[k];
+        im[k] = spectrum.im[k] * this.gains[k];
+      }
+      for (let k = bins; k < FFT_SIZE; k++) {
+        re[k] = re[FFT_SIZE - k];
+        im[k] = -im[FFT_SIZE - k];
+      }
+      this.fft.inverse(re, im);
+
+      for (let i = 0; i < FFT_SIZE; i++) {
+        channel.outputAccumulator[i] += re[i] * this.window[i] * gain;
+      }
+      for (let i = 0; i < HOP_SIZE; i++) {
+        channel.outputFifo[i] = channel.outputAccumulator[i];
+      }
+
+      // Shift the accumulator and the input window by one hop
+      channel.outputAccumulator.copyWithin(0, HOP_SIZE);
+      channel.outputAccumulator.fill(0, channel.outputAccumulator.length - HOP_SIZE);
+      channel.inputFifo.copyWithin(0, HOP_SIZE);
+    }
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+
+    if (!input || !input[0] || !output || !output[0]) {
+      return true;
+    }
+
+    const channelCount = Math.min(input.length, output.length);
+    this.ensureChannels(channelCount);
+
+    // Input fills the last hop of the frame; the previous frame's output is read meanwhile
+    const fifoStart = FFT_SIZE - HOP_SIZE;
+    const blockSize = input[0].length;
+    for (let i = 0; i < blockSize; i++) {
+      const readPosition = this.fifoPosition - fifoStart;
+      for (let c = 0; c < channelCount; c++) {
+        const channel = this.channels[c];
+        channel.inputFifo[this.fifoPosition] = input[c][i];
+        output[c][i] = channel.outputFifo[readPosition];
+      }
+      this.fifoPosition++;
+
+      if (this.fifoPosition >= FFT_SIZE) {
+        this.fifoPosition = fifoStart;
+        this.processFrame(
+          channelCount,
+          parameters.reduction[0],
+          parameters.sensitivity[0],
+          parameters.smoothing[0]
+        );
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('noise-reduction-processor', NoiseReductionProcessor);
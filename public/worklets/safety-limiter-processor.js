@@ -0,0 +1,181 @@
+// Hearing-safety limiter for AudioWorklet
+// The last stage of the live graph, so that no effect setting can make playback
+// painfully loud. Three stages, the same gain on every channel:
+// - loudness: turns the sound down slowly while its level (RMS over ~400 ms)
+//   stays above the maximum loudness
+// - runaway feedback: sustained output near full scale, which speech and music
+//   almost never produce but a feedback loop blowing up does, is ducked hard
+//   until it stops
+// - brickwall: a short lookahead limiter, then a hard clip, keeps every sample
+//   under the ceiling
+// Posts { ducking } when the feedback ducking starts and stops.
+// Output is delayed by LOOKAHEAD samples.
+
+const LOOKAHEAD = 64;
+
+// Loudness: level window, and how fast the gain follows it down and back up
+const LEVEL_TIME = 0.4;
+const LOUDNESS_ATTACK = 0.05;
+const LOUDNESS_RELEASE = 1;
+
+// Runaway feedback: a level (RMS over ~50 ms) above HOT_LEVEL for HOT_TIME seconds
+const HOT_LEVEL = Math.pow(10, -6 / 20);
+const HOT_LEVEL_TIME = 0.05;
+const HOT_TIME = 0.5;
+const DUCK_GAIN = Math.pow(10, -24 / 20);
+// The ducking holds this long after the level drops, then recovers over DUCK_RELEASE
+const DUCK_HOLD = 1;
+const DUCK_RELEASE = 2;
+
+// Brickwall release
+const LIMITER_RELEASE = 0.05;
+
+class SafetyLimiterProcessor extends AudioWorkletProcessor {
+  // Read once per block. ceiling and maxLoudness in dBFS; the others are switches.
+  static get parameterDescriptors() {
+    return [
+      { name: "enabled", defaultValue: 1, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "ceiling", defaultValue: -3, minValue: -24, maxValue: 0, automationRate: "k-rate" },
+      { name: "maxLoudness", defaultValue: -14, minValue: -40, maxValue: 0, automationRate: "k-rate" },
+      { name: "feedbackProtection", defaultValue: 1, minValue: 0, maxValue: 1, automationRate: "k-rate" }
+    ];
+  }
+
+  constructor(options) {
+    super(options);
+    this.delays = [];
+    this.needed = new Float32Array(LOOKAHEAD + 1).fill(1);
+    this.writeIndex = 0;
+
+    this.power = 0;
+    this.hotPower = 0;
+    this.loudnessGain = 1;
+
+    this.hotSamples = 0;
+    this.holdSamples = 0;
+    this.duckGain = 1;
+    this.ducking = false;
+
+    this.limiterGain = 1;
+
+    this.levelCoefficient = this.coefficient(LEVEL_TIME);
+    this.hotCoefficient = this.coefficient(HOT_LEVEL_TIME);
+    this.loudnessAttack = this.coefficient(LOUDNESS_ATTACK);
+    this.loudnessRelease = this.coefficient(LOUDNESS_RELEASE);
+    this.duckRelease = this.coefficient(DUCK_RELEASE);
+    this.limiterRelease = this.coefficient(LIMITER_RELEASE);
+    // Close enough to the lowest gain in the window by the time its peak is output
+    this.limiterAttack = 1 - Math.exp(-5 / LOOKAHEAD);
+  }
+
+  // One-pole smoothing coefficient for a time constant in seconds
+  coefficient(time) {
+    return 1 - Math.exp(-1 / (time * sampleRate));
+  }
+
+  setDucking(ducking) {
+    if (ducking === this.ducking) return;
+    this.ducking = ducking;
+    this.port.postMessage({ ducking });
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+
+    if (!output || !output[0]) {
+      return true;
+    }
+
+    const blockSize = output[0].length;
+    if (!input || input.length === 0) {
+      for (let c = 0; c < output.length; c++) {
+        output[c].fill(0);
+      }
+      return true;
+    }
+
+    const channelCount = Math.min(input.length, output.length);
+    if (parameters.enabled[0] < 0.5) {
+      for (let c = 0; c < channelCount; c++) {
+        output[c].set(input[c]);
+      }
+      this.setDucking(false);
+      return true;
+    }
+
+    while (this.delays.length < channelCount) {
+      this.delays.push(new Float32Array(LOOKAHEAD + 1));
+    }
+
+    const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+    const maxLoudness = Math.pow(10, parameters.maxLoudness[0] / 20);
+    const feedbackProtection = parameters.feedbackProtection[0] >= 0.5;
+    const hotLimit = HOT_TIME * sampleRate;
+    const holdLimit = DUCK_HOLD * sampleRate;
+
+    for (let i = 0; i < blockSize; i++) {
+      // Level of the incoming sample, over all channels
+      let power = 0;
+      for (let c = 0; c < channelCount; c++) {
+        power += (input[c][i] * input[c][i]) / channelCount;
+      }
+      this.power += (power - this.power) * this.levelCoefficient;
+      this.hotPower += (power - this.hotPower) * this.hotCoefficient;
+
+      // Loudness: the gain that brings the level down to the maximum
+      const level = Math.sqrt(this.power);
+      const loudnessTarget = level > maxLoudness ? maxLoudness / level : 1;
+      const loudnessRate = loudnessTarget < this.loudnessGain ? this.loudnessAttack : this.loudnessRelease;
+      this.loudnessGain += (loudnessTarget - this.loudnessGain) * loudnessRate;
+
+      // Runaway feedback: duck at once when the level has been hot too long
+      const hot = feedbackProtection && Math.sqrt(this.hotPower) > HOT_LEVEL;
+      this.hotSamples = hot ? this.hotSamples + 1 : 0;
+      if (this.hotSamples > hotLimit) {
+        this.duckGain = DUCK_GAIN;
+        this.holdSamples = holdLimit;
+        this.setDucking(true);
+      } else if (this.holdSamples > 0) {
+        this.holdSamples--;
+      } else {
+        this.duckGain += (1 - this.duckGain) * this.duckRelease;
+        if (this.duckGain > 0.99) this.setDucking(false);
+      }
+
+      // Gain before the brickwall, and the brickwall gain this sample will need
+      const gain = this.loudnessGain * this.duckGain;
+      let peak = 0;
+      for (let c = 0; c < channelCount; c++) {
+        const sample = input[c][i] * gain;
+        this.delays[c][this.writeIndex] = sample;
+        peak = Math.max(peak, Math.abs(sample));
+      }
+      this.needed[this.writeIndex] = peak > ceiling ? ceiling / peak : 1;
+
+      // Follow the lowest gain needed in the lookahead: down fast, back up with the release
+      let lowest = 1;
+      for (let k = 0; k <= LOOKAHEAD; k++) {
+        lowest = Math.min(lowest, this.needed[k]);
+      }
+      const limiterRate = lowest < this.limiterGain ? this.limiterAttack : this.limiterRelease;
+      this.limiterGain += (lowest - this.limiterGain) * limiterRate;
+
+      // Output the delayed sample, clipped in case the gain hasn't quite caught up
+      const readIndex = (this.writeIndex + 1) % (LOOKAHEAD + 1);
+      for (let c = 0; c < channelCount; c++) {
+        const sample = this.delays[c][readIndex] * this.limiterGain;
+        output[c][i] = Math.max(-ceiling, Math.min(ceiling, sample));
+      }
+      this.writeIndex = readIndex;
+    }
+
+    for (let c = channelCount; c < output.length; c++) {
+      output[c].fill(0);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('safety-limiter-processor', SafetyLimiterProcessor);